@@ -3,7 +3,9 @@ import { AppLayout } from './components/AppLayout'
 import { DashboardPage } from './components/DashboardPage'
 import { ProjectDetailPage } from './components/ProjectDetailPage'
 import { ProjectManager } from './components/ProjectManager'
-import { getProjectList } from './lib/local-storage'
+import { SyncStatusIndicator } from './components/SyncStatusIndicator'
+import { getProjectList, loadFromLocalStorage } from './lib/local-storage'
+import { useProjectSync } from './hooks/use-project-sync'
 import type { ProjectConfig, BarEntry } from './types'
 import './App.css'
 
@@ -36,6 +38,18 @@ function App() {
     config: ProjectConfig;
     bars: BarEntry[];
   } | null>(null);
+  // Bumped when a sync changes stored projects, to reload what is shown
+  const [storageVersion, setStorageVersion] = useState(0);
+  const [projectVersion, setProjectVersion] = useState(0);
+
+  const syncState = useProjectSync(projectIds => {
+    setStorageVersion(version => version + 1);
+    if (currentProject && projectIds.includes(currentProject.id)) {
+      const reloaded = loadFromLocalStorage(currentProject.id);
+      setCurrentProject(reloaded.success ? { id: currentProject.id, ...reloaded.data! } : null);
+      setProjectVersion(version => version + 1);
+    }
+  });
 
   const handleProjectSelected = (projectId: string, config: ProjectConfig, bars: BarEntry[]) => {
     setCurrentProject({ id: projectId, config, bars });
@@ -51,22 +65,13 @@ function App() {
     setCurrentView('projects');
   };
 
+  // Functional updates: undo can change config and bars in one step
   const handleConfigUpdate = (config: ProjectConfig) => {
-    if (currentProject) {
-      setCurrentProject({
-        ...currentProject,
-        config,
-      });
-    }
+    setCurrentProject(project => project ? { ...project, config } : project);
   };
 
   const handleBarsUpdate = (bars: BarEntry[]) => {
-    if (currentProject) {
-      setCurrentProject({
-        ...currentProject,
-        bars,
-      });
-    }
+    setCurrentProject(project => project ? { ...project, bars } : project);
   };
 
   // Get available projects for header selector
@@ -80,6 +85,7 @@ function App() {
       case 'dashboard':
         return (
           <DashboardPage
+            key={storageVersion}
             onCreateProject={handleCreateProject}
             onOpenProject={handleProjectSelected}
           />
@@ -91,12 +97,14 @@ function App() {
         );
       
       case 'project-detail':
+        // The project was deleted by a sync
         if (!currentProject) {
           setCurrentView('dashboard');
           return null;
         }
         return (
           <ProjectDetailPage
+            key={`${currentProject.id}-${projectVersion}`}
             projectId={currentProject.id}
             initialConfig={currentProject.config}
             initialBars={currentProject.bars}
@@ -115,6 +123,16 @@ function App() {
       currentProject={currentProject}
       availableProjects={availableProjects}
       onBackToProjects={currentView === 'project-detail' ? handleBackToProjects : undefined}
+      syncStatus={
+        <SyncStatusIndicator
+          status={syncState.status}
+          conflicts={syncState.conflicts}
+          error={syncState.error}
+          lastSynced={syncState.lastSynced}
+          onSync={syncState.sync}
+          onResolve={syncState.resolve}
+        />
+      }
     >
       {renderContent()}
     </AppLayout>
@@ -17,6 +17,7 @@ interface AppLayoutProps {
   onBackToProjects?: () => void;
   onProjectChange?: (projectId: string) => void;
   onProjectSettings?: () => void;
+  syncStatus?: ReactNode;
 }
 
 export function AppLayout({
@@ -26,6 +27,7 @@ export function AppLayout({
   onBackToProjects,
   onProjectChange,
   onProjectSettings,
+  syncStatus,
 }: AppLayoutProps) {
   return (
     <div className="min-h-screen bg-background">
@@ -86,18 +88,21 @@ export function AppLayout({
               </div>
             )}
 
-            {/* Right side - Project settings */}
-            {currentProject && onProjectSettings && (
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={onProjectSettings}
-                className="flex items-center gap-2"
-              >
-                <Settings className="h-4 w-4" />
-                Settings
-              </Button>
-            )}
+            {/* Right side - Sync status and project settings */}
+            <div className="flex items-center gap-2">
+              {syncStatus}
+              {currentProject && onProjectSettings && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onProjectSettings}
+                  className="flex items-center gap-2"
+                >
+                  <Settings className="h-4 w-4" />
+                  Settings
+                </Button>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -11,42 +11,128 @@ import type {
   BBSMetadata, 
   ComponentBarEntry,
   BarMeasurements,
-  BarDirection
+  BarDirection,
+  ColumnFloor,
+  FootingColumn,
+  FootingGeometry,
+  FootingProfile,
+  PlanPoint,
+  SlabGridLayout,
+  SlabOpening,
+  StaircaseType,
+  WallType,
+  ColumnScheduleLayout,
+  ContinuousBeamLayout,
+  StirrupZone,
+  TieConfiguration,
+  TieDesign
 } from '@/types/component-types';
 import { 
-  DEVELOPMENT_LENGTH_TABLES,
   COMPONENT_COVERS, 
   BAR_TYPES,
-  FOOTING_TYPES
+  BOUNDARY_ELEMENT_BAR_TYPES,
+  FOOTING_TYPES,
+  PILE_BAR_TYPES,
+  RETAINING_WALL_BAR_TYPES,
+  STRAP_BEAM_BAR_TYPES,
+  WALL_TYPES
 } from '@/lib/constants';
 
 // ... (existing imports)
 
 
-import { 
-  calculateComponentBarEntry
-} from '@/lib/component-calculator';
+import { getComponentCalculationSettings } from '@/lib/component-calculator';
+import type { CodeProfile } from '@/types';
+import {
+  getDevelopmentLengthContext,
+  getDevelopmentLengthTable,
+  getDesignCode
+} from '@/lib/development-length';
 import { 
   calculateProjectTotal, 
   calculateBarMeasurementsAuto,
   calculateBarsPerMember,
-  calculateCutLengthByBarType
+  calculateComponentSheetEntry,
+  calculateCutLengthByBarType,
+  hasCalculatedBars
 } from '@/lib/enhanced-calculator';
+import {
+  TIE_CONFIGURATIONS,
+  designTies,
+  getTieSection,
+  isTieBarType
+} from '@/lib/tie-designer';
+import { getDefaultSpacingZones } from '@/lib/stirrup-zones';
+import { getPileDetails, isPileFooting } from '@/lib/pile-calculator';
+import { getDowelDiameter, getFootingColumns } from '@/lib/footing-calculator';
+import { getStaircaseDetails, getStaircasePlanLength, isStaircase } from '@/lib/staircase-calculator';
+import { getWallDetails, isRetainingWall } from '@/lib/wall-calculator';
+import {
+  applySlabOpenings,
+  getOpeningLabel,
+  isSlabOpeningBarType
+} from '@/lib/slab-openings';
+import {
+  applySlabOutline,
+  createSlabOutline,
+  getOutlineArea,
+  getOutlineBounds,
+  validateSlabOutline,
+  type OutlinePreset
+} from '@/lib/slab-outline';
+import { applySlabGrid } from '@/lib/slab-grid';
+import { SlabOutlinePreview } from './SlabOutlinePreview';
+import {
+  addContinuousSpan,
+  applyContinuousBeamLayout,
+  createContinuousBeamLayout,
+  isContinuousBeamBarType,
+  removeContinuousSpan
+} from '@/lib/continuous-beam';
+import {
+  addColumnFloor,
+  applyColumnSchedule,
+  createColumnSchedule,
+  generateColumnScheduleBars,
+  getFloorLabel,
+  isColumnScheduleBarType,
+  removeColumnFloor,
+  removeColumnSchedule
+} from '@/lib/column-schedule';
 import { TotalSteelWeight } from './TotalSteelWeight';
 import { ComponentFormulaTooltip } from './ComponentFormulaTooltip';
+import { ExcelImportDialog } from './ExcelImportDialog';
+import { SlabGridDialog } from './SlabGridDialog';
+import { StaircaseDiagram } from './StaircaseDiagram';
+
+// Bar types offered for a component; pile footings get pile and pile cap bars,
+// retaining walls stem and base bars
+function getBarTypes(component: ConcreteComponent): string[] {
+  if (isPileFooting(component)) return PILE_BAR_TYPES;
+  if (isRetainingWall(component)) return RETAINING_WALL_BAR_TYPES;
+  const barTypes = BAR_TYPES[component.componentType] ?? [];
+  if (component.componentType === 'WALL' && component.wall?.boundaryLength) {
+    return [...barTypes, ...BOUNDARY_ELEMENT_BAR_TYPES];
+  }
+  return component.componentType === 'FOOTING' && component.footing?.strapBeam
+    ? [...barTypes, ...STRAP_BEAM_BAR_TYPES]
+    : barTypes;
+}
 
 interface BBSSpreadsheetViewProps {
   components: ConcreteComponent[];
   metadata?: BBSMetadata;
   onComponentsChange: (components: ConcreteComponent[]) => void;
   onMetadataChange: (metadata: BBSMetadata) => void;
+  codeProfile?: CodeProfile | null;  // Lap splice rules when splice planning is on
 }
 
 export function BBSSpreadsheetView({
   components,
   metadata,
   onComponentsChange,
-  onMetadataChange
+  onMetadataChange,
+  codeProfile
 }: BBSSpreadsheetViewProps) {
   
   // Initialize metadata if missing
@@ -64,10 +150,37 @@ export function BBSSpreadsheetView({
 
   const handleMetadataChange = (field: keyof BBSMetadata, value: string) => {
     if (metadata) {
-      onMetadataChange({ ...metadata, [field]: value });
+      const nextMetadata = { ...metadata, [field]: value };
+      onMetadataChange(nextMetadata);
+      // Ld follows the grades, and with it every lap and anchorage
+      if (field === 'concreteGrade' || field === 'steelGrade') {
+        recalculateAll(relayoutAll(nextMetadata), nextMetadata);
+      }
     }
   };
 
+  const handleSplicePlanningChange = (enabled: boolean) => {
+    if (!metadata) return;
+    const nextMetadata = { ...metadata, splicePlanning: enabled };
+    onMetadataChange(nextMetadata);
+    recalculateAll(components, nextMetadata);
+  };
+
+  // Blank clears the override and falls back to the calculated Ld
+  const handleDevelopmentLengthOverride = (diameter: number, value: string) => {
+    if (!metadata) return;
+    const overrides = { ...metadata.developmentLengthOverrides };
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed) || parsed <= 0) delete overrides[diameter];
+    else overrides[diameter] = parsed;
+    const nextMetadata = {
+      ...metadata,
+      developmentLengthOverrides: Object.keys(overrides).length > 0 ? overrides : undefined
+    };
+    onMetadataChange(nextMetadata);
+    recalculateAll(relayoutAll(nextMetadata), nextMetadata);
+  };
+
   const addComponent = () => {
     const newComponent: ConcreteComponent = {
       id: crypto.randomUUID(),
@@ -82,9 +195,12 @@ export function BBSSpreadsheetView({
   };
 
   const updateComponent = (id: string, updates: Partial<ConcreteComponent>) => {
-    const updated = components.map(c => 
-      c.id === id ? { ...c, ...updates } : c
-    );
+    const updated = components.map(c => {
+      if (c.id !== id) return c;
+      const next = { ...c, ...updates };
+      // Staircases: span X is the plan length of the flight and its landings
+      return isStaircase(next) ? { ...next, spanX: getStaircasePlanLength(getStaircaseDetails(next)) } : next;
+    });
     
     // If dimensions changed, recalculate all bar measurements for this component
     const dimensionFields = ['spanX', 'spanY', 'depth', 'cover', 'beamWidths', 'topExtensions'];
@@ -97,12 +213,13 @@ export function BBSSpreadsheetView({
         const recalculated = updated.map(c => {
           if (c.id === id) {
             const updatedBars = c.bars.map(bar => {
+              if (isSlabOpeningBarType(bar.barType)) return bar;
               const newMeasurements = calculateBarMeasurementsAuto(
                 bar.barType,
                 bar.direction,
                 component,
                 bar.diameter,
-                metadata?.concreteGrade || 'M30',
+                getDevelopmentLengthContext(metadata, codeProfile),
                 bar.section_span_1 // Pass existing section span override
               );
               return { ...bar, measurements: newMeasurements };
@@ -111,13 +228,104 @@ export function BBSSpreadsheetView({
           }
           return c;
         });
-        recalculateAll(recalculated);
+        recalculateAll(refreshSlabLayout(recalculated, id));
         return;
       }
     }
     
-    // Re-calculate bars if relevant fields changed
-    recalculateAll(updated);
+    // Piles, shaped footings and staircases: bars follow the geometry; dowels take the column bar size
+    const footingFields = [...dimensionFields, 'pile', 'footing', 'footingType', 'staircase', 'wallType', 'wall'];
+    const footingComponent = updated.find(c => c.id === id);
+    if (footingComponent && hasCalculatedBars(footingComponent) && Object.keys(updates).some(key => footingFields.includes(key))) {
+      const ld = getDevelopmentLengthContext(metadata, codeProfile);
+      recalculateAll(updated.map(c => c.id === id
+        ? {
+            ...c,
+            bars: c.bars.map(bar => {
+              const diameter = bar.barType === 'Dowel Bars' ? getDowelDiameter(c) ?? bar.diameter : bar.diameter;
+              return {
+                ...bar,
+                diameter,
+                measurements: calculateBarMeasurementsAuto(bar.barType, bar.direction, c, diameter, ld, undefined, bar.spacing)
+              };
+            })
+          }
+        : c
+      ));
+      return;
+    }
+    
+    // Re-calculate bars if relevant fields changed (continuous beam and column bars follow the cover)
+    recalculateAll(dimensionsChanged
+      ? refreshSlabLayout(updated, id).map(c => c.id === id ? layoutGenerated(c) : c)
+      : updated);
+  };
+
+  // Shaped slabs and slabs with openings: strips, cut pieces, trimmers and corner bars follow the span bars
+  const layoutSlab = (component: ConcreteComponent, settingsMetadata: BBSMetadata | undefined = metadata) => {
+    if (component.componentType !== 'SLAB') return component;
+    const ld = getDevelopmentLengthContext(settingsMetadata, codeProfile);
+    return applySlabOpenings(component.outline ? applySlabOutline(component, ld) : component, ld);
+  };
+
+  const refreshSlabLayout = (comps: ConcreteComponent[], id: string) => comps.map(c =>
+    c.id === id ? layoutSlab(c) : c
+  );
+
+  // Continuous beams and column schedules: bars follow the cover and Ld as well as the layout
+  const layoutGenerated = (component: ConcreteComponent, settingsMetadata: BBSMetadata | undefined = metadata) => {
+    const ld = getDevelopmentLengthContext(settingsMetadata, codeProfile);
+    if (component.componentType === 'BEAM' && component.continuousSpans) return applyContinuousBeamLayout(component, ld);
+    if (component.componentType === 'COLUMN' && component.columnSchedule) return applyColumnSchedule(component, ld);
+    return component;
+  };
+
+  const relayoutAll = (settingsMetadata: BBSMetadata) => components.map(c =>
+    layoutGenerated(layoutSlab(c, settingsMetadata), settingsMetadata)
+  );
+
+  // Bar edits: slab layouts as above, and a scheduled column's floor ties follow its first floor ties
+  const refreshBarLayout = (comps: ConcreteComponent[], id: string) => refreshSlabLayout(comps, id).map(c =>
+    c.id === id && c.componentType === 'COLUMN' ? layoutGenerated(c) : c
+  );
+
+  const updateOpenings = (component: ConcreteComponent, openings: SlabOpening[]) => {
+    const updated = layoutSlab({ ...component, openings: openings.length > 0 ? openings : undefined });
+    recalculateAll(components.map(c => c.id === component.id ? updated : c));
+  };
+
+  const updateOutline = (component: ConcreteComponent, outline: PlanPoint[] | undefined) => {
+    const spans = outline && validateSlabOutline(outline).length === 0 ? getOutlineBounds(outline) : {};
+    const shaped = { ...component, ...spans, outline };
+    // Without an outline the strip entries fold back into whole-slab bars
+    const updated = layoutSlab(outline ? shaped : applySlabOutline(shaped, getDevelopmentLengthContext(metadata, codeProfile)));
+    recalculateAll(components.map(c => c.id === component.id ? updated : c));
+  };
+
+  // Continuous beams: regenerate the span bars whenever the layout changes
+  const updateContinuousSpans = (component: ConcreteComponent, continuousSpans: ContinuousBeamLayout | undefined) => {
+    const updated = continuousSpans
+      ? applyContinuousBeamLayout(
+          { ...component, continuousSpans },
+          getDevelopmentLengthContext(metadata, codeProfile)
+        )
+      : {
+          ...component,
+          continuousSpans: undefined,
+          bars: component.bars.filter(bar => !isContinuousBeamBarType(bar.barType))
+        };
+    recalculateAll(components.map(c => c.id === component.id ? updated : c));
+  };
+
+  // Column schedules: regenerate the floor-by-floor main bars whenever the schedule changes
+  const updateColumnSchedule = (component: ConcreteComponent, columnSchedule: ColumnScheduleLayout | undefined) => {
+    const updated = columnSchedule
+      ? applyColumnSchedule(
+          { ...component, columnSchedule },
+          getDevelopmentLengthContext(metadata, codeProfile)
+        )
+      : removeColumnSchedule(component, getDevelopmentLengthContext(metadata, codeProfile));
+    recalculateAll(components.map(c => c.id === component.id ? updated : c));
   };
 
   const removeComponent = (id: string) => {
@@ -132,17 +340,19 @@ export function BBSSpreadsheetView({
     let initialMeasurements: BarMeasurements = { a: component.spanX };
     
     // Determine default direction based on bar type
-    const defaultBarType = BAR_TYPES[component.componentType]?.[0] || 'Main Bar';
+    const defaultBarType = getBarTypes(component)[0] || 'Main Bar';
     const defaultDirection: BarDirection = defaultBarType.includes('(Y-Y)') ? 'Y' : 'X';
     
-    if (component.componentType === 'SLAB' && component.beamWidths && component.topExtensions) {
+    if ((component.componentType === 'SLAB' && component.beamWidths && component.topExtensions) || hasCalculatedBars(component)) {
        // Use enhanced calculator for auto-measurements
        initialMeasurements = calculateBarMeasurementsAuto(
          defaultBarType,
          defaultDirection,
          component,
          8, // Default diameter
-         metadata?.concreteGrade || 'M30'
+         getDevelopmentLengthContext(metadata, codeProfile),
+         undefined,
+         150 // Default spacing
        );
     }
 
@@ -163,7 +373,7 @@ export function BBSSpreadsheetView({
       return c;
     });
 
-    recalculateAll(updatedComponents);
+    recalculateAll(refreshBarLayout(updatedComponents, componentId));
   };
 
   const updateBarEntry = (componentId: string, barId: string, updates: Partial<ComponentBarEntry>) => {
@@ -201,13 +411,43 @@ export function BBSSpreadsheetView({
          newDirection,
          component,
          diameter,
-         metadata?.concreteGrade || 'M30',
+         getDevelopmentLengthContext(metadata, codeProfile),
          newSectionSpan1
        );
        
        finalUpdates = { ...finalUpdates, measurements: newMeasurements };
     }
 
+    // Pile and shaped footing bars depend on the bar size and the link pitch as well
+    if ((updates.barType || updates.diameter || updates.spacing) && component && hasCalculatedBars(component) && targetBar) {
+      if (updates.barType === 'Dowel Bars' && getDowelDiameter(component)) {
+        finalUpdates.diameter = getDowelDiameter(component);
+      }
+      finalUpdates.measurements = calculateBarMeasurementsAuto(
+        updates.barType || targetBar.barType,
+        finalUpdates.direction || targetBar.direction,
+        component,
+        finalUpdates.diameter || targetBar.diameter,
+        getDevelopmentLengthContext(metadata, codeProfile),
+        undefined,
+        updates.spacing ?? targetBar.spacing
+      );
+    }
+
+    // Designed ties show their first piece in the a-f columns
+    const tieDesignChanged = 'tieDesign' in updates || (targetBar?.tieDesign && (updates.diameter || updates.spacing));
+    if (tieDesignChanged && component && targetBar) {
+      const tieDesign = 'tieDesign' in updates ? updates.tieDesign : targetBar.tieDesign;
+      finalUpdates.measurements = tieDesign
+        ? designTies(
+            tieDesign,
+            getTieSection(component, targetBar),
+            updates.diameter || targetBar.diameter,
+            updates.spacing ?? targetBar.spacing
+          ).pieces[0].measurements
+        : { a: 0 };
+    }
+
     const updatedComponents = components.map(c => {
       if (c.id === componentId) {
         const updatedBars = c.bars.map(b => 
@@ -217,7 +457,14 @@ export function BBSSpreadsheetView({
       }
       return c;
     });
-    recalculateAll(updatedComponents);
+    recalculateAll(targetBar && isSlabOpeningBarType(targetBar.barType)
+      ? updatedComponents
+      : refreshBarLayout(updatedComponents, componentId));
+  };
+
+  const updateSpacingZone = (componentId: string, bar: ComponentBarEntry, index: number, updates: Partial<StirrupZone>) => {
+    const spacingZones = (bar.spacingZones || []).map((zone, i) => i === index ? { ...zone, ...updates } : zone);
+    updateBarEntry(componentId, bar.id, { spacingZones });
   };
 
   const updateBarMeasurements = (componentId: string, barId: string, field: keyof BarMeasurements, value: number) => {
@@ -246,38 +493,38 @@ export function BBSSpreadsheetView({
       }
       return c;
     });
-    recalculateAll(updatedComponents);
+    recalculateAll(refreshBarLayout(updatedComponents, componentId));
+  };
+
+  // Append components imported from an Excel BBS; sheet metadata fills in the project header
+  const importComponents = (imported: ConcreteComponent[], importedMetadata: Partial<BBSMetadata>) => {
+    let nextMetadata = metadata;
+    if (metadata) {
+      const filled = Object.fromEntries(
+        Object.entries(importedMetadata).filter(([, value]) => value !== undefined && value !== '')
+      ) as Partial<BBSMetadata>;
+      nextMetadata = { ...metadata, ...filled };
+      onMetadataChange(nextMetadata);
+    }
+    recalculateAll([...components, ...imported], nextMetadata);
+  };
+
+  // Slab panels from a beam grid, added or updated by name
+  const addSlabPanels = (layout: SlabGridLayout) => {
+    recalculateAll(applySlabGrid(components, layout, getDevelopmentLengthContext(metadata, codeProfile)));
   };
 
   // Main calculation trigger
-  const recalculateAll = (comps: ConcreteComponent[]) => {
+  const recalculateAll = (comps: ConcreteComponent[], settingsMetadata: BBSMetadata | undefined = metadata) => {
     
     // Prepare settings from metadata
-    const settings = {
-        developmentLengths: metadata?.developmentLengths || DEVELOPMENT_LENGTH_TABLES['M30'], // Default or User Config matches Excel
-        standardBarLength: metadata?.standardBarLength || 12000
-    };
+    const settings = getComponentCalculationSettings(settingsMetadata, codeProfile);
 
     const calculated = comps.map(comp => {
-      // Determine relevant span for "No of Bars" calculation
-      // For bars along X (direction X), spacing is along Y -> use Span Y
-      // For bars along Y (direction Y), spacing is along X -> use Span X
-      
-      const bars = comp.bars.map(bar => {
-        // Find Component Span relevant for this bar
-        const componentSpan = bar.direction === 'X' ? comp.spanY : comp.spanX;
-        
-        return {
-          ...bar,
-          calculated: calculateComponentBarEntry(
-            bar, 
-            componentSpan,
-            comp.cover,
-            settings,
-            comp.componentType === 'SLAB' // simplified check for U-Bar logic activation if needed
-          )
-        };
-      });
+      const bars = comp.bars.map(bar => ({
+        ...bar,
+        calculated: calculateComponentSheetEntry(bar, comp, settings)
+      }));
       return { ...comp, bars };
     });
     onComponentsChange(calculated);
@@ -355,22 +602,48 @@ export function BBSSpreadsheetView({
               </div>
             </div>
 
-            {/* Reference Table - Visual Only */}
+            {/* Development lengths - calculated from bond stress, editable per project */}
             <div className="bg-card border rounded p-2 text-xs">
               <div className="flex justify-between items-center mb-1 font-semibold text-muted-foreground">
-                <span>Ld for {metadata.concreteGrade}</span>
-                <span>(Development Length Reference)</span>
+                <span>Ld for {metadata.concreteGrade} / {metadata.steelGrade}</span>
+                <span>
+                  ({getDesignCode(codeProfile) === 'BS8110' ? 'BS 8110 bond length' : 'IS 456 cl. 26.2.1'}, blank = calculated)
+                </span>
               </div>
               <div className="flex justify-between gap-2 overflow-x-auto">
-                {Object.entries(DEVELOPMENT_LENGTH_TABLES[metadata.concreteGrade as keyof typeof DEVELOPMENT_LENGTH_TABLES] || DEVELOPMENT_LENGTH_TABLES.M30)
+                {Object.entries(getDevelopmentLengthTable(getDevelopmentLengthContext({ ...metadata, developmentLengthOverrides: undefined }, codeProfile)))
                   .map(([dia, val]) => (
-                   <div key={dia} className="flex flex-col items-center min-w-[30px]">
+                   <div key={dia} className="flex flex-col items-center min-w-[48px]">
                      <span className="font-bold">{dia}</span>
-                     <span>{val}</span>
+                     <Input
+                       type="number"
+                       min={0}
+                       className="h-6 w-14 px-1 text-center text-xs"
+                       placeholder={String(val)}
+                       value={metadata.developmentLengthOverrides?.[Number(dia)] ?? ''}
+                       onChange={e => handleDevelopmentLengthOverride(Number(dia), e.target.value)}
+                     />
                    </div>
                 ))}
               </div>
             </div>
+
+            {/* Lap splice planning for bars longer than the stock length */}
+            <label className="flex items-start gap-3 bg-card border rounded p-2 text-xs cursor-pointer">
+              <input
+                type="checkbox"
+                className="mt-0.5"
+                checked={!!metadata.splicePlanning}
+                onChange={e => handleSplicePlanningChange(e.target.checked)}
+              />
+              <span>
+                <span className="font-semibold text-muted-foreground">Plan lap splices</span>
+                <span className="block text-muted-foreground">
+                  Split bars over {(metadata.standardBarLength || 12000) / 1000} m into stock pieces with laps
+                  staggered per {codeProfile?.name || 'IS 456:2000'}, instead of ROUNDUP(a / 12000 × Ld)
+                </span>
+              </span>
+            </label>
           </div>
         </CardContent>
       </Card>
@@ -440,6 +713,8 @@ export function BBSSpreadsheetView({
                              <SelectItem value="BEAM">Beam</SelectItem>
                              <SelectItem value="COLUMN">Column</SelectItem>
                              <SelectItem value="FOOTING">Footing</SelectItem>
+                             <SelectItem value="STAIRCASE">Staircase</SelectItem>
+                             <SelectItem value="WALL">Wall</SelectItem>
                            </SelectContent>
                          </Select>
                          
@@ -466,6 +741,66 @@ export function BBSSpreadsheetView({
                             </Select>
                          )}
                          
+                         {component.componentType === 'WALL' && (
+                            <Select 
+                              value={component.wallType || 'SHEAR'}
+                              onValueChange={v => updateComponent(component.id, { wallType: v as WallType })}
+                            >
+                              <SelectTrigger className="w-[140px] h-8 bg-background">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {WALL_TYPES.map(t => (
+                                  <SelectItem key={t} value={t}>{t}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                         )}
+                         
+                         {component.componentType === 'WALL' && (
+                            <div className="flex items-center gap-2 text-sm">
+                              {(isRetainingWall(component)
+                                ? [['baseThickness', 'Base'], ['heel', 'Heel'], ['toe', 'Toe']] as const
+                                : [['boundaryLength', 'Boundary element']] as const
+                              ).map(([key, label]) => (
+                                <div key={key} className="flex items-center gap-1">
+                                  <span className="text-muted-foreground">{label}:</span>
+                                  <Input
+                                    type="number"
+                                    value={getWallDetails(component)[key] || ''}
+                                    onChange={e => updateComponent(component.id, {
+                                      wall: { ...getWallDetails(component), [key]: parseFloat(e.target.value) || 0 }
+                                    })}
+                                    className="w-[70px] h-8 px-2 bg-background"
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                         )}
+                         
+                         {isPileFooting(component) && (
+                            <div className="flex items-center gap-2 text-sm">
+                              {([
+                                ['diameter', component.footingType === 'PILE_CUBOID' ? 'Pile side' : 'Pile dia'],
+                                ['length', 'Length'],
+                                ['count', 'Piles'],
+                                ['embedment', 'Embed'],
+                              ] as const).map(([key, label]) => (
+                                <div key={key} className="flex items-center gap-1">
+                                  <span className="text-muted-foreground">{label}:</span>
+                                  <Input
+                                    type="number"
+                                    value={getPileDetails(component)[key] || ''}
+                                    onChange={e => updateComponent(component.id, {
+                                      pile: { ...getPileDetails(component), [key]: parseFloat(e.target.value) || 0 }
+                                    })}
+                                    className="w-[70px] h-8 px-2 bg-background"
+                                  />
+                                </div>
+                              ))}
+                            </div>
+                         )}
+                         
                          <Button 
                            variant="ghost" 
                            size="sm" 
@@ -484,24 +819,32 @@ export function BBSSpreadsheetView({
                                value={component.spanX || ''}
                                onChange={e => updateComponent(component.id, { spanX: parseFloat(e.target.value) || 0 })}
                                className="w-[80px] h-7 px-2"
+                               readOnly={!!component.continuousSpans || !!component.columnSchedule || isStaircase(component) || !!component.outline}
+                               title={component.continuousSpans
+                                 ? 'Overall length of the continuous spans'
+                                 : isStaircase(component) ? 'Plan length of the flight and its landings'
+                                 : component.outline ? 'Overall length of the slab outline' : undefined}
                              />
                           </div>
                           <div className="flex items-center gap-2">
-                             <span className="text-muted-foreground">Span Y:</span>
+                             <span className="text-muted-foreground">{isStaircase(component) ? 'Width:' : component.componentType === 'WALL' ? 'Thickness:' : 'Span Y:'}</span>
                              <Input 
                                type="number" 
                                value={component.spanY || ''}
                                onChange={e => updateComponent(component.id, { spanY: parseFloat(e.target.value) || 0 })}
                                className="w-[80px] h-7 px-2"
+                               readOnly={!!component.columnSchedule || !!component.outline}
+                               title={component.outline ? 'Overall width of the slab outline' : undefined}
                              />
                           </div>
                           <div className="flex items-center gap-2">
-                             <span className="text-muted-foreground">Depth:</span>
+                             <span className="text-muted-foreground">{isStaircase(component) ? 'Waist:' : component.componentType === 'WALL' ? 'Height:' : 'Depth:'}</span>
                              <Input 
                                type="number" 
                                value={component.depth || ''}
                                onChange={e => updateComponent(component.id, { depth: parseFloat(e.target.value) || 0 })}
                                className="w-[60px] h-7 px-2"
+                               readOnly={!!component.columnSchedule}
                              />
                           </div>
                           <div className="flex items-center gap-2">
@@ -519,6 +862,13 @@ export function BBSSpreadsheetView({
                        {component.componentType === 'SLAB' && (
                          <div className="flex flex-col gap-2 mt-2 p-2 bg-muted/10 rounded border text-xs">
                             <div className="font-semibold text-muted-foreground mb-1">U-Bar Dimensions (Left / Right / Top / Bottom)</div>
+                            {component.panelEdges && (
+                              <div className="text-muted-foreground">
+                                {component.description}; continuous over {
+                                  (['left', 'right', 'top', 'bottom'] as const).filter(edge => component.panelEdges![edge]).join(', ') || 'no edges'
+                                }
+                              </div>
+                            )}
                             
                             <div className="flex gap-4 items-center">
                                <span className="w-20 text-muted-foreground">Beam Widths:</span>
@@ -614,6 +964,599 @@ export function BBSSpreadsheetView({
                              </details>
                           </div>
                         )}
+                       
+                       {/* Row 2: Outline (Only for SLAB) */}
+                       {component.componentType === 'SLAB' && (() => {
+                         const outline = component.outline;
+                         const problems = outline ? validateSlabOutline(outline) : [];
+                         const setCorner = (index: number, updates: Partial<PlanPoint>) =>
+                           outline && updateOutline(component, outline.map((point, i) => i === index ? { ...point, ...updates } : point));
+                         return (
+                           <div className="flex flex-col gap-2 mt-2 p-2 bg-muted/10 rounded border text-xs w-fit">
+                             <div className="flex items-center gap-2">
+                               <span className="font-semibold text-muted-foreground">Outline</span>
+                               {outline ? (
+                                 <Button
+                                   variant="ghost"
+                                   size="sm"
+                                   className="h-6 px-2 text-xs"
+                                   onClick={() => updateOutline(component, undefined)}
+                                 >
+                                   Rectangular
+                                 </Button>
+                               ) : (['RECTANGLE', 'L_SHAPE'] as OutlinePreset[]).map(preset => (
+                                 <Button
+                                   key={preset}
+                                   variant="ghost"
+                                   size="sm"
+                                   className="h-6 px-2 text-xs"
+                                   onClick={() => updateOutline(component, createSlabOutline(component, preset))}
+                                 >
+                                   {preset === 'L_SHAPE' ? 'L-shape' : 'Draw corners'}
+                                 </Button>
+                               ))}
+                             </div>
+                             
+                             {outline && (
+                               <div className="flex gap-4 items-start">
+                                 <div className="grid grid-cols-[24px_64px_64px_20px] gap-1 items-center">
+                                   <span />
+                                   <span className="text-muted-foreground">X</span>
+                                   <span className="text-muted-foreground">Y</span>
+                                   <span />
+                                   {outline.map((point, index) => (
+                                     <React.Fragment key={index}>
+                                       <span className="text-muted-foreground">{index + 1}</span>
+                                       {(['x', 'y'] as const).map(key => (
+                                         <Input
+                                           key={key}
+                                           type="number"
+                                           value={point[key]}
+                                           onChange={e => setCorner(index, { [key]: parseFloat(e.target.value) || 0 })}
+                                           className="h-6 px-1"
+                                           title={`Corner ${index + 1} ${key} (mm)`}
+                                         />
+                                       ))}
+                                       <button
+                                         type="button"
+                                         className="text-muted-foreground hover:text-destructive"
+                                         onClick={() => updateOutline(component, outline.filter((_, i) => i !== index))}
+                                         title={`Remove corner ${index + 1}`}
+                                       >
+                                         <Trash2 className="h-3 w-3" />
+                                       </button>
+                                     </React.Fragment>
+                                   ))}
+                                   <Button
+                                     variant="ghost"
+                                     size="sm"
+                                     className="h-6 px-2 text-xs col-span-4 w-fit"
+                                     onClick={() => updateOutline(component, [...outline, outline[outline.length - 1]])}
+                                   >
+                                     <Plus className="h-3 w-3 mr-1" /> Corner
+                                   </Button>
+                                 </div>
+                                 <div className="space-y-1">
+                                   <SlabOutlinePreview outline={outline} openings={component.openings} />
+                                   {problems.length > 0 ? (
+                                     problems.map(problem => (
+                                       <p key={problem} className="text-destructive">{problem}</p>
+                                     ))
+                                   ) : (
+                                     <p className="text-muted-foreground">
+                                       Area {(getOutlineArea(outline) / 1e6).toFixed(2)} m²
+                                     </p>
+                                   )}
+                                 </div>
+                               </div>
+                             )}
+                           </div>
+                         );
+                       })()}
+                       
+                       {/* Row 2: Openings (Only for SLAB) */}
+                       {component.componentType === 'SLAB' && (() => {
+                         const openings = component.openings ?? [];
+                         const setOpening = (index: number, updates: Partial<SlabOpening>) =>
+                           updateOpenings(component, openings.map((opening, i) => i === index ? { ...opening, ...updates } : opening));
+                         return (
+                           <div className="flex flex-col gap-2 mt-2 p-2 bg-muted/10 rounded border text-xs w-fit">
+                             <div className="flex items-center gap-2">
+                               <span className="font-semibold text-muted-foreground">Openings</span>
+                               <Button
+                                 variant="ghost"
+                                 size="sm"
+                                 className="h-6 px-2 text-xs"
+                                 onClick={() => updateOpenings(component, [
+                                   ...openings,
+                                   { shape: 'RECTANGULAR', x: component.spanX / 2 - 300, y: component.spanY / 2 - 300, width: 600, height: 600 }
+                                 ])}
+                               >
+                                 <Plus className="h-3 w-3 mr-1" /> Opening
+                               </Button>
+                             </div>
+                             
+                             {openings.length > 0 && (
+                               <div className="grid grid-cols-[40px_100px_repeat(4,56px)_20px] gap-1 items-center">
+                                 <span />
+                                 <span className="text-muted-foreground">Shape</span>
+                                 <span className="text-muted-foreground">X</span>
+                                 <span className="text-muted-foreground">Y</span>
+                                 <span className="text-muted-foreground">Width</span>
+                                 <span className="text-muted-foreground">Height</span>
+                                 <span />
+                                 {openings.map((opening, index) => (
+                                   <React.Fragment key={index}>
+                                     <Input
+                                       value={opening.label ?? ''}
+                                       onChange={e => setOpening(index, { label: e.target.value || undefined })}
+                                       className="h-6 px-1"
+                                       placeholder={getOpeningLabel(opening, index)}
+                                     />
+                                     <Select
+                                       value={opening.shape}
+                                       onValueChange={v => setOpening(index, { shape: v as SlabOpening['shape'] })}
+                                     >
+                                       <SelectTrigger className="h-6 text-xs px-1">
+                                         <SelectValue />
+                                       </SelectTrigger>
+                                       <SelectContent>
+                                         <SelectItem value="RECTANGULAR">Rectangular</SelectItem>
+                                         <SelectItem value="CIRCULAR">Circular</SelectItem>
+                                       </SelectContent>
+                                     </Select>
+                                     {(['x', 'y', 'width', 'height'] as const).map(key => (
+                                       <Input
+                                         key={key}
+                                         type="number"
+                                         value={opening[key] ?? ''}
+                                         onChange={e => setOpening(index, { [key]: parseFloat(e.target.value) || 0 })}
+                                         className="h-6 px-1"
+                                         disabled={key === 'height' && opening.shape === 'CIRCULAR'}
+                                         title={key === 'width' && opening.shape === 'CIRCULAR' ? 'Diameter (mm)' : `${key} (mm)`}
+                                       />
+                                     ))}
+                                     <button
+                                       type="button"
+                                       className="text-muted-foreground hover:text-destructive"
+                                       onClick={() => updateOpenings(component, openings.filter((_, i) => i !== index))}
+                                       title={`Remove ${getOpeningLabel(opening, index)}`}
+                                     >
+                                       <Trash2 className="h-3 w-3" />
+                                     </button>
+                                   </React.Fragment>
+                                 ))}
+                               </div>
+                             )}
+                           </div>
+                         );
+                       })()}
+                       
+                       {/* Row 2: Continuous Spans (Only for BEAM) */}
+                       {component.componentType === 'BEAM' && (
+                         <div className="flex flex-col gap-2 mt-2 p-2 bg-muted/10 rounded border text-xs w-fit">
+                           <div className="flex items-center gap-2">
+                             <span className="font-semibold text-muted-foreground">Continuous Spans</span>
+                             <Button
+                               variant="ghost"
+                               size="sm"
+                               className="h-6 px-2 text-xs"
+                               onClick={() => updateContinuousSpans(
+                                 component,
+                                 component.continuousSpans ? undefined : createContinuousBeamLayout(component)
+                               )}
+                             >
+                               {component.continuousSpans ? 'Single span' : 'Make continuous'}
+                             </Button>
+                           </div>
+                           
+                           {component.continuousSpans && (() => {
+                             const layout = component.continuousSpans;
+                             const setLayout = (updates: Partial<ContinuousBeamLayout>) =>
+                               updateContinuousSpans(component, { ...layout, ...updates });
+                             return (
+                               <>
+                                 <div className="flex flex-wrap gap-1 items-center">
+                                   {layout.supports.map((support, j) => (
+                                     <React.Fragment key={j}>
+                                       <Input
+                                         type="number"
+                                         value={support || ''}
+                                         onChange={e => setLayout({
+                                           supports: layout.supports.map((w, i) => i === j ? parseFloat(e.target.value) || 0 : w)
+                                         })}
+                                         className="w-14 h-6 px-1 bg-muted/30"
+                                         title={`Support ${j + 1} width (mm)`}
+                                       />
+                                       {j < layout.spans.length && (
+                                         <div className="flex items-center gap-1">
+                                           <span className="text-muted-foreground">—</span>
+                                           <Input
+                                             type="number"
+                                             value={layout.spans[j] || ''}
+                                             onChange={e => setLayout({
+                                               spans: layout.spans.map((l, i) => i === j ? parseFloat(e.target.value) || 0 : l)
+                                             })}
+                                             className="w-16 h-6 px-1"
+                                             title={`Span ${j + 1} clear length (mm)`}
+                                           />
+                                           {layout.spans.length > 1 && (
+                                             <button
+                                               type="button"
+                                               className="text-muted-foreground hover:text-destructive"
+                                               onClick={() => updateContinuousSpans(component, removeContinuousSpan(layout, j))}
+                                               title={`Remove span ${j + 1}`}
+                                             >
+                                               <Trash2 className="h-3 w-3" />
+                                             </button>
+                                           )}
+                                           <span className="text-muted-foreground">—</span>
+                                         </div>
+                                       )}
+                                     </React.Fragment>
+                                   ))}
+                                   <Button
+                                     variant="ghost"
+                                     size="sm"
+                                     className="h-6 px-2 text-xs"
+                                     onClick={() => updateContinuousSpans(component, addContinuousSpan(layout))}
+                                   >
+                                     <Plus className="h-3 w-3 mr-1" /> Span
+                                   </Button>
+                                 </div>
+                                 
+                                 <div className="flex flex-wrap gap-4 items-center">
+                                   {([
+                                     ['bottomBars', 'Bottom'],
+                                     ['throughTopBars', 'Through top'],
+                                     ['supportTopBars', 'Support top'],
+                                     ['curtailedBars', 'Curtailed'],
+                                   ] as const).map(([key, label]) => (
+                                     <div key={key} className="flex items-center gap-1">
+                                       <span className="text-muted-foreground">{label}:</span>
+                                       <Input
+                                         type="number"
+                                         placeholder="Nos"
+                                         value={layout[key]?.count || ''}
+                                         onChange={e => setLayout({
+                                           [key]: { diameter: layout[key]?.diameter || 16, count: parseInt(e.target.value) || 0 }
+                                         })}
+                                         className="w-10 h-6 px-1"
+                                         title={`${label} bars in the section`}
+                                       />
+                                       <span className="text-muted-foreground">T</span>
+                                       <Input
+                                         type="number"
+                                         placeholder="Dia"
+                                         value={layout[key]?.diameter || ''}
+                                         onChange={e => setLayout({
+                                           [key]: { count: layout[key]?.count || 0, diameter: parseInt(e.target.value) || 0 }
+                                         })}
+                                         className="w-10 h-6 px-1"
+                                         title={`${label} bar diameter (mm)`}
+                                       />
+                                     </div>
+                                   ))}
+                                   <Select
+                                     value={(layout.topBarExtension ?? 3).toString()}
+                                     onValueChange={v => setLayout({ topBarExtension: parseInt(v) as 3 | 4 })}
+                                   >
+                                     <SelectTrigger className="h-6 w-20 text-xs px-1" title="Support top bar extension into the spans">
+                                       <SelectValue />
+                                     </SelectTrigger>
+                                     <SelectContent>
+                                       <SelectItem value="3">L/3</SelectItem>
+                                       <SelectItem value="4">L/4</SelectItem>
+                                     </SelectContent>
+                                   </Select>
+                                 </div>
+                               </>
+                             );
+                           })()}
+                         </div>
+                       )}
+                       
+                       {/* Row 2: Footing Geometry (Only for non-pile FOOTING) */}
+                       {component.componentType === 'FOOTING' && !isPileFooting(component) && (
+                         <div className="flex flex-col gap-2 mt-2 p-2 bg-muted/10 rounded border text-xs w-fit">
+                           <div className="flex items-center gap-2">
+                             <span className="font-semibold text-muted-foreground">Footing Geometry</span>
+                             <Button
+                               variant="ghost"
+                               size="sm"
+                               className="h-6 px-2 text-xs"
+                               onClick={() => updateComponent(component.id, {
+                                 footing: component.footing ? undefined : {
+                                   columns: component.footingType === 'COMBINED'
+                                     ? [
+                                         { position: component.spanX / 4, width: 300, depth: 300 },
+                                         { position: (3 * component.spanX) / 4, width: 300, depth: 300 },
+                                       ]
+                                     : getFootingColumns(component),
+                                   profile: 'FLAT',
+                                 }
+                               })}
+                             >
+                               {component.footing ? 'Remove' : 'Add columns & profile'}
+                             </Button>
+                           </div>
+                           
+                           {component.footing && (() => {
+                             const footing = component.footing;
+                             const columns = footing.columns ?? [];
+                             const setFooting = (updates: Partial<FootingGeometry>) =>
+                               updateComponent(component.id, { footing: { ...footing, ...updates } });
+                             const setColumn = (index: number, updates: Partial<FootingColumn>) =>
+                               setFooting({ columns: columns.map((column, i) => i === index ? { ...column, ...updates } : column) });
+                             const columnFields: [keyof FootingColumn, string][] = [
+                               ['position', 'At X'], ['width', 'Width'], ['depth', 'Depth'], ['barCount', 'Bars'], ['barDiameter', 'Dia'],
+                             ];
+                             return (
+                               <>
+                                 <div className="grid grid-cols-[50px_repeat(5,56px)_20px] gap-1 items-center">
+                                   <span className="text-muted-foreground">Column</span>
+                                   {columnFields.map(([, label]) => (
+                                     <span key={label} className="text-muted-foreground">{label}</span>
+                                   ))}
+                                   <span />
+                                   {columns.map((column, index) => (
+                                     <React.Fragment key={index}>
+                                       <span className="text-muted-foreground">{index + 1}</span>
+                                       {columnFields.map(([key, label]) => (
+                                         <Input
+                                           key={key}
+                                           type="number"
+                                           value={column[key] || ''}
+                                           onChange={e => setColumn(index, { [key]: parseFloat(e.target.value) || 0 })}
+                                           className="h-6 px-1"
+                                           title={`Column ${index + 1} ${label.toLowerCase()} (mm)`}
+                                         />
+                                       ))}
+                                       {columns.length > 1 ? (
+                                         <button
+                                           type="button"
+                                           className="text-muted-foreground hover:text-destructive"
+                                           onClick={() => setFooting({ columns: columns.filter((_, i) => i !== index) })}
+                                           title={`Remove column ${index + 1}`}
+                                         >
+                                           <Trash2 className="h-3 w-3" />
+                                         </button>
+                                       ) : <span />}
+                                     </React.Fragment>
+                                   ))}
+                                 </div>
+                                 
+                                 {component.footingType === 'COMBINED' ? (
+                                   <div className="flex gap-4 items-center">
+                                     <Button
+                                       variant="ghost"
+                                       size="sm"
+                                       className="h-6 px-2 text-xs"
+                                       onClick={() => setFooting({
+                                         columns: [...columns, { ...columns[columns.length - 1], position: component.spanX - 500 }]
+                                       })}
+                                     >
+                                       <Plus className="h-3 w-3 mr-1" /> Column
+                                     </Button>
+                                     <Button
+                                       variant="ghost"
+                                       size="sm"
+                                       className="h-6 px-2 text-xs"
+                                       onClick={() => setFooting({
+                                         strapBeam: footing.strapBeam ? undefined : { width: 300, depth: 600 }
+                                       })}
+                                     >
+                                       {footing.strapBeam ? 'Remove strap beam' : '+ Strap beam'}
+                                     </Button>
+                                     {footing.strapBeam && (['width', 'depth'] as const).map(key => (
+                                       <div key={key} className="flex items-center gap-1">
+                                         <span className="text-muted-foreground">Strap {key}:</span>
+                                         <Input
+                                           type="number"
+                                           value={footing.strapBeam![key] || ''}
+                                           onChange={e => setFooting({
+                                             strapBeam: { ...footing.strapBeam!, [key]: parseFloat(e.target.value) || 0 }
+                                           })}
+                                           className="w-14 h-6 px-1"
+                                         />
+                                       </div>
+                                     ))}
+                                   </div>
+                                 ) : (
+                                   <div className="flex gap-4 items-center">
+                                     <Select
+                                       value={footing.profile ?? 'FLAT'}
+                                       onValueChange={v => setFooting({ profile: v as FootingProfile })}
+                                     >
+                                       <SelectTrigger className="h-6 w-24 text-xs px-1" title="Top of the footing">
+                                         <SelectValue />
+                                       </SelectTrigger>
+                                       <SelectContent>
+                                         <SelectItem value="FLAT">Flat</SelectItem>
+                                         <SelectItem value="STEPPED">Stepped</SelectItem>
+                                         <SelectItem value="SLOPED">Sloped</SelectItem>
+                                       </SelectContent>
+                                     </Select>
+                                     {footing.profile && footing.profile !== 'FLAT' && ([
+                                       ['edgeDepth', footing.profile === 'SLOPED' ? 'Edge depth' : 'Lower step'],
+                                       ['topLength', 'Top L'],
+                                       ['topWidth', 'Top W'],
+                                     ] as const).map(([key, label]) => (
+                                       <div key={key} className="flex items-center gap-1">
+                                         <span className="text-muted-foreground">{label}:</span>
+                                         <Input
+                                           type="number"
+                                           value={footing[key] || ''}
+                                           onChange={e => setFooting({ [key]: parseFloat(e.target.value) || undefined })}
+                                           className="w-14 h-6 px-1"
+                                         />
+                                       </div>
+                                     ))}
+                                   </div>
+                                 )}
+                               </>
+                             );
+                           })()}
+                         </div>
+                       )}
+                       
+                       {/* Row 2: Flight and Landings (Only for STAIRCASE) */}
+                       {isStaircase(component) && (() => {
+                         const details = getStaircaseDetails(component);
+                         return (
+                           <div className="flex gap-4 mt-2 p-2 bg-muted/10 rounded border text-xs w-fit">
+                             <div className="flex flex-col gap-2">
+                               <div className="flex items-center gap-2">
+                                 <span className="font-semibold text-muted-foreground">Flight</span>
+                                 <Select
+                                   value={details.type}
+                                   onValueChange={v => updateComponent(component.id, {
+                                     staircase: { ...component.staircase, ...details, type: v as StaircaseType, flights: undefined }
+                                   })}
+                                 >
+                                   <SelectTrigger className="h-6 w-28 text-xs px-1">
+                                     <SelectValue />
+                                   </SelectTrigger>
+                                   <SelectContent>
+                                     <SelectItem value="DOG_LEGGED">Dog-legged</SelectItem>
+                                     <SelectItem value="OPEN_WELL">Open-well</SelectItem>
+                                   </SelectContent>
+                                 </Select>
+                               </div>
+                               <div className="grid grid-cols-[90px_64px] gap-1 items-center">
+                                 {([
+                                   ['riser', 'Riser'],
+                                   ['tread', 'Tread'],
+                                   ['steps', 'Risers / flight'],
+                                   ['bottomLanding', 'Landing at foot'],
+                                   ['topLanding', 'Landing at head'],
+                                   ['flights', 'Flights'],
+                                 ] as const).map(([key, label]) => (
+                                   <React.Fragment key={key}>
+                                     <span className="text-muted-foreground">{label}:</span>
+                                     <Input
+                                       type="number"
+                                       value={details[key]}
+                                       onChange={e => updateComponent(component.id, {
+                                         staircase: { ...details, [key]: Math.max(0, parseFloat(e.target.value) || 0) }
+                                       })}
+                                       className="h-6 px-1"
+                                     />
+                                   </React.Fragment>
+                                 ))}
+                               </div>
+                             </div>
+                             <StaircaseDiagram details={details} waist={component.depth || 150} />
+                           </div>
+                         );
+                       })()}
+                       
+                       {/* Row 2: Column Schedule (Only for COLUMN) */}
+                       {component.componentType === 'COLUMN' && (
+                         <div className="flex flex-col gap-2 mt-2 p-2 bg-muted/10 rounded border text-xs w-fit">
+                           <div className="flex items-center gap-2">
+                             <span className="font-semibold text-muted-foreground">Column Schedule</span>
+                             <Button
+                               variant="ghost"
+                               size="sm"
+                               className="h-6 px-2 text-xs"
+                               onClick={() => updateColumnSchedule(
+                                 component,
+                                 component.columnSchedule ? undefined : createColumnSchedule(component)
+                               )}
+                             >
+                               {component.columnSchedule ? 'Single height' : 'Stack floors'}
+                             </Button>
+                           </div>
+                           
+                           {component.columnSchedule && (() => {
+                             const schedule = component.columnSchedule;
+                             const setFloor = (index: number, updates: Partial<ColumnFloor>) =>
+                               updateColumnSchedule(component, {
+                                 ...schedule,
+                                 floors: schedule.floors.map((floor, i) => i === index ? { ...floor, ...updates } : floor)
+                               });
+                             const { warnings } = generateColumnScheduleBars(
+                               schedule,
+                               component.cover,
+                               getDevelopmentLengthContext(metadata, codeProfile)
+                             );
+                             const fields: [keyof ColumnFloor, string][] = [
+                               ['height', 'Height'], ['width', 'Width'], ['depth', 'Depth'], ['count', 'Nos'], ['diameter', 'Dia'],
+                             ];
+                             return (
+                               <>
+                                 <div className="grid grid-cols-[70px_repeat(5,56px)_20px] gap-1 items-center">
+                                   <span className="text-muted-foreground">Floor</span>
+                                   {fields.map(([, label]) => (
+                                     <span key={label} className="text-muted-foreground">{label}</span>
+                                   ))}
+                                   <span />
+                                   {/* Top floor first, as drawn in a schedule */}
+                                   {schedule.floors.map((floor, index) => ({ floor, index })).reverse().map(({ floor, index }) => (
+                                     <React.Fragment key={index}>
+                                       <Input
+                                         value={floor.label ?? ''}
+                                         placeholder={getFloorLabel(floor, index)}
+                                         onChange={e => setFloor(index, { label: e.target.value || undefined })}
+                                         className="h-6 px-1"
+                                       />
+                                       {fields.map(([key, label]) => (
+                                         <Input
+                                           key={key}
+                                           type="number"
+                                           value={floor[key] || ''}
+                                           onChange={e => setFloor(index, { [key]: parseFloat(e.target.value) || 0 })}
+                                           className="h-6 px-1"
+                                           title={`${getFloorLabel(floor, index)} ${label.toLowerCase()}`}
+                                         />
+                                       ))}
+                                       {schedule.floors.length > 1 ? (
+                                         <button
+                                           type="button"
+                                           className="text-muted-foreground hover:text-destructive"
+                                           onClick={() => updateColumnSchedule(component, removeColumnFloor(schedule, index))}
+                                           title={`Remove ${getFloorLabel(floor, index)}`}
+                                         >
+                                           <Trash2 className="h-3 w-3" />
+                                         </button>
+                                       ) : <span />}
+                                     </React.Fragment>
+                                   ))}
+                                 </div>
+                                 
+                                 <div className="flex gap-4 items-center">
+                                   <Button
+                                     variant="ghost"
+                                     size="sm"
+                                     className="h-6 px-2 text-xs"
+                                     onClick={() => updateColumnSchedule(component, addColumnFloor(schedule))}
+                                   >
+                                     <Plus className="h-3 w-3 mr-1" /> Floor
+                                   </Button>
+                                   <div className="flex items-center gap-1">
+                                     <span className="text-muted-foreground">Roof slab:</span>
+                                     <Input
+                                       type="number"
+                                       value={schedule.roofSlabDepth || ''}
+                                       onChange={e => updateColumnSchedule(component, {
+                                         ...schedule,
+                                         roofSlabDepth: parseFloat(e.target.value) || undefined
+                                       })}
+                                       className="w-14 h-6 px-1"
+                                       title="Roof slab depth the top bars anchor into (mm)"
+                                     />
+                                   </div>
+                                 </div>
+                                 
+                                 {warnings.map(warning => (
+                                   <div key={warning} className="text-amber-600 dark:text-amber-400">{warning}</div>
+                                 ))}
+                               </>
+                             );
+                           })()}
+                         </div>
+                       )}
                      </div>
                    </TableCell>
                 </TableRow>
@@ -632,9 +1575,13 @@ export function BBSSpreadsheetView({
                                <SelectValue />
                              </SelectTrigger>
                              <SelectContent>
-                               {BAR_TYPES[component.componentType]?.map(t => (
+                               {getBarTypes(component).map(t => (
                                  <SelectItem key={t} value={t}>{t}</SelectItem>
                                ))}
+                               {(isContinuousBeamBarType(bar.barType) || isColumnScheduleBarType(bar.barType) ||
+                                 isSlabOpeningBarType(bar.barType)) && (
+                                 <SelectItem value={bar.barType}>{bar.barType}</SelectItem>
+                               )}
                                <SelectItem value="Custom">Custom</SelectItem>
                              </SelectContent>
                           </Select>
@@ -648,6 +1595,154 @@ export function BBSSpreadsheetView({
                                onClick={() => updateBarEntry(component.id, bar.id, { direction: 'Y' })}
                              >Y-Dir</div>
                           </div>
+                          {bar.barMark && (
+                            <div className="px-2 text-[10px] font-mono text-muted-foreground">
+                              Mark {bar.barMark}{bar.barMarkLocked ? ' (issued)' : ''}
+                            </div>
+                          )}
+                          {bar.outlineStrip && (
+                            <div className="px-2 text-[10px] text-muted-foreground">
+                              Strip {bar.outlineStrip.index}: {bar.section_span_1} × {bar.section_span_2}mm
+                            </div>
+                          )}
+                          {bar.columnFloor !== undefined && component.columnSchedule?.floors[bar.columnFloor] && (
+                            <div className="px-2 text-[10px] text-muted-foreground">
+                              {getFloorLabel(component.columnSchedule.floors[bar.columnFloor], bar.columnFloor)}
+                            </div>
+                          )}
+                          {isTieBarType(bar.barType) && (
+                            <div className="flex flex-wrap gap-1 px-2">
+                              <Select
+                                value={bar.tieDesign?.configuration ?? 'STANDARD'}
+                                onValueChange={v => updateBarEntry(component.id, bar.id, {
+                                  tieDesign: v === 'STANDARD'
+                                    ? undefined
+                                    : { ...bar.tieDesign, configuration: v as TieConfiguration }
+                                })}
+                              >
+                                <SelectTrigger className="h-6 text-[10px] px-1 w-28" title="Tie layout">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="STANDARD">Standard link</SelectItem>
+                                  {(Object.keys(TIE_CONFIGURATIONS) as TieConfiguration[]).map(configuration => (
+                                    <SelectItem key={configuration} value={configuration}>
+                                      {TIE_CONFIGURATIONS[configuration].label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {bar.tieDesign && bar.tieDesign.configuration !== 'SPIRAL' && (
+                                <Select
+                                  value={(bar.tieDesign.hookAngle ?? 135).toString()}
+                                  onValueChange={v => updateBarEntry(component.id, bar.id, {
+                                    tieDesign: { ...bar.tieDesign!, hookAngle: parseInt(v) as TieDesign['hookAngle'] }
+                                  })}
+                                >
+                                  <SelectTrigger className="h-6 text-[10px] px-1 w-16" title="Hook angle">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="135">135°</SelectItem>
+                                    <SelectItem value="90">90°</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              )}
+                              {bar.tieDesign?.configuration === 'SPIRAL' && (
+                                <>
+                                  <Input
+                                    type="number"
+                                    placeholder="Pitch"
+                                    value={bar.tieDesign.pitch || ''}
+                                    onChange={e => updateBarEntry(component.id, bar.id, {
+                                      tieDesign: { ...bar.tieDesign!, pitch: parseFloat(e.target.value) || undefined }
+                                    })}
+                                    className="h-6 w-14 text-[10px] px-1"
+                                    title="Spiral pitch (mm), defaults to the spacing"
+                                  />
+                                  <Input
+                                    type="number"
+                                    placeholder="Turns"
+                                    value={bar.tieDesign.turns || ''}
+                                    onChange={e => updateBarEntry(component.id, bar.id, {
+                                      tieDesign: { ...bar.tieDesign!, turns: parseFloat(e.target.value) || undefined }
+                                    })}
+                                    className="h-6 w-14 text-[10px] px-1"
+                                    title="Spiral turns, defaults to the member length / pitch + 1.5 turns at each end"
+                                  />
+                                </>
+                              )}
+                            </div>
+                          )}
+                          {isTieBarType(bar.barType) && bar.tieDesign?.configuration !== 'SPIRAL' && (
+                            <div className="flex flex-col gap-1 px-2">
+                              {bar.spacingZones?.map((zone, index) => (
+                                <div key={index} className="flex items-center gap-1 text-[10px]">
+                                  <span className="w-10 text-muted-foreground truncate" title={zone.label}>
+                                    {zone.label || `Zone ${index + 1}`}
+                                  </span>
+                                  <Input
+                                    type="number"
+                                    placeholder="Rest"
+                                    value={zone.length ?? ''}
+                                    onChange={e => updateSpacingZone(component.id, bar, index, {
+                                      length: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0
+                                    })}
+                                    className="h-6 w-14 text-[10px] px-1"
+                                    title="Zone length (mm), empty takes the rest of the member"
+                                  />
+                                  <span className="text-muted-foreground">@</span>
+                                  <Input
+                                    type="number"
+                                    value={zone.spacing || ''}
+                                    onChange={e => updateSpacingZone(component.id, bar, index, {
+                                      spacing: parseInt(e.target.value) || 0
+                                    })}
+                                    className="h-6 w-12 text-[10px] px-1"
+                                    title="Zone spacing (mm)"
+                                  />
+                                  <button
+                                    type="button"
+                                    className="text-muted-foreground hover:text-destructive"
+                                    onClick={() => {
+                                      const spacingZones = bar.spacingZones!.filter((_, i) => i !== index);
+                                      updateBarEntry(component.id, bar.id, {
+                                        spacingZones: spacingZones.length ? spacingZones : undefined
+                                      });
+                                    }}
+                                    title="Remove zone"
+                                  >
+                                    <Trash2 className="h-3 w-3" />
+                                  </button>
+                                </div>
+                              ))}
+                              <div className="flex gap-2">
+                                {!bar.spacingZones?.length && (
+                                  <button
+                                    type="button"
+                                    className="text-[10px] text-primary hover:underline"
+                                    onClick={() => updateBarEntry(component.id, bar.id, {
+                                      spacingZones: getDefaultSpacingZones(component, bar.spacing)
+                                    })}
+                                    title="Closer spacing in the confinement zones at the member ends (IS 13920)"
+                                  >
+                                    + Confinement zones
+                                  </button>
+                                )}
+                                {!!bar.spacingZones?.length && (
+                                  <button
+                                    type="button"
+                                    className="text-[10px] text-primary hover:underline"
+                                    onClick={() => updateBarEntry(component.id, bar.id, {
+                                      spacingZones: [...bar.spacingZones!, { spacing: bar.spacing }]
+                                    })}
+                                  >
+                                    + Zone
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          )}
                        </div>
                     </TableCell>
                     <TableCell className="text-center text-xs">
@@ -714,14 +1809,24 @@ export function BBSSpreadsheetView({
                     {/* Total no. of members Reqd (calculated based on bar type) */}
                     <TableCell className="text-center">
                        {(() => {
-                         const totalMembers = calculateBarsPerMember(
+                         const totalMembers = bar.totalMembers ?? calculateBarsPerMember(
                            bar.barType, 
                            bar.direction, 
                            component, 
                            bar.spacing, 
                            bar.section_span_1, 
-                           bar.section_span_2
+                           bar.section_span_2,
+                           bar.spacingZones
                          );
+                         if (bar.spacingZones?.length && isTieBarType(bar.barType)) {
+                           return (
+                             <ComponentFormulaTooltip bar={bar} component={component}>
+                               <span className="font-mono text-primary font-medium hover:bg-muted/20 px-1 py-0.5 rounded">
+                                 {totalMembers}
+                               </span>
+                             </ComponentFormulaTooltip>
+                           );
+                         }
                          return (
                            <span 
                              className="font-mono text-primary font-medium cursor-help hover:bg-muted/20 px-1 py-0.5 rounded"
@@ -738,15 +1843,30 @@ Result: ${totalMembers}`}
                     {/* Total nos. (barsPerMember × calculated totalMembers) */}
                     <TableCell className="text-center">
                        {(() => {
-                         const totalMembers = calculateBarsPerMember(
+                         const totalMembers = bar.totalMembers ?? calculateBarsPerMember(
                            bar.barType, 
                            bar.direction, 
                            component, 
                            bar.spacing, 
                            bar.section_span_1, 
-                           bar.section_span_2
+                           bar.section_span_2,
+                           bar.spacingZones
                          );
                          const totalNos = (bar.barsPerMember || 1) * totalMembers;
+                         const ties = bar.calculated?.ties;
+                         if (ties) {
+                           return (
+                             <span
+                               className="font-mono font-bold text-primary cursor-help hover:bg-muted/20 px-1 py-0.5 rounded"
+                               title={`Total Nos Calculation:
+Tie sets: ${bar.calculated!.noOfBars / ties.piecesPerSet}
+Pieces per set: ${ties.piecesPerSet} (${ties.legs} legs)
+Result: ${bar.calculated!.noOfBars}`}
+                             >
+                               {bar.calculated!.noOfBars}
+                             </span>
+                           );
+                         }
                          return (
                            <span 
                              className="font-mono font-bold text-primary cursor-help hover:bg-muted/20 px-1 py-0.5 rounded"
@@ -827,7 +1947,9 @@ Result: ${bar.calculated ? bar.calculated.noOfDeductions : 0} × ${bar.diameter}
                     <TableCell className="text-center">
                       {(() => {
                         const deduction = bar.calculated ? bar.calculated.deductionAmount : 0;
-                        const cutLength = calculateCutLengthByBarType(bar.barType, bar.measurements, deduction);
+                        const cutLength = bar.calculated?.ties
+                          ? bar.calculated.cuttingLength
+                          : calculateCutLengthByBarType(bar.barType, bar.measurements, deduction);
                         
                         return cutLength > 0 ? (
                           <span 
@@ -851,6 +1973,36 @@ Result: ${(bar.measurements.a || 0) + (bar.measurements.b || 0) + (bar.measureme
                           </span>
                         ) : '-';
                       })()}
+                      {bar.calculated?.splices && (bar.calculated.splices.laps > 0 || bar.calculated.splices.warnings.length > 0) && (
+                        <div
+                          className={`text-[10px] cursor-help ${bar.calculated.splices.warnings.length > 0 ? 'text-amber-600' : 'text-muted-foreground'}`}
+                          title={[
+                            `Lap length: ${bar.calculated.splices.lapLength}mm, stagger: ${bar.calculated.splices.staggerDistance}mm`,
+                            ...bar.calculated.splices.groups.map((group, index) =>
+                              `Group ${index + 1} (${group.quantity} nos): ${group.pieces.join(' + ')}mm, laps at ${group.lapCentres.map(Math.round).join(', ')}mm`
+                            ),
+                            ...bar.calculated.splices.warnings,
+                          ].join('\n')}
+                        >
+                          {bar.calculated.splices.laps > 0
+                            ? <>{bar.calculated.splices.laps} lap{bar.calculated.splices.laps > 1 ? 's' : ''} × {bar.calculated.splices.lapLength}mm</>
+                            : 'Not spliced'}
+                        </div>
+                      )}
+                      {bar.calculated?.ties && (
+                        <div
+                          className="text-[10px] text-muted-foreground cursor-help"
+                          title={[
+                            `${TIE_CONFIGURATIONS[bar.calculated.ties.configuration].label}: ${bar.calculated.ties.legs} legs, ${bar.calculated.ties.hookAngle}° hooks of ${bar.calculated.ties.hookLength}mm`,
+                            ...bar.calculated.ties.pieces.map(piece =>
+                              `${piece.name} (${piece.shapeCode}) × ${piece.count}: ${piece.cutLength}mm`
+                            ),
+                            ...(bar.calculated.ties.turns !== undefined ? [`Turns: ${bar.calculated.ties.turns}`] : []),
+                          ].join('\n')}
+                        >
+                          {bar.calculated.ties.lengthPerSet}mm / set
+                        </div>
+                      )}
                     </TableCell>
                     
                     {/* Total Length (Cut Length × Total nos / 1000) */}
@@ -858,10 +2010,26 @@ Result: ${(bar.measurements.a || 0) + (bar.measurements.b || 0) + (bar.measureme
                       {(() => {
                         const deduction = bar.calculated ? bar.calculated.deductionAmount : 0;
                         const cutLength = calculateCutLengthByBarType(bar.barType, bar.measurements, deduction);
-                        const totalMembers = calculateBarsPerMember(bar.barType, bar.direction, component, bar.spacing);
+                        const totalMembers = bar.totalMembers ?? calculateBarsPerMember(bar.barType, bar.direction, component, bar.spacing, undefined, undefined, bar.spacingZones);
                         const totalNos = (bar.barsPerMember || 1) * totalMembers;
                         const totalLength = (cutLength * totalNos) / 1000;
                         
+                        // Designed ties: every piece of each set
+                        if (bar.calculated?.ties) {
+                          return (
+                            <span
+                              className="font-mono font-medium cursor-help hover:bg-muted/20 px-1 py-0.5 rounded"
+                              title={`Total Length Calculation:
+Formula: (Length per Set × Sets) / 1000
+Length per Set: ${bar.calculated.ties.lengthPerSet}mm
+Sets: ${bar.calculated.noOfBars / bar.calculated.ties.piecesPerSet}
+Result: ${bar.calculated.totalLength.toFixed(2)}m`}
+                            >
+                              {bar.calculated.totalLength.toFixed(2)}m
+                            </span>
+                          );
+                        }
+                        
                         return totalLength > 0 ? (
                           <span 
                             className="font-mono font-medium cursor-help hover:bg-muted/20 px-1 py-0.5 rounded"
@@ -930,6 +2098,10 @@ Result: (${cutLength} × ${totalNos}) / 1000 = ${totalLength.toFixed(2)}m`}
          <Button onClick={addComponent} variant="outline">
            <Plus className="h-4 w-4 mr-2" /> Add Component
          </Button>
+         <div className="flex gap-2">
+           <SlabGridDialog onGenerate={addSlabPanels} />
+           <ExcelImportDialog onImport={importComponents} />
+         </div>
       </div>
       
       {/* 3. Summary Footer */}
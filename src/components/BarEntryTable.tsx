@@ -13,7 +13,9 @@ import { Input } from '@/components/ui/input';
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
@@ -26,8 +28,9 @@ import {
   TableRow,
 } from '@/components/ui/table';
 
-import type { BarEntry, ShapeCode, MemberType, ProjectConfig, CalculatedBar } from '@/types';
+import type { BarEntry, ShapeCode, ShapeDimension, MemberType, ProjectConfig, CalculatedBar } from '@/types';
 import { SHAPE_DEFINITIONS, MEMBER_DEFAULTS } from '@/lib/constants';
+import { SHAPE_STANDARDS, getShapesByStandard } from '@/lib/shape-registry';
 import { calculateBar } from '@/lib/calculator';
 import { ShapeIcon } from './ShapeDiagram';
 import { BarSummaryCards } from './BarSummaryCards';
@@ -159,14 +162,19 @@ export function BarEntryTable({
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            {Object.values(SHAPE_DEFINITIONS).map((shape) => (
-              <SelectItem key={shape.code} value={shape.code}>
-                <div className="flex items-center gap-2">
-                  <ShapeIcon shapeCode={shape.code} />
-                  <span className="font-mono text-xs">{shape.code}</span>
-                  <span>{shape.name}</span>
-                </div>
-              </SelectItem>
+            {SHAPE_STANDARDS.map((standard) => (
+              <SelectGroup key={standard}>
+                <SelectLabel>{standard}</SelectLabel>
+                {getShapesByStandard(standard).map((shape) => (
+                  <SelectItem key={shape.code} value={shape.code}>
+                    <div className="flex items-center gap-2">
+                      <ShapeIcon shapeCode={shape.code} />
+                      <span className="font-mono text-xs">{shape.code}</span>
+                      <span>{shape.name}</span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectGroup>
             ))}
           </SelectContent>
         </Select>
@@ -196,7 +204,7 @@ export function BarEntryTable({
     }
 
     if (column.id.startsWith('dimension_')) {
-      const dimensionKey = column.id.replace('dimension_', '').toUpperCase() as 'A' | 'B' | 'C' | 'D';
+      const dimensionKey = column.id.replace('dimension_', '').toUpperCase() as ShapeDimension;
       const currentShape = SHAPE_DEFINITIONS[row.original.shapeCode as ShapeCode];
       
       if (!currentShape.requiredDimensions.includes(dimensionKey)) {
@@ -278,6 +286,16 @@ export function BarEntryTable({
 
   // Define columns
   const columns = useMemo<ColumnDef<CalculatedBar, any>[]>(() => [
+    // Assigned in the bar mark schedule
+    columnHelper.accessor('barMark', {
+      header: 'Mark',
+      cell: ({ getValue, row }) => (
+        <div className="font-mono text-xs" title={row.original.barMarkLocked ? 'Issued' : undefined}>
+          {getValue() || '—'}
+        </div>
+      ),
+      size: 80,
+    }),
     columnHelper.accessor('shapeCode', {
       header: 'Shape',
       cell: EditableCell,
@@ -312,6 +330,18 @@ export function BarEntryTable({
       cell: EditableCell,
       size: 100,
     }),
+    columnHelper.accessor('dimensions.E', {
+      id: 'dimension_e',
+      header: 'E (mm)',
+      cell: EditableCell,
+      size: 100,
+    }),
+    columnHelper.accessor('dimensions.F', {
+      id: 'dimension_f',
+      header: 'F (mm)',
+      cell: EditableCell,
+      size: 100,
+    }),
     columnHelper.accessor('spacing', {
       header: 'Spacing (mm)',
       cell: EditableCell,
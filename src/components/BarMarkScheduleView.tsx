@@ -0,0 +1,242 @@
+import { useMemo, useState } from 'react';
+import { Tags, Download, Loader2, Lock, LockOpen } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+import type { ProjectConfig, BarEntry, CalculatedBar } from '@/types';
+import type { ConcreteComponentType } from '@/types/component-types';
+import { ExcelExporter } from '@/lib/excel-exporter';
+import {
+  DEFAULT_BAR_MARK_PATTERN,
+  assignComponentBarMarks,
+  assignManualBarMarks,
+  getComponentBarMarkSchedule,
+  getManualBarMarkSchedule,
+  lockComponentBarMarks,
+  lockManualBarMarks
+} from '@/lib/bar-marks';
+
+interface BarMarkScheduleViewProps {
+  project: ProjectConfig;
+  bars: BarEntry[];
+  calculatedBars: CalculatedBar[];
+  onChange: (changes: { config?: ProjectConfig; bars?: BarEntry[] }, label: string, mergeKey?: string) => void;
+}
+
+const MEMBER_LABELS: Record<ConcreteComponentType, string> = {
+  BEAM: 'Beams',
+  COLUMN: 'Columns',
+  SLAB: 'Slabs',
+  FOOTING: 'Footings',
+  STAIRCASE: 'Staircases',
+  WALL: 'Walls',
+};
+
+export function BarMarkScheduleView({ project, bars, calculatedBars, onChange }: BarMarkScheduleViewProps) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const componentMode = project.calculationMode === 'COMPONENT';
+  const components = useMemo(() => project.components || [], [project.components]);
+  const patterns = project.barMarkPatterns;
+
+  const schedule = useMemo(() => (
+    componentMode
+      ? getComponentBarMarkSchedule(components, project.bbsMetadata)
+      : getManualBarMarkSchedule(calculatedBars)
+  ), [componentMode, components, project.bbsMetadata, calculatedBars]);
+
+  const memberTypes: ConcreteComponentType[] = componentMode
+    ? [...new Set(components.map(component => component.componentType))]
+    : ['BEAM', 'COLUMN', 'SLAB'];
+
+  const handleAssign = () => {
+    if (componentMode) {
+      onChange(
+        { config: { ...project, components: assignComponentBarMarks(components, patterns, project.bbsMetadata) } },
+        'Assign bar marks'
+      );
+    } else {
+      onChange({ bars: assignManualBarMarks(bars, patterns) }, 'Assign bar marks');
+    }
+  };
+
+  const handleLock = (locked: boolean) => {
+    const label = locked ? 'Lock bar marks' : 'Unlock bar marks';
+    if (componentMode) {
+      onChange({ config: { ...project, components: lockComponentBarMarks(components, locked) } }, label);
+    } else {
+      onChange({ bars: lockManualBarMarks(bars, locked) }, label);
+    }
+  };
+
+  const updatePattern = (memberType: ConcreteComponentType, pattern: string) => {
+    onChange(
+      { config: { ...project, barMarkPatterns: { ...patterns, [memberType]: pattern || undefined } } },
+      'Edit bar mark pattern',
+      `bar-mark-pattern-${memberType}`
+    );
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const blob = await ExcelExporter.exportBarMarkSchedule(project, schedule);
+      const filename = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_BarMarks_${new Date().toISOString().split('T')[0]}.xlsx`;
+      ExcelExporter.downloadExcel(blob, filename);
+    } catch (error) {
+      console.error('Bar mark schedule export failed:', error);
+      setExportError(error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const sum = (select: (row: (typeof schedule.rows)[number]) => number) =>
+    schedule.rows.reduce((total, row) => total + select(row), 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header, patterns & actions */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Tags className="h-5 w-5 text-primary" />
+              <span>Bar Marks</span>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleLock(true)} disabled={schedule.rows.length === 0}>
+                <Lock className="h-4 w-4 mr-2" />
+                Lock All
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleLock(false)} disabled={!schedule.rows.some(row => row.locked)}>
+                <LockOpen className="h-4 w-4 mr-2" />
+                Unlock All
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExport}
+                disabled={schedule.rows.length === 0 || isExporting}
+              >
+                {isExporting
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <Download className="h-4 w-4 mr-2" />}
+                Export to Excel
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {memberTypes.map(memberType => (
+              <div key={memberType} className="space-y-1">
+                <label className="text-xs font-semibold uppercase text-muted-foreground">
+                  {MEMBER_LABELS[memberType]} Pattern
+                </label>
+                <Input
+                  value={patterns?.[memberType] ?? ''}
+                  onChange={(e) => updatePattern(memberType, e.target.value)}
+                  placeholder={DEFAULT_BAR_MARK_PATTERN}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {'{member}'} is the component name ({componentMode ? 'e.g. B1' : 'B, C or S'}), {'{type}'} the member
+            type letter, {'{n}'}, {'{nn}'} or {'{nnn}'} a running number and {'{dia}'} the bar diameter.
+            Identical bars share a mark; locked marks stay as issued.
+          </p>
+          <div className="flex items-center gap-4">
+            <Button onClick={handleAssign}>
+              <Tags className="h-4 w-4 mr-2" />
+              Assign Marks
+            </Button>
+            {schedule.unmarked > 0 && (
+              <span className="text-sm text-muted-foreground">{schedule.unmarked} bar entries have no mark yet.</span>
+            )}
+          </div>
+          {schedule.dropped.length > 0 && (
+            <p className="text-sm text-amber-700">
+              Issued marks no longer in the bars: {schedule.dropped.join(', ')}. Re-issue the drawings to clear them.
+            </p>
+          )}
+          {exportError && (
+            <p className="text-sm text-red-600">Export failed: {exportError}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {schedule.rows.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No bar marks yet. Add bars, then assign marks.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Bar Mark Schedule</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Mark</TableHead>
+                  <TableHead>Dia (mm)</TableHead>
+                  <TableHead>Shape</TableHead>
+                  <TableHead>Dimensions (mm)</TableHead>
+                  <TableHead className="text-right">Cut Length (mm)</TableHead>
+                  <TableHead>Members</TableHead>
+                  <TableHead className="text-right">No. of Bars</TableHead>
+                  <TableHead className="text-right">Length (m)</TableHead>
+                  <TableHead className="text-right">Weight (kg)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedule.rows.map(row => (
+                  <TableRow key={row.mark}>
+                    <TableCell className="font-medium whitespace-nowrap">
+                      <span className="inline-flex items-center gap-1">
+                        {row.locked && <Lock className="h-3 w-3 text-muted-foreground" />}
+                        {row.mark}
+                      </span>
+                      {row.conflict && (
+                        <Badge variant="outline" className="ml-2 border-amber-500 text-amber-700">
+                          Changed since issue
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>Ø{row.diameter}</TableCell>
+                    <TableCell>{row.shape}</TableCell>
+                    <TableCell className="text-xs">{row.dimensions}</TableCell>
+                    <TableCell className="text-right">{Math.round(row.cutLength)}</TableCell>
+                    <TableCell className="text-xs">{row.members.join(', ')}</TableCell>
+                    <TableCell className="text-right">{row.quantity}</TableCell>
+                    <TableCell className="text-right">{row.totalLength.toFixed(2)}</TableCell>
+                    <TableCell className="text-right">{row.weight.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="font-bold">Total</TableCell>
+                  <TableCell colSpan={5} />
+                  <TableCell className="text-right font-bold">{sum(row => row.quantity)}</TableCell>
+                  <TableCell className="text-right font-bold">{sum(row => row.totalLength).toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-bold">{sum(row => row.weight).toFixed(2)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,9 @@ import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
 import type { ProjectConfig, BarEntry, ShapeCode } from '@/types';
 import { codeProfileService } from '@/services/code-profile-service';
+import { SHAPE_DEFINITIONS } from '@/lib/constants';
+import { getProjectBendRadius } from '@/lib/bend-allowance';
+import { getFormulaNames } from '@/lib/excel-formula';
 
 interface CalculationVerificationIndicatorProps {
   bar: BarEntry;
@@ -323,43 +326,19 @@ function calculateConfidence(bar: BarEntry, config: ProjectConfig): CalculationC
 }
 
 /**
- * Get shape complexity level
+ * Get shape complexity level from the number of bends
  */
 function getShapeComplexity(shapeCode: ShapeCode): 'simple' | 'medium' | 'complex' {
-  switch (shapeCode) {
-    case 'S1':
-      return 'simple';
-    case 'S2':
-    case 'S6':
-      return 'medium';
-    case 'S3':
-    case 'S4':
-    case 'S5':
-      return 'complex';
-    default:
-      return 'medium';
-  }
+  const bends = SHAPE_DEFINITIONS[shapeCode].bendAngles.length;
+  if (bends === 0) return 'simple';
+  return bends <= 2 ? 'medium' : 'complex';
 }
 
 /**
  * Get required dimensions for a shape
  */
 function getRequiredDimensions(shapeCode: ShapeCode): string[] {
-  switch (shapeCode) {
-    case 'S1':
-      return ['A'];
-    case 'S2':
-    case 'S6':
-      return ['A', 'B'];
-    case 'S3':
-      return ['A', 'B'];
-    case 'S4':
-      return ['A', 'B', 'C'];
-    case 'S5':
-      return ['A', 'B', 'C'];
-    default:
-      return ['A'];
-  }
+  return SHAPE_DEFINITIONS[shapeCode].requiredDimensions;
 }
 
 /**
@@ -371,25 +350,30 @@ function getParametersUsed(bar: BarEntry, config: ProjectConfig): string[] {
   // Always use diameter
   params.push(`Diameter: ${bar.diameter}mm`);
   
-  // Add bend deductions based on shape
-  switch (bar.shapeCode) {
-    case 'S2':
-    case 'S6':
-      params.push(`90° deduction: ${config.bendDeductions.deg90}d`);
-      params.push(`Hook multiplier: ${config.defaultHookMultiplier}d`);
-      break;
-    case 'S3':
-      params.push(`90° deduction: ${config.bendDeductions.deg90}d`);
-      params.push(`135° deduction: ${config.bendDeductions.deg135}d`);
-      params.push(`Hook multiplier: ${config.defaultHookMultiplier}d`);
-      break;
-    case 'S4':
+  // Add the deductions the shape's formula uses
+  const shape = SHAPE_DEFINITIONS[bar.shapeCode];
+  const names = getFormulaNames(shape.cutLengthFormula);
+  const bendNames = ['BEND_45', 'BEND_90', 'BEND_135', 'BEND_180'];
+  if (config.bendDeductions.mode === 'GEOMETRIC') {
+    if (names.some(name => bendNames.includes(name))) {
+      params.push(`Bend deductions: geometric, r = ${getProjectBendRadius(bar.diameter, config)}mm (${config.bendDeductions.formerTable ?? 'IS 2502'} former)`);
+    }
+  } else {
+    if (names.includes('BEND_45')) {
       params.push(`45° deduction: ${config.bendDeductions.deg45}d`);
-      params.push(`135° deduction: ${config.bendDeductions.deg135}d`);
-      break;
-    case 'S5':
+    }
+    if (names.includes('BEND_90') || names.includes('BEND_180')) {
       params.push(`90° deduction: ${config.bendDeductions.deg90}d`);
-      break;
+    }
+    if (names.includes('BEND_135')) {
+      params.push(`135° deduction: ${config.bendDeductions.deg135}d`);
+    }
+  }
+  if (names.includes('R')) {
+    params.push(`Bend radius: ${getProjectBendRadius(bar.diameter, config)}mm (${shape.standard})`);
+  }
+  if (shape.hookCount > 0) {
+    params.push(`Hook multiplier: ${config.defaultHookMultiplier}d`);
   }
   
   return params;
@@ -1,16 +1,24 @@
 import React, { useState } from 'react';
 import { Calculator } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import type { ComponentBarEntry } from '@/types/component-types';
+import type { ComponentBarEntry, ConcreteComponent } from '@/types/component-types';
+import { isTieBarType } from '@/lib/tie-designer';
+import {
+  calculateZoneCounts,
+  describeZoneBreakdown,
+  getZoneMemberLength
+} from '@/lib/stirrup-zones';
 
 interface ComponentFormulaTooltipProps {
   bar: ComponentBarEntry;
+  component?: ConcreteComponent;   // Member length for the stirrup zone breakdown
   children: React.ReactNode;
   className?: string;
 }
 
 export function ComponentFormulaTooltip({ 
   bar, 
+  component,
   children, 
   className 
 }: ComponentFormulaTooltipProps) {
@@ -20,6 +28,24 @@ export function ComponentFormulaTooltip({
   const getFormulaInfo = (barType: string) => {
     const normalizedType = barType.toLowerCase();
     
+    if (isTieBarType(barType)) {
+      if (bar.spacingZones?.length && component) {
+        const breakdown = calculateZoneCounts(getZoneMemberLength(component), bar.spacingZones);
+        return {
+          title: 'Zone-wise Stirrups / Ties',
+          formula: '1 + Σ ceil(zone length / zone spacing)',
+          description: `${breakdown.total} sets over ${breakdown.memberLength}mm, boundary bars counted once`,
+          segments: describeZoneBreakdown(breakdown)
+        };
+      }
+      return {
+        title: 'Stirrups / Ties',
+        formula: 'ceil(member length / spacing)',
+        description: 'Single spacing along the member',
+        segments: ['Beams: along the span', 'Columns: along the height']
+      };
+    }
+    
     if (normalizedType.includes('bottom bar (x-x)') || normalizedType.includes('bottom bar (y-y)')) {
       return {
         title: 'U-Bar Calculation (Excel BBS Format)',
@@ -0,0 +1,210 @@
+import { useMemo, useState } from 'react';
+import { Scissors, Download, Loader2 } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+import type { ProjectConfig } from '@/types';
+import { ExcelExporter } from '@/lib/excel-exporter';
+import {
+  DEFAULT_CUTTING_OPTIONS,
+  optimizeCutting,
+  type CutRequirement,
+  type CuttingOptions
+} from '@/lib/cutting-optimizer';
+
+interface CuttingPlanViewProps {
+  project: ProjectConfig;
+  requirements: CutRequirement[];
+}
+
+const OPTION_FIELDS: { key: keyof CuttingOptions; label: string }[] = [
+  { key: 'stockLength', label: 'Stock Length (mm)' },
+  { key: 'kerf', label: 'Kerf (mm)' },
+  { key: 'reusableOffcutLength', label: 'Reusable Offcut ≥ (mm)' },
+];
+
+export function CuttingPlanView({ project, requirements }: CuttingPlanViewProps) {
+  const [options, setOptions] = useState<CuttingOptions>({
+    ...DEFAULT_CUTTING_OPTIONS,
+    stockLength: project.bbsMetadata?.standardBarLength || DEFAULT_CUTTING_OPTIONS.stockLength,
+  });
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const plan = useMemo(() => optimizeCutting(requirements, options), [requirements, options]);
+
+  const updateOption = (key: keyof CuttingOptions, value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed) || parsed < 0) return;
+    if (key === 'stockLength' && parsed === 0) return;
+    setOptions(prev => ({ ...prev, [key]: parsed }));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const blob = await ExcelExporter.exportCuttingPlan(project, plan);
+      const filename = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_CuttingPlan_${new Date().toISOString().split('T')[0]}.xlsx`;
+      ExcelExporter.downloadExcel(blob, filename);
+    } catch (error) {
+      console.error('Cutting plan export failed:', error);
+      setExportError(error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header & options */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Scissors className="h-5 w-5 text-primary" />
+              <span>Cutting Plan</span>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={plan.diameters.length === 0 || isExporting}
+            >
+              {isExporting
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <Download className="h-4 w-4 mr-2" />}
+              Export to Excel
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {OPTION_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <label className="text-xs font-semibold uppercase text-muted-foreground">{field.label}</label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={options[field.key]}
+                  onChange={(e) => updateOption(field.key, e.target.value)}
+                />
+              </div>
+            ))}
+          </div>
+          {exportError && (
+            <p className="mt-3 text-sm text-red-600">Export failed: {exportError}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {plan.diameters.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No cut lengths to plan. Add some bars first.
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Summary per diameter */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Stock Bars & Wastage</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Diameter (mm)</TableHead>
+                    <TableHead className="text-right">Stock Bars</TableHead>
+                    <TableHead className="text-right">Required (m)</TableHead>
+                    <TableHead className="text-right">Stock (m)</TableHead>
+                    <TableHead className="text-right">Reusable Offcuts (m)</TableHead>
+                    <TableHead className="text-right">Wastage (%)</TableHead>
+                    <TableHead className="text-right">Stock Weight (kg)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.diameters.map(item => (
+                    <TableRow key={item.diameter}>
+                      <TableCell className="font-medium">Ø{item.diameter}</TableCell>
+                      <TableCell className="text-right">{item.stockBars}</TableCell>
+                      <TableCell className="text-right">{item.requiredLength.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{item.stockLength.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{item.reusableOffcutLength.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{item.wastagePercent.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">{item.stockWeight.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell className="font-bold">Total</TableCell>
+                    <TableCell className="text-right font-bold">{plan.totalStockBars}</TableCell>
+                    <TableCell colSpan={3} />
+                    <TableCell className="text-right font-bold">{plan.totalWastagePercent.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-bold">{plan.totalStockWeight.toFixed(2)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Cutting patterns */}
+          {plan.diameters.map(item => (
+            <Card key={item.diameter}>
+              <CardHeader>
+                <CardTitle className="text-base flex items-center gap-2">
+                  Ø{item.diameter} mm
+                  <Badge variant="secondary">{item.stockBars} stock bars</Badge>
+                  {item.fullLengthBars > 0 && (
+                    <Badge variant="outline">{item.fullLengthBars} used full length (lapped)</Badge>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Bars</TableHead>
+                      <TableHead>Cuts (mm)</TableHead>
+                      <TableHead className="text-right">Offcut (mm)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {item.patterns.map((pattern, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="font-medium">{pattern.count} ×</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {pattern.cuts.map((cut, cutIndex) => (
+                              <Badge key={cutIndex} variant="outline" title={cut.label}>
+                                {Math.round(cut.length)}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {Math.round(pattern.offcut)}
+                          {pattern.offcut > 0 && (
+                            <span className="ml-2 text-xs text-muted-foreground">
+                              {pattern.reusable ? 'reusable' : 'scrap'}
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,396 @@
+import React, { useState, useRef } from 'react';
+import { Upload, AlertCircle, CheckCircle, FileSpreadsheet } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+import type { BBSMetadata, ConcreteComponent } from '@/types/component-types';
+import {
+  readBBSWorkbook,
+  parseBBSGrid,
+  detectColumnMapping,
+  BBS_IMPORT_FIELDS,
+  BBS_IMPORT_FIELD_LABELS,
+  type BBSColumnMapping,
+  type BBSImportField,
+  type BBSImportResult,
+  type SheetGrid
+} from '@/lib/excel-importer';
+import { columnToIndex, indexToColumn } from '@/lib/excel-formula';
+
+// Select items cannot use an empty value
+const NOT_IMPORTED = '__none__';
+
+interface ExcelImportDialogProps {
+  onImport: (components: ConcreteComponent[], metadata: Partial<BBSMetadata>) => void;
+  trigger?: React.ReactNode;
+}
+
+export function ExcelImportDialog({ onImport, trigger }: ExcelImportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [grids, setGrids] = useState<SheetGrid[]>([]);
+  const [sheetName, setSheetName] = useState('');
+  const [mappingOverride, setMappingOverride] = useState<Partial<BBSColumnMapping>>({});
+  const [result, setResult] = useState<BBSImportResult | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [step, setStep] = useState<'upload' | 'preview'>('upload');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activeGrid = grids.find(grid => grid.name === sheetName);
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const sheets = await readBBSWorkbook(await file.arrayBuffer());
+      const initial = sheets.find(sheet => detectColumnMapping(sheet).headerRows.length > 0) ?? sheets[0];
+      setGrids(sheets);
+      setReadError(null);
+      if (initial) {
+        setSheetName(initial.name);
+        setMappingOverride({});
+        setResult(parseBBSGrid(initial));
+        setStep('preview');
+      } else {
+        setReadError('The workbook does not contain any worksheets.');
+      }
+    } catch (error) {
+      setReadError(`Could not read workbook: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const handleSheetChange = (name: string) => {
+    const grid = grids.find(sheet => sheet.name === name);
+    if (!grid) return;
+    setSheetName(name);
+    setMappingOverride({});
+    setResult(parseBBSGrid(grid));
+  };
+
+  const handleMappingChange = (field: BBSImportField, column: string) => {
+    if (!activeGrid) return;
+    const override = { ...mappingOverride, [field]: column === NOT_IMPORTED ? null : column };
+    setMappingOverride(override);
+    setResult(parseBBSGrid(activeGrid, override));
+  };
+
+  const handleImport = () => {
+    if (result && result.components.length > 0) {
+      onImport(result.components, result.metadata);
+      handleClose();
+    }
+  };
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setGrids([]);
+    setSheetName('');
+    setMappingOverride({});
+    setResult(null);
+    setReadError(null);
+    setStep('upload');
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  /** Header text above a column, to help the user pick the right one */
+  const columnHeaderText = (column: string | null) => {
+    if (!activeGrid || !result || !column) return '';
+    return result.headerRows
+      .map(row => activeGrid.rows[row - 1]?.[columnToIndex(column) - 1])
+      .filter(value => value !== null && value !== undefined && String(value).trim() !== '')
+      .map(value => String(value).replace(/\s+/g, ' ').trim())
+      .filter((value, index, all) => all.indexOf(value) === index)
+      .join(' / ');
+  };
+
+  const columnOptions = () => {
+    const width = Math.max(21, ...(activeGrid?.rows.map(row => row.length) ?? []));
+    return Array.from({ length: width }, (_, index) => indexToColumn(index + 1));
+  };
+
+  const renderUploadStep = () => (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8">
+          <FileSpreadsheet className="mx-auto h-12 w-12 text-muted-foreground/50 mb-4" />
+          <div className="space-y-2">
+            <h3 className="text-lg font-medium">Upload BBS Workbook</h3>
+            <p className="text-sm text-muted-foreground">
+              Choose an .xlsx file laid out like the BBS sheet (component header, span rows, bar rows with a–f / Lap)
+            </p>
+          </div>
+          <div className="mt-4 space-y-2">
+            <Button onClick={() => fileInputRef.current?.click()}>
+              Choose File
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFileUpload}
+              className="hidden"
+            />
+          </div>
+        </div>
+      </div>
+
+      {readError && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {readError}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderPreviewStep = () => {
+    if (!result) return null;
+
+    const { components, errors, ambiguous, mapping, success } = result;
+    const barCount = components.reduce((total, component) => total + component.bars.length, 0);
+    const options = columnOptions();
+
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-4 flex-wrap">
+          <div className="flex items-center gap-2">
+            {success ? (
+              <CheckCircle className="h-5 w-5 text-green-600" />
+            ) : (
+              <AlertCircle className="h-5 w-5 text-red-600" />
+            )}
+            <span className="font-medium">
+              {success ? 'Workbook Recognised' : 'No Components Found'}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <Badge variant="secondary">{components.length} components</Badge>
+            <Badge variant="secondary">{barCount} bars</Badge>
+            {ambiguous.length > 0 && (
+              <Badge variant="outline">{ambiguous.length} columns to check</Badge>
+            )}
+            {errors.length > 0 && (
+              <Badge variant="destructive">{errors.length} issues</Badge>
+            )}
+          </div>
+          {grids.length > 1 && (
+            <Select value={sheetName} onValueChange={handleSheetChange}>
+              <SelectTrigger className="w-[200px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {grids.map(grid => (
+                  <SelectItem key={grid.name} value={grid.name}>{grid.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Column Mapping:</h4>
+          <div className="max-h-64 overflow-y-auto border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-32">Field</TableHead>
+                  <TableHead className="w-28">Column</TableHead>
+                  <TableHead>Sheet Header</TableHead>
+                  <TableHead className="w-32">Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {BBS_IMPORT_FIELDS.map(field => {
+                  const issue = ambiguous.find(item => item.field === field);
+                  return (
+                    <TableRow key={field} className={issue ? 'bg-amber-50' : undefined}>
+                      <TableCell className="font-medium">{BBS_IMPORT_FIELD_LABELS[field]}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping[field] ?? NOT_IMPORTED}
+                          onValueChange={value => handleMappingChange(field, value)}
+                        >
+                          <SelectTrigger className="h-8 w-20">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_IMPORTED}>—</SelectItem>
+                            {options.map(column => (
+                              <SelectItem key={column} value={column}>{column}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{columnHeaderText(mapping[field])}</TableCell>
+                      <TableCell>
+                        {issue?.reason === 'multiple-matches' && (
+                          <Badge variant="outline">Found in {issue.candidates.join(', ')}</Badge>
+                        )}
+                        {issue?.reason === 'not-found' && (
+                          <Badge variant="outline">Not found</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-destructive">Issues Found:</h4>
+            <div className="max-h-32 overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead className="w-24">Column</TableHead>
+                    <TableHead>Issue</TableHead>
+                    <TableHead className="w-32">Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {errors.map((error, index) => (
+                    <TableRow key={index}>
+                      <TableCell>{error.row || '-'}</TableCell>
+                      <TableCell className="font-mono text-xs">{error.column}</TableCell>
+                      <TableCell className="text-sm">{error.message}</TableCell>
+                      <TableCell className="font-mono text-xs">{error.value}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {components.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Preview Components:</h4>
+            <div className="max-h-64 overflow-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Component / Bar Type</TableHead>
+                    <TableHead>Span X / Y</TableHead>
+                    <TableHead>Dia</TableHead>
+                    <TableHead>Spacing</TableHead>
+                    <TableHead>a</TableHead>
+                    <TableHead>b</TableHead>
+                    <TableHead>c</TableHead>
+                    <TableHead>d</TableHead>
+                    <TableHead>e</TableHead>
+                    <TableHead>f</TableHead>
+                    <TableHead>Lap</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {components.map(component => (
+                    <React.Fragment key={component.id}>
+                      <TableRow className="bg-muted/30">
+                        <TableCell className="font-bold">{component.name}</TableCell>
+                        <TableCell>{component.spanX} / {component.spanY}</TableCell>
+                        <TableCell colSpan={9} className="text-xs text-muted-foreground">
+                          {component.componentType} · {component.bars.length} bars
+                        </TableCell>
+                      </TableRow>
+                      {component.bars.map(bar => (
+                        <TableRow key={bar.id}>
+                          <TableCell className="pl-6">{bar.barType}</TableCell>
+                          <TableCell></TableCell>
+                          <TableCell>{bar.diameter}mm</TableCell>
+                          <TableCell>{bar.spacing}</TableCell>
+                          <TableCell>{bar.measurements.a}</TableCell>
+                          <TableCell>{bar.measurements.b ?? '-'}</TableCell>
+                          <TableCell>{bar.measurements.c ?? '-'}</TableCell>
+                          <TableCell>{bar.measurements.d ?? '-'}</TableCell>
+                          <TableCell>{bar.measurements.e ?? '-'}</TableCell>
+                          <TableCell>{bar.measurements.f ?? '-'}</TableCell>
+                          <TableCell>{bar.measurements.lap ?? '-'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => (open ? setIsOpen(true) : handleClose())}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline">
+            <Upload className="h-4 w-4 mr-2" />
+            Import Excel
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Components from Excel BBS</DialogTitle>
+          <DialogDescription>
+            Upload an .xlsx bar bending schedule to import its components and bar rows.
+            {step === 'preview' && result && (
+              <span className="block mt-2">
+                Sheet "{result.sheetName}": check the column mapping below before importing.
+              </span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="py-4">
+          {step === 'upload' && renderUploadStep()}
+          {step === 'preview' && renderPreviewStep()}
+        </div>
+
+        <DialogFooter className="flex justify-between">
+          <div className="flex gap-2">
+            {step === 'preview' && (
+              <Button variant="outline" onClick={() => setStep('upload')}>
+                Back
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            {step === 'preview' && result && result.components.length > 0 && (
+              <Button onClick={handleImport}>
+                Import {result.components.length} Components
+              </Button>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -20,20 +20,26 @@ import {
 } from '@/components/ui/select';
 
 import type { ProjectConfig, CalculatedBar } from '@/types';
+import type { ConcreteComponent, BBSMetadata } from '@/types/component-types';
 import { ExcelExporter, type ExportSummaries } from '@/lib/excel-exporter';
 
-export type ExportType = 'BBS' | 'ABSTRACT';
+export type ExportType = 'BBS' | 'ABSTRACT' | 'COMPONENT_BBS';
 
 interface ExportDialogProps {
   project: ProjectConfig;
   bars: CalculatedBar[];
   summaries: ExportSummaries;
+  // Component-mode data; when given, the component BBS export is offered
+  components?: ConcreteComponent[];
+  metadata?: BBSMetadata;
   trigger?: React.ReactNode;
 }
 
-export function ExportDialog({ project, bars, summaries, trigger }: ExportDialogProps) {
+export function ExportDialog({ project, bars, summaries, components, metadata, trigger }: ExportDialogProps) {
+  const defaultExportType: ExportType = components ? 'COMPONENT_BBS' : 'BBS';
+  const componentBarCount = components?.reduce((count, component) => count + component.bars.length, 0) ?? 0;
   const [isOpen, setIsOpen] = useState(false);
-  const [exportType, setExportType] = useState<ExportType>('BBS');
+  const [exportType, setExportType] = useState<ExportType>(defaultExportType);
   const [isExporting, setIsExporting] = useState(false);
   const [exportStatus, setExportStatus] = useState<{
     type: 'success' | 'error';
@@ -41,7 +47,15 @@ export function ExportDialog({ project, bars, summaries, trigger }: ExportDialog
   } | null>(null);
 
   const handleExport = async () => {
-    if (!project || bars.length === 0) {
+    if (exportType === 'COMPONENT_BBS' && componentBarCount === 0) {
+      setExportStatus({
+        type: 'error',
+        message: 'No data available to export. Please add some components and bars first.'
+      });
+      return;
+    }
+
+    if (exportType !== 'COMPONENT_BBS' && (!project || bars.length === 0)) {
       setExportStatus({
         type: 'error',
         message: 'No data available to export. Please add some bar entries first.'
@@ -56,7 +70,10 @@ export function ExportDialog({ project, bars, summaries, trigger }: ExportDialog
       let blob: Blob;
       let filename: string;
 
-      if (exportType === 'BBS') {
+      if (exportType === 'COMPONENT_BBS') {
+        blob = await ExcelExporter.exportComponentBBS(project, components ?? [], metadata);
+        filename = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_BBS_${new Date().toISOString().split('T')[0]}.xlsx`;
+      } else if (exportType === 'BBS') {
         blob = await ExcelExporter.exportBBS(project, bars);
         filename = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_BBS_${new Date().toISOString().split('T')[0]}.xlsx`;
       } else {
@@ -90,7 +107,7 @@ export function ExportDialog({ project, bars, summaries, trigger }: ExportDialog
 
   const handleClose = () => {
     setIsOpen(false);
-    setExportType('BBS');
+    setExportType(defaultExportType);
     setIsExporting(false);
     setExportStatus(null);
   };
@@ -101,6 +118,8 @@ export function ExportDialog({ project, bars, summaries, trigger }: ExportDialog
         return 'Complete Bar Bending Schedule with all bar details, cut lengths, weights, and shape diagrams';
       case 'ABSTRACT':
         return 'Summary report with diameter-wise, shape-wise, and member-wise totals';
+      case 'COMPONENT_BBS':
+        return 'Component-wise BBS in the standard sheet layout, with live Excel formulas for quantities, cut lengths and weights';
       default:
         return '';
     }
@@ -109,6 +128,7 @@ export function ExportDialog({ project, bars, summaries, trigger }: ExportDialog
   const getExportIcon = (type: ExportType) => {
     switch (type) {
       case 'BBS':
+      case 'COMPONENT_BBS':
         return <FileSpreadsheet className="h-4 w-4" />;
       case 'ABSTRACT':
         return <FileText className="h-4 w-4" />;
@@ -117,7 +137,19 @@ export function ExportDialog({ project, bars, summaries, trigger }: ExportDialog
     }
   };
 
-  const canExport = bars.length > 0 && !isExporting;
+  const getExportTitle = (type: ExportType) => {
+    switch (type) {
+      case 'BBS':
+        return 'Bar Bending Schedule';
+      case 'COMPONENT_BBS':
+        return 'Component BBS';
+      default:
+        return 'Abstract Summary';
+    }
+  };
+
+  const hasData = exportType === 'COMPONENT_BBS' ? componentBarCount > 0 : bars.length > 0;
+  const canExport = hasData && !isExporting;
 
   return (
     <Dialog open={isOpen} onOpenChange={setIsOpen}>
@@ -146,6 +178,14 @@ export function ExportDialog({ project, bars, summaries, trigger }: ExportDialog
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
+                {components && (
+                  <SelectItem value="COMPONENT_BBS">
+                    <div className="flex items-center gap-2">
+                      <FileSpreadsheet className="h-4 w-4" />
+                      <span>Component BBS (with formulas)</span>
+                    </div>
+                  </SelectItem>
+                )}
                 <SelectItem value="BBS">
                   <div className="flex items-center gap-2">
                     <FileSpreadsheet className="h-4 w-4" />
@@ -168,7 +208,7 @@ export function ExportDialog({ project, bars, summaries, trigger }: ExportDialog
               {getExportIcon(exportType)}
               <div className="space-y-1">
                 <p className="text-sm font-medium">
-                  {exportType === 'BBS' ? 'Bar Bending Schedule' : 'Abstract Summary'}
+                  {getExportTitle(exportType)}
                 </p>
                 <p className="text-xs text-muted-foreground">
                   {getExportDescription(exportType)}
@@ -180,12 +220,19 @@ export function ExportDialog({ project, bars, summaries, trigger }: ExportDialog
           {/* Data Summary */}
           <div className="text-sm text-muted-foreground">
             <p>Data to export:</p>
-            <ul className="mt-1 space-y-1 text-xs">
-              <li>• {bars.length} bar entries</li>
-              <li>• {summaries.diameter.length} different diameters</li>
-              <li>• {summaries.shape.length} different shapes</li>
-              <li>• {summaries.member.length} member types</li>
-            </ul>
+            {exportType === 'COMPONENT_BBS' ? (
+              <ul className="mt-1 space-y-1 text-xs">
+                <li>• {components?.length ?? 0} components</li>
+                <li>• {componentBarCount} bar entries</li>
+              </ul>
+            ) : (
+              <ul className="mt-1 space-y-1 text-xs">
+                <li>• {bars.length} bar entries</li>
+                <li>• {summaries.diameter.length} different diameters</li>
+                <li>• {summaries.shape.length} different shapes</li>
+                <li>• {summaries.member.length} member types</li>
+              </ul>
+            )}
           </div>
 
           {/* Status Messages */}
@@ -205,7 +252,7 @@ export function ExportDialog({ project, bars, summaries, trigger }: ExportDialog
           )}
 
           {/* Warning for empty data */}
-          {bars.length === 0 && (
+          {!hasData && (
             <div className="flex items-start gap-2 p-3 rounded-md bg-yellow-50 text-yellow-800 border border-yellow-200">
               <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
               <p className="text-sm">
@@ -228,7 +275,7 @@ export function ExportDialog({ project, bars, summaries, trigger }: ExportDialog
             ) : (
               <>
                 {getExportIcon(exportType)}
-                <span className="ml-2">Export {exportType}</span>
+                <span className="ml-2">Export {exportType === 'COMPONENT_BBS' ? 'BBS' : exportType}</span>
               </>
             )}
           </Button>
@@ -0,0 +1,206 @@
+import { useMemo, useState } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Tag, Printer, FileDown } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+import type { ProjectConfig, CalculatedBar, ShapeDimension } from '@/types';
+import { ShapeDiagram } from './ShapeDiagram';
+import { ExcelExporter } from '@/lib/excel-exporter';
+import { encodeQrCode, getQrCodePath, type QrCode } from '@/lib/qr-code';
+import {
+  DEFAULT_MAX_BUNDLE_WEIGHT,
+  getCalculatedBarTags,
+  getComponentBarTags,
+  getTagPayload,
+  type FabricationTag
+} from '@/lib/fabrication-tags';
+
+interface FabricationTagsViewProps {
+  project: ProjectConfig;
+  calculatedBars: CalculatedBar[];
+}
+
+const DIMENSIONS: ShapeDimension[] = ['A', 'B', 'C', 'D', 'E', 'F'];
+const QUIET_ZONE = 4;                  // Modules of white border round the QR code
+
+const PRINT_STYLES = `
+  @page { size: A4; margin: 10mm; }
+  body { margin: 0; background: white; }
+  .fabrication-tag { break-inside: avoid; }
+`;
+
+function TagQrCode({ payload }: { payload: string }) {
+  let qr: QrCode;
+  try {
+    qr = encodeQrCode(payload);
+  } catch {
+    return <div className="w-28 text-xs text-destructive">Tag data too long for a QR code</div>;
+  }
+
+  const size = qr.size + 2 * QUIET_ZONE;
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-28 h-28 shrink-0" shapeRendering="crispEdges">
+      <rect width={size} height={size} fill="white" />
+      <path d={getQrCodePath(qr, QUIET_ZONE)} fill="black" />
+    </svg>
+  );
+}
+
+function FabricationTagCard({ tag }: { tag: FabricationTag }) {
+  const dimensions = DIMENSIONS
+    .filter(dimension => tag.dimensions[dimension])
+    .map(dimension => `${dimension}=${tag.dimensions[dimension]}`)
+    .join(', ');
+
+  return (
+    <div className="fabrication-tag border-2 border-black rounded-md p-3 space-y-2 bg-white text-black">
+      <div className="flex justify-between gap-2 border-b border-black pb-1">
+        <div>
+          <div className="text-xs">{tag.project}{tag.drawingNumber && ` · ${tag.drawingNumber}`}</div>
+          <div className="text-lg font-bold">{tag.member} · {tag.barType}</div>
+        </div>
+        <div className="text-right">
+          {tag.barMark && <div className="text-2xl font-bold font-mono">{tag.barMark}</div>}
+          <div className="text-xs">Bundle {tag.bundle} of {tag.bundles}</div>
+        </div>
+      </div>
+      <div className="flex gap-3 items-start">
+        <div className="flex-1 min-w-0 space-y-1">
+          <ShapeDiagram shapeCode={tag.shapeCode} dimensions={tag.dimensions} />
+        </div>
+        <TagQrCode payload={getTagPayload(tag)} />
+      </div>
+      <div className="grid grid-cols-4 gap-2 text-sm border-t border-black pt-1">
+        <div><span className="text-xs block">Dia</span><b>Ø{tag.diameter}</b></div>
+        <div><span className="text-xs block">Cut Length</span><b>{Math.round(tag.cutLength)} mm</b></div>
+        <div><span className="text-xs block">Quantity</span><b>{tag.quantity}</b></div>
+        <div><span className="text-xs block">Weight</span><b>{tag.weight.toFixed(1)} kg</b></div>
+      </div>
+      {dimensions && <div className="text-xs font-mono">{dimensions}</div>}
+    </div>
+  );
+}
+
+export function FabricationTagSheet({ tags }: { tags: FabricationTag[] }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 print:grid-cols-2 gap-4">
+      {tags.map(tag => <FabricationTagCard key={tag.id} tag={tag} />)}
+    </div>
+  );
+}
+
+/**
+ * Stand-alone HTML page of the tags, with the app's styles inlined so it prints
+ * (or saves as PDF) the same outside the app
+ */
+function getTagSheetDocument(project: ProjectConfig, tags: FabricationTag[]): string {
+  const styles = Array.from(document.styleSheets).flatMap(sheet => {
+    try {
+      return Array.from(sheet.cssRules, rule => rule.cssText);
+    } catch {
+      return []; // Cross-origin stylesheet
+    }
+  });
+  const title = `${project.name} - Fabrication Tags`.replace(/</g, '&lt;');
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${title}</title>`
+    + `<style>${styles.join('\n')}${PRINT_STYLES}</style></head>`
+    + `<body>${renderToStaticMarkup(<FabricationTagSheet tags={tags} />)}</body></html>`;
+}
+
+export function FabricationTagsView({ project, calculatedBars }: FabricationTagsViewProps) {
+  const [maxBundleWeight, setMaxBundleWeight] = useState(DEFAULT_MAX_BUNDLE_WEIGHT);
+  const [printError, setPrintError] = useState<string | null>(null);
+
+  const tags = useMemo(() => (
+    project.calculationMode === 'COMPONENT'
+      ? getComponentBarTags(project.components || [], project, { maxBundleWeight })
+      : getCalculatedBarTags(calculatedBars, project, { maxBundleWeight })
+  ), [project, calculatedBars, maxBundleWeight]);
+
+  const totalWeight = tags.reduce((sum, tag) => sum + tag.weight, 0);
+
+  const updateMaxBundleWeight = (value: string) => {
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed) || parsed <= 0) return;
+    setMaxBundleWeight(parsed);
+  };
+
+  const handlePrint = () => {
+    setPrintError(null);
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setPrintError('The print window was blocked. Allow pop-ups for this site and try again.');
+      return;
+    }
+    printWindow.document.write(getTagSheetDocument(project, tags));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([getTagSheetDocument(project, tags)], { type: 'text/html' });
+    const filename = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_Tags_${new Date().toISOString().split('T')[0]}.html`;
+    ExcelExporter.downloadExcel(blob, filename);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header & options */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Tag className="h-5 w-5 text-primary" />
+              <span>Fabrication Tags</span>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleDownload} disabled={tags.length === 0}>
+                <FileDown className="h-4 w-4 mr-2" />
+                Download HTML
+              </Button>
+              <Button variant="outline" size="sm" onClick={handlePrint} disabled={tags.length === 0}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print / PDF
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end gap-6">
+            <div className="space-y-1">
+              <label className="text-xs font-semibold uppercase text-muted-foreground">Max Bundle Weight (kg)</label>
+              <Input
+                type="number"
+                min={1}
+                defaultValue={maxBundleWeight}
+                onChange={(e) => updateMaxBundleWeight(e.target.value)}
+                className="w-40"
+              />
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {tags.length} tags · {totalWeight.toFixed(1)} kg. Bars heavier than the bundle limit are split into
+              bundles of near-equal quantity, one tag each.
+            </p>
+          </div>
+          {printError && (
+            <p className="text-sm text-red-600">{printError}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {tags.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center text-muted-foreground">
+            No bars to tag yet.
+          </CardContent>
+        </Card>
+      ) : (
+        <FabricationTagSheet tags={tags} />
+      )}
+    </div>
+  );
+}
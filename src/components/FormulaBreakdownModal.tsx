@@ -8,6 +8,8 @@ import {
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { calculateBendDeduction } from '@/lib/calculator';
+import { getProjectBendRadius } from '@/lib/bend-allowance';
 import type { BarEntry, ProjectConfig } from '@/types';
 import { CalculationVerificationIndicator } from './CalculationVerificationIndicator';
 import { formulaDisplayService, type CalculationStep } from '@/lib/formula-display-service';
@@ -75,6 +77,8 @@ export function FormulaBreakdownModal({
                 {bar.dimensions.B && <div>B: <span className="font-mono">{bar.dimensions.B}mm</span></div>}
                 {bar.dimensions.C && <div>C: <span className="font-mono">{bar.dimensions.C}mm</span></div>}
                 {bar.dimensions.D && <div>D: <span className="font-mono">{bar.dimensions.D}mm</span></div>}
+                {bar.dimensions.E && <div>E: <span className="font-mono">{bar.dimensions.E}mm</span></div>}
+                {bar.dimensions.F && <div>F: <span className="font-mono">{bar.dimensions.F}mm</span></div>}
               </div>
             </div>
           </div>
@@ -138,11 +142,22 @@ export function FormulaBreakdownModal({
             <div className="grid grid-cols-2 gap-4 text-sm">
               <div className="space-y-2">
                 <div className="font-medium text-muted-foreground">Bend Deductions</div>
-                <div className="space-y-1 pl-2">
-                  <div>45° bends: <span className="font-mono">{config.bendDeductions.deg45}d</span></div>
-                  <div>90° bends: <span className="font-mono">{config.bendDeductions.deg90}d</span></div>
-                  <div>135° bends: <span className="font-mono">{config.bendDeductions.deg135}d</span></div>
-                </div>
+                {config.bendDeductions.mode === 'GEOMETRIC' ? (
+                  <div className="space-y-1 pl-2">
+                    <div>Bend radius: <span className="font-mono">{getProjectBendRadius(bar.diameter, config)}mm</span> ({config.bendDeductions.formerTable ?? 'IS 2502'})</div>
+                    {[45, 90, 135, 180].map(angle => (
+                      <div key={angle}>
+                        {angle}° bends: <span className="font-mono">{calculateBendDeduction(angle, bar.diameter, config).toFixed(1)}mm</span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="space-y-1 pl-2">
+                    <div>45° bends: <span className="font-mono">{config.bendDeductions.deg45}d</span></div>
+                    <div>90° bends: <span className="font-mono">{config.bendDeductions.deg90}d</span></div>
+                    <div>135° bends: <span className="font-mono">{config.bendDeductions.deg135}d</span></div>
+                  </div>
+                )}
               </div>
               <div className="space-y-2">
                 <div className="font-medium text-muted-foreground">Hook Parameters</div>
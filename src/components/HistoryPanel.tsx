@@ -0,0 +1,103 @@
+import { History, Undo2, Redo2, Trash2, X } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+import type { HistoryCommand, HistoryCommandType, ProjectHistory } from '@/lib/project-history';
+
+interface HistoryPanelProps {
+  history: ProjectHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (commandId: string | null) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const TYPE_LABELS: Record<HistoryCommandType, string> = {
+  ADD: 'Add',
+  UPDATE: 'Edit',
+  DELETE: 'Delete',
+  REORDER: 'Order',
+  METADATA: 'Details',
+  PROFILE: 'Profile',
+  SETTINGS: 'Settings',
+  MODE: 'Mode',
+  MARKS: 'Marks',
+};
+
+export function HistoryPanel({ history, onUndo, onRedo, onJump, onClear, onClose }: HistoryPanelProps) {
+  const current = history.past[history.past.length - 1];
+
+  const renderStep = (command: HistoryCommand, undone: boolean) => (
+    <li key={command.id}>
+      <button
+        type="button"
+        onClick={() => onJump(command.id)}
+        className={`w-full flex items-center gap-2 rounded px-2 py-1 text-left text-sm hover:bg-muted ${
+          command === current ? 'bg-primary/10 font-medium' : ''
+        } ${undone ? 'text-muted-foreground line-through' : ''}`}
+      >
+        <Badge variant={command.type === 'DELETE' ? 'destructive' : 'outline'} className="w-16 justify-center">
+          {TYPE_LABELS[command.type]}
+        </Badge>
+        <span className="flex-1 truncate" title={command.label}>{command.label}</span>
+        <span className="text-xs text-muted-foreground">
+          {new Date(command.timestamp).toLocaleTimeString()}
+        </span>
+      </button>
+    </li>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between text-base">
+          <div className="flex items-center gap-2">
+            <History className="h-4 w-4 text-primary" />
+            <span>History</span>
+            <span className="text-xs font-normal text-muted-foreground">Ctrl+Z / Ctrl+Y</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={onUndo} disabled={history.past.length === 0} title="Undo (Ctrl+Z)">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onRedo} disabled={history.future.length === 0} title="Redo (Ctrl+Y)">
+              <Redo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClear}
+              disabled={history.past.length === 0 && history.future.length === 0}
+              title="Clear history"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClose} title="Close">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className="max-h-64 overflow-y-auto space-y-0.5">
+          <li>
+            <button
+              type="button"
+              onClick={() => onJump(null)}
+              className={`w-full rounded px-2 py-1 text-left text-sm hover:bg-muted ${
+                !current ? 'bg-primary/10 font-medium' : 'text-muted-foreground'
+              }`}
+            >
+              Start of history
+            </button>
+          </li>
+          {history.past.map(command => renderStep(command, false))}
+          {history.future.map(command => renderStep(command, true))}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
@@ -120,14 +120,25 @@ export function ProfileSelector({
                   <span className="text-muted-foreground">Hook Multiplier</span>
                   <div className="font-medium">{selectedProfile.defaultHookMultiplier}×</div>
                 </div>
-                <div className="space-y-1">
-                  <span className="text-muted-foreground">90° Bend</span>
-                  <div className="font-medium">{selectedProfile.bendDeductions.deg90}× dia</div>
-                </div>
-                <div className="space-y-1">
-                  <span className="text-muted-foreground">135° Bend</span>
-                  <div className="font-medium">{selectedProfile.bendDeductions.deg135}× dia</div>
-                </div>
+                {selectedProfile.bendDeductions.mode === 'GEOMETRIC' ? (
+                  <div className="space-y-1 col-span-2">
+                    <span className="text-muted-foreground">Bend Deductions</span>
+                    <div className="font-medium">
+                      Geometric, {selectedProfile.bendDeductions.formerTable ?? 'IS 2502'} formers
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">90° Bend</span>
+                      <div className="font-medium">{selectedProfile.bendDeductions.deg90}× dia</div>
+                    </div>
+                    <div className="space-y-1">
+                      <span className="text-muted-foreground">135° Bend</span>
+                      <div className="font-medium">{selectedProfile.bendDeductions.deg135}× dia</div>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
 
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
@@ -10,12 +10,21 @@ import { ProfileSwitchDialog } from './ProfileSwitchDialog';
 import { calculateAll } from '@/lib/calculator';
 import { summarizeByDiameter, summarizeByShape, summarizeByMember } from '@/lib/calculator';
 import { saveToLocalStorage } from '@/lib/local-storage';
-import { Settings, Download, Save, AlertCircle, RefreshCw } from 'lucide-react';
+import { Settings, Download, Save, AlertCircle, RefreshCw, Undo2, Redo2, History } from 'lucide-react';
 import type { ProjectConfig, BarEntry, CalculatedBar } from '@/types';
 import { codeProfileService } from '@/services/code-profile-service';
 import { MethodologyToggle } from './MethodologyToggle';
 import { BBSSpreadsheetView } from './BBSSpreadsheetView';
+import { CuttingPlanView } from './CuttingPlanView';
+import { RevisionsView } from './RevisionsView';
+import { BarMarkScheduleView } from './BarMarkScheduleView';
+import { FabricationTagsView } from './FabricationTagsView';
+import { cutRequirementsFromBars, cutRequirementsFromComponents } from '@/lib/cutting-optimizer';
 import type { ConcreteComponent, BBSMetadata } from '@/types/component-types';
+import { HistoryPanel } from './HistoryPanel';
+import { useProjectHistory } from '@/hooks/use-project-history';
+import { describeBarChange, describeComponentChange, type ProjectState } from '@/lib/project-history';
+import { lockComponentBarMarks, lockManualBarMarks } from '@/lib/bar-marks';
 
 interface ProjectDetailPageProps {
   projectId: string;
@@ -26,13 +35,29 @@ interface ProjectDetailPageProps {
 }
 
 export function ProjectDetailPage({
+  projectId,
   initialConfig,
   initialBars,
   onConfigUpdate,
   onBarsUpdate,
 }: ProjectDetailPageProps) {
-  const [config, setConfig] = useState<ProjectConfig>(initialConfig);
-  const [allBars, setAllBars] = useState<BarEntry[]>(initialBars);
+  // Every edit goes through the history so it can be undone
+  const {
+    state: { config, bars: allBars },
+    history,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    clear: clearHistory,
+    canUndo,
+    canRedo,
+    saveError: historySaveError,
+  } = useProjectHistory(projectId, { config: initialConfig, bars: initialBars }, changed => {
+    if (changed.config) onConfigUpdate(changed.config);
+    if (changed.bars) onBarsUpdate(changed.bars);
+  });
+  const [historyOpen, setHistoryOpen] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
@@ -55,15 +80,29 @@ export function ProjectDetailPage({
     member: summarizeByMember(calculatedBars),
   }), [calculatedBars]);
 
+  // Cut lengths for the cutting plan (component bars in component mode)
+  const cutRequirements = useMemo(() => (
+    config.calculationMode === 'COMPONENT'
+      ? cutRequirementsFromComponents(config.components || [], config.bbsMetadata)
+      : cutRequirementsFromBars(calculatedBars)
+  ), [config.calculationMode, config.components, config.bbsMetadata, calculatedBars]);
+
+  // What is in storage, so opening a project does not count as an edit
+  const savedRef = useRef({ config: initialConfig, bars: initialBars });
+
   // Auto-save functionality
   useEffect(() => {
+    if (savedRef.current.config === config && savedRef.current.bars === allBars) return;
+
     const saveData = async () => {
       setSaveStatus('saving');
       
       try {
-        const result = saveToLocalStorage(config, allBars);
+        // updatedAt marks the edit for cloud sync conflict detection
+        const result = saveToLocalStorage({ ...config, updatedAt: new Date() }, allBars);
         
         if (result.success) {
+          savedRef.current = { config, bars: allBars };
           setSaveStatus('saved');
           setLastSaved(new Date());
           
@@ -85,68 +124,69 @@ export function ProjectDetailPage({
   }, [config, allBars]);
 
   const handleConfigUpdate = (newConfig: Omit<ProjectConfig, 'id' | 'createdAt' | 'updatedAt'>) => {
-    const updatedConfig: ProjectConfig = {
-      ...config,
-      ...newConfig,
-      updatedAt: new Date(),
-    };
-    
-    setConfig(updatedConfig);
-    onConfigUpdate(updatedConfig);
+    commit(
+      current => ({ config: { ...current.config, ...newConfig, updatedAt: new Date() } }),
+      () => ({ type: 'SETTINGS', label: 'Update project settings' })
+    );
     setSettingsOpen(false);
   };
 
   const handleProfileSwitch = (newConfig: ProjectConfig) => {
-    setConfig(newConfig);
-    onConfigUpdate(newConfig);
+    const profile = newConfig.codeProfileId ? codeProfileService.getProfile(newConfig.codeProfileId) : null;
+    commit(
+      { config: newConfig },
+      () => ({ type: 'PROFILE', label: `Switch profile to ${profile?.name || newConfig.codeStandard}` })
+    );
   };
 
-  const handleBeamBarsChange = (bars: BarEntry[]) => {
-    const newAllBars = [
-      ...bars,
-      ...columnBars,
-      ...slabBars,
-    ];
-    setAllBars(newAllBars);
-    onBarsUpdate(newAllBars);
+  // Bars of one member type replace that member's bars, keeping the others
+  const handleMemberBarsChange = (memberType: BarEntry['memberType'], bars: BarEntry[]) => {
+    commit(
+      current => ({
+        bars: (['BEAM', 'COLUMN', 'SLAB'] as const).flatMap(type =>
+          type === memberType ? bars : current.bars.filter(bar => bar.memberType === type)
+        ),
+      }),
+      (before, after) => describeBarChange(before.bars, after.bars)
+    );
   };
 
-  const handleColumnBarsChange = (bars: BarEntry[]) => {
-    const newAllBars = [
-      ...beamBars,
-      ...bars,
-      ...slabBars,
-    ];
-    setAllBars(newAllBars);
-    onBarsUpdate(newAllBars);
+  const handleModeChange = (mode: 'MANUAL' | 'COMPONENT') => {
+    commit(
+      current => ({ config: { ...current.config, calculationMode: mode } }),
+      () => ({ type: 'MODE', label: `Switch to ${mode === 'COMPONENT' ? 'component' : 'manual'} mode` })
+    );
   };
 
-  const handleSlabBarsChange = (bars: BarEntry[]) => {
-    const newAllBars = [
-      ...beamBars,
-      ...columnBars,
-      ...bars,
-    ];
-    setAllBars(newAllBars);
-    onBarsUpdate(newAllBars);
+  const handleComponentsChange = (components: ConcreteComponent[]) => {
+    commit(
+      current => ({ config: { ...current.config, components } }),
+      (before, after) => describeComponentChange(before.config.components || [], after.config.components || [])
+    );
   };
 
-  const handleModeChange = (mode: 'MANUAL' | 'COMPONENT') => {
-    const updatedConfig = { ...config, calculationMode: mode };
-    setConfig(updatedConfig);
-    onConfigUpdate(updatedConfig);
+  const handleMetadataChange = (metadata: BBSMetadata) => {
+    commit(
+      current => ({ config: { ...current.config, bbsMetadata: metadata } }),
+      () => ({ type: 'METADATA', label: 'Edit BBS details', mergeKey: 'metadata' })
+    );
   };
 
-  const handleComponentsChange = (components: ConcreteComponent[]) => {
-    const updatedConfig = { ...config, components };
-    setConfig(updatedConfig);
-    onConfigUpdate(updatedConfig);
+  const handleBarMarksChange = (changes: Partial<ProjectState>, label: string, mergeKey?: string) => {
+    commit(changes, () => ({ type: 'MARKS', label, mergeKey }));
   };
 
-  const handleMetadataChange = (metadata: BBSMetadata) => {
-    const updatedConfig = { ...config, bbsMetadata: metadata };
-    setConfig(updatedConfig);
-    onConfigUpdate(updatedConfig);
+  // Issuing a revision fixes the marks on the drawings and at the fabricator
+  const handleRevisionIssued = () => {
+    const unlocked = (bar: { barMark?: string; barMarkLocked?: boolean }) => !!bar.barMark && !bar.barMarkLocked;
+    if (!allBars.some(unlocked) && !(config.components || []).some(component => component.bars.some(unlocked))) return;
+    commit(
+      current => ({
+        config: { ...current.config, components: current.config.components && lockComponentBarMarks(current.config.components, true) },
+        bars: lockManualBarMarks(current.bars, true),
+      }),
+      () => ({ type: 'MARKS', label: 'Lock bar marks on issue' })
+    );
   };
 
   const getSaveStatusIcon = () => {
@@ -199,10 +239,34 @@ export function ProjectDetailPage({
         </div>
         
         <div className="flex items-center gap-4">
+          {/* Undo / Redo */}
+          <div className="flex items-center gap-1">
+            <Button variant="outline" size="icon" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Y)">
+              <Redo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={historyOpen ? 'secondary' : 'outline'}
+              size="icon"
+              onClick={() => setHistoryOpen(open => !open)}
+              title="History"
+            >
+              <History className="h-4 w-4" />
+            </Button>
+          </div>
+
           {/* Save Status */}
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             {getSaveStatusIcon()}
             <span>{getSaveStatusText()}</span>
+            {historySaveError && (
+              <span className="flex items-center gap-1 text-destructive" title={historySaveError}>
+                <AlertCircle className="h-4 w-4" />
+                Undo history not saved
+              </span>
+            )}
           </div>
 
           {/* Profile Switch Button */}
@@ -223,6 +287,8 @@ export function ProjectDetailPage({
             project={config}
             bars={calculatedBars}
             summaries={summaries}
+            components={config.calculationMode === 'COMPONENT' ? config.components || [] : undefined}
+            metadata={config.bbsMetadata}
             trigger={
               <Button variant="outline" className="flex items-center gap-2">
                 <Download className="h-4 w-4" />
@@ -254,7 +320,16 @@ export function ProjectDetailPage({
         </div>
       </div>
 
-
+      {historyOpen && (
+        <HistoryPanel
+          history={history}
+          onUndo={undo}
+          onRedo={redo}
+          onJump={jumpTo}
+          onClear={clearHistory}
+          onClose={() => setHistoryOpen(false)}
+        />
+      )}
 
       {/* Methodology Toggle */}
       <MethodologyToggle 
@@ -263,18 +338,56 @@ export function ProjectDetailPage({
       />
 
       {config.calculationMode === 'COMPONENT' ? (
-        <BBSSpreadsheetView 
-          components={config.components || []}
-          metadata={config.bbsMetadata}
-          onComponentsChange={handleComponentsChange}
-          onMetadataChange={handleMetadataChange}
-        />
+        <Tabs defaultValue="bbs" className="w-full">
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="bbs">Bar Bending Schedule</TabsTrigger>
+            <TabsTrigger value="marks">Bar Marks</TabsTrigger>
+            <TabsTrigger value="tags">Tags</TabsTrigger>
+            <TabsTrigger value="cutting">Cutting Plan</TabsTrigger>
+            <TabsTrigger value="revisions">Revisions</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="bbs" className="mt-6">
+            <BBSSpreadsheetView 
+              components={config.components || []}
+              metadata={config.bbsMetadata}
+              onComponentsChange={handleComponentsChange}
+              onMetadataChange={handleMetadataChange}
+              codeProfile={config.codeProfileId ? codeProfileService.getProfile(config.codeProfileId) : null}
+            />
+          </TabsContent>
+
+          <TabsContent value="marks" className="mt-6">
+            <BarMarkScheduleView
+              project={config}
+              bars={allBars}
+              calculatedBars={calculatedBars}
+              onChange={handleBarMarksChange}
+            />
+          </TabsContent>
+
+          <TabsContent value="tags" className="mt-6">
+            <FabricationTagsView project={config} calculatedBars={calculatedBars} />
+          </TabsContent>
+
+          <TabsContent value="cutting" className="mt-6">
+            <CuttingPlanView project={config} requirements={cutRequirements} />
+          </TabsContent>
+
+          <TabsContent value="revisions" className="mt-6">
+            <RevisionsView project={config} bars={allBars} onIssue={handleRevisionIssued} />
+          </TabsContent>
+        </Tabs>
       ) : (
       /* Main Content Tabs (Manual Mode) */
       <Tabs defaultValue="bars" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="bars">Bar Entry</TabsTrigger>
           <TabsTrigger value="summary">Summary & Reports</TabsTrigger>
+          <TabsTrigger value="marks">Bar Marks</TabsTrigger>
+          <TabsTrigger value="tags">Tags</TabsTrigger>
+          <TabsTrigger value="cutting">Cutting Plan</TabsTrigger>
+          <TabsTrigger value="revisions">Revisions</TabsTrigger>
         </TabsList>
 
         <TabsContent value="bars" className="mt-6">
@@ -283,9 +396,9 @@ export function ProjectDetailPage({
             columnBars={columnBars}
             slabBars={slabBars}
             projectConfig={config}
-            onBeamBarsChange={handleBeamBarsChange}
-            onColumnBarsChange={handleColumnBarsChange}
-            onSlabBarsChange={handleSlabBarsChange}
+            onBeamBarsChange={bars => handleMemberBarsChange('BEAM', bars)}
+            onColumnBarsChange={bars => handleMemberBarsChange('COLUMN', bars)}
+            onSlabBarsChange={bars => handleMemberBarsChange('SLAB', bars)}
           />
         </TabsContent>
 
@@ -317,6 +430,27 @@ export function ProjectDetailPage({
             <SummaryView bars={calculatedBars} />
           </div>
         </TabsContent>
+
+        <TabsContent value="marks" className="mt-6">
+          <BarMarkScheduleView
+            project={config}
+            bars={allBars}
+            calculatedBars={calculatedBars}
+            onChange={handleBarMarksChange}
+          />
+        </TabsContent>
+
+        <TabsContent value="tags" className="mt-6">
+          <FabricationTagsView project={config} calculatedBars={calculatedBars} />
+        </TabsContent>
+
+        <TabsContent value="cutting" className="mt-6">
+          <CuttingPlanView project={config} requirements={cutRequirements} />
+        </TabsContent>
+
+        <TabsContent value="revisions" className="mt-6">
+          <RevisionsView project={config} bars={allBars} onIssue={handleRevisionIssued} />
+        </TabsContent>
       </Tabs>
       )}
     </div>
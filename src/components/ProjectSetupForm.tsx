@@ -4,7 +4,7 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ProfileSelector } from '@/components/ProfileSelector';
-import type { ProjectConfig, BendDeductions, CodeProfile } from '@/types';
+import type { ProjectConfig, BendDeductions, BendDeductionMode, CodeProfile, FormerDiameterTable } from '@/types';
 import { codeProfileService } from '@/services/code-profile-service';
 
 interface ProjectSetupFormProps {
@@ -34,7 +34,9 @@ export function ProjectSetupForm({
       deg45: initialConfig?.bendDeductions?.deg45 || 1,
       deg90: initialConfig?.bendDeductions?.deg90 || 2,
       deg135: initialConfig?.bendDeductions?.deg135 || 3,
-    }
+      mode: initialConfig?.bendDeductions?.mode,
+      formerTable: initialConfig?.bendDeductions?.formerTable,
+    } as BendDeductions
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -131,7 +133,17 @@ export function ProjectSetupForm({
     }
   };
 
-  const handleBendDeductionChange = (angle: keyof BendDeductions, value: number) => {
+  const handleBendModeChange = (changes: Pick<BendDeductions, 'mode' | 'formerTable'>) => {
+    setFormData(prev => ({
+      ...prev,
+      bendDeductions: {
+        ...prev.bendDeductions,
+        ...changes
+      }
+    }));
+  };
+
+  const handleBendDeductionChange = (angle: 'deg45' | 'deg90' | 'deg135', value: number) => {
     setFormData(prev => ({
       ...prev,
       bendDeductions: {
@@ -247,6 +259,51 @@ export function ProjectSetupForm({
                   </p>
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {/* Deduction Mode */}
+                  <div className="space-y-2">
+                    <label htmlFor="bendMode" className="text-sm font-medium">
+                      Deduction Mode
+                    </label>
+                    <Select
+                      value={formData.bendDeductions.mode ?? 'MULTIPLIER'}
+                      onValueChange={(value: BendDeductionMode) => handleBendModeChange({ mode: value })}
+                    >
+                      <SelectTrigger id="bendMode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="MULTIPLIER">Multiplier per angle</SelectItem>
+                        <SelectItem value="GEOMETRIC">Geometric (former diameter)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Former Diameter Table */}
+                  {formData.bendDeductions.mode === 'GEOMETRIC' && (
+                    <div className="space-y-2">
+                      <label htmlFor="formerTable" className="text-sm font-medium">
+                        Former Diameter Table
+                      </label>
+                      <Select
+                        value={formData.bendDeductions.formerTable ?? 'IS 2502'}
+                        onValueChange={(value: FormerDiameterTable) => handleBendModeChange({ formerTable: value })}
+                      >
+                        <SelectTrigger id="formerTable">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="IS 2502">IS 2502</SelectItem>
+                          <SelectItem value="BS 8666">BS 8666</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Deductions follow the bend angle and the minimum former for the bar size and steel grade
+                      </p>
+                    </div>
+                  )}
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   {/* 45° Bend */}
                   <div className="space-y-2">
@@ -0,0 +1,345 @@
+import { useMemo, useState } from 'react';
+import { GitCompare, Download, Loader2, Plus, Trash2 } from 'lucide-react';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+import type { ProjectConfig, BarEntry } from '@/types';
+import { ExcelExporter } from '@/lib/excel-exporter';
+import { loadRevisionsFromLocalStorage, saveRevisionsToLocalStorage } from '@/lib/local-storage';
+import {
+  createRevisionSnapshot,
+  diffRevisions,
+  getNextRevisionName,
+  type RevisionChangeType,
+  type RevisionField,
+  type RevisionSnapshot
+} from '@/lib/project-revisions';
+
+interface RevisionsViewProps {
+  project: ProjectConfig;
+  bars: BarEntry[];
+  onIssue?: () => void;            // After a revision is saved, e.g. to lock its bar marks
+}
+
+const CHANGE_LABELS: Record<RevisionChangeType, string> = {
+  ADDED: 'Added',
+  REMOVED: 'Removed',
+  CHANGED: 'Changed',
+  UNCHANGED: 'Unchanged',
+};
+
+const CHANGE_CLASSES: Record<RevisionChangeType, string> = {
+  ADDED: 'border-green-600 text-green-700',
+  REMOVED: 'border-red-600 text-red-700',
+  CHANGED: 'border-amber-500 text-amber-700',
+  UNCHANGED: 'text-muted-foreground',
+};
+
+const FIELD_LABELS: Record<RevisionField, string> = {
+  cutLength: 'cut length',
+  quantity: 'quantity',
+  diameter: 'diameter',
+};
+
+const formatDelta = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+const deltaClass = (value: number) =>
+  Math.abs(value) < 0.005 ? '' : value > 0 ? 'text-green-700' : 'text-red-700';
+
+export function RevisionsView({ project, bars, onIssue }: RevisionsViewProps) {
+  const [loaded] = useState(() => loadRevisionsFromLocalStorage(project.id));
+  const [revisions, setRevisions] = useState<RevisionSnapshot[]>(loaded.data || []);
+  const [storageError, setStorageError] = useState<string | null>(loaded.success ? null : loaded.error || null);
+  const [name, setName] = useState(() => getNextRevisionName(loaded.data || []));
+  const [note, setNote] = useState('');
+  const [fromId, setFromId] = useState<string | undefined>(revisions[revisions.length - 2]?.id);
+  const [toId, setToId] = useState<string | undefined>(revisions[revisions.length - 1]?.id);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const from = revisions.find(revision => revision.id === fromId);
+  const to = revisions.find(revision => revision.id === toId);
+  const diff = useMemo(() => (from && to ? diffRevisions(from, to) : null), [from, to]);
+
+  const persist = (next: RevisionSnapshot[]) => {
+    const result = saveRevisionsToLocalStorage(project.id, next);
+    setStorageError(result.success ? null : result.error || null);
+    setRevisions(next);
+  };
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    const snapshot = createRevisionSnapshot(project, bars, name, note);
+    const next = [...revisions, snapshot];
+    persist(next);
+    // Compare the new revision with the previous one
+    setFromId(toId ?? revisions[revisions.length - 1]?.id);
+    setToId(snapshot.id);
+    setName(getNextRevisionName(next));
+    setNote('');
+    onIssue?.();
+  };
+
+  const handleDelete = (id: string) => {
+    const revision = revisions.find(item => item.id === id);
+    if (!revision || !window.confirm(`Delete revision ${revision.name}?`)) return;
+    persist(revisions.filter(item => item.id !== id));
+    if (fromId === id) setFromId(undefined);
+    if (toId === id) setToId(undefined);
+  };
+
+  const handleExport = async () => {
+    if (!diff) return;
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const blob = await ExcelExporter.exportRevisionDiff(project, diff);
+      const filename = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_Revision_${diff.from.name}_${diff.to.name}.xlsx`;
+      ExcelExporter.downloadExcel(blob, filename);
+    } catch (error) {
+      console.error('Revision export failed:', error);
+      setExportError(error instanceof Error ? error.message : 'Unknown error occurred');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderRevisionSelect = (value: string | undefined, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="Select revision" />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions.map(revision => (
+          <SelectItem key={revision.id} value={revision.id}>
+            {revision.name} ({new Date(revision.createdAt).toLocaleDateString()})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Snapshots */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-primary" />
+            <span>Revisions</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-[8rem_1fr_auto] gap-4 items-end">
+            <div className="space-y-1">
+              <label className="text-xs font-semibold uppercase text-muted-foreground">Name</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-semibold uppercase text-muted-foreground">Note</label>
+              <Input
+                value={note}
+                placeholder="e.g. Revised as per structural comments"
+                onChange={(e) => setNote(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={!name.trim()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Save Revision
+            </Button>
+          </div>
+          {storageError && (
+            <p className="text-sm text-red-600">{storageError}</p>
+          )}
+
+          {revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No revisions yet. Save the issued BBS as R0, then save a revision after each change.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Revision</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Note</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {revisions.map(revision => (
+                  <TableRow key={revision.id}>
+                    <TableCell className="font-medium">{revision.name}</TableCell>
+                    <TableCell>{new Date(revision.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-muted-foreground">{revision.note}</TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(revision.id)} title="Delete revision">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Diff */}
+      {revisions.length >= 2 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Compare Revisions</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExport}
+                disabled={!diff || isExporting}
+              >
+                {isExporting
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <Download className="h-4 w-4 mr-2" />}
+                Export Revision Sheet
+              </Button>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <label className="text-xs font-semibold uppercase text-muted-foreground">From</label>
+                {renderRevisionSelect(fromId, setFromId)}
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-semibold uppercase text-muted-foreground">To</label>
+                {renderRevisionSelect(toId, setToId)}
+              </div>
+            </div>
+            {exportError && (
+              <p className="text-sm text-red-600">Export failed: {exportError}</p>
+            )}
+
+            {diff && (
+              <>
+                {/* Net weight change per diameter */}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Diameter (mm)</TableHead>
+                      <TableHead className="text-right">{diff.from.name} (kg)</TableHead>
+                      <TableHead className="text-right">{diff.to.name} (kg)</TableHead>
+                      <TableHead className="text-right">Change (kg)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {diff.diameters.map(item => (
+                      <TableRow key={item.diameter}>
+                        <TableCell className="font-medium">Ø{item.diameter}</TableCell>
+                        <TableCell className="text-right">{item.before.toFixed(2)}</TableCell>
+                        <TableCell className="text-right">{item.after.toFixed(2)}</TableCell>
+                        <TableCell className={`text-right ${deltaClass(item.delta)}`}>{formatDelta(item.delta)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell className="font-bold">Total</TableCell>
+                      <TableCell className="text-right font-bold">{diff.totalBefore.toFixed(2)}</TableCell>
+                      <TableCell className="text-right font-bold">{diff.totalAfter.toFixed(2)}</TableCell>
+                      <TableCell className={`text-right font-bold ${deltaClass(diff.totalDelta)}`}>
+                        {formatDelta(diff.totalDelta)}
+                      </TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+
+                {/* Component by component */}
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={showUnchanged}
+                      onChange={(e) => setShowUnchanged(e.target.checked)}
+                    />
+                    Show unchanged bars
+                  </label>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Component / Bar</TableHead>
+                        <TableHead>Change</TableHead>
+                        <TableHead className="text-right">Dia (mm)</TableHead>
+                        <TableHead className="text-right">Cut Length (mm)</TableHead>
+                        <TableHead className="text-right">Qty</TableHead>
+                        <TableHead className="text-right">Weight Change (kg)</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {diff.components
+                        .filter(component => showUnchanged || component.type !== 'UNCHANGED')
+                        .flatMap(component => [
+                          <TableRow key={component.key} className="bg-muted/50">
+                            <TableCell className="font-semibold">{component.name}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline" className={CHANGE_CLASSES[component.type]}>
+                                {CHANGE_LABELS[component.type]}
+                              </Badge>
+                            </TableCell>
+                            <TableCell colSpan={3} />
+                            <TableCell className={`text-right font-semibold ${deltaClass(component.weightDelta)}`}>
+                              {formatDelta(component.weightDelta)}
+                            </TableCell>
+                          </TableRow>,
+                          ...component.bars
+                            .filter(bar => showUnchanged || bar.type !== 'UNCHANGED')
+                            .map(bar => {
+                              const value = (field: RevisionField, format: (n: number) => string = String) => {
+                                const before = bar.before ? format(bar.before[field]) : '–';
+                                const after = bar.after ? format(bar.after[field]) : '–';
+                                return bar.type === 'CHANGED' && bar.changes.includes(field)
+                                  ? <span className="font-medium text-amber-700">{before} → {after}</span>
+                                  : bar.after ? after : before;
+                              };
+                              return (
+                                <TableRow key={`${component.key}-${bar.key}`}>
+                                  <TableCell className="pl-6">{bar.label}</TableCell>
+                                  <TableCell>
+                                    <Badge variant="outline" className={CHANGE_CLASSES[bar.type]}>
+                                      {CHANGE_LABELS[bar.type]}
+                                    </Badge>
+                                    {bar.changes.length > 0 && (
+                                      <span className="ml-2 text-xs text-muted-foreground">
+                                        {bar.changes.map(field => FIELD_LABELS[field]).join(', ')}
+                                      </span>
+                                    )}
+                                  </TableCell>
+                                  <TableCell className="text-right">{value('diameter')}</TableCell>
+                                  <TableCell className="text-right">{value('cutLength', n => Math.round(n).toString())}</TableCell>
+                                  <TableCell className="text-right">{value('quantity')}</TableCell>
+                                  <TableCell className={`text-right ${deltaClass(bar.weightDelta)}`}>
+                                    {formatDelta(bar.weightDelta)}
+                                  </TableCell>
+                                </TableRow>
+                              );
+                            }),
+                        ])}
+                    </TableBody>
+                  </Table>
+                  {diff.components.every(component => component.type === 'UNCHANGED') && (
+                    <p className="text-sm text-muted-foreground">No differences between these revisions.</p>
+                  )}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
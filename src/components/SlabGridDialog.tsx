@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { Grid3x3, Plus, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+
+import type { GridLine, SlabGridLayout } from '@/types/component-types';
+import {
+  addGridLine,
+  createSlabGrid,
+  getClearSpan,
+  getGridLineLabel,
+  isTwoWayPanel,
+  removeGridLine,
+  validateSlabGrid
+} from '@/lib/slab-grid';
+
+interface SlabGridDialogProps {
+  onGenerate: (layout: SlabGridLayout) => void;
+  trigger?: React.ReactNode;
+}
+
+const PLAN_SIZE = 240;
+const PLAN_MARGIN = 16;
+
+export function SlabGridDialog({ onGenerate, trigger }: SlabGridDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [layout, setLayout] = useState<SlabGridLayout>(createSlabGrid);
+
+  const problems = validateSlabGrid(layout);
+  const panelCount = (layout.xLines.length - 1) * (layout.yLines.length - 1);
+
+  const setLines = (axis: 'X' | 'Y', lines: GridLine[]) =>
+    setLayout(axis === 'X' ? { ...layout, xLines: lines } : { ...layout, yLines: lines });
+
+  const handleGenerate = () => {
+    if (problems.length > 0) return;
+    onGenerate(layout);
+    setIsOpen(false);
+  };
+
+  const renderLines = (axis: 'X' | 'Y') => {
+    const lines = axis === 'X' ? layout.xLines : layout.yLines;
+    const setLine = (index: number, updates: Partial<GridLine>) =>
+      setLines(axis, lines.map((line, i) => i === index ? { ...line, ...updates } : line));
+
+    return (
+      <div className="flex flex-col gap-2 p-2 bg-muted/10 rounded border text-xs">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold text-muted-foreground">
+            {axis === 'X' ? 'Gridlines across X (left to right)' : 'Gridlines across Y (bottom to top)'}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs ml-auto"
+            onClick={() => setLines(axis, addGridLine(lines))}
+          >
+            <Plus className="h-3 w-3 mr-1" /> Gridline
+          </Button>
+        </div>
+        <div className="grid grid-cols-[48px_80px_80px_20px] gap-1 items-center">
+          <span className="text-muted-foreground">Grid</span>
+          <span className="text-muted-foreground">Position</span>
+          <span className="text-muted-foreground">Beam width</span>
+          <span />
+          {lines.map((line, index) => (
+            <React.Fragment key={index}>
+              <Input
+                value={line.label ?? ''}
+                onChange={e => setLine(index, { label: e.target.value || undefined })}
+                className="h-6 px-1"
+                placeholder={getGridLineLabel(line, index, axis)}
+              />
+              <Input
+                type="number"
+                value={line.position}
+                onChange={e => setLine(index, { position: parseFloat(e.target.value) || 0 })}
+                className="h-6 px-1"
+                title="Beam centreline from the first gridline (mm)"
+              />
+              <Input
+                type="number"
+                value={line.beamWidth || ''}
+                onChange={e => setLine(index, { beamWidth: parseFloat(e.target.value) || 0 })}
+                className="h-6 px-1"
+                title="Beam width (mm)"
+              />
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-destructive disabled:opacity-30"
+                onClick={() => setLines(axis, removeGridLine(lines, index))}
+                disabled={lines.length <= 2}
+                title={`Remove gridline ${getGridLineLabel(line, index, axis)}`}
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  // Plan of the grid: beams along the gridlines, each panel marked with its name and span type
+  const renderPlan = () => {
+    const { xLines, yLines } = layout;
+    const width = xLines[xLines.length - 1].position - xLines[0].position;
+    const height = yLines[yLines.length - 1].position - yLines[0].position;
+    if (problems.length > 0 || width <= 0 || height <= 0) return null;
+
+    const scale = (PLAN_SIZE - 2 * PLAN_MARGIN) / Math.max(width, height);
+    const x = (mm: number) => PLAN_MARGIN + (mm - xLines[0].position) * scale;
+    const y = (mm: number) => PLAN_MARGIN + (height - (mm - yLines[0].position)) * scale;
+
+    return (
+      <svg viewBox={`0 0 ${width * scale + 2 * PLAN_MARGIN} ${height * scale + 2 * PLAN_MARGIN}`} className="w-60 h-60">
+        {xLines.map((line, i) => (
+          <g key={`x${i}`}>
+            <rect
+              x={x(line.position - line.beamWidth / 2)}
+              y={y(yLines[yLines.length - 1].position)}
+              width={line.beamWidth * scale}
+              height={height * scale}
+              className="fill-muted-foreground/30"
+            />
+            <text x={x(line.position)} y={PLAN_MARGIN / 2} textAnchor="middle" dominantBaseline="central" className="text-[8px] fill-muted-foreground">
+              {getGridLineLabel(line, i, 'X')}
+            </text>
+          </g>
+        ))}
+        {yLines.map((line, i) => (
+          <g key={`y${i}`}>
+            <rect
+              x={x(xLines[0].position)}
+              y={y(line.position + line.beamWidth / 2)}
+              width={width * scale}
+              height={line.beamWidth * scale}
+              className="fill-muted-foreground/30"
+            />
+            <text x={PLAN_MARGIN / 2} y={y(line.position)} textAnchor="middle" dominantBaseline="central" className="text-[8px] fill-muted-foreground">
+              {getGridLineLabel(line, i, 'Y')}
+            </text>
+          </g>
+        ))}
+        {yLines.slice(1).map((top, row) => xLines.slice(1).map((right, column) => {
+          const [left, bottom] = [xLines[column], yLines[row]];
+          const twoWay = isTwoWayPanel(getClearSpan(left, right), getClearSpan(bottom, top));
+          return (
+            <text
+              key={`${row}-${column}`}
+              x={x((left.position + right.position) / 2)}
+              y={y((bottom.position + top.position) / 2)}
+              textAnchor="middle"
+              dominantBaseline="central"
+              className="text-[9px] font-medium fill-blue-600"
+            >
+              {getGridLineLabel(bottom, row, 'Y')}{getGridLineLabel(left, column, 'X')}
+              <tspan x={x((left.position + right.position) / 2)} dy="10" className="text-[7px] fill-muted-foreground">
+                {twoWay ? 'two-way' : 'one-way'}
+              </tspan>
+            </text>
+          );
+        }))}
+      </svg>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline">
+            <Grid3x3 className="h-4 w-4 mr-2" />
+            Slab Grid
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Generate Slab Panels from a Beam Grid</DialogTitle>
+          <DialogDescription>
+            Enter the gridlines and beam widths of the floor. Every bay becomes a slab panel with
+            its clear spans, beam widths and top extensions from its continuous and discontinuous edges.
+            Panels generated earlier with the same names are updated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 py-4 items-start">
+          <div className="flex flex-col gap-2">
+            {renderLines('X')}
+            {renderLines('Y')}
+            <div className="flex gap-4 items-center text-xs">
+              {([
+                ['depth', 'Thickness', 125],
+                ['diameter', 'Bar dia', 10],
+                ['spacing', 'Spacing', 150],
+              ] as const).map(([key, label, placeholder]) => (
+                <label key={key} className="flex items-center gap-2">
+                  <span className="text-muted-foreground">{label}:</span>
+                  <Input
+                    type="number"
+                    value={layout[key] || ''}
+                    onChange={e => setLayout({ ...layout, [key]: parseFloat(e.target.value) || (key === 'depth' ? 0 : undefined) })}
+                    className="w-[64px] h-7 px-2"
+                    placeholder={`${placeholder}`}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1 text-xs">
+            {renderPlan()}
+            {problems.map(problem => (
+              <p key={problem} className="text-destructive">{problem}</p>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} disabled={problems.length > 0 || !layout.depth}>
+            Generate {panelCount} Panels
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,93 @@
+import type { PlanPoint, SlabOpening } from '@/types/component-types';
+import { getSlabStrips, validateSlabOutline } from '@/lib/slab-outline';
+import { getOpeningHeight, getOpeningLabel } from '@/lib/slab-openings';
+
+interface SlabOutlinePreviewProps {
+  outline: PlanPoint[];
+  openings?: SlabOpening[];
+  className?: string;
+}
+
+const SIZE = 160;
+const MARGIN = 8;
+
+// Plan of the slab outline with its openings and the strips of bars along X
+export function SlabOutlinePreview({ outline, openings = [], className = '' }: SlabOutlinePreviewProps) {
+  const xs = outline.map(point => point.x);
+  const ys = outline.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(...xs) - minX;
+  const height = Math.max(...ys) - minY;
+
+  if (!(width > 0 && height > 0)) {
+    return null;
+  }
+
+  // Plan Y points up; SVG y points down
+  const scale = (SIZE - 2 * MARGIN) / Math.max(width, height);
+  const x = (mm: number) => MARGIN + (mm - minX) * scale;
+  const y = (mm: number) => MARGIN + (height - (mm - minY)) * scale;
+  const valid = validateSlabOutline(outline).length === 0;
+  const strips = valid ? getSlabStrips(outline, 'X') : [];
+
+  return (
+    <svg
+      viewBox={`0 0 ${width * scale + 2 * MARGIN} ${height * scale + 2 * MARGIN}`}
+      className={`w-40 h-40 ${className}`}
+    >
+      {strips.slice(1).map((strip, i) => (
+        <line
+          key={i}
+          x1={x(strip.start)}
+          y1={y(strip.offset)}
+          x2={x(strip.start + strip.length)}
+          y2={y(strip.offset)}
+          stroke="rgb(59, 130, 246)"
+          strokeDasharray="3 2"
+          strokeWidth="1"
+        />
+      ))}
+      <polygon
+        points={outline.map(point => `${x(point.x)},${y(point.y)}`).join(' ')}
+        fill={valid ? 'rgba(59, 130, 246, 0.1)' : 'rgba(220, 38, 38, 0.1)'}
+        stroke={valid ? 'currentColor' : 'rgb(220, 38, 38)'}
+        strokeWidth="1.5"
+      />
+      {openings.map((opening, index) => {
+        const openingHeight = getOpeningHeight(opening);
+        return (
+          <g key={index}>
+            {opening.shape === 'CIRCULAR' ? (
+              <circle
+                cx={x(opening.x + opening.width / 2)}
+                cy={y(opening.y + openingHeight / 2)}
+                r={(opening.width / 2) * scale}
+                fill="white"
+                stroke="currentColor"
+              />
+            ) : (
+              <rect
+                x={x(opening.x)}
+                y={y(opening.y + openingHeight)}
+                width={opening.width * scale}
+                height={openingHeight * scale}
+                fill="white"
+                stroke="currentColor"
+              />
+            )}
+            <text
+              x={x(opening.x + opening.width / 2)}
+              y={y(opening.y + openingHeight / 2)}
+              textAnchor="middle"
+              dominantBaseline="central"
+              className="text-[8px] fill-muted-foreground"
+            >
+              {getOpeningLabel(opening, index)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
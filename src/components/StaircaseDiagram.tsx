@@ -0,0 +1,92 @@
+import type { StaircaseDetails } from '@/types/component-types';
+import {
+  getInclinedLength,
+  getStaircaseGoing,
+  getStaircasePlanLength,
+  getStaircaseRise
+} from '@/lib/staircase-calculator';
+
+interface StaircaseDiagramProps {
+  details: StaircaseDetails;
+  waist: number;                   // mm - waist slab thickness
+  className?: string;
+}
+
+const WIDTH = 200;
+const HEIGHT = 100;
+const MARGIN = 10;
+
+// Side elevation of one flight: landings, steps, waist soffit and the cranked main bar
+export function StaircaseDiagram({ details, waist, className = '' }: StaircaseDiagramProps) {
+  const going = getStaircaseGoing(details);
+  const rise = getStaircaseRise(details);
+  const bottomLanding = details.bottomLanding ?? 0;
+  const topLanding = details.topLanding ?? 0;
+  const planLength = getStaircasePlanLength(details);
+
+  if (planLength <= 0 || rise <= 0) {
+    return null;
+  }
+
+  // One scale for both axes so the slope is true
+  const scale = Math.min((WIDTH - 2 * MARGIN) / planLength, (HEIGHT - 2 * MARGIN) / (rise + waist));
+  const x = (mm: number) => MARGIN + mm * scale;
+  const y = (mm: number) => HEIGHT - MARGIN - mm * scale;
+  const thickness = waist * scale;
+
+  // Steps: riser then tread, the last riser lands on the top landing
+  const steps = [`M ${x(0)} ${y(0)}`, `L ${x(bottomLanding)} ${y(0)}`];
+  for (let i = 0; i < details.steps; i++) {
+    const start = bottomLanding + i * details.tread;
+    steps.push(`L ${x(start)} ${y((i + 1) * details.riser)}`);
+    if (i < details.steps - 1) steps.push(`L ${x(start + details.tread)} ${y((i + 1) * details.riser)}`);
+  }
+  steps.push(`L ${x(planLength)} ${y(rise)}`);
+
+  // Main bar along the soffit, cranked at the foot and head of the waist
+  const bar = [
+    `M ${x(0)} ${y(0) + thickness}`,
+    `L ${x(bottomLanding)} ${y(0) + thickness}`,
+    `L ${x(bottomLanding + going)} ${y(rise) + thickness}`,
+    `L ${x(planLength)} ${y(rise) + thickness}`,
+  ].join(' ');
+
+  const labels: [string, number, number][] = [
+    ['a', x(bottomLanding + going / 2), (y(0) + y(rise)) / 2 + thickness + 8],
+    ['b', x(bottomLanding / 2), y(0) + thickness + 8],
+    ['c', x(bottomLanding + going + topLanding / 2), y(rise) + thickness + 8],
+  ];
+
+  return (
+    <div className="space-y-1">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT + 10}`} className={`w-64 h-32 ${className}`}>
+        <path d={steps.join(' ')} fill="none" stroke="currentColor" strokeWidth="1.5" />
+        <path d={bar} fill="none" stroke="rgb(220, 38, 38)" strokeWidth="2" />
+        {Array.from({ length: Math.max(0, details.steps - 1) }, (_, i) => (
+          <circle
+            key={i}
+            cx={x(bottomLanding + (i + 1) * details.tread) - 2}
+            cy={y((i + 1) * details.riser) + 2}
+            r="1.2"
+            className="fill-blue-600"
+          />
+        ))}
+        {labels.map(([label, cx, cy]) => (
+          <text
+            key={label}
+            x={cx}
+            y={cy}
+            textAnchor="middle"
+            dominantBaseline="central"
+            className="text-[8px] font-medium fill-blue-600"
+          >
+            {label}
+          </text>
+        ))}
+      </svg>
+      <p className="text-xs text-muted-foreground">
+        Going {going}mm, rise {rise}mm, inclined length a = {getInclinedLength(details)}mm
+      </p>
+    </div>
+  );
+}
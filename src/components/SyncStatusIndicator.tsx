@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Cloud, CloudOff, AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+
+import type { SyncStatus } from '@/hooks/use-project-sync';
+import type { ConflictChoice, SyncConflict } from '@/lib/project-sync';
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus;
+  conflicts: SyncConflict[];
+  error: string | null;
+  lastSynced: Date | null;
+  onSync: () => void;
+  onResolve: (conflict: SyncConflict, keep: ConflictChoice) => Promise<void>;
+}
+
+const STATUS_TEXT: Record<SyncStatus, string> = {
+  disabled: 'Local only',
+  offline: 'Offline - changes saved locally',
+  syncing: 'Syncing...',
+  synced: 'Synced',
+  error: 'Sync failed',
+};
+
+export function SyncStatusIndicator({
+  status,
+  conflicts,
+  error,
+  lastSynced,
+  onSync,
+  onResolve,
+}: SyncStatusIndicatorProps) {
+  const [dismissed, setDismissed] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  // Cloud storage is optional; nothing to show without it
+  if (status === 'disabled') return null;
+
+  const getIcon = () => {
+    switch (status) {
+      case 'syncing':
+        return <Loader2 className="h-4 w-4 animate-spin" />;
+      case 'offline':
+        return <CloudOff className="h-4 w-4 text-muted-foreground" />;
+      case 'error':
+        return <AlertCircle className="h-4 w-4 text-destructive" />;
+      default:
+        return <Cloud className="h-4 w-4 text-green-600" />;
+    }
+  };
+
+  const handleResolve = async (conflict: SyncConflict, keep: ConflictChoice) => {
+    setResolving(conflict.projectId);
+    try {
+      await onResolve(conflict, keep);
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const title = [
+    error || (lastSynced ? `Last synced ${lastSynced.toLocaleTimeString()}` : STATUS_TEXT[status]),
+    'Click to sync now',
+  ].join('\n');
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          setDismissed(false);
+          onSync();
+        }}
+        disabled={status === 'syncing' || status === 'offline'}
+        title={title}
+        className="flex items-center gap-2"
+      >
+        {getIcon()}
+        <span className="text-sm text-muted-foreground">
+          {conflicts.length > 0
+            ? `${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'}`
+            : STATUS_TEXT[status]}
+        </span>
+        {status === 'error' && <RefreshCw className="h-3 w-3" />}
+      </Button>
+
+      <Dialog open={conflicts.length > 0 && !dismissed} onOpenChange={open => setDismissed(!open)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Sync Conflicts</DialogTitle>
+            <DialogDescription>
+              These projects were changed here and in the cloud since the last sync.
+              Choose the version to keep; the other one is overwritten.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ul className="space-y-3">
+            {conflicts.map(conflict => (
+              <li key={conflict.projectId} className="rounded border p-3 space-y-2">
+                <div className="font-medium">{conflict.name}</div>
+                <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                  <span>This device: {new Date(conflict.localUpdatedAt).toLocaleString()}</span>
+                  <span>Cloud: {new Date(conflict.remoteUpdatedAt).toLocaleString()}</span>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={resolving !== null}
+                    onClick={() => handleResolve(conflict, 'local')}
+                  >
+                    Keep this device
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={resolving !== null}
+                    onClick={() => handleResolve(conflict, 'remote')}
+                  >
+                    Keep cloud
+                  </Button>
+                  {resolving === conflict.projectId && <Loader2 className="h-4 w-4 animate-spin self-center" />}
+                </div>
+              </li>
+            ))}
+          </ul>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDismissed(true)}>
+              Decide later
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
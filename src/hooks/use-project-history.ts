@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import {
+  EMPTY_HISTORY,
+  canRedo,
+  canUndo,
+  jumpTo as jumpToCommand,
+  recordCommand,
+  redo as redoCommand,
+  undo as undoCommand,
+  type HistoryChange,
+  type ProjectHistory,
+  type ProjectState
+} from '@/lib/project-history';
+import { loadHistoryFromLocalStorage, saveHistoryToLocalStorage } from '@/lib/local-storage';
+
+/**
+ * Project state with undo/redo. Edits go through `commit`; Ctrl+Z undoes and
+ * Ctrl+Y / Ctrl+Shift+Z redoes. History is saved next to the project;
+ * `saveError` says when it could not be. `onChange` receives the parts of the
+ * state that changed.
+ */
+export function useProjectHistory(
+  projectId: string,
+  initialState: ProjectState,
+  onChange?: (changed: Partial<ProjectState>) => void
+) {
+  const [state, setState] = useState<ProjectState>(initialState);
+  const [history, setHistory] = useState<ProjectHistory>(() => {
+    const result = loadHistoryFromLocalStorage(projectId);
+    return result.success ? result.data! : EMPTY_HISTORY;
+  });
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Latest values for handlers that run several times before a re-render
+  const stateRef = useRef(state);
+  const historyRef = useRef(history);
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  const update = useCallback((nextState: ProjectState, nextHistory: ProjectHistory) => {
+    const previous = stateRef.current;
+    stateRef.current = nextState;
+    historyRef.current = nextHistory;
+    setState(nextState);
+    setHistory(nextHistory);
+
+    const changed: Partial<ProjectState> = {};
+    if (nextState.config !== previous.config) changed.config = nextState.config;
+    if (nextState.bars !== previous.bars) changed.bars = nextState.bars;
+    if (changed.config || changed.bars) onChangeRef.current?.(changed);
+  }, []);
+
+  /**
+   * Apply an edit and record it. Pass a function to build the edit from the latest
+   * state; `describe` names the step from the state before and after.
+   */
+  const commit = useCallback((
+    edit: Partial<ProjectState> | ((current: ProjectState) => Partial<ProjectState>),
+    describe: (before: ProjectState, after: ProjectState) => HistoryChange
+  ) => {
+    const before = stateRef.current;
+    const changes = typeof edit === 'function' ? edit(before) : edit;
+    const after: ProjectState = { ...before, ...changes };
+    const beforeParts: Partial<ProjectState> = {};
+    const afterParts: Partial<ProjectState> = {};
+    if (changes.config && changes.config !== before.config) {
+      beforeParts.config = before.config;
+      afterParts.config = changes.config;
+    }
+    if (changes.bars && changes.bars !== before.bars) {
+      beforeParts.bars = before.bars;
+      afterParts.bars = changes.bars;
+    }
+    if (!afterParts.config && !afterParts.bars) return;
+
+    const nextHistory = recordCommand(historyRef.current, describe(before, after), beforeParts, afterParts);
+    update(after, nextHistory);
+  }, [update]);
+
+  const undo = useCallback(() => {
+    const result = undoCommand(historyRef.current, stateRef.current);
+    if (result) update(result.state, result.history);
+  }, [update]);
+
+  const redo = useCallback(() => {
+    const result = redoCommand(historyRef.current, stateRef.current);
+    if (result) update(result.state, result.history);
+  }, [update]);
+
+  // null jumps back to before the first recorded step
+  const jumpTo = useCallback((commandId: string | null) => {
+    const result = jumpToCommand(historyRef.current, stateRef.current, commandId);
+    update(result.state, result.history);
+  }, [update]);
+
+  const clear = useCallback(() => {
+    update(stateRef.current, EMPTY_HISTORY);
+  }, [update]);
+
+  // Keyboard shortcuts; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  // Save the last steps with the project (debounced like the project auto-save)
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      const result = saveHistoryToLocalStorage(projectId, history);
+      setSaveError(result.success ? null : result.error || 'Failed to save history');
+    }, 1000);
+    return () => clearTimeout(timeoutId);
+  }, [projectId, history]);
+
+  return {
+    state,
+    history,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    clear,
+    canUndo: canUndo(history),
+    canRedo: canRedo(history),
+    saveError,
+  };
+}
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { supabase, isSupabaseConfigured } from '@/lib/supabase';
+import { loadSyncState, saveSyncState } from '@/lib/local-storage';
+import { createSupabaseProjectStorage, localProjectStorage } from '@/lib/project-storage';
+import {
+  mergeSyncState,
+  resolveConflict as resolveSyncConflict,
+  syncProjects,
+  type SyncState,
+  type ConflictChoice,
+  type SyncConflict
+} from '@/lib/project-sync';
+
+export type SyncStatus = 'disabled' | 'offline' | 'syncing' | 'synced' | 'error';
+
+// Projects may be deleted while a sync awaits the cloud: reload and merge, don't overwrite
+function saveSyncResult(started: SyncState, synced: SyncState) {
+  const current = loadSyncState();
+  saveSyncState(current.success ? mergeSyncState(started, synced, current.data!) : synced);
+}
+
+// Background sync while the app is open
+const SYNC_INTERVAL_MS = 60000;
+
+/**
+ * Keep local projects in sync with Supabase. Syncs on start, every minute and when
+ * the browser comes back online; does nothing when Supabase is not configured.
+ * `onProjectsChanged` receives the ids of projects changed locally by a sync.
+ */
+export function useProjectSync(onProjectsChanged?: (projectIds: string[]) => void) {
+  const remote = useMemo(() => (isSupabaseConfigured ? createSupabaseProjectStorage(supabase) : null), []);
+  const [status, setStatus] = useState<SyncStatus>(() =>
+    !remote ? 'disabled' : navigator.onLine ? 'synced' : 'offline'
+  );
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [lastSynced, setLastSynced] = useState<Date | null>(null);
+
+  const syncingRef = useRef(false);
+  const onChangedRef = useRef(onProjectsChanged);
+  useEffect(() => {
+    onChangedRef.current = onProjectsChanged;
+  });
+
+  const sync = useCallback(async () => {
+    if (!remote || syncingRef.current) return;
+    if (!navigator.onLine) {
+      setStatus('offline');
+      return;
+    }
+
+    syncingRef.current = true;
+    setStatus('syncing');
+    try {
+      const state = loadSyncState();
+      if (!state.success) throw new Error(state.error);
+
+      const result = await syncProjects(localProjectStorage, remote, state.data!);
+      if (!result.success) throw new Error(result.error);
+
+      const report = result.data!;
+      saveSyncResult(state.data!, report.state);
+      setConflicts(report.conflicts);
+      setError(report.errors.length > 0 ? report.errors.join('\n') : null);
+      setStatus(report.errors.length > 0 ? 'error' : 'synced');
+      setLastSynced(new Date());
+
+      const changed = [...report.pulled, ...report.deleted];
+      if (changed.length > 0) onChangedRef.current?.(changed);
+    } catch (syncError) {
+      // Local data is untouched; the next sync tries again
+      setError(syncError instanceof Error ? syncError.message : 'Unknown error occurred');
+      setStatus(navigator.onLine ? 'error' : 'offline');
+    } finally {
+      syncingRef.current = false;
+    }
+  }, [remote]);
+
+  const resolve = useCallback(async (conflict: SyncConflict, keep: ConflictChoice) => {
+    if (!remote) return;
+    const state = loadSyncState();
+    if (!state.success) {
+      setError(state.error || null);
+      return;
+    }
+
+    const result = await resolveSyncConflict(conflict, keep, localProjectStorage, remote, state.data!);
+    if (!result.success) {
+      setError(result.error || null);
+      return;
+    }
+
+    saveSyncResult(state.data!, result.data!);
+    setConflicts(current => current.filter(item => item.projectId !== conflict.projectId));
+    if (keep === 'remote') onChangedRef.current?.([conflict.projectId]);
+  }, [remote]);
+
+  useEffect(() => {
+    if (!remote) return;
+
+    const timeoutId = setTimeout(sync, 0);
+    const intervalId = setInterval(sync, SYNC_INTERVAL_MS);
+    const handleOffline = () => setStatus('offline');
+    window.addEventListener('online', sync);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      clearTimeout(timeoutId);
+      clearInterval(intervalId);
+      window.removeEventListener('online', sync);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [remote, sync]);
+
+  return { status, conflicts, error, lastSynced, sync, resolve };
+}
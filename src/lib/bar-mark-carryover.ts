@@ -0,0 +1,48 @@
+/**
+ * Bar Mark Carry-over
+ * Continuous beams, column schedules, slab openings and slab outlines throw their
+ * generated entries away and build new ones on every change. The new entries take
+ * the marks of the ones they replace, matched by a stable key: the bar type, which
+ * names the span, floor, opening or piece, plus the outline strip or column floor. Issued marks
+ * left without a bar are recorded on the component so the schedule can flag them.
+ */
+
+import type { ComponentBarEntry, ConcreteComponent } from '../types/component-types';
+
+/**
+ * Key of a generated entry that survives regeneration
+ */
+export function getRegeneratedBarKey(bar: ComponentBarEntry): string {
+  return [bar.barType, bar.direction, bar.outlineStrip?.index ?? 1, bar.columnFloor ?? 0].join('|');
+}
+
+/**
+ * Give regenerated entries the marks of the entries they replace; entries
+ * without a match are left unmarked
+ */
+export function carryOverBarMarks(
+  replaced: ComponentBarEntry[],
+  generated: ComponentBarEntry[]
+): ComponentBarEntry[] {
+  const marks = new Map<string, Pick<ComponentBarEntry, 'barMark' | 'barMarkLocked'>>();
+  replaced.forEach(bar => {
+    const key = getRegeneratedBarKey(bar);
+    if (bar.barMark && !marks.has(key)) marks.set(key, { barMark: bar.barMark, barMarkLocked: bar.barMarkLocked });
+  });
+
+  return generated.map(bar => {
+    const mark = marks.get(getRegeneratedBarKey(bar));
+    return { ...bar, barMark: mark?.barMark, barMarkLocked: mark?.barMarkLocked };
+  });
+}
+
+/**
+ * Record the issued marks of `previous` that no bar of `next` carries any more;
+ * marks that come back are no longer dropped
+ */
+export function withDroppedBarMarks(previous: ConcreteComponent, next: ConcreteComponent): ConcreteComponent {
+  const current = new Set(next.bars.map(bar => bar.barMark).filter(Boolean));
+  const issued = previous.bars.filter(bar => bar.barMarkLocked && bar.barMark).map(bar => bar.barMark!);
+  const dropped = [...new Set([...(previous.droppedBarMarks ?? []), ...issued])].filter(mark => !current.has(mark));
+  return { ...next, droppedBarMarks: dropped.length > 0 ? dropped : undefined };
+}
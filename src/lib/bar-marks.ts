@@ -0,0 +1,339 @@
+/**
+ * Bar Marks
+ * Marks that identify bars on site and at the fabricator (B1-01, S2-03, ...), set
+ * from a pattern per member type:
+ *
+ * - {member}: component name (manual mode: B, C or S), {type}: member type prefix
+ * - {n}, {nn}, {nnn}: running number, zero padded; each prefix counts on its own
+ * - {dia}: bar diameter
+ *
+ * Identical bars (same shape, diameter and dimensions) share the mark of the first
+ * one, across components. Locked marks have been issued: reassigning keeps them,
+ * identical bars take them over and new marks never reuse them. A locked mark whose
+ * bars are no longer identical is flagged in the schedule, and so is one whose bars
+ * were regenerated away (see bar-mark-carryover).
+ */
+
+import type { BarEntry, CalculatedBar } from '../types';
+import type {
+  BarMeasurements,
+  BBSMetadata,
+  CalculatedBarResult,
+  ComponentBarEntry,
+  ConcreteComponent,
+  ConcreteComponentType
+} from '../types/component-types';
+import { calculateComponentBarEntryEnhanced } from './enhanced-calculator';
+import { getDevelopmentLengthContext } from './development-length';
+import { getTieSets } from './tie-designer';
+
+export const DEFAULT_BAR_MARK_PATTERN = '{member}-{nn}';
+
+export const MEMBER_PREFIXES: Record<ConcreteComponentType, string> = {
+  BEAM: 'B',
+  COLUMN: 'C',
+  SLAB: 'S',
+  FOOTING: 'F',
+  STAIRCASE: 'ST',
+  WALL: 'W',
+};
+
+export type BarMarkPatterns = Partial<Record<ConcreteComponentType, string>>;
+
+export interface BarMarkFields {
+  member: string;
+  type: ConcreteComponentType;
+  sequence: number;
+  diameter: number;
+}
+
+const SEGMENTS = ['a', 'b', 'c', 'd', 'e', 'f', 'lap'] as const;
+const DIMENSIONS = ['A', 'B', 'C', 'D', 'E', 'F'] as const;
+
+// ============================================================================
+// MARKS
+// ============================================================================
+
+export function getBarMarkPattern(patterns: BarMarkPatterns | undefined, type: ConcreteComponentType): string {
+  return patterns?.[type]?.trim() || DEFAULT_BAR_MARK_PATTERN;
+}
+
+export function formatBarMark(pattern: string, fields: BarMarkFields): string {
+  return pattern.replace(/\{(member|type|dia|n+)\}/g, (_, token: string) => {
+    if (token === 'member') return fields.member;
+    if (token === 'type') return MEMBER_PREFIXES[fields.type];
+    if (token === 'dia') return `${fields.diameter}`;
+    return `${fields.sequence}`.padStart(token.length, '0');
+  });
+}
+
+/**
+ * Shape, diameter and dimensions of a component bar; equal keys are identical bars
+ */
+export function getComponentBarIdentity(bar: ComponentBarEntry, result: CalculatedBarResult): string {
+  const segments = SEGMENTS.map(segment => Math.round(bar.measurements[segment] ?? 0));
+  // Designed tie sets are identical when every piece is
+  const pieces = result.ties?.pieces.map(piece => `${piece.shapeCode}:${piece.count}:${Math.round(piece.cutLength)}`) ?? [];
+  return ['C', bar.diameter, ...segments, result.noOfDeductions, ...pieces].join('|');
+}
+
+/**
+ * Shape code, diameter and dimensions of a manually entered bar
+ */
+export function getManualBarIdentity(bar: BarEntry): string {
+  const dimensions = DIMENSIONS.map(dimension => Math.round(bar.dimensions[dimension] ?? 0));
+  return ['M', bar.shapeCode, bar.diameter, ...dimensions].join('|');
+}
+
+interface MarkableBar {
+  identity: string;
+  member: string;
+  type: ConcreteComponentType;
+  diameter: number;
+  barMark?: string;
+  barMarkLocked?: boolean;
+}
+
+function assignMarks(bars: MarkableBar[], patterns: BarMarkPatterns | undefined): string[] {
+  const locked = bars.filter(bar => bar.barMarkLocked && bar.barMark);
+  const used = new Set(locked.map(bar => bar.barMark!));
+  const byIdentity = new Map<string, string>();
+  locked.forEach(bar => {
+    if (!byIdentity.has(bar.identity)) byIdentity.set(bar.identity, bar.barMark!);
+  });
+  const counters = new Map<string, number>();
+
+  return bars.map(bar => {
+    if (bar.barMarkLocked && bar.barMark) return bar.barMark;
+    const shared = byIdentity.get(bar.identity);
+    if (shared) return shared;
+
+    // Number on from the last mark with the same prefix, skipping issued marks
+    const pattern = getBarMarkPattern(patterns, bar.type);
+    const fields = { member: bar.member, type: bar.type, diameter: bar.diameter };
+    const scope = formatBarMark(pattern, { ...fields, sequence: 0 });
+    let sequence = counters.get(scope) ?? 0;
+    let mark: string;
+    do {
+      mark = formatBarMark(pattern, { ...fields, sequence: ++sequence });
+    } while (used.has(mark) && sequence < 10000);
+
+    counters.set(scope, sequence);
+    used.add(mark);
+    byIdentity.set(bar.identity, mark);
+    return mark;
+  });
+}
+
+/**
+ * Mark every component bar; locked marks are kept
+ */
+export function assignComponentBarMarks(
+  components: ConcreteComponent[],
+  patterns?: BarMarkPatterns,
+  metadata?: BBSMetadata
+): ConcreteComponent[] {
+  const ld = getDevelopmentLengthContext(metadata);
+  const marks = assignMarks(
+    components.flatMap(component => component.bars.map(bar => ({
+      identity: getComponentBarIdentity(bar, bar.calculated ?? calculateComponentBarEntryEnhanced(bar, component, ld)),
+      member: component.name,
+      type: component.componentType,
+      diameter: bar.diameter,
+      barMark: bar.barMark,
+      barMarkLocked: bar.barMarkLocked,
+    }))),
+    patterns
+  );
+
+  let index = 0;
+  return components.map(component => ({
+    ...component,
+    bars: component.bars.map(bar => ({ ...bar, barMark: marks[index++] })),
+  }));
+}
+
+/**
+ * Mark every manually entered bar; locked marks are kept
+ */
+export function assignManualBarMarks(bars: BarEntry[], patterns?: BarMarkPatterns): BarEntry[] {
+  const marks = assignMarks(
+    bars.map(bar => ({
+      identity: getManualBarIdentity(bar),
+      member: MEMBER_PREFIXES[bar.memberType],
+      type: bar.memberType,
+      diameter: bar.diameter,
+      barMark: bar.barMark,
+      barMarkLocked: bar.barMarkLocked,
+    })),
+    patterns
+  );
+  return bars.map((bar, i) => ({ ...bar, barMark: marks[i] }));
+}
+
+/**
+ * Lock (issue) or unlock the marks of all marked bars. Dropped marks are settled
+ * by the issue, so their flags are cleared.
+ */
+export function lockComponentBarMarks(components: ConcreteComponent[], locked: boolean): ConcreteComponent[] {
+  return components.map(component => ({
+    ...component,
+    droppedBarMarks: undefined,
+    bars: component.bars.map(bar => bar.barMark ? { ...bar, barMarkLocked: locked || undefined } : bar),
+  }));
+}
+
+export function lockManualBarMarks(bars: BarEntry[], locked: boolean): BarEntry[] {
+  return bars.map(bar => bar.barMark ? { ...bar, barMarkLocked: locked || undefined } : bar);
+}
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+/** One mark in the bar mark schedule, with every bar that carries it */
+export interface BarMarkScheduleRow {
+  mark: string;
+  diameter: number;                // mm
+  shape: string;                   // Bar type (component mode) or shape code
+  dimensions: string;              // "a=3000, b=150", or the pieces of a tie set
+  cutLength: number;               // mm - per bar, or per set of designed ties
+  members: string[];               // Components (or member types) using the mark
+  quantity: number;
+  totalLength: number;             // m
+  weight: number;                  // kg
+  locked: boolean;
+  conflict: boolean;               // Bars under the mark are no longer identical
+}
+
+export interface BarMarkSchedule {
+  rows: BarMarkScheduleRow[];
+  unmarked: number;                // Bar entries without a mark
+  dropped: string[];               // Issued marks no bar carries any more
+}
+
+interface ScheduleBar {
+  mark?: string;
+  locked: boolean;
+  identity: string;
+  member: string;
+  diameter: number;
+  shape: string;
+  dimensions: string;
+  cutLength: number;
+  quantity: number;
+  weight: number;
+}
+
+const formatSegments = (measurements: BarMeasurements) => SEGMENTS
+  .filter(segment => measurements[segment])
+  .map(segment => `${segment}=${Math.round(measurements[segment]!)}`)
+  .join(', ');
+
+function buildSchedule(bars: ScheduleBar[]): BarMarkSchedule {
+  const rows = new Map<string, BarMarkScheduleRow>();
+  const identities = new Map<string, Set<string>>();
+
+  bars.forEach(bar => {
+    if (!bar.mark) return;
+    const row = rows.get(bar.mark);
+    if (!row) {
+      rows.set(bar.mark, {
+        mark: bar.mark,
+        diameter: bar.diameter,
+        shape: bar.shape,
+        dimensions: bar.dimensions,
+        cutLength: bar.cutLength,
+        members: [bar.member],
+        quantity: bar.quantity,
+        totalLength: (bar.cutLength * bar.quantity) / 1000,
+        weight: bar.weight,
+        locked: bar.locked,
+        conflict: false,
+      });
+      identities.set(bar.mark, new Set([bar.identity]));
+      return;
+    }
+    const markIdentities = identities.get(bar.mark)!.add(bar.identity);
+    if (!row.members.includes(bar.member)) row.members.push(bar.member);
+    row.quantity += bar.quantity;
+    row.totalLength += (bar.cutLength * bar.quantity) / 1000;
+    row.weight += bar.weight;
+    row.locked = row.locked && bar.locked;
+    row.conflict = markIdentities.size > 1;
+  });
+
+  return {
+    rows: [...rows.values()].sort((a, b) => a.mark.localeCompare(b.mark, undefined, { numeric: true })),
+    unmarked: bars.filter(bar => !bar.mark).length,
+    dropped: [],
+  };
+}
+
+/**
+ * Schedule of component bars by mark
+ */
+export function getComponentBarMarkSchedule(components: ConcreteComponent[], metadata?: BBSMetadata): BarMarkSchedule {
+  const ld = getDevelopmentLengthContext(metadata);
+  const schedule = buildSchedule(components.flatMap(component => component.bars.map(bar => {
+    const calculated = bar.calculated ?? calculateComponentBarEntryEnhanced(bar, component, ld);
+    const bars = {
+      mark: bar.barMark,
+      locked: !!bar.barMarkLocked,
+      identity: getComponentBarIdentity(bar, calculated),
+      member: component.name,
+      diameter: bar.diameter,
+      weight: calculated.totalWeight,
+    };
+
+    // Designed tie sets are scheduled by the set: its pieces, length and count
+    if (calculated.ties) {
+      return {
+        ...bars,
+        shape: `${bar.barType} (set)`,
+        dimensions: calculated.ties.pieces
+          .map(piece => `${piece.count} × ${piece.name} ${Math.round(piece.cutLength)}`)
+          .join(', '),
+        cutLength: calculated.ties.lengthPerSet,
+        quantity: getTieSets(calculated),
+      };
+    }
+
+    return {
+      ...bars,
+      shape: bar.barType,
+      dimensions: formatSegments(bar.measurements),
+      cutLength: calculated.cuttingLength,
+      quantity: calculated.noOfBars,
+    };
+  })));
+
+  // A dropped mark may live on in an identical bar of another component
+  const marks = new Set(schedule.rows.map(row => row.mark));
+  const dropped = new Set(components.flatMap(component => component.droppedBarMarks ?? []));
+  return {
+    ...schedule,
+    dropped: [...dropped].filter(mark => !marks.has(mark)).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+  };
+}
+
+/**
+ * Schedule of manually entered bars by mark
+ */
+export function getManualBarMarkSchedule(bars: CalculatedBar[]): BarMarkSchedule {
+  return buildSchedule(bars.map(bar => ({
+    mark: bar.barMark,
+    locked: !!bar.barMarkLocked,
+    identity: getManualBarIdentity(bar),
+    member: bar.memberType,
+    diameter: bar.diameter,
+    shape: bar.shapeCode,
+    dimensions: DIMENSIONS
+      .filter(dimension => bar.dimensions[dimension])
+      .map(dimension => `${dimension}=${bar.dimensions[dimension]}`)
+      .join(', '),
+    cutLength: bar.cutLength,
+    quantity: bar.quantity,
+    weight: bar.totalWeight,
+  })));
+}
@@ -13,7 +13,9 @@ import type {
 } from '../types/component-types';
 
 import { calculateComponentBarEntryEnhanced } from './enhanced-calculator';
+import { getDevelopmentLengthContext } from './development-length';
 import { WEIGHT_PER_METER } from './constants';
+import { getTiePieceQuantities } from './tie-designer';
 
 // ============================================================================
 // BBS TABLE ROW INTERFACE
@@ -97,7 +99,18 @@ export function generateBBSTable(
   // Process each bar entry
   component.bars.forEach(barEntry => {
     // Calculate the bar entry with enhanced logic
-    const calculated = calculateComponentBarEntryEnhanced(barEntry, component, concreteGrade);
+    const calculated = calculateComponentBarEntryEnhanced(
+      barEntry,
+      component,
+      getDevelopmentLengthContext({ ...metadata, concreteGrade })
+    );
+    
+    // Designed stirrups/ties get a row per piece of the set
+    if (calculated.ties) {
+      createTiePieceRows(slNo, barEntry, component, calculated).forEach(row => rows.push(row));
+      slNo += calculated.ties.pieces.length;
+      return;
+    }
     
     // Create table row
     const row = createBBSTableRow(slNo, barEntry, component, calculated);
@@ -164,6 +177,33 @@ function createBBSTableRow(
   };
 }
 
+/**
+ * Create one BBS table row per piece of a designed tie set
+ */
+function createTiePieceRows(
+  slNo: number,
+  barEntry: ComponentBarEntry,
+  component: ConcreteComponent,
+  calculated: CalculatedBarResult
+): BBSTableRow[] {
+  return getTiePieceQuantities(calculated).map(({ piece, quantity: noOfBars }, index) => {
+    const { a, b = 0, c = 0, d = 0, e = 0, f = 0 } = piece.measurements;
+    const row = createBBSTableRow(slNo + index, barEntry, component, calculated);
+    return {
+      ...row,
+      barType: `${barEntry.barType} - ${piece.name} (${piece.shapeCode})`,
+      totalNoOfBars: noOfBars,
+      noOfBarsRequired: noOfBars,
+      measurements: { a, b, c, d, e, f, lap: 0 },
+      total: a + b + c + d + e + f,
+      noOfBends: piece.bends,
+      deduction: piece.bends * 2 * barEntry.diameter,
+      cuttingLength: piece.cutLength,
+      totalLength: (piece.cutLength * noOfBars) / 1000
+    };
+  });
+}
+
 /**
  * Calculate BBS summary totals
  */
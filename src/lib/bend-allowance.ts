@@ -0,0 +1,172 @@
+/**
+ * Bend Allowance
+ * Bend deductions for cut lengths. BBS dimensions are measured to the outside of
+ * the bar, so every bend shortens the cut length by the outside dimensions minus
+ * the length of bar that goes round the former:
+ *
+ *   θ ≤ 90°:  deduction = 2(r + d) tan(θ/2) − θ(r + d/2)
+ *   θ > 90°:  deduction = 2(r + d) − θ(r + d/2)    (outside measured square to the legs)
+ *
+ * r is the internal bend radius, half the minimum former (mandrel) diameter for the
+ * bar size and steel grade. Profiles choose this GEOMETRIC mode or the flat
+ * MULTIPLIER mode (deduction = factor × d per angle, 180° as 90°).
+ */
+
+import type { FormerDiameterTable, ProjectConfig } from '../types';
+import type { SteelGrade } from '../types/component-types';
+
+// ============================================================================
+// FORMER DIAMETERS
+// ============================================================================
+
+interface FormerRule {
+  maxDiameter: number;           // Applies up to and including this bar size (mm)
+  multiplier: number;            // Former diameter = multiplier × d
+}
+
+// BS 8666:2020 Table 2: grade B500 bars, 4d up to 16 mm and 7d above
+const BS_8666_FORMERS: FormerRule[] = [
+  { maxDiameter: 16, multiplier: 4 },
+  { maxDiameter: Infinity, multiplier: 7 },
+];
+
+// IS 2502 / SP 34: deformed bars bent round at least 4d radius, 6d above 25 mm;
+// Fe 550 bars get a larger former
+const IS_2502_FORMERS: Record<SteelGrade, FormerRule[]> = {
+  Fe415: [{ maxDiameter: 25, multiplier: 8 }, { maxDiameter: Infinity, multiplier: 12 }],
+  Fe500: [{ maxDiameter: 25, multiplier: 8 }, { maxDiameter: Infinity, multiplier: 12 }],
+  Fe550: [{ maxDiameter: 25, multiplier: 10 }, { maxDiameter: Infinity, multiplier: 12 }],
+};
+
+const DEFAULT_STEEL_GRADE: SteelGrade = 'Fe500';
+
+/**
+ * Minimum former diameter as a multiple of the bar diameter
+ */
+export function getFormerMultiplier(
+  diameter: number,
+  table: FormerDiameterTable,
+  steelGrade: SteelGrade = DEFAULT_STEEL_GRADE
+): number {
+  const rules = table === 'BS 8666' ? BS_8666_FORMERS : IS_2502_FORMERS[steelGrade];
+  return rules.find(rule => diameter <= rule.maxDiameter)!.multiplier;
+}
+
+/**
+ * Internal bend radius r in mm (half the minimum former diameter)
+ */
+export function getBendRadius(
+  diameter: number,
+  table: FormerDiameterTable,
+  steelGrade: SteelGrade = DEFAULT_STEEL_GRADE
+): number {
+  return (getFormerMultiplier(diameter, table, steelGrade) * diameter) / 2;
+}
+
+/**
+ * Standard minimum bend radius r per BS 8666:2020 Table 2 (grade B500)
+ */
+export function getStandardBendRadius(diameter: number): number {
+  return getBendRadius(diameter, 'BS 8666');
+}
+
+// ============================================================================
+// DEDUCTIONS
+// ============================================================================
+
+/**
+ * Geometric bend deduction for any angle, in mm
+ */
+export function calculateGeometricBendDeduction(angle: number, diameter: number, radius: number): number {
+  const theta = (angle * Math.PI) / 180;
+  const outside = angle <= 90
+    ? 2 * (radius + diameter) * Math.tan(theta / 2)
+    : 2 * (radius + diameter);
+  return outside - theta * (radius + diameter / 2);
+}
+
+const isGeometric = (config: ProjectConfig) => config.bendDeductions.mode === 'GEOMETRIC';
+
+/**
+ * Former table and steel grade a project's geometric deductions use
+ */
+function getFormerSettings(config: ProjectConfig): { table: FormerDiameterTable; steelGrade: SteelGrade } {
+  return {
+    table: config.bendDeductions.formerTable ?? 'IS 2502',
+    steelGrade: config.bbsMetadata?.steelGrade ?? DEFAULT_STEEL_GRADE,
+  };
+}
+
+/**
+ * Multiplier-mode factor for an angle; 180° and other angles use the 90° factor
+ */
+function getMultiplier(angle: number, config: ProjectConfig): number {
+  const { bendDeductions } = config;
+  switch (angle) {
+    case 45:
+      return bendDeductions.deg45;
+    case 135:
+      return bendDeductions.deg135;
+    default:
+      return bendDeductions.deg90;
+  }
+}
+
+/**
+ * Bend deduction for one bend of a project's bar, in mm
+ */
+export function getBendDeduction(angle: number, diameter: number, config: ProjectConfig): number {
+  if (!isGeometric(config)) {
+    return getMultiplier(angle, config) * diameter;
+  }
+  const { table, steelGrade } = getFormerSettings(config);
+  return calculateGeometricBendDeduction(angle, diameter, getBendRadius(diameter, table, steelGrade));
+}
+
+/**
+ * Bend radius r a project's shape formulas use: the former table in geometric
+ * mode, otherwise the BS 8666 standard radius
+ */
+export function getProjectBendRadius(diameter: number, config: ProjectConfig): number {
+  if (!isGeometric(config)) return getStandardBendRadius(diameter);
+  const { table, steelGrade } = getFormerSettings(config);
+  return getBendRadius(diameter, table, steelGrade);
+}
+
+/**
+ * Where a project's bend radius comes from, for the formula breakdown
+ * e.g. "r = 8 × 12/2 = 48mm (IS 2502 former 8d)"
+ */
+export function describeBendRadius(diameter: number, config: ProjectConfig): string {
+  if (!isGeometric(config)) {
+    return `r = ${getStandardBendRadius(diameter)}mm (BS 8666 standard radius)`;
+  }
+  const { table, steelGrade } = getFormerSettings(config);
+  const multiplier = getFormerMultiplier(diameter, table, steelGrade);
+  return `r = ${multiplier} × ${diameter}/2 = ${getBendRadius(diameter, table, steelGrade)}mm (${table} former ${multiplier}d)`;
+}
+
+/**
+ * How a bend deduction was derived, for the formula breakdown
+ * e.g. "90° bend: 2d = 2 × 12 = 24mm" or, in geometric mode,
+ * "90° bend: r = 8 × 12/2 = 48mm (IS 2502 former 8d), 2(r + d)tan(θ/2) − θ(r + d/2) = ... = 35.2mm"
+ */
+export function describeBendDeduction(angle: number, diameter: number, config: ProjectConfig): string {
+  const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+  const deduction = getBendDeduction(angle, diameter, config);
+
+  if (!isGeometric(config)) {
+    const multiplier = getMultiplier(angle, config);
+    return `${angle}° bend: ${multiplier}d = ${multiplier} × ${diameter} = ${round(deduction)}mm`;
+  }
+
+  const radius = getProjectBendRadius(diameter, config);
+  const theta = round((angle * Math.PI) / 180, 3);
+  const outside = angle <= 90
+    ? `2(${radius} + ${diameter}) × tan(${angle / 2}°)`
+    : `2(${radius} + ${diameter})`;
+  const formula = angle <= 90 ? '2(r + d)tan(θ/2) − θ(r + d/2)' : '2(r + d) − θ(r + d/2)';
+
+  return `${angle}° bend: ${describeBendRadius(diameter, config)}, ` +
+    `${formula} = ${outside} − ${theta} × ${radius + diameter / 2} = ${round(deduction)}mm`;
+}
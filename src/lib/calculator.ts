@@ -15,6 +15,8 @@ import type {
   CodeProfile
 } from '../types';
 import { SHAPE_DEFINITIONS } from './constants';
+import { calculateShapeCutLength } from './shape-registry';
+import { getBendDeduction } from './bend-allowance';
 
 // ============================================================================
 // BEND DEDUCTION CALCULATOR
@@ -22,11 +24,12 @@ import { SHAPE_DEFINITIONS } from './constants';
 
 /**
  * Calculate bend deduction based on angle and diameter
- * Uses configurable multipliers from ProjectConfig
+ * Uses the profile's bend deduction mode from ProjectConfig: flat multipliers
+ * per angle, or geometric deductions from the minimum former diameter
  * 
- * @param angle - Bend angle in degrees (45, 90, 135, 180)
+ * @param angle - Bend angle in degrees (45, 90, 135, 180 or any other angle)
  * @param diameter - Bar diameter in mm
- * @param config - Project configuration with bend deduction multipliers
+ * @param config - Project configuration with bend deduction settings
  * @returns Bend deduction in mm
  */
 export function calculateBendDeduction(
@@ -34,22 +37,7 @@ export function calculateBendDeduction(
   diameter: number,
   config: ProjectConfig
 ): number {
-  const { bendDeductions } = config;
-  
-  switch (angle) {
-    case 45:
-      return bendDeductions.deg45 * diameter;
-    case 90:
-      return bendDeductions.deg90 * diameter;
-    case 135:
-      return bendDeductions.deg135 * diameter;
-    case 180:
-      // 180° bend (hook turn) - typically same as 90° or custom
-      return bendDeductions.deg90 * diameter;
-    default:
-      // For non-standard angles, interpolate or use 90° as default
-      return bendDeductions.deg90 * diameter;
-  }
+  return getBendDeduction(angle, diameter, config);
 }
 
 /**
@@ -88,98 +76,50 @@ export function calculateHookLength(
 
 // ============================================================================
 // SHAPE FORMULA CALCULATORS (S1-S6)
+// Cut-length formulas live in the shape registry; these remain as shortcuts
 // ============================================================================
 
 /**
  * S1 - Straight bar: Cut length = A
  */
-export function calculateS1(
-  dimensions: BarDimensions,
-  _config: ProjectConfig,
-  _diameter: number
-): number {
-  return dimensions.A;
+export function calculateS1(dimensions: BarDimensions, config: ProjectConfig, diameter: number): number {
+  return calculateShapeCutLength('S1', dimensions, config, diameter);
 }
 
 /**
- * S2 - U-bar: Cut length = A + 2×B − bend deductions
- * Has two 90° bends
+ * S2 - U-bar: Cut length = A + 2×B − 2 × 90° bend deduction
  */
-export function calculateS2(
-  dimensions: BarDimensions,
-  config: ProjectConfig,
-  diameter: number
-): number {
-  const B = dimensions.B ?? 0;
-  const bendDeduction = 2 * calculateBendDeduction(90, diameter, config);
-  return dimensions.A + (2 * B) - bendDeduction;
+export function calculateS2(dimensions: BarDimensions, config: ProjectConfig, diameter: number): number {
+  return calculateShapeCutLength('S2', dimensions, config, diameter);
 }
 
 /**
- * S3 - Stirrup: Cut length = 2×(A + B) + 2×hook − bend deductions
- * Has four 90° bends and two 135° bends (for hooks)
+ * S3 - Stirrup: Cut length = 2×(A + B) + 2×hook − 4 × 90° − 2 × 135° bend deductions
  */
-export function calculateS3(
-  dimensions: BarDimensions,
-  config: ProjectConfig,
-  diameter: number
-): number {
-  const B = dimensions.B ?? 0;
-  const hookLength = calculateHookLength(diameter, config.defaultHookMultiplier);
-  
-  // 4 × 90° bends + 2 × 135° bends
-  const bendDeduction90 = 4 * calculateBendDeduction(90, diameter, config);
-  const bendDeduction135 = 2 * calculateBendDeduction(135, diameter, config);
-  
-  return 2 * (dimensions.A + B) + (2 * hookLength) - bendDeduction90 - bendDeduction135;
+export function calculateS3(dimensions: BarDimensions, config: ProjectConfig, diameter: number): number {
+  return calculateShapeCutLength('S3', dimensions, config, diameter);
 }
 
 /**
- * S4 - Cranked bar: Cut length = A + inclined length + C − bend deductions
- * Inclined length = √(B² + C²) where B is horizontal offset, C is vertical rise
- * Has two 45° bends
+ * S4 - Cranked bar: Cut length = A + √(B² + C²) + C − 2 × 45° bend deduction
+ * B is the horizontal offset and C the vertical rise of the inclined portion
  */
-export function calculateS4(
-  dimensions: BarDimensions,
-  config: ProjectConfig,
-  diameter: number
-): number {
-  const B = dimensions.B ?? 0;
-  const C = dimensions.C ?? 0;
-  const inclinedLength = Math.sqrt(B * B + C * C);
-  const bendDeduction = 2 * calculateBendDeduction(45, diameter, config);
-  
-  return dimensions.A + inclinedLength + C - bendDeduction;
+export function calculateS4(dimensions: BarDimensions, config: ProjectConfig, diameter: number): number {
+  return calculateShapeCutLength('S4', dimensions, config, diameter);
 }
 
 /**
- * S5 - L-bar: Cut length = A + B − bend deduction
- * Has one 90° bend
+ * S5 - L-bar: Cut length = A + B − 90° bend deduction
  */
-export function calculateS5(
-  dimensions: BarDimensions,
-  config: ProjectConfig,
-  diameter: number
-): number {
-  const B = dimensions.B ?? 0;
-  const bendDeduction = calculateBendDeduction(90, diameter, config);
-  
-  return dimensions.A + B - bendDeduction;
+export function calculateS5(dimensions: BarDimensions, config: ProjectConfig, diameter: number): number {
+  return calculateShapeCutLength('S5', dimensions, config, diameter);
 }
 
 /**
- * S6 - Hooked bar: Cut length = A + hook − bend deduction
- * Has one 180° bend (hook turn)
+ * S6 - Hooked bar: Cut length = A + hook − 180° bend deduction
  */
-export function calculateS6(
-  dimensions: BarDimensions,
-  config: ProjectConfig,
-  diameter: number
-): number {
-  const hookLength = calculateHookLength(diameter, config.defaultHookMultiplier);
-  const bendDeduction = calculateBendDeduction(180, diameter, config);
-  
-  return dimensions.A + hookLength - bendDeduction;
+export function calculateS6(dimensions: BarDimensions, config: ProjectConfig, diameter: number): number {
+  return calculateShapeCutLength('S6', dimensions, config, diameter);
 }
 
 // ============================================================================
@@ -241,21 +181,6 @@ function mapProfileToCodeStandard(profileId: string): 'IS' | 'BS' | 'CUSTOM' {
 // MAIN CALCULATOR ENGINE
 // ============================================================================
 
-/**
- * Shape calculator function map
- */
-const SHAPE_CALCULATORS: Record<
-  ShapeCode, 
-  (dimensions: BarDimensions, config: ProjectConfig, diameter: number) => number
-> = {
-  S1: calculateS1,
-  S2: calculateS2,
-  S3: calculateS3,
-  S4: calculateS4,
-  S5: calculateS5,
-  S6: calculateS6,
-};
-
 /**
  * Calculate cut length for a single bar entry
  * 
@@ -264,8 +189,7 @@ const SHAPE_CALCULATORS: Record<
  * @returns Cut length in mm
  */
 export function calculateCutLength(bar: BarEntry, config: ProjectConfig): number {
-  const calculator = SHAPE_CALCULATORS[bar.shapeCode];
-  return calculator(bar.dimensions, config, bar.diameter);
+  return calculateShapeCutLength(bar.shapeCode, bar.dimensions, config, bar.diameter);
 }
 
 /**
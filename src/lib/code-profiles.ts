@@ -14,6 +14,7 @@ export const CODE_PROFILES: Record<string, CodeProfile> = {
       deg45: 1,   // 1 × diameter
       deg90: 2,   // 2 × diameter  
       deg135: 3,  // 3 × diameter
+      mode: 'MULTIPLIER',
     },
     memberDefaults: {
       BEAM: {
@@ -46,6 +47,13 @@ export const CODE_PROFILES: Record<string, CodeProfile> = {
       straight: 1.0,
       hooked: 0.7,
       compression: 0.8
+    },
+    lapSplice: {
+      lapFactor: 1.0,             // Clause 26.2.5.1(c): tension lap = Ld
+      minLapDiameters: 30,        // ... or 30φ, whichever is greater
+      minLapLength: 200,
+      maxBarsSplicedPercent: 50,  // Clause 26.2.5.1(a): stagger, not more than half at a section
+      staggerFactor: 1.3          // Laps 1.3 × lap length apart (centre to centre)
     }
   },
   
@@ -61,6 +69,8 @@ export const CODE_PROFILES: Record<string, CodeProfile> = {
       deg45: 0.5,
       deg90: 1.5,
       deg135: 2.5,
+      mode: 'GEOMETRIC',          // Deductions from the BS 8666 minimum former diameters
+      formerTable: 'BS 8666',
     },
     memberDefaults: {
       BEAM: {
@@ -93,6 +103,13 @@ export const CODE_PROFILES: Record<string, CodeProfile> = {
       straight: 1.0,
       hooked: 0.75,
       compression: 0.85
+    },
+    lapSplice: {
+      lapFactor: 1.0,             // Tension lap ≥ anchorage length
+      minLapDiameters: 15,        // At least 15φ or 300 mm
+      minLapLength: 300,
+      maxBarsSplicedPercent: 50,
+      staggerFactor: 1.3
     }
   },
   
@@ -108,6 +125,7 @@ export const CODE_PROFILES: Record<string, CodeProfile> = {
       deg45: 1,
       deg90: 2,
       deg135: 3,
+      mode: 'MULTIPLIER',
     },
     memberDefaults: {
       BEAM: {
@@ -140,6 +158,13 @@ export const CODE_PROFILES: Record<string, CodeProfile> = {
       straight: 1.0,
       hooked: 0.7,
       compression: 0.8
+    },
+    lapSplice: {
+      lapFactor: 1.0,
+      minLapDiameters: 30,
+      minLapLength: 200,
+      maxBarsSplicedPercent: 50,
+      staggerFactor: 1.3
     }
   }
 };
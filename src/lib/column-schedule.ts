@@ -0,0 +1,305 @@
+/**
+ * Column Schedule
+ * One column mark stacked over several floors, each with its own section and main
+ * bars. Main bars are cut floor by floor:
+ *
+ * - Each floor's bars start at its floor level and lap into the floor above; the
+ *   lap uses the smaller of the two bar sizes (IS 456 26.2.5.1)
+ * - Ground floor bars also lap with the starter bars at the base
+ * - Where the section above is smaller, bars are cranked at 1:6 just below the
+ *   floor level; offsets over 75mm need separate splice bars instead
+ * - Bars added above a floor extend Ld down into the floor below; bars with no
+ *   partner above, and all top floor bars, are anchored with an L-bend into the slab
+ *
+ * The schedule's bars replace the column's plain Main Bar. Ties are repeated per
+ * floor, each measured round that floor's section and counted over its height.
+ */
+
+import type {
+  BarMeasurements,
+  ColumnFloor,
+  ColumnScheduleLayout,
+  ComponentBarEntry,
+  ConcreteComponent
+} from '../types/component-types';
+import { resolveDevelopmentLength, type DevelopmentLengthContext } from './development-length';
+import { DEFAULT_LAP_SPLICE_RULES, getSpliceLapLength } from './lap-splice-planner';
+import { carryOverBarMarks, withDroppedBarMarks } from './bar-mark-carryover';
+import { calculateBarMeasurementsAuto, calculateBarsPerMember } from './enhanced-calculator';
+import { isTieBarType } from './tie-designer';
+
+export const MAX_CRANK_OFFSET = 75;    // mm - larger offsets get separate splice bars
+const CRANK_SLOPE = 6;                 // 1 in 6
+const DEFAULT_ROOF_SLAB_DEPTH = 150;   // mm
+const MIN_ANCHORAGE_LEG = 12;          // × d, minimum leg of the L-bend into the slab
+
+// Bar types generated for a schedule, e.g. "Main Bar (Floor 2)" or "Main Bar (GF) - Stopped"
+const SCHEDULE_BAR_TYPE = /^Main Bar \(.+\)( - (Added|Stopped|Added, Stopped))?$/;
+
+// Main bars of a single-height column; the schedule's bars take their place
+const SINGLE_COLUMN_BAR_TYPE = 'Main Bar';
+
+export function isColumnScheduleBarType(barType: string): boolean {
+  return SCHEDULE_BAR_TYPE.test(barType);
+}
+
+function isReplacedBarType(barType: string): boolean {
+  return isColumnScheduleBarType(barType) || barType === SINGLE_COLUMN_BAR_TYPE;
+}
+
+export function getFloorLabel(floor: ColumnFloor, index: number): string {
+  return floor.label || `Floor ${index + 1}`;
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Start a schedule from a single-height column: one floor with its section and main bars
+ */
+export function createColumnSchedule(component: ConcreteComponent): ColumnScheduleLayout {
+  const main = component.bars.find(bar => bar.barType === SINGLE_COLUMN_BAR_TYPE);
+  return {
+    floors: [{
+      height: component.depth || 3000,
+      width: component.spanX,
+      depth: component.spanY,
+      diameter: main?.diameter ?? 16,
+      count: main?.barsPerMember || 4,
+    }],
+    roofSlabDepth: DEFAULT_ROOF_SLAB_DEPTH,
+  };
+}
+
+/**
+ * Add a floor on top, repeating the top floor
+ */
+export function addColumnFloor(layout: ColumnScheduleLayout): ColumnScheduleLayout {
+  const top = layout.floors[layout.floors.length - 1];
+  return { ...layout, floors: [...layout.floors, { ...top, label: undefined }] };
+}
+
+export function removeColumnFloor(layout: ColumnScheduleLayout, index: number): ColumnScheduleLayout {
+  if (layout.floors.length <= 1) return layout;
+  return { ...layout, floors: layout.floors.filter((_, i) => i !== index) };
+}
+
+/**
+ * Total column height, base to roof
+ */
+export function getColumnScheduleHeight(layout: ColumnScheduleLayout): number {
+  return layout.floors.reduce((total, floor) => total + floor.height, 0);
+}
+
+/**
+ * The column as the bars of one floor see it: that floor's section and height
+ */
+export function getColumnFloorComponent(component: ConcreteComponent, index: number): ConcreteComponent {
+  const floor = component.columnSchedule?.floors[index];
+  if (!floor) return component;
+  return { ...component, spanX: floor.width, spanY: floor.depth, depth: floor.height };
+}
+
+/**
+ * Offset of the main bars at a section reduction: the larger step on one face
+ */
+export function getCrankOffset(lower: ColumnFloor, upper: ColumnFloor): number {
+  return Math.max(0, (lower.width - upper.width) / 2, (lower.depth - upper.depth) / 2);
+}
+
+// ============================================================================
+// BARS
+// ============================================================================
+
+export interface ColumnScheduleBars {
+  entries: ComponentBarEntry[];
+  warnings: string[];
+}
+
+interface BarGroup {
+  added: boolean;                  // No bar below to lap with
+  stopped: boolean;                // No bar above to lap with
+  count: number;
+}
+
+/**
+ * Split a floor's bars by how they start and end: the first bars are the ones
+ * added over the floor below, the last ones stop at this floor
+ */
+function groupFloorBars(count: number, below: number | undefined, above: number | undefined): BarGroup[] {
+  const added = below === undefined ? 0 : Math.max(0, count - below);
+  const stopped = above === undefined ? count : Math.max(0, count - above);
+  const groups = new Map<string, BarGroup>();
+
+  for (let i = 0; i < count; i++) {
+    const group = { added: i < added, stopped: i >= count - stopped };
+    const key = `${group.added}|${group.stopped}`;
+    const existing = groups.get(key);
+    if (existing) existing.count += 1;
+    else groups.set(key, { ...group, count: 1 });
+  }
+  return [...groups.values()];
+}
+
+function getLapLength(diameter: number, ld: DevelopmentLengthContext): number {
+  return getSpliceLapLength(
+    diameter,
+    resolveDevelopmentLength(diameter, ld),
+    ld.profile?.lapSplice ?? DEFAULT_LAP_SPLICE_RULES
+  );
+}
+
+/**
+ * Main bar rows for every floor of a schedule, bottom floor first
+ */
+export function generateColumnScheduleBars(
+  layout: ColumnScheduleLayout,
+  cover: number,
+  ld: DevelopmentLengthContext
+): ColumnScheduleBars {
+  const { floors } = layout;
+  const slabDepth = layout.roofSlabDepth ?? DEFAULT_ROOF_SLAB_DEPTH;
+  const entries: ComponentBarEntry[] = [];
+  const warnings: string[] = [];
+
+  floors.forEach((floor, k) => {
+    const label = getFloorLabel(floor, k);
+    const below = floors[k - 1];
+    const above = floors[k + 1];
+    const d = floor.diameter;
+    const developmentLength = resolveDevelopmentLength(d, ld);
+
+    // Lap into the floor above, cranked when the section steps in
+    const lapAbove = above ? getLapLength(Math.min(d, above.diameter), ld) : 0;
+    const offset = above ? getCrankOffset(floor, above) : 0;
+    if (offset > MAX_CRANK_OFFSET) {
+      warnings.push(
+        `${label}: bar offset of ${offset}mm to ${getFloorLabel(above!, k + 1)} exceeds ${MAX_CRANK_OFFSET}mm, ` +
+        'provide separate splice bars instead of cranking'
+      );
+    }
+
+    for (const group of groupFloorBars(floor.count, below?.count, above?.count)) {
+      const bottom = !below ? getLapLength(d, ld) : group.added ? developmentLength : 0;
+      let measurements: BarMeasurements;
+      let bends: number;
+
+      if (group.stopped) {
+        // L-bend into the slab at the top of the floor
+        const straight = Math.max(0, slabDepth - cover);
+        measurements = {
+          a: Math.ceil(bottom + floor.height - cover),
+          b: Math.ceil(Math.max(developmentLength - straight, MIN_ANCHORAGE_LEG * d)),
+        };
+        bends = 1;
+      } else if (offset > 0) {
+        const rise = CRANK_SLOPE * offset;
+        measurements = {
+          a: Math.ceil(bottom + floor.height - rise),
+          b: Math.ceil(Math.hypot(rise, offset)),
+          c: lapAbove,
+        };
+        bends = 2;
+      } else {
+        measurements = { a: Math.ceil(bottom + floor.height + lapAbove) };
+        bends = 0;
+      }
+
+      const suffix = [
+        group.added ? 'Added' : '',
+        group.stopped && above ? 'Stopped' : '',
+      ].filter(Boolean).join(', ');
+
+      entries.push({
+        id: crypto.randomUUID(),
+        barType: `Main Bar (${label})${suffix ? ` - ${suffix}` : ''}`,
+        direction: 'NONE',
+        diameter: d,
+        spacing: 0,
+        barsPerMember: group.count,
+        totalMembers: 1,
+        measurements,
+        manualNoOfDeductions: bends,
+      });
+    }
+  });
+
+  return { entries, warnings };
+}
+
+/**
+ * Tie rows of every floor from a tie entry, bottom floor first
+ */
+function generateFloorTies(
+  component: ConcreteComponent,
+  tie: ComponentBarEntry,
+  ld: DevelopmentLengthContext
+): ComponentBarEntry[] {
+  return (component.columnSchedule?.floors ?? []).map((_, k) => {
+    const floorColumn = getColumnFloorComponent(component, k);
+    return {
+      ...tie,
+      id: k === 0 ? tie.id : crypto.randomUUID(),
+      columnFloor: k,
+      measurements: calculateBarMeasurementsAuto(tie.barType, tie.direction, floorColumn, tie.diameter, ld, undefined, tie.spacing),
+      barsPerMember: calculateBarsPerMember(tie.barType, tie.direction, floorColumn, tie.spacing, undefined, undefined, tie.spacingZones),
+      totalMembers: 1,
+      manualNoOfBars: undefined,
+    };
+  });
+}
+
+/**
+ * Regenerate a column's main bars and floor ties from its schedule
+ * The column takes the ground floor section and the full height. The plain Main
+ * Bar is replaced; each tie entry becomes a row per floor (the first floor's row
+ * is the one to edit, the others follow it). Other entries are kept.
+ */
+export function applyColumnSchedule(
+  component: ConcreteComponent,
+  ld: DevelopmentLengthContext
+): ConcreteComponent {
+  const layout = component.columnSchedule;
+  if (!layout || layout.floors.length === 0) return component;
+
+  const [ground] = layout.floors;
+  const isFloorTie = (bar: ComponentBarEntry) => isTieBarType(bar.barType);
+  const replaced = component.bars.filter(bar => isReplacedBarType(bar.barType) || isFloorTie(bar));
+  const main = generateColumnScheduleBars(layout, component.cover, ld).entries;
+
+  const bars: ComponentBarEntry[] = [];
+  for (const bar of component.bars) {
+    if (isReplacedBarType(bar.barType) || (isFloorTie(bar) && (bar.columnFloor ?? 0) > 0)) continue;
+    bars.push(...(isFloorTie(bar) ? carryOverBarMarks(replaced, generateFloorTies(component, bar, ld)) : [bar]));
+  }
+
+  return withDroppedBarMarks(component, {
+    ...component,
+    spanX: ground.width,
+    spanY: ground.depth,
+    depth: getColumnScheduleHeight(layout),
+    bars: [...carryOverBarMarks(replaced, main), ...bars],
+  });
+}
+
+/**
+ * Back to a single-height column: the schedule's main bars go and the floor ties
+ * fold back into one entry per tie, measured and counted for the whole column
+ */
+export function removeColumnSchedule(
+  component: ConcreteComponent,
+  ld: DevelopmentLengthContext
+): ConcreteComponent {
+  const column = { ...component, columnSchedule: undefined };
+  const bars = component.bars
+    .filter(bar => !isColumnScheduleBarType(bar.barType) && (bar.columnFloor ?? 0) === 0)
+    .map(bar => bar.columnFloor === undefined ? bar : {
+      ...bar,
+      columnFloor: undefined,
+      barsPerMember: undefined,
+      totalMembers: undefined,
+      measurements: calculateBarMeasurementsAuto(bar.barType, bar.direction, column, bar.diameter, ld, undefined, bar.spacing),
+    });
+  return withDroppedBarMarks(component, { ...column, bars });
+}
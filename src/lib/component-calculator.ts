@@ -6,10 +6,40 @@
 import type { 
   ComponentBarEntry, 
   CalculatedBarResult, 
-  BarMeasurements
+  BarMeasurements,
+  BarSplicePlan,
+  BBSMetadata,
+  ConcreteComponentType
 } from '../types/component-types.ts';
+import type { CodeProfile, LapSpliceRules } from '../types';
 
-import { WEIGHT_PER_METER } from './constants.ts';
+import { DEFAULT_STANDARD_BAR_LENGTH, WEIGHT_PER_METER } from './constants.ts';
+import { DEFAULT_LAP_SPLICE_RULES, planLapSplices } from './lap-splice-planner.ts';
+import { getDevelopmentLengthContext, getDevelopmentLengthTable } from './development-length.ts';
+
+/**
+ * Project-wide settings for component bar calculations
+ */
+export interface ComponentCalculationSettings {
+  developmentLengths: Record<number, number>;
+  standardBarLength: number;
+  lapSplice?: LapSpliceRules;      // When set, long bars get planned splices instead of the Excel lap formula
+}
+
+/**
+ * Build calculation settings from the BBS metadata and the active code profile
+ */
+export function getComponentCalculationSettings(
+  metadata?: BBSMetadata,
+  profile?: CodeProfile | null
+): ComponentCalculationSettings {
+  return {
+    // Bond-stress Ld of the project grades (overrides applied), as shown in the Ld table
+    developmentLengths: getDevelopmentLengthTable(getDevelopmentLengthContext(metadata, profile)),
+    standardBarLength: metadata?.standardBarLength || DEFAULT_STANDARD_BAR_LENGTH,
+    lapSplice: metadata?.splicePlanning ? (profile?.lapSplice ?? DEFAULT_LAP_SPLICE_RULES) : undefined,
+  };
+}
 
 /**
  * Excel-compatible ROUNDUP function
@@ -136,6 +166,13 @@ function getNoOfBends(barType: string): number {
   return BENDS_4_TYPES.has(barType) ? 4 : 2;
 }
 
+/**
+ * Check whether a bar type's cut length uses the CEILING formula
+ */
+export function usesCeilingCutLength(barType: string): boolean {
+  return CEILING_BAR_TYPES.has(barType);
+}
+
 /**
  * Determine Cut Length formula based on Bar Type
  * Defaulting to Total - Deduction for standard behavior
@@ -299,8 +336,9 @@ export function calculateComponentBarEntry(
   entry: ComponentBarEntry,
   componentSpan: number, // Span used for spacing calc
   _cover: number, // Currently unused but kept for API compatibility
-  settings: { developmentLengths: Record<number, number>, standardBarLength: number },
-  isUBar: boolean = false
+  settings: ComponentCalculationSettings,
+  isUBar: boolean = false,
+  componentType: ConcreteComponentType = 'SLAB' // Decides where splices may be placed
 ): CalculatedBarResult {
   
   // 1. Calculate No. of Members (Rows in Excel: "Total no. of members Reqd")
@@ -321,9 +359,21 @@ export function calculateComponentBarEntry(
 
   // 3. Auto-Calculate Lap if needed
   let lap = entry.measurements.lap || 0;
+  let splices: BarSplicePlan | undefined;
   if (entry.measurements.a && entry.measurements.a > settings.standardBarLength && lap === 0) {
       // Logic for long bars, only if lap not provided manually
-      lap = calculateLap(entry.measurements.a, entry.diameter, settings);
+      if (settings.lapSplice) {
+          // Planned splices: stock-length pieces, laps out of max-moment zones, staggered
+          splices = planLapSplices(entry.measurements.a, entry.diameter, totalNos, entry.barType, {
+              stockLength: settings.standardBarLength,
+              developmentLength: settings.developmentLengths[entry.diameter] || (50 * entry.diameter),
+              memberType: componentType,
+              rules: settings.lapSplice
+          });
+          lap = splices.totalLapLength;
+      } else {
+          lap = calculateLap(entry.measurements.a, entry.diameter, settings);
+      }
   }
 
   // 4. Total Measurement
@@ -364,6 +414,7 @@ export function calculateComponentBarEntry(
     noOfBars: totalNos, // Used for display
     totalLength,
     unitWeight,
-    totalWeight
+    totalWeight,
+    ...(splices ? { splices } : {})
   };
 }
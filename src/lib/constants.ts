@@ -1,64 +1,10 @@
 // Constants for RebarCalc BBS Calculator
 
 import type { ShapeCode, ShapeDefinition, MemberType, MemberDefaults, ProjectConfig } from '../types';
+import { SHAPE_REGISTRY } from './shape-registry';
 
-// Shape definitions with all 6 shapes (S1-S6)
-export const SHAPE_DEFINITIONS: Record<ShapeCode, ShapeDefinition> = {
-  S1: {
-    code: 'S1',
-    name: 'Straight',
-    description: 'Straight bar with no bends',
-    requiredDimensions: ['A'],
-    bendAngles: [],
-    hasHook: false,
-    diagramSvg: 'M 10 50 L 190 50',
-  },
-  S2: {
-    code: 'S2',
-    name: 'U-Bar',
-    description: 'U-shaped bar with two 90° bends',
-    requiredDimensions: ['A', 'B'],
-    bendAngles: [90, 90],
-    hasHook: false,
-    diagramSvg: 'M 10 20 L 10 80 L 190 80 L 190 20',
-  },
-  S3: {
-    code: 'S3',
-    name: 'Stirrup',
-    description: 'Rectangular stirrup with hooks',
-    requiredDimensions: ['A', 'B'],
-    bendAngles: [90, 90, 90, 90, 135, 135],
-    hasHook: true,
-    diagramSvg: 'M 30 10 L 10 10 L 10 90 L 190 90 L 190 10 L 170 10 M 30 10 L 40 20 M 170 10 L 160 20',
-  },
-  S4: {
-    code: 'S4',
-    name: 'Cranked',
-    description: 'Cranked bar with inclined portion',
-    requiredDimensions: ['A', 'B', 'C'],
-    bendAngles: [45, 45],
-    hasHook: false,
-    diagramSvg: 'M 10 70 L 60 70 L 100 30 L 140 30 L 190 30',
-  },
-  S5: {
-    code: 'S5',
-    name: 'L-Bar',
-    description: 'L-shaped bar with one 90° bend',
-    requiredDimensions: ['A', 'B'],
-    bendAngles: [90],
-    hasHook: false,
-    diagramSvg: 'M 10 20 L 10 80 L 190 80',
-  },
-  S6: {
-    code: 'S6',
-    name: 'Hooked',
-    description: 'Straight bar with hook at one end',
-    requiredDimensions: ['A'],
-    bendAngles: [180],
-    hasHook: true,
-    diagramSvg: 'M 10 50 L 170 50 Q 190 50 190 70 Q 190 90 170 90',
-  },
-};
+// Shape definitions (S1-S6 and BS 8666 shape codes), see shape-registry.ts
+export const SHAPE_DEFINITIONS: Record<ShapeCode, ShapeDefinition> = SHAPE_REGISTRY;
 
 
 // Default member configurations for BEAM, COLUMN, SLAB
@@ -167,6 +113,8 @@ export const COMPONENT_COVERS: Record<string, number> = {
   BEAM: 25,
   COLUMN: 40,
   FOOTING: 50,
+  STAIRCASE: 20,
+  WALL: 40,
 };
 
 // Bar types/Descriptions for each component
@@ -220,12 +168,59 @@ export const BAR_TYPES = {
     'Top Main (L)', 
     'Top Dist (B)',
     'Dowel Bars',
+  ],
+  STAIRCASE: [
+    'Stair Main Bar',
+    'Stair Dist Bar',
+    'Nosing Bar',
+  ],
+  WALL: [
+    'Vertical Bar',
+    'Horizontal Bar',
+    'End U-Bar',
+    'Link Tie',
   ]
 };
 
 // Footing types (pile variants only for footings)
 export const FOOTING_TYPES = ['ISOLATED', 'COMBINED', 'PILE_CYLINDER', 'PILE_CUBOID'];
 
+// Wall types: cantilever retaining walls and RC shear walls
+export const WALL_TYPES = ['SHEAR', 'RETAINING'];
+
+// Extra bar types for shear walls with boundary elements at the ends
+export const BOUNDARY_ELEMENT_BAR_TYPES = [
+  'Boundary Element Bar',
+  'Boundary Element Hoop',
+];
+
+// Bar types for retaining walls: the stem and its base slab
+export const RETAINING_WALL_BAR_TYPES = [
+  'Stem Main Bar',
+  'Stem Front Bar',
+  'Stem Dist Bar',
+  'Heel Top Bar',
+  'Toe Bottom Bar',
+  'Base Dist Bar',
+];
+
+// Extra bar types for footings with a strap beam between the columns
+export const STRAP_BEAM_BAR_TYPES = [
+  'Strap Beam Bar',
+  'Strap Beam Stirrups',
+];
+
+// Bar types for pile footings: the piles and their pile cap
+export const PILE_BAR_TYPES = [
+  'Pile Main Bar',
+  'Pile Helical Link',
+  'Pile Link',
+  'Pile Stiffener Ring',
+  'Cap Bottom Main (L)',
+  'Cap Bottom Main (B)',
+  'Cap Side Face Bar',
+];
+
 // Default Development Lengths (Ld) for M30 Concrete (shim for logic verification)
 export const DEFAULT_DEVELOPMENT_LENGTHS = DEVELOPMENT_LENGTH_TABLES.M30;
 
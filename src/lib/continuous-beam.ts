@@ -0,0 +1,258 @@
+/**
+ * Continuous Beams
+ * Generates the main bars of a beam running continuously over several supports:
+ *
+ * - Bottom bars through every span, lapped over the interior supports (one lap
+ *   centred on each support) and anchored into the end columns
+ * - Through top bars over the whole length, holding the stirrups at mid-span and
+ *   anchored into the end columns; the calculator laps them where they run past
+ *   the stock length
+ * - Support top bars over each support, running L/3 or L/4 into the adjacent spans
+ *   (the larger adjacent span governs at interior supports)
+ * - Curtailed bottom bars in each span, stopped 0.15L short of the support faces
+ *
+ * End anchorage runs to the far face of the end column less cover, then bends
+ * 90° with a leg making up Ld (at least 12d). Generated entries carry their bar
+ * count and bends, so they go through the component calculators like any other bar.
+ */
+
+import type {
+  BarMeasurements,
+  ComponentBarEntry,
+  ConcreteComponent,
+  ContinuousBeamBarSet,
+  ContinuousBeamLayout
+} from '../types/component-types';
+import { resolveDevelopmentLength, type DevelopmentLengthContext } from './development-length';
+import { DEFAULT_LAP_SPLICE_RULES, getSpliceLapLength } from './lap-splice-planner';
+import { carryOverBarMarks, withDroppedBarMarks } from './bar-mark-carryover';
+
+const CURTAILMENT_RATIO = 0.15;        // Curtailed bars stop 0.15L from each support face
+const MIN_ANCHORAGE_LEG = 12;          // × d, minimum leg of the 90° bend into an end column
+
+// Bar types generated for a continuous beam, e.g. "Bottom Bar (Span 2)"
+const CONTINUOUS_BAR_TYPE = /^((Bottom Bar \(Span|Curtailed Bottom Bar \(Span|Support Top Bar \(Support) \d+|Top Bar \(Through)\)$/;
+
+const THROUGH_TOP_BAR = 'Top Bar (Through)';
+
+// Main bars of a single-span beam; the continuous bars take their place, the
+// through top bars carrying on the single-span Top Bar
+const SINGLE_SPAN_BAR_TYPES = ['Top Bar', 'Bottom Bar'];
+
+export function isContinuousBeamBarType(barType: string): boolean {
+  return CONTINUOUS_BAR_TYPE.test(barType);
+}
+
+function isReplacedBarType(barType: string): boolean {
+  return isContinuousBeamBarType(barType) || SINGLE_SPAN_BAR_TYPES.includes(barType);
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Start a continuous layout from a single-span beam: one span between two supports,
+ * with the size and count of its top and bottom bars
+ */
+export function createContinuousBeamLayout(component: ConcreteComponent): ContinuousBeamLayout {
+  const supportWidth = 300;
+  const barSet = (barType: string): ContinuousBeamBarSet => {
+    const bar = component.bars.find(entry => entry.barType === barType);
+    return { diameter: bar?.diameter ?? 16, count: bar?.barsPerMember || 2 };
+  };
+  return {
+    spans: [Math.max(0, component.spanX - supportWidth)],
+    supports: [supportWidth, supportWidth],
+    topBarExtension: 3,
+    bottomBars: barSet('Bottom Bar'),
+    throughTopBars: barSet('Top Bar'),
+    supportTopBars: barSet('Top Bar'),
+  };
+}
+
+/**
+ * Overall beam length: all spans and supports, outside face to outside face
+ */
+export function getContinuousBeamLength(layout: ContinuousBeamLayout): number {
+  const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+  return sum(layout.spans) + sum(layout.supports);
+}
+
+/**
+ * Add a span at the right-hand end, repeating the last span and support
+ */
+export function addContinuousSpan(layout: ContinuousBeamLayout): ContinuousBeamLayout {
+  const lastSpan = layout.spans[layout.spans.length - 1] ?? 3000;
+  const lastSupport = layout.supports[layout.supports.length - 1] ?? 300;
+  return {
+    ...layout,
+    spans: [...layout.spans, lastSpan],
+    supports: [...layout.supports, lastSupport],
+  };
+}
+
+/**
+ * Remove a span and the support to its right (the first span drops its left support)
+ */
+export function removeContinuousSpan(layout: ContinuousBeamLayout, index: number): ContinuousBeamLayout {
+  if (layout.spans.length <= 1) return layout;
+  const supportIndex = index === 0 ? 0 : index + 1;
+  return {
+    ...layout,
+    spans: layout.spans.filter((_, i) => i !== index),
+    supports: layout.supports.filter((_, i) => i !== supportIndex),
+  };
+}
+
+// ============================================================================
+// BARS
+// ============================================================================
+
+interface EndAnchorage {
+  straight: number;                // mm into the column, to the far face less cover
+  leg: number;                     // mm - 90° bend leg
+}
+
+function getEndAnchorage(supportWidth: number, cover: number, diameter: number, ld: DevelopmentLengthContext): EndAnchorage {
+  const straight = Math.max(0, supportWidth - cover);
+  const developmentLength = resolveDevelopmentLength(diameter, ld);
+  return {
+    straight,
+    leg: Math.ceil(Math.max(developmentLength - straight, MIN_ANCHORAGE_LEG * diameter)),
+  };
+}
+
+// Horizontal length first, then the anchorage legs in the following columns
+function withLegs(length: number, legs: number[]): BarMeasurements {
+  const [b, c] = legs;
+  return {
+    a: Math.ceil(length),
+    ...(b !== undefined ? { b } : {}),
+    ...(c !== undefined ? { c } : {}),
+  };
+}
+
+function createEntry(
+  barType: string,
+  bars: ContinuousBeamBarSet,
+  measurements: BarMeasurements,
+  bends: number
+): ComponentBarEntry {
+  return {
+    id: crypto.randomUUID(),
+    barType,
+    direction: 'X',
+    diameter: bars.diameter,
+    spacing: 0,
+    barsPerMember: bars.count,
+    totalMembers: 1,
+    measurements,
+    manualNoOfDeductions: bends,
+  };
+}
+
+/**
+ * Bottom, through top, support top and curtailed bars for a continuous beam layout
+ */
+export function generateContinuousBeamBars(
+  layout: ContinuousBeamLayout,
+  cover: number,
+  ld: DevelopmentLengthContext
+): ComponentBarEntry[] {
+  const { spans, supports } = layout;
+  const lastSpan = spans.length - 1;
+  const extensionDivisor = layout.topBarExtension ?? 3;
+  const entries: ComponentBarEntry[] = [];
+
+  // Bottom bars: one bar per span, lapped over interior supports
+  const bottom = layout.bottomBars;
+  const lapLength = getSpliceLapLength(
+    bottom.diameter,
+    resolveDevelopmentLength(bottom.diameter, ld),
+    ld.profile?.lapSplice ?? DEFAULT_LAP_SPLICE_RULES
+  );
+  const bottomAnchorage = (supportWidth: number) => getEndAnchorage(supportWidth, cover, bottom.diameter, ld);
+
+  spans.forEach((span, i) => {
+    let length = span;
+    const legs: number[] = [];
+    for (const [isEnd, supportWidth] of [[i === 0, supports[i]], [i === lastSpan, supports[i + 1]]] as const) {
+      if (isEnd) {
+        const anchorage = bottomAnchorage(supportWidth);
+        length += anchorage.straight;
+        legs.push(anchorage.leg);
+      } else {
+        length += supportWidth / 2 + lapLength / 2;
+      }
+    }
+    entries.push(createEntry(`Bottom Bar (Span ${i + 1})`, bottom, withLegs(length, legs), legs.length));
+  });
+
+  // Curtailed bottom bars: straight, centred in each span
+  if (layout.curtailedBars && layout.curtailedBars.count > 0) {
+    spans.forEach((span, i) => {
+      const length = span * (1 - 2 * CURTAILMENT_RATIO);
+      entries.push(createEntry(`Curtailed Bottom Bar (Span ${i + 1})`, layout.curtailedBars!, withLegs(length, []), 0));
+    });
+  }
+
+  // Through top bars: end column to end column, anchored at both ends
+  const through = layout.throughTopBars ?? layout.supportTopBars;
+  if (through.count > 0) {
+    const [first, last] = [supports[0], supports[supports.length - 1]].map(
+      supportWidth => getEndAnchorage(supportWidth, cover, through.diameter, ld)
+    );
+    const length = getContinuousBeamLength(layout) - supports[0] - supports[supports.length - 1]
+      + first.straight + last.straight;
+    entries.push(createEntry(THROUGH_TOP_BAR, through, withLegs(length, [first.leg, last.leg]), 2));
+  }
+
+  // Support top bars: over every support, anchored at the end columns
+  const top = layout.supportTopBars;
+  supports.forEach((supportWidth, j) => {
+    const left = j > 0 ? spans[j - 1] : undefined;
+    const right = j <= lastSpan ? spans[j] : undefined;
+
+    if (left !== undefined && right !== undefined) {
+      const extension = Math.max(left, right) / extensionDivisor;
+      entries.push(createEntry(`Support Top Bar (Support ${j + 1})`, top, withLegs(supportWidth + 2 * extension, []), 0));
+      return;
+    }
+
+    const anchorage = getEndAnchorage(supportWidth, cover, top.diameter, ld);
+    const extension = (left ?? right ?? 0) / extensionDivisor;
+    entries.push(createEntry(
+      `Support Top Bar (Support ${j + 1})`,
+      top,
+      withLegs(anchorage.straight + extension, [anchorage.leg]),
+      1
+    ));
+  });
+
+  return entries;
+}
+
+/**
+ * Regenerate a beam's continuous bars from its layout
+ * spanX becomes the overall length. The single-span Top Bar and Bottom Bar entries
+ * are replaced too, so they aren't counted twice, and the through top bars take the
+ * Top Bar's mark; stirrups and other entries are kept.
+ */
+export function applyContinuousBeamLayout(
+  component: ConcreteComponent,
+  ld: DevelopmentLengthContext
+): ConcreteComponent {
+  const layout = component.continuousSpans;
+  if (!layout) return component;
+
+  const replaced = component.bars
+    .filter(bar => isReplacedBarType(bar.barType))
+    .map(bar => (bar.barType === 'Top Bar' ? { ...bar, barType: THROUGH_TOP_BAR } : bar));
+  const keptBars = component.bars.filter(bar => !isReplacedBarType(bar.barType));
+  return withDroppedBarMarks(component, {
+    ...component,
+    spanX: getContinuousBeamLength(layout),
+    bars: [...carryOverBarMarks(replaced, generateContinuousBeamBars(layout, component.cover, ld)), ...keptBars],
+  });
+}
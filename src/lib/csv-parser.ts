@@ -31,6 +31,9 @@ const CSV_HEADERS = [
   'remarks'
 ] as const;
 
+// Extra dimensions of BS 8666 shapes; only written when a bar uses them
+const EXTRA_DIMENSION_HEADERS = ['dimensionE', 'dimensionF'] as const;
+
 /**
  * Parse CSV string to array of BarEntry objects
  * Requirements: 2.3 - Parse CSV string, map columns to BarEntry fields, handle missing optional dimensions
@@ -182,7 +185,8 @@ function validateHeaders(headers: string[]): { valid: boolean; errors: ParseErro
 
   // Check for unknown headers
   for (const header of headers) {
-    if (!CSV_HEADERS.includes(header as any)) {
+    const knownHeaders: readonly string[] = [...CSV_HEADERS, ...EXTRA_DIMENSION_HEADERS];
+    if (!knownHeaders.includes(header)) {
       errors.push({
         row: 1,
         column: header,
@@ -296,11 +300,13 @@ function parseRowToBarEntry(
   const spacing = parseNumber('spacing');
   const quantity = parseNumber('quantity');
 
-  // Parse dimensions (A is required, B, C, D are optional)
+  // Parse dimensions (A is required, B to F are optional)
   const dimensionA = parseNumber('dimensionA');
   const dimensionB = parseNumber('dimensionB', false);
   const dimensionC = parseNumber('dimensionC', false);
   const dimensionD = parseNumber('dimensionD', false);
+  const dimensionE = parseNumber('dimensionE', false);
+  const dimensionF = parseNumber('dimensionF', false);
 
   // Parse optional remarks
   const remarks = getColumnValue('remarks').trim() || undefined;
@@ -320,7 +326,9 @@ function parseRowToBarEntry(
       A: dimensionA!,
       ...(dimensionB !== undefined && { B: dimensionB }),
       ...(dimensionC !== undefined && { C: dimensionC }),
-      ...(dimensionD !== undefined && { D: dimensionD })
+      ...(dimensionD !== undefined && { D: dimensionD }),
+      ...(dimensionE !== undefined && { E: dimensionE }),
+      ...(dimensionF !== undefined && { F: dimensionF })
     },
     spacing: spacing!,
     quantity: quantity!,
@@ -340,7 +348,10 @@ export function exportToCSV(entries: BarEntry[]): string {
   }
 
   // Create header row
-  const headerRow = CSV_HEADERS.join(',');
+  const hasExtraDimensions = entries.some(
+    entry => entry.dimensions.E !== undefined || entry.dimensions.F !== undefined
+  );
+  const headerRow = [...CSV_HEADERS, ...(hasExtraDimensions ? EXTRA_DIMENSION_HEADERS : [])].join(',');
   
   // Create data rows
   const dataRows = entries.map(entry => {
@@ -354,7 +365,10 @@ export function exportToCSV(entries: BarEntry[]): string {
       entry.dimensions.D?.toString() || '',
       entry.spacing.toString(),
       entry.quantity.toString(),
-      entry.remarks || ''
+      entry.remarks || '',
+      ...(hasExtraDimensions
+        ? [entry.dimensions.E?.toString() || '', entry.dimensions.F?.toString() || '']
+        : [])
     ];
     
     // Escape values that contain commas or quotes
@@ -0,0 +1,299 @@
+/**
+ * Cutting-Stock Optimizer
+ * Packs the cut lengths of a schedule into standard stock bars (12 m by default)
+ * per diameter, using Best Fit Decreasing. Each cut loses the saw kerf, and end
+ * offcuts at or above the reusable threshold are kept for later use instead of
+ * being counted as wastage.
+ */
+
+import type { CalculatedBar } from '../types';
+import type { BBSMetadata, ConcreteComponent } from '../types/component-types';
+import { DEFAULT_STANDARD_BAR_LENGTH } from './constants';
+import { calculateUnitWeight } from './component-calculator';
+import { calculateComponentBarEntryEnhanced } from './enhanced-calculator';
+import { getDevelopmentLengthContext } from './development-length';
+import { getSplicePieces } from './lap-splice-planner';
+import { getTiePieceQuantities } from './tie-designer';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A cut length required by the schedule */
+export interface CutRequirement {
+  label: string;                   // Where the bar is used, e.g. "A1 - Bottom Bar (X-X)"
+  diameter: number;                // mm
+  length: number;                  // mm - cutting length
+  quantity: number;
+}
+
+export interface CuttingOptions {
+  stockLength: number;             // mm - length of a stock bar
+  kerf: number;                    // mm - material lost per cut
+  reusableOffcutLength: number;    // mm - offcuts this long or longer are kept
+}
+
+export const DEFAULT_CUTTING_OPTIONS: CuttingOptions = {
+  stockLength: DEFAULT_STANDARD_BAR_LENGTH,
+  kerf: 3,
+  reusableOffcutLength: 1000,
+};
+
+export interface PatternCut {
+  label: string;
+  length: number;                  // mm
+}
+
+/** One way of cutting a stock bar, repeated `count` times */
+export interface CuttingPattern {
+  cuts: PatternCut[];
+  count: number;
+  usedLength: number;              // mm - sum of the cut lengths
+  kerfLoss: number;                // mm
+  offcut: number;                  // mm - length left at the end of the bar
+  reusable: boolean;               // offcut ≥ reusable threshold
+}
+
+export interface DiameterCuttingPlan {
+  diameter: number;
+  patterns: CuttingPattern[];
+  fullLengthBars: number;          // Stock bars used uncut for pieces longer than the stock length
+  stockBars: number;               // Total stock bars, including full-length bars
+  requiredLength: number;          // m - sum of all cut lengths
+  stockLength: number;             // m - stock bars × stock length
+  reusableOffcutLength: number;    // m
+  wastageLength: number;           // m - scrap offcuts and kerf
+  wastagePercent: number;          // wastage / stock length × 100
+  stockWeight: number;             // kg
+}
+
+export interface CuttingPlan {
+  options: CuttingOptions;
+  diameters: DiameterCuttingPlan[];
+  totalStockBars: number;
+  totalStockWeight: number;        // kg
+  totalWastagePercent: number;
+}
+
+// ============================================================================
+// REQUIREMENTS
+// ============================================================================
+
+/**
+ * Cut requirements from manually entered bars (calculateAll results)
+ */
+export function cutRequirementsFromBars(bars: CalculatedBar[]): CutRequirement[] {
+  return bars.map(bar => ({
+    label: `${bar.memberType} ${bar.shapeCode}${bar.remarks ? ` - ${bar.remarks}` : ''}`,
+    diameter: bar.diameter,
+    length: bar.cutLength,
+    quantity: bar.quantity,
+  }));
+}
+
+/**
+ * Cut requirements from component bars. Uses the stored calculation when present,
+ * otherwise calculates the entry with calculateComponentBarEntryEnhanced.
+ * Bars with a lap splice plan contribute their individual pieces.
+ */
+export function cutRequirementsFromComponents(
+  components: ConcreteComponent[],
+  metadata?: BBSMetadata
+): CutRequirement[] {
+  return components.flatMap(component =>
+    component.bars.flatMap(bar => {
+      const calculated = bar.calculated
+        ?? calculateComponentBarEntryEnhanced(bar, component, getDevelopmentLengthContext(metadata));
+      const label = `${component.name} - ${bar.barType}`;
+      const splices = calculated.splices;
+
+      // Designed tie sets: every piece at its own length
+      if (calculated.ties) {
+        return getTiePieceQuantities(calculated).map(({ piece, quantity }) => ({
+          label: `${label} - ${piece.name}`,
+          diameter: bar.diameter,
+          length: piece.cutLength,
+          quantity,
+        }));
+      }
+
+      if (splices && splices.laps > 0) {
+        const endAllowance = calculated.cuttingLength - (splices.barLength + splices.totalLapLength);
+        return getSplicePieces(splices, endAllowance).map(piece => ({
+          label,
+          diameter: bar.diameter,
+          length: piece.length,
+          quantity: piece.quantity,
+        }));
+      }
+
+      return [{
+        label,
+        diameter: bar.diameter,
+        length: calculated.cuttingLength,
+        quantity: calculated.noOfBars,
+      }];
+    })
+  );
+}
+
+// ============================================================================
+// OPTIMIZATION
+// ============================================================================
+
+interface OpenStockBar {
+  cuts: PatternCut[];
+  remaining: number;
+  kerfLoss: number;
+}
+
+const EPSILON = 1e-6;
+
+/**
+ * Best Fit Decreasing: place each piece (longest first) in the open stock bar
+ * that leaves the smallest remainder, opening a new bar when none fits.
+ */
+function packPieces(pieces: PatternCut[], options: CuttingOptions): OpenStockBar[] {
+  const bars: OpenStockBar[] = [];
+  const sorted = [...pieces].sort((a, b) => b.length - a.length);
+
+  sorted.forEach(piece => {
+    let best: OpenStockBar | null = null;
+    for (const bar of bars) {
+      if (bar.remaining + EPSILON < piece.length) continue;
+      if (!best || bar.remaining < best.remaining) best = bar;
+    }
+    if (!best) {
+      best = { cuts: [], remaining: options.stockLength, kerfLoss: 0 };
+      bars.push(best);
+    }
+
+    best.cuts.push(piece);
+    best.remaining -= piece.length;
+    // The saw cut is only needed when material is left after the piece
+    if (best.remaining > EPSILON) {
+      const kerf = Math.min(options.kerf, best.remaining);
+      best.remaining -= kerf;
+      best.kerfLoss += kerf;
+    }
+  });
+
+  return bars;
+}
+
+/**
+ * Merge stock bars that are cut the same way into patterns
+ */
+function groupPatterns(bars: OpenStockBar[], options: CuttingOptions): CuttingPattern[] {
+  const patterns = new Map<string, CuttingPattern>();
+
+  bars.forEach(bar => {
+    const key = bar.cuts.map(cut => `${cut.label}:${cut.length}`).join('|');
+    const existing = patterns.get(key);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+    const offcut = Math.max(0, bar.remaining);
+    patterns.set(key, {
+      cuts: bar.cuts,
+      count: 1,
+      usedLength: bar.cuts.reduce((sum, cut) => sum + cut.length, 0),
+      kerfLoss: bar.kerfLoss,
+      offcut,
+      reusable: offcut > EPSILON && offcut + EPSILON >= options.reusableOffcutLength,
+    });
+  });
+
+  return Array.from(patterns.values()).sort((a, b) => b.count - a.count || a.offcut - b.offcut);
+}
+
+/**
+ * Plan the cutting of one diameter
+ */
+function planDiameter(
+  diameter: number,
+  requirements: CutRequirement[],
+  options: CuttingOptions
+): DiameterCuttingPlan {
+  const pieces: PatternCut[] = [];
+  let fullLengthBars = 0;
+  let requiredLength = 0;
+
+  requirements.forEach(requirement => {
+    const quantity = Math.max(0, Math.round(requirement.quantity));
+    if (requirement.length <= 0 || quantity === 0) return;
+    requiredLength += requirement.length * quantity;
+
+    // Pieces longer than a stock bar are made from full bars plus a remainder (lapped on site)
+    let length = requirement.length;
+    while (length > options.stockLength + EPSILON) {
+      fullLengthBars += quantity;
+      length -= options.stockLength;
+    }
+    for (let i = 0; i < quantity; i++) {
+      pieces.push({ label: requirement.label, length });
+    }
+  });
+
+  const patterns = groupPatterns(packPieces(pieces, options), options);
+  const cutBars = patterns.reduce((sum, pattern) => sum + pattern.count, 0);
+  const stockBars = cutBars + fullLengthBars;
+  const stockLength = stockBars * options.stockLength;
+  const reusableOffcutLength = patterns
+    .filter(pattern => pattern.reusable)
+    .reduce((sum, pattern) => sum + pattern.offcut * pattern.count, 0);
+  const wastageLength = Math.max(0, stockLength - requiredLength - reusableOffcutLength);
+
+  return {
+    diameter,
+    patterns,
+    fullLengthBars,
+    stockBars,
+    requiredLength: requiredLength / 1000,
+    stockLength: stockLength / 1000,
+    reusableOffcutLength: reusableOffcutLength / 1000,
+    wastageLength: wastageLength / 1000,
+    wastagePercent: stockLength > 0 ? (wastageLength / stockLength) * 100 : 0,
+    stockWeight: (stockLength / 1000) * calculateUnitWeight(diameter),
+  };
+}
+
+/**
+ * Build the cutting plan for all diameters of a schedule
+ */
+export function optimizeCutting(
+  requirements: CutRequirement[],
+  options: Partial<CuttingOptions> = {}
+): CuttingPlan {
+  const effectiveOptions: CuttingOptions = { ...DEFAULT_CUTTING_OPTIONS, ...options };
+  if (effectiveOptions.stockLength <= 0) {
+    throw new Error('Stock length must be greater than zero');
+  }
+  if (effectiveOptions.kerf < 0 || effectiveOptions.reusableOffcutLength < 0) {
+    throw new Error('Kerf and reusable offcut length cannot be negative');
+  }
+
+  const byDiameter = new Map<number, CutRequirement[]>();
+  requirements.forEach(requirement => {
+    const group = byDiameter.get(requirement.diameter) ?? [];
+    group.push(requirement);
+    byDiameter.set(requirement.diameter, group);
+  });
+
+  const diameters = Array.from(byDiameter.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([diameter, group]) => planDiameter(diameter, group, effectiveOptions))
+    .filter(plan => plan.stockBars > 0);
+
+  const totalStockLength = diameters.reduce((sum, plan) => sum + plan.stockLength, 0);
+  const totalWastage = diameters.reduce((sum, plan) => sum + plan.wastageLength, 0);
+
+  return {
+    options: effectiveOptions,
+    diameters,
+    totalStockBars: diameters.reduce((sum, plan) => sum + plan.stockBars, 0),
+    totalStockWeight: diameters.reduce((sum, plan) => sum + plan.stockWeight, 0),
+    totalWastagePercent: totalStockLength > 0 ? (totalWastage / totalStockLength) * 100 : 0,
+  };
+}
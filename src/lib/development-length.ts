@@ -0,0 +1,197 @@
+/**
+ * Development Length Calculator
+ * Ld from the design bond stress instead of fixed Ld/φ tables:
+ * - IS 456:2000 clause 26.2.1: Ld = φ σs / (4 τbd)
+ * - BS 8110: anchorage bond length = φ fs / (4 fbu), fbu = β √fcu
+ * Compression and hooked anchorage use the code profile's developmentLengthFactors,
+ * and a per-project override table takes precedence over the calculated values.
+ */
+
+import type { CodeProfile } from '../types';
+import type { BBSMetadata, ConcreteGrade, SteelGrade } from '../types/component-types';
+import { VALID_DIAMETERS } from './constants';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StressType = 'TENSION' | 'COMPRESSION';
+export type BarSurface = 'DEFORMED' | 'PLAIN';
+export type DesignCode = 'IS456' | 'BS8110';
+
+export interface DevelopmentLengthOptions {
+  stressType?: StressType;         // Default TENSION
+  surface?: BarSurface;            // Default DEFORMED
+  hooked?: boolean;                // Bar ends in a standard hook or bend
+  bundledBars?: number;            // Bars in contact in a bundle (1-4)
+}
+
+/** Project inputs that decide Ld for every bar */
+export interface DevelopmentLengthContext {
+  concreteGrade: ConcreteGrade;
+  steelGrade: SteelGrade;
+  profile?: CodeProfile | null;
+  overrides?: Record<number, number>;  // mm per diameter, wins over the calculation
+}
+
+export interface DevelopmentLengthResult {
+  code: DesignCode;
+  designStress: number;            // N/mm² - σs (IS) or fs (BS)
+  bondStress: number;              // N/mm² - τbd (IS) or fbu (BS)
+  factor: number;                  // Profile factor for stress type / anchorage
+  length: number;                  // mm, rounded up
+}
+
+// ============================================================================
+// CODE DATA
+// ============================================================================
+
+// IS 456 clause 26.2.1.1: design bond stress for plain bars in tension (N/mm²)
+const IS_BOND_STRESS_PLAIN: Record<ConcreteGrade, number> = {
+  M20: 1.2,
+  M25: 1.4,
+  M30: 1.5,
+  M35: 1.7,
+  M40: 1.9,
+};
+
+// Deformed bars (IS 1786) get 60% more bond stress
+const IS_DEFORMED_BOND_FACTOR = 1.6;
+
+// IS 456 clause 26.2.1.2: Ld of each bar in a bundle is increased by 10/20/33%
+const IS_BUNDLE_FACTORS: Record<number, number> = { 1: 1, 2: 1.1, 3: 1.2, 4: 1.33 };
+
+// BS 8110 bond coefficient β for tension (deformed type 2 / plain bars)
+const BS_BOND_COEFFICIENT: Record<BarSurface, number> = {
+  DEFORMED: 0.5,
+  PLAIN: 0.28,
+};
+
+const PARTIAL_SAFETY_FACTOR_STEEL = 0.87;
+
+// Factors used when the profile has none (IS 456 values)
+const DEFAULT_FACTORS = { straight: 1.0, hooked: 0.7, compression: 0.8 };
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Design code of a profile; custom profiles follow IS 456
+ */
+export function getDesignCode(profile?: CodeProfile | null): DesignCode {
+  if (!profile) return 'IS456';
+  return profile.id === 'BS8110' || /8110/.test(profile.standard) ? 'BS8110' : 'IS456';
+}
+
+/**
+ * Characteristic strength from a grade name ("Fe500" → 500, "M30" → 30)
+ */
+function gradeStrength(grade: string): number {
+  return parseInt(grade.replace(/^\D+/, ''), 10);
+}
+
+/**
+ * Development length of one bar from the bond stress of the concrete
+ */
+export function calculateDevelopmentLength(
+  diameter: number,
+  concreteGrade: ConcreteGrade,
+  steelGrade: SteelGrade,
+  profile?: CodeProfile | null,
+  options: DevelopmentLengthOptions = {}
+): DevelopmentLengthResult {
+  const { stressType = 'TENSION', surface = 'DEFORMED', hooked = false } = options;
+  const bundledBars = Math.min(4, Math.max(1, Math.round(options.bundledBars ?? 1)));
+  const code = getDesignCode(profile);
+  const designStress = PARTIAL_SAFETY_FACTOR_STEEL * gradeStrength(steelGrade);
+
+  let bondStress: number;
+  let effectiveDiameter = diameter;
+  let bundleFactor = 1;
+  if (code === 'BS8110') {
+    bondStress = BS_BOND_COEFFICIENT[surface] * Math.sqrt(gradeStrength(concreteGrade));
+    // A bundle is treated as a single bar of equivalent area
+    effectiveDiameter = diameter * Math.sqrt(bundledBars);
+  } else {
+    bondStress = IS_BOND_STRESS_PLAIN[concreteGrade] * (surface === 'DEFORMED' ? IS_DEFORMED_BOND_FACTOR : 1);
+    bundleFactor = IS_BUNDLE_FACTORS[bundledBars];
+  }
+
+  // IS 456 raises τbd by 25% in compression, i.e. Ld × 0.8 - the profile factor carries this
+  const factors = profile?.developmentLengthFactors ?? DEFAULT_FACTORS;
+  const factor = stressType === 'COMPRESSION'
+    ? factors.compression
+    : hooked ? factors.hooked : factors.straight;
+
+  const tensionLength = (effectiveDiameter * designStress) / (4 * bondStress);
+
+  return {
+    code,
+    designStress,
+    bondStress,
+    factor,
+    length: Math.ceil(tensionLength * bundleFactor * factor),
+  };
+}
+
+/**
+ * Ld for a diameter in a project: the override table first, then the calculation
+ */
+export function resolveDevelopmentLength(
+  diameter: number,
+  context: DevelopmentLengthContext,
+  options: DevelopmentLengthOptions = {}
+): number {
+  const override = context.overrides?.[diameter];
+  if (override !== undefined && override > 0) return override;
+  return calculateDevelopmentLength(
+    diameter,
+    context.concreteGrade,
+    context.steelGrade,
+    context.profile,
+    options
+  ).length;
+}
+
+/**
+ * Ld per standard diameter for display and export
+ */
+export function getDevelopmentLengthTable(
+  context: DevelopmentLengthContext,
+  diameters: readonly number[] = VALID_DIAMETERS
+): Record<number, number> {
+  const table: Record<number, number> = {};
+  diameters.forEach(diameter => {
+    table[diameter] = resolveDevelopmentLength(diameter, context);
+  });
+  return table;
+}
+
+/**
+ * Move a legacy `developmentLengths` table (older imports) into the overrides,
+ * keeping any override already set for a diameter
+ */
+export function migrateDevelopmentLengths(metadata: BBSMetadata): BBSMetadata {
+  if (!metadata.developmentLengths) return metadata;
+  const { developmentLengths, ...rest } = metadata;
+  return {
+    ...rest,
+    developmentLengthOverrides: { ...(developmentLengths as Record<number, number>), ...metadata.developmentLengthOverrides },
+  };
+}
+
+/**
+ * Development length context from the BBS metadata and the active code profile
+ */
+export function getDevelopmentLengthContext(
+  metadata?: Pick<BBSMetadata, 'concreteGrade' | 'steelGrade' | 'developmentLengthOverrides'>,
+  profile?: CodeProfile | null
+): DevelopmentLengthContext {
+  return {
+    concreteGrade: metadata?.concreteGrade || 'M30',
+    steelGrade: metadata?.steelGrade || 'Fe500',
+    profile,
+    overrides: metadata?.developmentLengthOverrides,
+  };
+}
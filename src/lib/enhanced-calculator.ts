@@ -10,14 +10,43 @@ import type {
   CalculatedBarResult, 
   BarMeasurements,
   ConcreteGrade,
-  BarDirection
+  BarDirection,
+  StirrupZone
 } from '../types/component-types';
 
 import { 
-  DEVELOPMENT_LENGTH_TABLES, 
   WEIGHT_PER_METER
   // COMPONENT_COVERS // Unused
 } from './constants';
+import { resolveDevelopmentLength, type DevelopmentLengthContext } from './development-length';
+import { DEFAULT_LAP_SPLICE_RULES, getSpliceLapLength } from './lap-splice-planner';
+import { applyTieDesign, getTieHookLength, isTieBarType } from './tie-designer';
+import { calculateComponentBarEntry, type ComponentCalculationSettings } from './component-calculator';
+import { calculateZoneCounts, getZoneMemberLength } from './stirrup-zones';
+import {
+  calculatePileBarCount,
+  calculatePileBarMeasurements,
+  getPileBarDeductions,
+  isPileFooting
+} from './pile-calculator';
+import {
+  calculateFootingGeometryCount,
+  calculateFootingGeometryMeasurements,
+  getFootingGeometryDeductions,
+  hasFootingGeometry
+} from './footing-calculator';
+import {
+  calculateStaircaseBarCount,
+  calculateStaircaseBarMeasurements,
+  getStaircaseBarDeductions,
+  isStaircase
+} from './staircase-calculator';
+import {
+  calculateWallBarCount,
+  calculateWallBarMeasurements,
+  getWallBarDeductions
+} from './wall-calculator';
+import { getInterruptedBarCount } from './slab-openings';
 
 // Import bar type sets
 import {
@@ -83,9 +112,11 @@ export function calculateBarMeasurementsAuto(
   direction: BarDirection,
   component: ConcreteComponent,
   diameter: number,
-  concreteGrade: ConcreteGrade = 'M30',
-  section_span_override?: number // 🆕 Added optional override
+  developmentLength: ConcreteGrade | DevelopmentLengthContext = 'M30', // Grade alone uses Fe500 and IS 456
+  section_span_override?: number, // 🆕 Added optional override
+  spacing?: number // Link pitch for pile footings
 ): BarMeasurements {
+  const ld = toDevelopmentLengthContext(developmentLength);
   
   // Normalize bar type to remove location-specific suffixes
   const normalizedBarType = normalizeBarType(barType);
@@ -125,24 +156,34 @@ export function calculateBarMeasurementsAuto(
   // Fallback to existing hardcoded logic
   // SLAB calculations
   if (component.componentType === 'SLAB') {
-    const result = calculateSlabBarMeasurements(normalizedBarType, direction, component, diameter, concreteGrade, section_span_override);
+    const result = calculateSlabBarMeasurements(normalizedBarType, direction, component, diameter, ld, section_span_override);
     console.log('✅ Slab calculation result:', result);
     return result;
   }
   
   // BEAM calculations
   if (component.componentType === 'BEAM') {
-    return calculateBeamBarMeasurements(normalizedBarType, component, diameter, concreteGrade);
+    return calculateBeamBarMeasurements(normalizedBarType, component, diameter, ld);
   }
   
   // COLUMN calculations
   if (component.componentType === 'COLUMN') {
-    return calculateColumnBarMeasurements(normalizedBarType, component, diameter, concreteGrade);
+    return calculateColumnBarMeasurements(normalizedBarType, component, diameter, ld);
   }
   
   // FOOTING calculations
   if (component.componentType === 'FOOTING') {
-    return calculateFootingBarMeasurements(normalizedBarType, direction, component, diameter, concreteGrade);
+    return calculateFootingBarMeasurements(normalizedBarType, direction, component, diameter, ld, spacing);
+  }
+  
+  // STAIRCASE calculations
+  if (isStaircase(component)) {
+    return calculateStaircaseBarMeasurements(normalizedBarType, component, diameter, ld) ?? { a: 0 };
+  }
+  
+  // WALL calculations
+  if (component.componentType === 'WALL') {
+    return calculateWallBarMeasurements(normalizedBarType, component, diameter, ld) ?? { a: 0 };
   }
   
   // Fallback for unknown types
@@ -158,7 +199,7 @@ function calculateSlabBarMeasurements(
   direction: BarDirection,
   component: ConcreteComponent,
   diameter: number,
-  concreteGrade: ConcreteGrade,
+  ld: DevelopmentLengthContext,
   section_span_override?: number
 ): BarMeasurements {
   
@@ -171,7 +212,7 @@ function calculateSlabBarMeasurements(
   
   // Full Span types (6 types) - Simple pattern
   if (FULL_SPAN_TYPES.has(barType)) {
-    return calculateBottomBarFullSpan(direction, component, diameter, concreteGrade, section_span_override);
+    return calculateBottomBarFullSpan(direction, component, diameter, ld, section_span_override);
   }
   
   // Distribution types (61 types) - Perpendicular pattern
@@ -181,7 +222,7 @@ function calculateSlabBarMeasurements(
   
   // Combined types (7 types) - Bottom & Top pattern
   if (COMBINED_TYPES.has(barType)) {
-    return calculateCombinedBar(direction, component, diameter, concreteGrade);
+    return calculateCombinedBar(direction, component, diameter, ld);
   }
   
   // U-Bar types (136 types) - Default pattern with extensions
@@ -208,12 +249,12 @@ function calculateSlabBarMeasurements(
   
   // Bottom Bar (X-X) Full Span - Straight bar full length
   if (normalizedType === 'bottom bar (x-x) full span') {
-    return calculateBottomBarFullSpan(direction, component, diameter, concreteGrade);
+    return calculateBottomBarFullSpan(direction, component, diameter, ld);
   }
   
   // Bottom Bar (Y-Y) Full Span - Straight bar full length
   if (normalizedType === 'bottom bar (y-y) full span') {
-    return calculateBottomBarFullSpan(direction, component, diameter, concreteGrade);
+    return calculateBottomBarFullSpan(direction, component, diameter, ld);
   }
   
   // ============================================================================
@@ -246,12 +287,12 @@ function calculateSlabBarMeasurements(
   
   // Top Bar (X-X) Full Span - Full span top reinforcement
   if (normalizedType === 'top bar (x-x) full span') {
-    return calculateTopBarFullSpan(direction, component, diameter, concreteGrade);
+    return calculateTopBarFullSpan(direction, component, diameter, ld);
   }
   
   // Top Bar (Y-Y) Full Span - Full span top reinforcement
   if (normalizedType === 'top bar (y-y) full span') {
-    return calculateTopBarFullSpan(direction, component, diameter, concreteGrade);
+    return calculateTopBarFullSpan(direction, component, diameter, ld);
   }
   
   // Top Main Bar (X-X) - Alternative naming for top bars
@@ -294,22 +335,22 @@ function calculateSlabBarMeasurements(
   
   // Bottom & Top Bar (X-X) - Continuous bar serving both functions
   if (normalizedType === 'bottom & top bar (x-x)') {
-    return calculateCombinedBar(direction, component, diameter, concreteGrade);
+    return calculateCombinedBar(direction, component, diameter, ld);
   }
   
   // Bottom & Top Bar (Y-Y) - Continuous bar serving both functions
   if (normalizedType === 'bottom & top bar (y-y)') {
-    return calculateCombinedBar(direction, component, diameter, concreteGrade);
+    return calculateCombinedBar(direction, component, diameter, ld);
   }
   
   // Top & Bottom Bar (X-X) - Alternative naming for combined bars
   if (normalizedType === 'top & bottom bar (x-x)') {
-    return calculateCombinedBar(direction, component, diameter, concreteGrade);
+    return calculateCombinedBar(direction, component, diameter, ld);
   }
   
   // Top & Bottom Bar (Y-Y) - Alternative naming for combined bars
   if (normalizedType === 'top & bottom bar (y-y)') {
-    return calculateCombinedBar(direction, component, diameter, concreteGrade);
+    return calculateCombinedBar(direction, component, diameter, ld);
   }
   
   // ============================================================================
@@ -323,7 +364,7 @@ function calculateSlabBarMeasurements(
   
   // Extra Bottom - Additional bottom reinforcement
   if (normalizedType === 'extra bottom') {
-    return calculateExtraBottomBar(component, diameter, concreteGrade);
+    return calculateExtraBottomBar(component, diameter, ld);
   }
   
   // Chair Bar - Support bars for top reinforcement
@@ -345,10 +386,10 @@ export function _calculateBottomBarCurtailed(
   direction: BarDirection,
   component: ConcreteComponent,
   diameter: number,
-  concreteGrade: ConcreteGrade
+  ld: DevelopmentLengthContext
 ): BarMeasurements {
   const span = direction === 'X' ? component.spanX : component.spanY;
-  const developmentLength = getDevelopmentLength(diameter, concreteGrade);
+  const developmentLength = getDevelopmentLength(diameter, ld);
   
   if (!component.beamWidths) {
     // Simple case: Span + 2×Ld (no beam deduction)
@@ -375,13 +416,13 @@ export function calculateTopBarFullSpan(
   direction: BarDirection,
   component: ConcreteComponent,
   diameter: number,
-  concreteGrade: ConcreteGrade
+  ld: DevelopmentLengthContext
 ): BarMeasurements {
   // Use same logic as Bottom Bar Full Span (which now handles override implicitly via span check if we passed it... wait, calculateTopBarFullSpan needs the override too!)
   // Since calculateTopBarFullSpan isn't called with the override in the legacy path (it's handled by FULL_SPAN_TYPES check in calculateSlabBarMeasurements), 
   // we might not need to change this function signature IF it's only called from calculateSlabBarMeasurements via the legacy path.
   // BUT to be safe, let's update it too.
-  return calculateBottomBarFullSpan(direction, component, diameter, concreteGrade);
+  return calculateBottomBarFullSpan(direction, component, diameter, ld);
 }
 
 /**
@@ -405,7 +446,7 @@ function calculateBottomBarFullSpan(
   direction: BarDirection,
   component: ConcreteComponent,
   _diameter: number, // Currently unused but kept for API consistency
-  _concreteGrade: ConcreteGrade, // Currently unused but kept for API consistency
+  _ld: DevelopmentLengthContext, // Currently unused but kept for API consistency
   section_span_override?: number
 ): BarMeasurements {
   // Use override if provided, otherwise standard span
@@ -557,7 +598,7 @@ function calculateCombinedBar(
   direction: BarDirection,
   component: ConcreteComponent,
   diameter: number,
-  _concreteGrade: ConcreteGrade // Prefix with _ to indicate intentionally unused
+  _ld: DevelopmentLengthContext // Prefix with _ to indicate intentionally unused
 ): BarMeasurements {
   // Use top bar calculation as it's more comprehensive
   return calculateTopBarWithExtensions(direction, component, diameter);
@@ -580,9 +621,9 @@ export function calculateExtraTopBar(
 export function calculateExtraBottomBar(
   _component: ConcreteComponent, // Prefix with _ to indicate intentionally unused
   diameter: number,
-  concreteGrade: ConcreteGrade
+  ld: DevelopmentLengthContext
 ): BarMeasurements {
-  const developmentLength = getDevelopmentLength(diameter, concreteGrade);
+  const developmentLength = getDevelopmentLength(diameter, ld);
   return { a: developmentLength * 2 }; // Both ends
 }
 
@@ -613,14 +654,14 @@ function calculateBeamBarMeasurements(
   barType: string,
   component: ConcreteComponent,
   diameter: number,
-  concreteGrade: ConcreteGrade
+  ld: DevelopmentLengthContext
 ): BarMeasurements {
   
   const span = component.spanX; // Beam span
   const width = component.spanY || 300; // Beam width
   const depth = component.depth || 450; // Beam depth
   const cover = component.cover;
-  const developmentLength = getDevelopmentLength(diameter, concreteGrade);
+  const developmentLength = getDevelopmentLength(diameter, ld);
   
   // Normalize bar type for exact matching
   const normalizedType = barType.toLowerCase();
@@ -631,12 +672,12 @@ function calculateBeamBarMeasurements(
   
   // Top Bar - Top reinforcement in beams
   if (normalizedType === 'top bar') {
-    return calculateBeamTopBar(span, diameter, concreteGrade);
+    return calculateBeamTopBar(span, diameter, ld);
   }
   
   // Bottom Bar - Bottom reinforcement in beams
   if (normalizedType === 'bottom bar') {
-    return calculateBeamBottomBar(span, diameter, concreteGrade);
+    return calculateBeamBottomBar(span, diameter, ld);
   }
   
   // Side Face Bar - Side reinforcement for deep beams
@@ -661,9 +702,9 @@ function calculateBeamBarMeasurements(
 function calculateBeamTopBar(
   span: number,
   diameter: number,
-  concreteGrade: ConcreteGrade
+  ld: DevelopmentLengthContext
 ): BarMeasurements {
-  const developmentLength = getDevelopmentLength(diameter, concreteGrade);
+  const developmentLength = getDevelopmentLength(diameter, ld);
   // Top bars typically 30% of span from supports + anchorage
   const supportLength = 0.3 * span;
   const anchorage = Math.max(12 * diameter, developmentLength);
@@ -674,9 +715,9 @@ function calculateBeamTopBar(
 function calculateBeamBottomBar(
   span: number,
   diameter: number,
-  concreteGrade: ConcreteGrade
+  ld: DevelopmentLengthContext
 ): BarMeasurements {
-  const developmentLength = getDevelopmentLength(diameter, concreteGrade);
+  const developmentLength = getDevelopmentLength(diameter, ld);
   return { a: span + (2 * developmentLength) };
 }
 
@@ -694,11 +735,11 @@ function calculateBeamStirrup(
   cover: number,
   diameter: number
 ): BarMeasurements {
-  const hookLength = 10 * diameter;
+  const hookLength = getTieHookLength(135, diameter);
   const innerWidth = width - (2 * cover);
   const innerDepth = depth - (2 * cover);
   
-  // Stirrup perimeter: 2(W-2C) + 2(D-2C) + 2×Hook
+  // Stirrup perimeter: 2(W-2C) + 2(D-2C) + 2×Hook (135° seismic hooks; other layouts via tie-designer)
   const perimeter = 2 * innerWidth + 2 * innerDepth + 2 * hookLength;
   
   return { a: perimeter };
@@ -712,7 +753,7 @@ function calculateColumnBarMeasurements(
   barType: string,
   component: ConcreteComponent,
   diameter: number,
-  concreteGrade: ConcreteGrade
+  ld: DevelopmentLengthContext
 ): BarMeasurements {
   
   const width = component.spanX; // Column width
@@ -729,7 +770,7 @@ function calculateColumnBarMeasurements(
   
   // Main Bar - Vertical reinforcement in columns
   if (normalizedType === 'main bar') {
-    return calculateColumnMainBar(height, diameter, concreteGrade);
+    return calculateColumnMainBar(height, diameter, ld);
   }
   
   // Tie - Lateral ties for column reinforcement
@@ -749,9 +790,9 @@ function calculateColumnBarMeasurements(
 function calculateColumnMainBar(
   height: number,
   diameter: number,
-  concreteGrade: ConcreteGrade
+  ld: DevelopmentLengthContext
 ): BarMeasurements {
-  const lapLength = getLapLength(diameter, concreteGrade);
+  const lapLength = getLapLength(diameter, ld);
   // Column height + lap lengths at top and bottom
   return { a: height + (2 * lapLength) };
 }
@@ -762,11 +803,11 @@ function calculateColumnTie(
   cover: number,
   diameter: number
 ): BarMeasurements {
-  const hookLength = 10 * diameter;
+  const hookLength = getTieHookLength(135, diameter);
   const innerWidth = width - (2 * cover);
   const innerDepth = depth - (2 * cover);
   
-  // Tie perimeter: 2(W-2C) + 2(D-2C) + 2×Hook
+  // Tie perimeter: 2(W-2C) + 2(D-2C) + 2×Hook (135° seismic hooks; other layouts via tie-designer)
   const perimeter = 2 * innerWidth + 2 * innerDepth + 2 * hookLength;
   
   return { a: perimeter };
@@ -781,14 +822,27 @@ function calculateFootingBarMeasurements(
   direction: BarDirection,
   component: ConcreteComponent,
   diameter: number,
-  concreteGrade: ConcreteGrade
+  ld: DevelopmentLengthContext,
+  spacing: number = 0
 ): BarMeasurements {
   
+  // Pile footings: piles and pile cap
+  if (isPileFooting(component)) {
+    const pileMeasurements = calculatePileBarMeasurements(barType, component, diameter, spacing, ld);
+    if (pileMeasurements) return pileMeasurements;
+  }
+  
+  // Combined, stepped and sloped footings
+  if (hasFootingGeometry(component)) {
+    const geometryMeasurements = calculateFootingGeometryMeasurements(barType, component, diameter, ld);
+    if (geometryMeasurements) return geometryMeasurements;
+  }
+  
   const length = component.spanX; // Footing length
   const width = component.spanY; // Footing width
   // const depth = component.depth || 500; // Footing depth // Unused
   // const cover = component.cover; // Unused
-  const developmentLength = getDevelopmentLength(diameter, concreteGrade);
+  const developmentLength = getDevelopmentLength(diameter, ld);
   
   const span = direction === 'X' ? length : width;
   
@@ -1047,6 +1101,7 @@ function getMinSpacing(diameter: number): number {
 
 /**
  * Calculate bars per member based on Excel BBS formulas for ALL bar types
+ * Slab bars cut by an opening are left out; their pieces are separate entries.
  */
 export function calculateBarsPerMember(
   barType: string,
@@ -1054,7 +1109,21 @@ export function calculateBarsPerMember(
   component: ConcreteComponent,
   spacing: number,
   section_span_1?: number, // Bar Length override
-  section_span_2?: number  // Distribution override
+  section_span_2?: number, // Distribution override
+  spacingZones?: StirrupZone[] // Zone-wise stirrup/tie spacing
+): number {
+  const count = countBarsPerMember(barType, direction, component, spacing, section_span_1, section_span_2, spacingZones);
+  return Math.max(0, count - getInterruptedBarCount(barType, direction, component, spacing));
+}
+
+function countBarsPerMember(
+  barType: string,
+  direction: BarDirection,
+  component: ConcreteComponent,
+  spacing: number,
+  section_span_1?: number,
+  section_span_2?: number,
+  spacingZones?: StirrupZone[]
 ): number {
   const normalizedType = barType.toLowerCase();
   
@@ -1269,6 +1338,9 @@ export function calculateBarsPerMember(
   
   // Stirrups: Along beam length
   if (normalizedType === 'stirrups') {
+    if (spacingZones?.length) {
+      return calculateZoneCounts(getZoneMemberLength(component), spacingZones).total;
+    }
     return Math.ceil(component.spanX / spacing); // Along beam length
   }
   
@@ -1289,19 +1361,29 @@ export function calculateBarsPerMember(
   }
   
   // Tie: Lateral ties along column height
-  if (normalizedType === 'tie') {
+  if (normalizedType === 'tie' || normalizedType === 'master tie') {
+    if (spacingZones?.length) {
+      return calculateZoneCounts(getZoneMemberLength(component), spacingZones).total;
+    }
     return Math.ceil((component.depth || 3000) / spacing); // Along column height
   }
   
-  // Master Tie: Main lateral reinforcement
-  if (normalizedType === 'master tie') {
-    return Math.ceil((component.depth || 3000) / spacing);
-  }
-  
   // ============================================================================
   // FOOTING BAR TYPES
   // ============================================================================
   
+  // Pile footings: piles and pile cap, counted for every pile
+  if (isPileFooting(component)) {
+    const pileCount = calculatePileBarCount(barType, component, spacing);
+    if (pileCount !== undefined) return pileCount;
+  }
+  
+  // Combined, stepped and sloped footings
+  if (hasFootingGeometry(component)) {
+    const geometryCount = calculateFootingGeometryCount(barType, component, spacing);
+    if (geometryCount !== undefined) return geometryCount;
+  }
+  
   // Bottom Main (L): Main reinforcement in length direction
   if (normalizedType === 'bottom main (l)') {
     return Math.ceil(component.spanY / spacing); // Across width
@@ -1329,6 +1411,26 @@ export function calculateBarsPerMember(
     return Math.max(4, Math.ceil(columnArea / 10000)); // 1 bar per 100cm²
   }
   
+  // ============================================================================
+  // STAIRCASE BAR TYPES
+  // ============================================================================
+  
+  // Waist and landing bars, counted for every flight
+  if (isStaircase(component)) {
+    const staircaseCount = calculateStaircaseBarCount(barType, component, spacing);
+    if (staircaseCount !== undefined) return staircaseCount;
+  }
+  
+  // ============================================================================
+  // WALL BAR TYPES
+  // ============================================================================
+  
+  // Shear wall curtains and boundary elements, retaining wall stem and base
+  if (component.componentType === 'WALL') {
+    const wallCount = calculateWallBarCount(barType, component, spacing);
+    if (wallCount !== undefined) return wallCount;
+  }
+  
   // ============================================================================
   // DEFAULT FALLBACK
   // ============================================================================
@@ -1377,15 +1479,45 @@ export function calculateCutLengthByBarType(
 // HELPER FUNCTIONS
 // ============================================================================
 
-function getDevelopmentLength(diameter: number, concreteGrade: ConcreteGrade): number {
-  const table = DEVELOPMENT_LENGTH_TABLES[concreteGrade] as Record<number, number>;
-  return table[diameter] || (50 * diameter); // Fallback to 50D
+function toDevelopmentLengthContext(basis: ConcreteGrade | DevelopmentLengthContext): DevelopmentLengthContext {
+  return typeof basis === 'string' ? { concreteGrade: basis, steelGrade: 'Fe500' } : basis;
 }
 
-function getLapLength(diameter: number, concreteGrade: ConcreteGrade): number {
-  // Lap length is typically 1.3 × Development length for tension
-  const developmentLength = getDevelopmentLength(diameter, concreteGrade);
-  return Math.ceil(1.3 * developmentLength);
+function getDevelopmentLength(diameter: number, ld: DevelopmentLengthContext): number {
+  // Project override first, otherwise tension Ld from bond stress (IS 456 26.2.1 / BS 8110)
+  return resolveDevelopmentLength(diameter, ld);
+}
+
+function getLapLength(diameter: number, ld: DevelopmentLengthContext): number {
+  // Lap per the profile's splice rules: max(lapFactor × Ld, minimum φ, minimum length).
+  // This replaced the fixed 1.3 × Ld lap; IS 456 26.2.5.1(c) sets lapFactor 1.0, so column
+  // starter laps are shorter than before unless the profile raises lapFactor.
+  const rules = ld.profile?.lapSplice ?? DEFAULT_LAP_SPLICE_RULES;
+  return getSpliceLapLength(diameter, getDevelopmentLength(diameter, ld), rules);
+}
+
+/**
+ * Pile, combined, stepped and sloped footings, staircases and walls measure their bars from their geometry
+ */
+export function hasCalculatedBars(component: ConcreteComponent): boolean {
+  return isPileFooting(component) || hasFootingGeometry(component) || isStaircase(component) ||
+    component.componentType === 'WALL';
+}
+
+/**
+ * Bends of a pile, shaped footing, staircase or wall bar, or undefined for the standard rules
+ */
+export function getGeometryDeductions(
+  barType: string,
+  component: ConcreteComponent,
+  measurements: BarMeasurements,
+  diameter: number
+): number | undefined {
+  if (isPileFooting(component)) return getPileBarDeductions(barType, component, measurements, diameter);
+  if (hasFootingGeometry(component)) return getFootingGeometryDeductions(barType, component);
+  if (isStaircase(component)) return getStaircaseBarDeductions(barType);
+  if (component.componentType === 'WALL') return getWallBarDeductions(barType, component);
+  return undefined;
 }
 
 /**
@@ -1394,8 +1526,9 @@ function getLapLength(diameter: number, concreteGrade: ConcreteGrade): number {
 export function calculateComponentBarEntryEnhanced(
   entry: ComponentBarEntry,
   component: ConcreteComponent,
-  concreteGrade: ConcreteGrade = 'M30'
+  developmentLength: ConcreteGrade | DevelopmentLengthContext = 'M30'
 ): CalculatedBarResult {
+  const ld = toDevelopmentLengthContext(developmentLength);
   
   // 1. Auto-calculate measurements if not provided or incomplete
   let measurements = entry.measurements;
@@ -1405,7 +1538,9 @@ export function calculateComponentBarEntryEnhanced(
       entry.direction,
       component,
       entry.diameter,
-      concreteGrade
+      ld,
+      undefined,
+      entry.spacing
     );
   }
   
@@ -1423,7 +1558,8 @@ export function calculateComponentBarEntryEnhanced(
   
   // 4. Auto-calculate deductions
   const noOfDeductions = entry.manualNoOfDeductions || 
-    calculateAutoDeductions(entry.barType, measurements, component.componentType);
+    (getGeometryDeductions(entry.barType, component, measurements, entry.diameter) ??
+      calculateAutoDeductions(entry.barType, measurements, component.componentType));
   
   const deductionAmount = noOfDeductions * 2 * entry.diameter; // 2D per bend
   
@@ -1439,7 +1575,10 @@ export function calculateComponentBarEntryEnhanced(
       entry.barType,
       entry.direction,
       component,
-      entry.spacing
+      entry.spacing,
+      undefined,
+      undefined,
+      entry.spacingZones
     );
     
     const totalMembers = entry.totalMembers || 1;
@@ -1451,7 +1590,8 @@ export function calculateComponentBarEntryEnhanced(
   const unitWeight = WEIGHT_PER_METER[entry.diameter] || ((entry.diameter * entry.diameter) / 162);
   const totalWeight = totalLength * unitWeight;
   
-  return {
+  // 8. Designed stirrups/ties: every piece of each set counts toward the totals
+  return applyTieDesign(entry, component, {
     totalMeasurement,
     noOfDeductions,
     deductionAmount,
@@ -1460,7 +1600,48 @@ export function calculateComponentBarEntryEnhanced(
     totalLength,
     unitWeight,
     totalWeight
-  };
+  });
+}
+
+/**
+ * Component bar entry as the BBS sheet calculates it: the Excel quantity, lap and
+ * cut length rules, with the counts of the enhanced calculator for zoned
+ * stirrups/ties, slab bars cut by openings and geometry-measured members
+ */
+export function calculateComponentSheetEntry(
+  entry: ComponentBarEntry,
+  component: ConcreteComponent,
+  settings: ComponentCalculationSettings
+): CalculatedBarResult {
+  // Bars along X are spaced along span Y and vice versa
+  const componentSpan = entry.direction === 'X' ? component.spanY : component.spanX;
+
+  // Slab bars through an opening: the cut bars are counted as pieces instead
+  const interrupted = entry.totalMembers === undefined
+    ? getInterruptedBarCount(entry.barType, entry.direction, component, entry.spacing)
+    : 0;
+
+  // Zoned stirrups/ties, pile, shaped footing and staircase bars: count and bend as the enhanced calculator does
+  const countedEntry = interrupted > 0
+    ? { ...entry, totalMembers: Math.max(0, Math.ceil(componentSpan / entry.spacing) - interrupted) }
+    : entry.totalMembers === undefined &&
+      ((entry.spacingZones?.length && isTieBarType(entry.barType)) || hasCalculatedBars(component))
+      ? {
+          ...entry,
+          totalMembers: calculateBarsPerMember(entry.barType, entry.direction, component, entry.spacing, undefined, undefined, entry.spacingZones),
+          manualNoOfDeductions: entry.manualNoOfDeductions ??
+            getGeometryDeductions(entry.barType, component, entry.measurements, entry.diameter)
+        }
+      : entry;
+
+  return applyTieDesign(entry, component, calculateComponentBarEntry(
+    countedEntry,
+    componentSpan,
+    component.cover,
+    settings,
+    component.componentType === 'SLAB',
+    component.componentType
+  ));
 }
 
 // Helper function for U-bar calculation (Excel BBS format: a+2b+2c+2d+e+f, excluding lap)
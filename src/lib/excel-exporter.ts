@@ -8,7 +8,23 @@ import type {
   ShapeSummary, 
   MemberSummary 
 } from '../types';
+import type { BBSMetadata, ConcreteComponent, ComponentBarEntry } from '../types/component-types';
 import { SHAPE_DEFINITIONS } from './constants';
+import {
+  calculateLap,
+  getComponentCalculationSettings,
+  usesCeilingCutLength,
+  type ComponentCalculationSettings
+} from './component-calculator';
+import { getProfileById } from './code-profiles';
+import { calculateComponentSheetEntry } from './enhanced-calculator';
+import { getTiePieceQuantities } from './tie-designer';
+import { getCanonicalNamedFormulas } from './formula-calculator';
+import { fromNamedFormula } from './formula-bindings';
+import { createSheetEvaluator, indexToColumn, type FormulaSheet } from './excel-formula';
+import type { CuttingPlan } from './cutting-optimizer';
+import type { RevisionDiff, RevisionField } from './project-revisions';
+import type { BarMarkSchedule } from './bar-marks';
 
 export interface ExportSummaries {
   diameter: DiameterSummary[];
@@ -16,6 +32,35 @@ export interface ExportSummaries {
   member: MemberSummary[];
 }
 
+// ============================================================================
+// COMPONENT BBS LAYOUT (reference: Sample Slab BBS.xlsx)
+// ============================================================================
+
+// Ld reference table in the header: dia in F2:L2, Ld in F3:L3
+const LD_TABLE_DIAMETERS = [8, 10, 12, 16, 20, 25, 32];
+const LD_TABLE_COLUMNS = ['F', 'G', 'H', 'I', 'J', 'K', 'L'];
+
+const COMPONENT_TABLE_HEADERS = [
+  'S.No', 'Bar Type', 'Span (X)', 'Span (Y)', 'Spacing (MM)', 'Dia. (MM)',
+  'No. of bars Reqd \n per member', 'Total no. of members Reqd', 'Total nos.'
+];
+const MEASUREMENT_HEADERS = ['a', 'b', 'c', 'd', 'e', 'f', 'Lap', 'Total', 'No of Bends', 'Deduction'];
+const MEASUREMENT_COLUMNS = { a: 'J', b: 'K', c: 'L', d: 'M', e: 'N', f: 'O', lap: 'P' } as const;
+const SEGMENT_FIELDS = ['b', 'c', 'd', 'e', 'f'] as const;
+const TOP_EXTENSION_COLUMNS = { left: 'K', right: 'L', top: 'M', bottom: 'N' } as const;
+
+const UNIT_WEIGHT_ROW = 10;              // =d*d/162 per weight column
+const FIRST_COMPONENT_ROW = 11;
+const WEIGHT_FIRST_COLUMN = 23;          // Column W
+const HEADER_FONT = { bold: true, size: 11, name: 'Bookman Old Style' };
+
+const THIN_BORDER: Partial<ExcelJS.Borders> = {
+  top: { style: 'thin' },
+  left: { style: 'thin' },
+  bottom: { style: 'thin' },
+  right: { style: 'thin' }
+};
+
 export class ExcelExporter {
   /**
    * Export full BBS with all details
@@ -166,6 +211,10 @@ export class ExcelExporter {
     bars.forEach((bar, index) => {
       const row = startRow + 1 + index;
       const shapeDefinition = SHAPE_DEFINITIONS[bar.shapeCode];
+      // BS 8666 shapes with five or six dimensions list E and F with the remarks
+      const extraDimensions = (['E', 'F'] as const)
+        .filter(key => bar.dimensions[key] !== undefined)
+        .map(key => `${key} = ${bar.dimensions[key]}mm`);
       
       // Data values
       const values = [
@@ -182,7 +231,7 @@ export class ExcelExporter {
         Math.round(bar.totalLength / 1000 * 100) / 100, // Total Length in meters
         Math.round(bar.unitWeight * 1000) / 1000,     // Unit Weight
         Math.round(bar.totalWeight * 100) / 100,      // Total Weight
-        bar.remarks || ''                             // Remarks
+        [...extraDimensions, bar.remarks].filter(Boolean).join('; ') // Remarks
       ];
       
       // Add values to cells
@@ -653,6 +702,891 @@ export class ExcelExporter {
     }
   }
 
+  /**
+   * Export a component-mode BBS in the site sheet layout.
+   * Quantities, lap, deduction, cutting length and weights are written as live
+   * formulas so the schedule can be checked cell by cell in Excel.
+   */
+  static async exportComponentBBS(
+    project: ProjectConfig,
+    components: ConcreteComponent[],
+    metadata?: BBSMetadata
+  ): Promise<Blob> {
+    const workbook = this.createComponentBBSWorkbook(project, components, metadata);
+
+    // Convert to blob
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new Blob([buffer], { 
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
+    });
+  }
+
+  /**
+   * Build the component-mode BBS workbook (one sheet, standard component blocks)
+   */
+  static createComponentBBSWorkbook(
+    project: ProjectConfig,
+    components: ConcreteComponent[],
+    metadata?: BBSMetadata
+  ): ExcelJS.Workbook {
+    const workbook = new ExcelJS.Workbook();
+    
+    // Set workbook properties
+    workbook.creator = 'RebarCalc';
+    workbook.created = new Date();
+    workbook.modified = new Date();
+
+    const worksheet = workbook.addWorksheet(this.toSheetName(metadata?.itemDescription || project.name));
+
+    // Same settings as the spreadsheet view uses for lap calculation
+    const profile = project.codeProfileId ? getProfileById(project.codeProfileId) : null;
+    const settings = getComponentCalculationSettings(metadata, profile);
+
+    // Weight columns: the standard diameters plus any other diameter in use
+    const diameters = Array.from(new Set([
+      ...LD_TABLE_DIAMETERS,
+      ...components.flatMap(component => component.bars.map(bar => bar.diameter))
+    ])).sort((a, b) => a - b);
+
+    // Cell contents are collected first ("=" strings are formulas) so formula results
+    // can be computed with the formula interpreter before writing
+    const sheet: FormulaSheet = {};
+
+    this.addComponentBBSHeader(worksheet, sheet, project, components, settings, diameters, metadata);
+
+    let row = FIRST_COMPONENT_ROW;
+    components.forEach((component, index) => {
+      row = this.addComponentBlock(worksheet, sheet, component, index + 1, row, settings, diameters);
+    });
+
+    this.addComponentWeightTotals(worksheet, sheet, diameters, row + 1);
+    this.writeSheetCells(worksheet, sheet);
+
+    return workbook;
+  }
+
+  /**
+   * Excel sheet names: max 31 characters, no : \ / ? * [ ]
+   */
+  private static toSheetName(name: string): string {
+    const cleaned = name.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31);
+    return cleaned || 'BBS';
+  }
+
+  /**
+   * Project header (rows 1-4), table headers (rows 5-6) and unit weights (row 10)
+   */
+  private static addComponentBBSHeader(
+    worksheet: ExcelJS.Worksheet,
+    sheet: FormulaSheet,
+    project: ProjectConfig,
+    components: ConcreteComponent[],
+    settings: ComponentCalculationSettings,
+    diameters: number[],
+    metadata?: BBSMetadata
+  ): void {
+    const first = components[0];
+    const componentType = first?.componentType ?? 'SLAB';
+
+    sheet.A1 = `PROJECT :- ${metadata?.projectName || project.name}`;
+    sheet.A2 = `Dwg No :- ${metadata?.drawingNumber || ''}`;
+    sheet.A3 = `Item :- ${metadata?.itemDescription || ''}`;
+    worksheet.getCell('A1').font = { bold: true, size: 12, name: 'Calibri' };
+    worksheet.getCell('A2').font = { bold: true };
+    worksheet.getCell('A3').font = { bold: true };
+
+    // Ld reference table
+    const concreteGrade = metadata?.concreteGrade || 'M30';
+    sheet.E2 = 'Dia of Bar';
+    sheet.E3 = `Ld for ${concreteGrade}`;
+    LD_TABLE_DIAMETERS.forEach((dia, index) => {
+      const column = LD_TABLE_COLUMNS[index];
+      sheet[`${column}2`] = dia;
+      sheet[`${column}3`] = settings.developmentLengths[dia] ?? null;
+      [2, 3].forEach(rowNumber => {
+        const cell = worksheet.getCell(`${column}${rowNumber}`);
+        cell.border = THIN_BORDER;
+        cell.alignment = { horizontal: 'center', vertical: 'middle' };
+      });
+    });
+
+    // Grades, component type and cover
+    sheet.A4 = 'Concrete';
+    sheet.B4 = concreteGrade;
+    sheet.C4 = 'Grade of Steel - ';
+    sheet.D4 = metadata?.steelGrade || '';
+    sheet.E4 = componentType.charAt(0) + componentType.slice(1).toLowerCase();
+    sheet.F4 = 'Cover';
+    sheet.G4 = first?.cover ?? project.defaultCover;
+    sheet.H4 = 'mm';
+
+    // Table headers
+    COMPONENT_TABLE_HEADERS.forEach((header, index) => {
+      const column = indexToColumn(index + 1);
+      worksheet.mergeCells(`${column}5:${column}6`);
+      sheet[`${column}5`] = header;
+    });
+    worksheet.mergeCells('J5:S5');
+    sheet.J5 = 'Measurements of the Bar (MM)';
+    MEASUREMENT_HEADERS.forEach((header, index) => {
+      sheet[`${indexToColumn(10 + index)}6`] = header;
+    });
+    worksheet.mergeCells('T5:T6');
+    sheet.T5 = 'Cutlength';
+    worksheet.mergeCells('U5:U6');
+    sheet.U5 = 'Total length (m)';
+
+    // Weight columns: dia headings and unit weight (kg/m) formulas
+    const lastWeightColumn = indexToColumn(WEIGHT_FIRST_COLUMN + diameters.length - 1);
+    worksheet.mergeCells(`W5:${lastWeightColumn}5`);
+    sheet.W5 = 'Weight (kg)';
+    sheet[`V${UNIT_WEIGHT_ROW}`] = 'kg/m';
+    diameters.forEach((dia, index) => {
+      const column = indexToColumn(WEIGHT_FIRST_COLUMN + index);
+      sheet[`${column}6`] = `${dia} mm`;
+      sheet[`${column}${UNIT_WEIGHT_ROW}`] = `=${dia}*${dia}/162`;
+      worksheet.getCell(`${column}${UNIT_WEIGHT_ROW}`).numFmt = '0.000';
+      worksheet.getColumn(column).width = 10;
+    });
+
+    for (let col = 1; col < WEIGHT_FIRST_COLUMN + diameters.length; col++) {
+      if (col === WEIGHT_FIRST_COLUMN - 1) continue;
+      [5, 6].forEach(rowNumber => {
+        const cell = worksheet.getCell(rowNumber, col);
+        cell.font = HEADER_FONT;
+        cell.alignment = { horizontal: 'center', vertical: 'middle', wrapText: true };
+        cell.border = THIN_BORDER;
+      });
+    }
+    worksheet.getRow(6).height = 45;
+
+    [12.5, 20.4, 18.9, 15.1, 13.1, 10.3, 12, 12, 10].forEach((width, index) => {
+      worksheet.getColumn(index + 1).width = width;
+    });
+  }
+
+  /**
+   * Write one component block: header row (name, spans, depth, top extensions),
+   * beam width rows when defined, then one row per bar. Returns the next free row.
+   */
+  private static addComponentBlock(
+    worksheet: ExcelJS.Worksheet,
+    sheet: FormulaSheet,
+    component: ConcreteComponent,
+    serialNumber: number,
+    headerRow: number,
+    settings: ComponentCalculationSettings,
+    diameters: number[]
+  ): number {
+    // Cells each named-formula variable points to within this block
+    const cells: Record<string, string> = { cover: '$G$4' };
+    LD_TABLE_DIAMETERS.forEach((dia, index) => {
+      cells[`ldDia${dia}`] = `$${LD_TABLE_COLUMNS[index]}$3`;
+    });
+
+    sheet[`A${headerRow}`] = serialNumber;
+    sheet[`B${headerRow}`] = component.name;
+    sheet[`C${headerRow}`] = component.spanX;
+    sheet[`D${headerRow}`] = component.spanY;
+    cells.spanX = `C${headerRow}`;
+    cells.spanY = `D${headerRow}`;
+    if (component.depth !== undefined) {
+      sheet[`F${headerRow}`] = component.depth;
+      cells.depth = `F${headerRow}`;
+    }
+    if (component.topExtensions) {
+      (Object.keys(TOP_EXTENSION_COLUMNS) as (keyof typeof TOP_EXTENSION_COLUMNS)[]).forEach(side => {
+        const cell = `${TOP_EXTENSION_COLUMNS[side]}${headerRow}`;
+        sheet[cell] = component.topExtensions![side];
+        cells[`topExt${side.charAt(0).toUpperCase()}${side.slice(1)}`] = cell;
+      });
+    }
+    worksheet.getRow(headerRow).font = { bold: true };
+
+    let row = headerRow + 1;
+    if (component.beamWidths) {
+      sheet[`C${row}`] = 'Left/Right';
+      sheet[`D${row}`] = 'Top/Bottom';
+      sheet[`C${row + 1}`] = component.beamWidths.left;
+      sheet[`D${row + 1}`] = component.beamWidths.top;
+      sheet[`C${row + 2}`] = component.beamWidths.right;
+      sheet[`D${row + 2}`] = component.beamWidths.bottom;
+      cells.beamWidthLeft = `C${row + 1}`;
+      cells.beamWidthTop = `D${row + 1}`;
+      cells.beamWidthRight = `C${row + 2}`;
+      cells.beamWidthBottom = `D${row + 2}`;
+      row += 3;
+    }
+
+    component.bars.forEach(bar => {
+      row = this.addComponentBarRow(worksheet, sheet, component, bar, row, headerRow, cells, settings, diameters);
+    });
+
+    // Blank row between blocks
+    return row + 1;
+  }
+
+  /**
+   * Write the rows of one bar entry (columns B-U and the weight columns): one row,
+   * or one per piece of a designed tie set. Returns the next free row.
+   */
+  private static addComponentBarRow(
+    worksheet: ExcelJS.Worksheet,
+    sheet: FormulaSheet,
+    component: ConcreteComponent,
+    bar: ComponentBarEntry,
+    row: number,
+    headerRow: number,
+    blockCells: Record<string, string>,
+    settings: ComponentCalculationSettings,
+    diameters: number[]
+  ): number {
+    // Direction X bars are spaced along span Y and vice versa
+    const spanCell = bar.direction === 'X' ? `D${headerRow}` : `C${headerRow}`;
+    const componentSpan = bar.direction === 'X' ? component.spanY : component.spanX;
+    const calculated = bar.calculated ?? calculateComponentSheetEntry(bar, component, settings);
+
+    // Designed tie sets: each piece with its own shape, cut length and count per set
+    const tiePieces = getTiePieceQuantities(calculated);
+    if (tiePieces.length > 0) {
+      tiePieces.forEach(({ piece, quantity }, index) => {
+        const pieceRow = row + index;
+        sheet[`B${pieceRow}`] = `${bar.barType} - ${piece.name}`;
+        sheet[`E${pieceRow}`] = bar.spacing;
+        sheet[`F${pieceRow}`] = bar.diameter;
+        sheet[`G${pieceRow}`] = piece.count;
+        sheet[`H${pieceRow}`] = quantity / piece.count;
+        sheet[`I${pieceRow}`] = `=+G${pieceRow}*H${pieceRow}`;
+        sheet[`J${pieceRow}`] = piece.measurements.a;
+        SEGMENT_FIELDS.forEach(field => {
+          sheet[`${MEASUREMENT_COLUMNS[field]}${pieceRow}`] = piece.measurements[field] ?? null;
+        });
+        sheet[`P${pieceRow}`] = null;
+        sheet[`R${pieceRow}`] = piece.bends;
+        this.addComponentBarTotals(worksheet, sheet, pieceRow, false, diameters);
+      });
+      return row + tiePieces.length;
+    }
+
+    sheet[`B${row}`] = bar.barType;
+    sheet[`E${row}`] = bar.spacing;
+    sheet[`F${row}`] = bar.diameter;
+    sheet[`G${row}`] = bar.barsPerMember || 1;
+
+    // No. of members: ROUNDUP(span / spacing) unless entered explicitly. Zoned
+    // stirrups/ties, bars cut by openings and geometry-measured bars are counted
+    // by the calculator, so their member count is written as a value.
+    const barsPerMember = bar.barsPerMember || 1;
+    const spacedMembers = bar.spacing > 0 && componentSpan > 0 ? Math.ceil(componentSpan / bar.spacing) : 1;
+    if (bar.totalMembers !== undefined) {
+      sheet[`H${row}`] = bar.totalMembers;
+    } else if (calculated.noOfBars !== barsPerMember * spacedMembers) {
+      sheet[`H${row}`] = calculated.noOfBars / barsPerMember;
+    } else if (bar.spacing > 0 && componentSpan > 0) {
+      sheet[`H${row}`] = `=ROUNDUP(${spanCell}/E${row},0)`;
+    } else {
+      sheet[`H${row}`] = 1;
+    }
+    sheet[`I${row}`] = `=+G${row}*H${row}`;
+
+    // Measurements: values first, so formulas may reference any field of the row
+    const { measurements } = bar;
+    sheet[`J${row}`] = measurements.a;
+    SEGMENT_FIELDS.forEach(field => {
+      sheet[`${MEASUREMENT_COLUMNS[field]}${row}`] = measurements[field] ?? null;
+    });
+    sheet[`P${row}`] = measurements.lap || null;
+
+    const cells: Record<string, string> = {
+      ...blockCells,
+      spacing: `E${row}`,
+      diameter: `F${row}`,
+      barsPerMember: `G${row}`,
+      ...Object.fromEntries(Object.entries(MEASUREMENT_COLUMNS).map(([field, column]) => [field, `${column}${row}`]))
+    };
+    this.applyCanonicalFormulas(sheet, bar, cells);
+
+    // Auto lap for bars longer than the stock length (planned splices are written as values)
+    const ldIndex = LD_TABLE_DIAMETERS.indexOf(bar.diameter);
+    if (calculated.splices) {
+      sheet[`P${row}`] = calculated.splices.totalLapLength;
+    } else if (!measurements.lap && measurements.a > settings.standardBarLength) {
+      sheet[`P${row}`] = ldIndex >= 0 && settings.developmentLengths[bar.diameter] !== undefined
+        ? `=ROUNDUP(J${row}/${settings.standardBarLength}*$${LD_TABLE_COLUMNS[ldIndex]}$3,0)`
+        : calculateLap(measurements.a, bar.diameter, settings);
+    }
+
+    sheet[`R${row}`] = calculated.noOfDeductions;
+    this.addComponentBarTotals(worksheet, sheet, row, usesCeilingCutLength(bar.barType), diameters);
+    return row + 1;
+  }
+
+  /**
+   * Total measurement, deduction, cut length, total length and weight columns of a bar row
+   */
+  private static addComponentBarTotals(
+    worksheet: ExcelJS.Worksheet,
+    sheet: FormulaSheet,
+    row: number,
+    ceilingCutLength: boolean,
+    diameters: number[]
+  ): void {
+    sheet[`Q${row}`] = `=SUM(J${row}:P${row})`;
+    sheet[`S${row}`] = `=+R${row}*F${row}*2`;
+    sheet[`T${row}`] = ceilingCutLength
+      ? `=CEILING(J${row}+K${row}+L${row}+M${row}+N${row}+S${row},5)`
+      : `=+Q${row}-S${row}`;
+    sheet[`U${row}`] = `=+T${row}*I${row}/1000`;
+    worksheet.getCell(`U${row}`).numFmt = '0.00';
+
+    diameters.forEach((dia, index) => {
+      const column = indexToColumn(WEIGHT_FIRST_COLUMN + index);
+      sheet[`${column}${row}`] = `=IF(F${row}=${dia},U${row}*${column}$${UNIT_WEIGHT_ROW},"")`;
+      worksheet.getCell(`${column}${row}`).numFmt = '0.00';
+    });
+
+    for (let col = 2; col <= 21; col++) {
+      worksheet.getCell(row, col).border = THIN_BORDER;
+    }
+  }
+
+  /**
+   * Replace measurement values with the bar type's canonical formula wherever the
+   * formula reproduces the stored value; edited or unmapped fields stay as values.
+   */
+  private static applyCanonicalFormulas(
+    sheet: FormulaSheet,
+    bar: ComponentBarEntry,
+    cells: Record<string, string>
+  ): void {
+    const named = getCanonicalNamedFormulas(bar.barType);
+    if (!named) return;
+
+    (Object.keys(MEASUREMENT_COLUMNS) as (keyof typeof MEASUREMENT_COLUMNS)[]).forEach(field => {
+      const expected = bar.measurements[field];
+      const formula = named[field];
+      if (!formula || expected === undefined) return;
+
+      const cellFormula = fromNamedFormula(formula, cells);
+      if (!cellFormula) return;
+
+      const cell = cells[field];
+      const value = sheet[cell];
+      sheet[cell] = cellFormula;
+      const result = createSheetEvaluator(sheet).evaluateCell(cell);
+      if (result.error || typeof result.value !== 'number' || Math.abs(result.value - expected) > 1e-6) {
+        sheet[cell] = value;
+      }
+    });
+  }
+
+  /**
+   * Weight totals per diameter and the "Total in MT" summary
+   */
+  private static addComponentWeightTotals(
+    worksheet: ExcelJS.Worksheet,
+    sheet: FormulaSheet,
+    diameters: number[],
+    totalRow: number
+  ): void {
+    const lastBlockRow = totalRow - 2;
+
+    sheet[`V${totalRow}`] = 'Total';
+    worksheet.getCell(`V${totalRow}`).font = { bold: true };
+    diameters.forEach((_dia, index) => {
+      const column = indexToColumn(WEIGHT_FIRST_COLUMN + index);
+      // Rows between bars are blank to SUM (absent cells would be #REF! to the interpreter)
+      for (let row = FIRST_COMPONENT_ROW; row <= lastBlockRow; row++) {
+        if (!Object.hasOwn(sheet, `${column}${row}`)) sheet[`${column}${row}`] = null;
+      }
+      sheet[`${column}${totalRow}`] = lastBlockRow >= FIRST_COMPONENT_ROW
+        ? `=SUM(${column}${FIRST_COMPONENT_ROW}:${column}${lastBlockRow})`
+        : 0;
+      const cell = worksheet.getCell(`${column}${totalRow}`);
+      cell.font = { bold: true };
+      cell.numFmt = '0.00';
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFFFCC00' } };
+      cell.border = THIN_BORDER;
+    });
+
+    // Dia-wise summary in metric tonnes
+    const titleRow = totalRow + 1;
+    const labelRow = totalRow + 2;
+    const tonnesRow = totalRow + 3;
+    const lastColumn = indexToColumn(3 + diameters.length);
+
+    sheet[`B${titleRow}`] = 'Total Weight of Re-bars in Dia wise:';
+    sheet[`B${labelRow}`] = 'Description';
+    sheet[`B${tonnesRow}`] = 'Total in MT';
+    diameters.forEach((dia, index) => {
+      const column = indexToColumn(3 + index);
+      const weightColumn = indexToColumn(WEIGHT_FIRST_COLUMN + index);
+      sheet[`${column}${labelRow}`] = `${dia}mm`;
+      sheet[`${column}${tonnesRow}`] = `=${weightColumn}${totalRow}/1000`;
+      worksheet.getCell(`${column}${tonnesRow}`).numFmt = '0.000';
+    });
+    sheet[`${lastColumn}${labelRow}`] = 'Total';
+    sheet[`${lastColumn}${tonnesRow}`] = `=+SUM(C${tonnesRow}:${indexToColumn(2 + diameters.length)}${tonnesRow})`;
+    worksheet.getCell(`${lastColumn}${tonnesRow}`).numFmt = '0.000';
+
+    worksheet.getCell(`B${titleRow}`).font = { bold: true };
+    for (let col = 2; col <= 3 + diameters.length; col++) {
+      [labelRow, tonnesRow].forEach(rowNumber => {
+        const cell = worksheet.getCell(rowNumber, col);
+        cell.border = THIN_BORDER;
+        cell.alignment = { horizontal: 'center', vertical: 'middle' };
+        if (rowNumber === labelRow) cell.font = { bold: true };
+      });
+    }
+  }
+
+  /**
+   * Write collected cell contents; formulas carry their computed result so the
+   * file shows values before Excel recalculates
+   */
+  private static writeSheetCells(worksheet: ExcelJS.Worksheet, sheet: FormulaSheet): void {
+    const { evaluateCell } = createSheetEvaluator(sheet);
+
+    Object.entries(sheet).forEach(([address, content]) => {
+      if (content === null) return;
+      const cell = worksheet.getCell(address);
+      if (typeof content === 'string' && content.startsWith('=')) {
+        const { value, error } = evaluateCell(address);
+        cell.value = {
+          formula: content.slice(1),
+          result: error ? { error: error.code as ExcelJS.CellErrorValue['error'] } : value ?? undefined
+        } as ExcelJS.CellFormulaValue;
+        return;
+      }
+      cell.value = content;
+    });
+  }
+
+  /**
+   * Export a cutting plan: a per-diameter summary sheet and the cutting patterns
+   */
+  static async exportCuttingPlan(project: ProjectConfig, plan: CuttingPlan): Promise<Blob> {
+    const workbook = this.createCuttingPlanWorkbook(project, plan);
+
+    // Convert to blob
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new Blob([buffer], { 
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
+    });
+  }
+
+  /**
+   * Build the cutting plan workbook
+   */
+  static createCuttingPlanWorkbook(project: ProjectConfig, plan: CuttingPlan): ExcelJS.Workbook {
+    const workbook = new ExcelJS.Workbook();
+    
+    // Set workbook properties
+    workbook.creator = 'RebarCalc';
+    workbook.created = new Date();
+    workbook.modified = new Date();
+
+    this.addCuttingSummarySheet(workbook, project, plan);
+    this.addCuttingPatternsSheet(workbook, project, plan);
+
+    return workbook;
+  }
+
+  /**
+   * Add stock bars and wastage per diameter
+   */
+  private static addCuttingSummarySheet(
+    workbook: ExcelJS.Workbook,
+    project: ProjectConfig,
+    plan: CuttingPlan
+  ): void {
+    const worksheet = workbook.addWorksheet('Cutting Summary');
+    
+    // Project header
+    this.addProjectHeader(worksheet, project);
+
+    const hasProfileInfo = worksheet.getCell('A4').value !== null;
+    const optionsRow = hasProfileInfo ? 6 : 5;
+    const { stockLength, kerf, reusableOffcutLength } = plan.options;
+    worksheet.mergeCells(optionsRow, 1, optionsRow, 8);
+    worksheet.getCell(optionsRow, 1).value =
+      `Stock length: ${stockLength} mm, Kerf: ${kerf} mm, Reusable offcut: ≥ ${reusableOffcutLength} mm`;
+    worksheet.getCell(optionsRow, 1).font = { italic: true };
+
+    const startRow = optionsRow + 2;
+    this.addTableRow(worksheet, startRow, [
+      'Diameter (mm)',
+      'Stock Bars',
+      'Full-Length Bars',
+      'Required Length (m)',
+      'Stock Length (m)',
+      'Reusable Offcuts (m)',
+      'Wastage (m)',
+      'Wastage (%)',
+      'Stock Weight (kg)'
+    ], true);
+
+    plan.diameters.forEach((item, index) => {
+      this.addTableRow(worksheet, startRow + 1 + index, [
+        item.diameter,
+        item.stockBars,
+        item.fullLengthBars,
+        Math.round(item.requiredLength * 100) / 100,
+        Math.round(item.stockLength * 100) / 100,
+        Math.round(item.reusableOffcutLength * 100) / 100,
+        Math.round(item.wastageLength * 100) / 100,
+        Math.round(item.wastagePercent * 100) / 100,
+        Math.round(item.stockWeight * 100) / 100
+      ]);
+    });
+
+    // Totals
+    const totalRow = startRow + 1 + plan.diameters.length;
+    const sum = (select: (item: CuttingPlan['diameters'][number]) => number) =>
+      Math.round(plan.diameters.reduce((total, item) => total + select(item), 0) * 100) / 100;
+    this.addTableRow(worksheet, totalRow, [
+      'TOTAL',
+      plan.totalStockBars,
+      sum(item => item.fullLengthBars),
+      sum(item => item.requiredLength),
+      sum(item => item.stockLength),
+      sum(item => item.reusableOffcutLength),
+      sum(item => item.wastageLength),
+      Math.round(plan.totalWastagePercent * 100) / 100,
+      Math.round(plan.totalStockWeight * 100) / 100
+    ]);
+    for (let col = 1; col <= 9; col++) {
+      const cell = worksheet.getCell(totalRow, col);
+      cell.font = { bold: true };
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFFFCC00' }
+      };
+    }
+
+    worksheet.columns.forEach(column => {
+      column.width = 18;
+    });
+  }
+
+  /**
+   * Add one row per cutting pattern, grouped by diameter
+   */
+  private static addCuttingPatternsSheet(
+    workbook: ExcelJS.Workbook,
+    project: ProjectConfig,
+    plan: CuttingPlan
+  ): void {
+    const worksheet = workbook.addWorksheet('Cutting Plan');
+    
+    // Project header
+    this.addProjectHeader(worksheet, project);
+
+    const hasProfileInfo = worksheet.getCell('A4').value !== null;
+    const startRow = hasProfileInfo ? 6 : 5;
+    this.addTableRow(worksheet, startRow, [
+      'Diameter (mm)',
+      'Pattern',
+      'No. of Stock Bars',
+      'Cuts (mm)',
+      'Used (mm)',
+      'Kerf (mm)',
+      'Offcut (mm)',
+      'Offcut'
+    ], true);
+
+    let row = startRow + 1;
+    plan.diameters.forEach(item => {
+      item.patterns.forEach((pattern, index) => {
+        this.addTableRow(worksheet, row++, [
+          item.diameter,
+          index + 1,
+          pattern.count,
+          pattern.cuts.map(cut => `${Math.round(cut.length)} (${cut.label})`).join(' + '),
+          Math.round(pattern.usedLength),
+          Math.round(pattern.kerfLoss),
+          Math.round(pattern.offcut),
+          pattern.offcut <= 0 ? '' : pattern.reusable ? 'Reusable' : 'Scrap'
+        ]);
+      });
+      if (item.fullLengthBars > 0) {
+        this.addTableRow(worksheet, row++, [
+          item.diameter,
+          'Full length',
+          item.fullLengthBars,
+          `${plan.options.stockLength} (uncut, lapped)`,
+          plan.options.stockLength,
+          0,
+          0,
+          ''
+        ]);
+      }
+    });
+
+    [14, 12, 16, 60, 12, 10, 12, 12].forEach((width, index) => {
+      worksheet.getColumn(index + 1).width = width;
+    });
+  }
+
+  /**
+   * Export a revision diff: weight change per diameter and the changed bars
+   */
+  static async exportRevisionDiff(project: ProjectConfig, diff: RevisionDiff): Promise<Blob> {
+    const workbook = this.createRevisionDiffWorkbook(project, diff);
+
+    // Convert to blob
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new Blob([buffer], { 
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
+    });
+  }
+
+  /**
+   * Build the revision sheet workbook
+   */
+  static createRevisionDiffWorkbook(project: ProjectConfig, diff: RevisionDiff): ExcelJS.Workbook {
+    const workbook = new ExcelJS.Workbook();
+    
+    // Set workbook properties
+    workbook.creator = 'RebarCalc';
+    workbook.created = new Date();
+    workbook.modified = new Date();
+
+    const worksheet = workbook.addWorksheet(this.toSheetName(`Revision ${diff.from.name} to ${diff.to.name}`));
+    
+    // Project header
+    this.addProjectHeader(worksheet, project);
+
+    const hasProfileInfo = worksheet.getCell('A4').value !== null;
+    let row = hasProfileInfo ? 6 : 5;
+    const describe = (revision: RevisionDiff['from']) =>
+      `${revision.name} (${new Date(revision.createdAt).toLocaleDateString()})${revision.note ? ` - ${revision.note}` : ''}`;
+    worksheet.mergeCells(row, 1, row, 9);
+    worksheet.getCell(row, 1).value = `Revision ${describe(diff.to)} compared with ${describe(diff.from)}`;
+    worksheet.getCell(row, 1).font = { bold: true };
+    row += 2;
+
+    // Net weight change per diameter
+    this.addTableRow(worksheet, row++, [
+      'Diameter (mm)',
+      `${diff.from.name} Weight (kg)`,
+      `${diff.to.name} Weight (kg)`,
+      'Change (kg)'
+    ], true);
+    diff.diameters.forEach(item => {
+      this.addTableRow(worksheet, row++, [
+        item.diameter,
+        Math.round(item.before * 100) / 100,
+        Math.round(item.after * 100) / 100,
+        Math.round(item.delta * 100) / 100
+      ]);
+    });
+    this.addTableRow(worksheet, row, [
+      'TOTAL',
+      Math.round(diff.totalBefore * 100) / 100,
+      Math.round(diff.totalAfter * 100) / 100,
+      Math.round(diff.totalDelta * 100) / 100
+    ]);
+    for (let col = 1; col <= 4; col++) {
+      const cell = worksheet.getCell(row, col);
+      cell.font = { bold: true };
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFFFCC00' }
+      };
+    }
+    row += 2;
+
+    // Bar-by-bar changes; unchanged bars are left out of the revision sheet
+    this.addTableRow(worksheet, row++, [
+      'Component',
+      'Bar',
+      'Change',
+      `Dia ${diff.from.name}`,
+      `Dia ${diff.to.name}`,
+      `Cut Length ${diff.from.name} (mm)`,
+      `Cut Length ${diff.to.name} (mm)`,
+      `Qty ${diff.from.name}`,
+      `Qty ${diff.to.name}`,
+      'Weight Change (kg)'
+    ], true);
+
+    const fieldNames: Record<RevisionField, string> = {
+      cutLength: 'cut length',
+      quantity: 'quantity',
+      diameter: 'diameter'
+    };
+    const changeFills: Record<string, string> = {
+      ADDED: 'FFD9EAD3',
+      REMOVED: 'FFF4CCCC',
+      CHANGED: 'FFFFF2CC'
+    };
+
+    diff.components.forEach(component => {
+      component.bars
+        .filter(bar => bar.type !== 'UNCHANGED')
+        .forEach(bar => {
+          const change = bar.type === 'CHANGED'
+            ? `Changed ${bar.changes.map(field => fieldNames[field]).join(', ')}`
+            : bar.type === 'ADDED' ? 'Added' : 'Removed';
+          this.addTableRow(worksheet, row, [
+            component.name,
+            bar.label,
+            change,
+            bar.before?.diameter ?? '',
+            bar.after?.diameter ?? '',
+            bar.before ? Math.round(bar.before.cutLength) : '',
+            bar.after ? Math.round(bar.after.cutLength) : '',
+            bar.before?.quantity ?? '',
+            bar.after?.quantity ?? '',
+            Math.round(bar.weightDelta * 100) / 100
+          ]);
+          worksheet.getCell(row, 3).fill = {
+            type: 'pattern',
+            pattern: 'solid',
+            fgColor: { argb: changeFills[bar.type] }
+          };
+          row++;
+        });
+    });
+
+    [20, 28, 30, 10, 10, 16, 16, 10, 10, 16].forEach((width, index) => {
+      worksheet.getColumn(index + 1).width = width;
+    });
+
+    return workbook;
+  }
+
+  /**
+   * Export the bar mark schedule: one row per mark with its members and totals
+   */
+  static async exportBarMarkSchedule(project: ProjectConfig, schedule: BarMarkSchedule): Promise<Blob> {
+    const workbook = this.createBarMarkScheduleWorkbook(project, schedule);
+
+    // Convert to blob
+    const buffer = await workbook.xlsx.writeBuffer();
+    return new Blob([buffer], { 
+      type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' 
+    });
+  }
+
+  /**
+   * Build the bar mark schedule workbook
+   */
+  static createBarMarkScheduleWorkbook(project: ProjectConfig, schedule: BarMarkSchedule): ExcelJS.Workbook {
+    const workbook = new ExcelJS.Workbook();
+    
+    // Set workbook properties
+    workbook.creator = 'RebarCalc';
+    workbook.created = new Date();
+    workbook.modified = new Date();
+
+    const worksheet = workbook.addWorksheet('Bar Marks');
+    
+    // Project header
+    this.addProjectHeader(worksheet, project);
+
+    const hasProfileInfo = worksheet.getCell('A4').value !== null;
+    const startRow = hasProfileInfo ? 6 : 5;
+    this.addTableRow(worksheet, startRow, [
+      'Bar Mark',
+      'Diameter (mm)',
+      'Shape',
+      'Dimensions (mm)',
+      'Cut Length (mm)',
+      'Members',
+      'No. of Bars',
+      'Total Length (m)',
+      'Weight (kg)',
+      'Status'
+    ], true);
+
+    schedule.rows.forEach((item, index) => {
+      this.addTableRow(worksheet, startRow + 1 + index, [
+        item.mark,
+        item.diameter,
+        item.shape,
+        item.dimensions,
+        Math.round(item.cutLength),
+        item.members.join(', '),
+        item.quantity,
+        Math.round(item.totalLength * 100) / 100,
+        Math.round(item.weight * 100) / 100,
+        item.conflict ? 'Changed since issue' : item.locked ? 'Issued' : ''
+      ]);
+      if (item.conflict) {
+        worksheet.getCell(startRow + 1 + index, 10).fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FFFFE0B2' }
+        };
+      }
+    });
+
+    // Totals
+    const totalRow = startRow + 1 + schedule.rows.length;
+    const sum = (select: (item: BarMarkSchedule['rows'][number]) => number) =>
+      Math.round(schedule.rows.reduce((total, item) => total + select(item), 0) * 100) / 100;
+    this.addTableRow(worksheet, totalRow, [
+      'TOTAL', '', '', '', '', '',
+      sum(item => item.quantity),
+      sum(item => item.totalLength),
+      sum(item => item.weight),
+      ''
+    ]);
+    for (let col = 1; col <= 10; col++) {
+      const cell = worksheet.getCell(totalRow, col);
+      cell.font = { bold: true };
+      cell.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFFFCC00' }
+      };
+    }
+
+    // Issued marks whose bars are gone still need withdrawing from the drawings
+    if (schedule.dropped.length > 0) {
+      const cell = worksheet.getCell(totalRow + 2, 1);
+      cell.value = `Withdrawn since issue: ${schedule.dropped.join(', ')}`;
+      cell.font = { bold: true, color: { argb: 'FFE65100' } };
+    }
+
+    [12, 12, 28, 36, 14, 30, 12, 14, 12, 20].forEach((width, index) => {
+      worksheet.getColumn(index + 1).width = width;
+    });
+
+    return workbook;
+  }
+
+  /**
+   * Write a bordered table row (header rows are bold with a grey fill)
+   */
+  private static addTableRow(
+    worksheet: ExcelJS.Worksheet,
+    row: number,
+    values: (string | number)[],
+    header: boolean = false
+  ): void {
+    values.forEach((value, colIndex) => {
+      const cell = worksheet.getCell(row, colIndex + 1);
+      cell.value = value;
+      cell.border = THIN_BORDER;
+      if (header) {
+        cell.font = { bold: true };
+        cell.fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FFE0E0E0' }
+        };
+        cell.alignment = { horizontal: 'center', vertical: 'middle', wrapText: true };
+      } else {
+        cell.alignment = { horizontal: typeof value === 'number' ? 'right' : 'left', vertical: 'middle' };
+      }
+    });
+  }
+
   /**
    * Trigger download of Excel file
    */
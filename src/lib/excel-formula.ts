@@ -0,0 +1,867 @@
+/**
+ * Excel Formula Interpreter
+ * Tokenizer, parser and evaluator for the Excel formula subset used in our BBS sheets:
+ * arithmetic, comparisons, absolute/relative cell references, ranges and the
+ * ROUNDUP / ROUNDDOWN / ROUND / CEILING / SUM / MAX / MIN / IF / ABS / SQRT / PI functions.
+ *
+ * Formulas are never executed as JavaScript; every reference is resolved through
+ * a CellResolver and failures surface as Excel-style error codes per cell.
+ */
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export type FormulaErrorCode =
+  | '#PARSE!'   // Formula text could not be parsed
+  | '#REF!'     // Reference to a cell that is not part of the context
+  | '#NAME?'    // Unknown function or named variable
+  | '#VALUE!'   // Operand could not be coerced to a number
+  | '#DIV/0!'   // Division by zero
+  | '#NUM!'     // Invalid numeric argument (e.g. CEILING sign mismatch)
+  | '#CIRC!';   // Circular reference between cells
+
+export class FormulaError extends Error {
+  readonly code: FormulaErrorCode;
+
+  constructor(code: FormulaErrorCode, message: string) {
+    super(message);
+    this.name = 'FormulaError';
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// VALUES & CONTEXT
+// ============================================================================
+
+/** A cell value: null represents a blank cell (evaluates as 0 in arithmetic). */
+export type FormulaValue = number | string | boolean | null;
+
+/**
+ * Resolves references while evaluating a formula.
+ * Returning undefined means the reference is not part of the context (#REF! / #NAME?).
+ */
+export interface CellResolver {
+  getCell(address: string): FormulaValue | undefined;
+  getName?(name: string): FormulaValue | undefined;
+}
+
+/** Result of evaluating a single formula or cell. */
+export interface FormulaResult {
+  value: FormulaValue;
+  error?: FormulaError;
+}
+
+// ============================================================================
+// CELL ADDRESS HELPERS
+// ============================================================================
+
+export interface CellAddress {
+  column: string;        // e.g. "C"
+  row: number;           // 1-based
+  absoluteColumn: boolean;
+  absoluteRow: boolean;
+}
+
+const CELL_REF_PATTERN = /^(\$?)([A-Z]{1,3})(\$?)(\d+)$/;
+
+/**
+ * Parse an A1-style reference such as "C11", "$G$4" or "$F20"
+ */
+export function parseCellAddress(ref: string): CellAddress | null {
+  const match = CELL_REF_PATTERN.exec(ref.toUpperCase());
+  if (!match) return null;
+  const row = parseInt(match[4], 10);
+  if (row < 1) return null;
+  return {
+    column: match[2],
+    row,
+    absoluteColumn: match[1] === '$',
+    absoluteRow: match[3] === '$',
+  };
+}
+
+/**
+ * Format a cell address back to A1 notation, keeping absolute markers
+ */
+export function formatCellAddress(address: CellAddress): string {
+  return `${address.absoluteColumn ? '$' : ''}${address.column}${address.absoluteRow ? '$' : ''}${address.row}`;
+}
+
+/**
+ * Convert a column letter to a 1-based index (A → 1, AA → 27)
+ */
+export function columnToIndex(column: string): number {
+  let index = 0;
+  for (const char of column.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index;
+}
+
+/**
+ * Convert a 1-based column index to letters (1 → A, 27 → AA)
+ */
+export function indexToColumn(index: number): string {
+  let column = '';
+  let remaining = index;
+  while (remaining > 0) {
+    const mod = (remaining - 1) % 26;
+    column = String.fromCharCode(65 + mod) + column;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+  return column;
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+export type FormulaTokenType =
+  | 'number'
+  | 'string'
+  | 'cell'
+  | 'name'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'colon';
+
+export interface FormulaToken {
+  type: FormulaTokenType;
+  text: string;
+  start: number;         // offset in the formula body (after leading "=")
+  end: number;
+}
+
+const OPERATORS = ['<>', '<=', '>=', '+', '-', '*', '/', '^', '&', '=', '<', '>'];
+
+/**
+ * Split a formula into tokens. A leading "=" is ignored.
+ */
+export function tokenizeFormula(formula: string): FormulaToken[] {
+  const body = stripLeadingEquals(formula);
+  const tokens: FormulaToken[] = [];
+  let i = 0;
+
+  while (i < body.length) {
+    const char = body[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(body.slice(i));
+      if (!match) throw new FormulaError('#PARSE!', `Invalid number at position ${i}`);
+      tokens.push({ type: 'number', text: match[0], start: i, end: i + match[0].length });
+      i += match[0].length;
+      continue;
+    }
+
+    if (char === '"') {
+      let j = i + 1;
+      let text = '';
+      while (j < body.length) {
+        if (body[j] === '"') {
+          if (body[j + 1] === '"') {
+            text += '"';
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        text += body[j];
+        j++;
+      }
+      if (j >= body.length) throw new FormulaError('#PARSE!', 'Unterminated string literal');
+      tokens.push({ type: 'string', text, start: i, end: j + 1 });
+      i = j + 1;
+      continue;
+    }
+
+    if (char === '$' || /[A-Za-z_]/.test(char)) {
+      const match = /^\$?[A-Za-z_][A-Za-z0-9_.]*\$?\d*/.exec(body.slice(i));
+      const word = match ? match[0] : char;
+      if (parseCellAddress(word)) {
+        tokens.push({ type: 'cell', text: word, start: i, end: i + word.length });
+      } else if (word.includes('$')) {
+        throw new FormulaError('#PARSE!', `Invalid reference "${word}"`);
+      } else {
+        tokens.push({ type: 'name', text: word, start: i, end: i + word.length });
+      }
+      i += word.length;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'lparen', text: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === ')') {
+      tokens.push({ type: 'rparen', text: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === ',') {
+      tokens.push({ type: 'comma', text: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+    if (char === ':') {
+      tokens.push({ type: 'colon', text: char, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => body.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, start: i, end: i + operator.length });
+      i += operator.length;
+      continue;
+    }
+
+    throw new FormulaError('#PARSE!', `Unexpected character "${char}" at position ${i}`);
+  }
+
+  return tokens;
+}
+
+function stripLeadingEquals(formula: string): string {
+  const trimmed = formula.trim();
+  return trimmed.startsWith('=') ? trimmed.slice(1) : trimmed;
+}
+
+/**
+ * Rewrite every cell reference in a formula, leaving the rest of the text untouched.
+ * The callback returns the replacement text for a reference (e.g. a relocated address
+ * or a variable name). Used to relocate canonical formulas and to audit references.
+ */
+export function mapFormulaReferences(
+  formula: string,
+  mapper: (address: CellAddress, text: string) => string
+): string {
+  const body = stripLeadingEquals(formula);
+  const tokens = tokenizeFormula(formula);
+  let result = '';
+  let cursor = 0;
+
+  for (const token of tokens) {
+    if (token.type !== 'cell') continue;
+    result += body.slice(cursor, token.start);
+    result += mapper(parseCellAddress(token.text)!, token.text);
+    cursor = token.end;
+  }
+  result += body.slice(cursor);
+
+  return formula.trim().startsWith('=') ? `=${result}` : result;
+}
+
+/**
+ * Rewrite every named variable in a formula (function names and TRUE/FALSE are kept).
+ * The inverse of binding cells to names: used to turn named formulas back into
+ * cell references when writing a sheet.
+ */
+export function mapFormulaNames(formula: string, mapper: (name: string) => string): string {
+  const body = stripLeadingEquals(formula);
+  const tokens = tokenizeFormula(formula);
+  let result = '';
+  let cursor = 0;
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'name') return;
+    if (tokens[index + 1]?.type === 'lparen') return;
+    if (/^(TRUE|FALSE)$/i.test(token.text)) return;
+    result += body.slice(cursor, token.start);
+    result += mapper(token.text);
+    cursor = token.end;
+  });
+  result += body.slice(cursor);
+
+  return formula.trim().startsWith('=') ? `=${result}` : result;
+}
+
+/**
+ * Walk an expression tree, calling the visitor for every node
+ */
+function visitNodes(node: FormulaNode, visitor: (node: FormulaNode) => void) {
+  visitor(node);
+  switch (node.type) {
+    case 'unary':
+      visitNodes(node.operand, visitor);
+      break;
+    case 'binary':
+      visitNodes(node.left, visitor);
+      visitNodes(node.right, visitor);
+      break;
+    case 'call':
+      node.args.forEach(arg => visitNodes(arg, visitor));
+      break;
+  }
+}
+
+/**
+ * List the cell references used by a formula (ranges are expanded)
+ */
+export function getFormulaReferences(formula: string): string[] {
+  const references = new Set<string>();
+  visitNodes(parseFormula(formula), node => {
+    if (node.type === 'cell') references.add(node.address);
+    if (node.type === 'range') expandRange(node.from, node.to).forEach(address => references.add(address));
+  });
+  return Array.from(references);
+}
+
+/**
+ * List the named variables used by a formula
+ */
+export function getFormulaNames(formula: string): string[] {
+  const names = new Set<string>();
+  visitNodes(parseFormula(formula), node => {
+    if (node.type === 'name') names.add(node.name);
+  });
+  return Array.from(names);
+}
+
+/** A top-level term of a formula and whether it is added or subtracted */
+export interface FormulaTerm {
+  sign: 1 | -1;
+  text: string;
+}
+
+/**
+ * Split a formula at its top-level "+" and "-" operators
+ * (e.g. "A + 2*(B - C) - R" → +A, +2*(B - C), -R). Terms keep their original text;
+ * comparisons and "&" are not split, so this is meant for arithmetic formulas.
+ */
+export function splitFormulaTerms(formula: string): FormulaTerm[] {
+  const body = stripLeadingEquals(formula);
+  const terms: FormulaTerm[] = [];
+  let depth = 0;
+  let sign: 1 | -1 = 1;
+  let start = 0;
+  let expectOperand = true;
+
+  for (const token of tokenizeFormula(formula)) {
+    if (token.type === 'lparen') depth++;
+    if (token.type === 'rparen') depth--;
+
+    // A "+" or "-" where an operand is expected is a unary sign, not a split point
+    if (depth === 0 && !expectOperand && token.type === 'operator' && (token.text === '+' || token.text === '-')) {
+      terms.push({ sign, text: body.slice(start, token.start).trim() });
+      sign = token.text === '-' ? -1 : 1;
+      start = token.end;
+      expectOperand = true;
+      continue;
+    }
+    expectOperand = token.type === 'operator' || token.type === 'lparen' || token.type === 'comma';
+  }
+  terms.push({ sign, text: body.slice(start).trim() });
+
+  return terms;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'cell'; address: string }
+  | { type: 'range'; from: string; to: string }
+  | { type: 'name'; name: string }
+  | { type: 'unary'; operator: '+' | '-'; operand: FormulaNode }
+  | { type: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+// Binary operator precedence (higher binds tighter), matching Excel
+const PRECEDENCE: Record<string, number> = {
+  '=': 1, '<>': 1, '<': 1, '>': 1, '<=': 1, '>=': 1,
+  '&': 2,
+  '+': 3, '-': 3,
+  '*': 4, '/': 4,
+  '^': 5,
+};
+
+/**
+ * Parse a formula into an expression tree
+ */
+export function parseFormula(formula: string): FormulaNode {
+  const tokens = tokenizeFormula(formula);
+  if (tokens.length === 0) {
+    throw new FormulaError('#PARSE!', 'Empty formula');
+  }
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  const expect = (type: FormulaTokenType) => {
+    const token = next();
+    if (!token || token.type !== type) {
+      throw new FormulaError('#PARSE!', `Expected ${type} but found ${token ? `"${token.text}"` : 'end of formula'}`);
+    }
+    return token;
+  };
+
+  const parseExpression = (minPrecedence: number): FormulaNode => {
+    let left = parseUnary();
+
+    for (;;) {
+      const token = peek();
+      if (!token || token.type !== 'operator') break;
+      const precedence = PRECEDENCE[token.text];
+      if (precedence === undefined || precedence < minPrecedence) break;
+      next();
+      // "^" is left-associative in Excel, like every other operator
+      const right = parseExpression(precedence + 1);
+      left = { type: 'binary', operator: token.text, left, right };
+    }
+
+    return left;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    const token = peek();
+    if (token && token.type === 'operator' && (token.text === '+' || token.text === '-')) {
+      next();
+      // Unary minus binds tighter than "^" in Excel (=-2^2 is 4)
+      return { type: 'unary', operator: token.text, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+    if (!token) {
+      throw new FormulaError('#PARSE!', 'Unexpected end of formula');
+    }
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.text) };
+
+      case 'string':
+        return { type: 'string', value: token.text };
+
+      case 'cell': {
+        const from = normalizeAddress(token.text);
+        if (peek()?.type === 'colon') {
+          next();
+          const end = expect('cell');
+          return { type: 'range', from, to: normalizeAddress(end.text) };
+        }
+        return { type: 'cell', address: from };
+      }
+
+      case 'name': {
+        const upper = token.text.toUpperCase();
+        if (peek()?.type === 'lparen') {
+          next();
+          const args: FormulaNode[] = [];
+          if (peek()?.type !== 'rparen') {
+            args.push(parseExpression(1));
+            while (peek()?.type === 'comma') {
+              next();
+              args.push(parseExpression(1));
+            }
+          }
+          expect('rparen');
+          return { type: 'call', name: upper.replace(/^_XLFN\./, ''), args };
+        }
+        if (upper === 'TRUE' || upper === 'FALSE') {
+          return { type: 'boolean', value: upper === 'TRUE' };
+        }
+        return { type: 'name', name: token.text };
+      }
+
+      case 'lparen': {
+        const inner = parseExpression(1);
+        expect('rparen');
+        return inner;
+      }
+
+      default:
+        throw new FormulaError('#PARSE!', `Unexpected "${token.text}"`);
+    }
+  };
+
+  const tree = parseExpression(1);
+  if (position < tokens.length) {
+    throw new FormulaError('#PARSE!', `Unexpected "${tokens[position].text}" after end of expression`);
+  }
+  return tree;
+}
+
+/**
+ * Strip absolute markers so "$G$4" and "G4" resolve to the same cell
+ */
+function normalizeAddress(ref: string): string {
+  const address = parseCellAddress(ref);
+  if (!address) throw new FormulaError('#PARSE!', `Invalid reference "${ref}"`);
+  return `${address.column}${address.row}`;
+}
+
+/**
+ * Expand a rectangular range into individual cell addresses (row-major)
+ */
+export function expandRange(from: string, to: string): string[] {
+  const start = parseCellAddress(from);
+  const end = parseCellAddress(to);
+  if (!start || !end) throw new FormulaError('#REF!', `Invalid range ${from}:${to}`);
+
+  const colStart = Math.min(columnToIndex(start.column), columnToIndex(end.column));
+  const colEnd = Math.max(columnToIndex(start.column), columnToIndex(end.column));
+  const rowStart = Math.min(start.row, end.row);
+  const rowEnd = Math.max(start.row, end.row);
+
+  const cells: string[] = [];
+  for (let row = rowStart; row <= rowEnd; row++) {
+    for (let col = colStart; col <= colEnd; col++) {
+      cells.push(`${indexToColumn(col)}${row}`);
+    }
+  }
+  return cells;
+}
+
+// ============================================================================
+// EVALUATOR
+// ============================================================================
+
+type EvalValue = FormulaValue | FormulaValue[];
+
+function toNumber(value: FormulaValue): number {
+  if (value === null) return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const trimmed = value.trim();
+  if (trimmed === '') return 0;
+  const parsed = Number(trimmed);
+  if (Number.isNaN(parsed)) {
+    throw new FormulaError('#VALUE!', `Cannot use text "${value}" as a number`);
+  }
+  return parsed;
+}
+
+function toBoolean(value: FormulaValue): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const upper = value.toUpperCase();
+    if (upper === 'TRUE') return true;
+    if (upper === 'FALSE') return false;
+  }
+  return toNumber(value) !== 0;
+}
+
+function toText(value: FormulaValue): string {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+}
+
+function scalar(value: EvalValue): FormulaValue {
+  if (Array.isArray(value)) {
+    throw new FormulaError('#VALUE!', 'A range cannot be used as a single value');
+  }
+  return value;
+}
+
+/** Flatten function arguments; values coming from ranges keep only numbers (Excel SUM/MAX/MIN) */
+function collectNumbers(args: EvalValue[]): number[] {
+  const numbers: number[] = [];
+  for (const arg of args) {
+    if (Array.isArray(arg)) {
+      arg.forEach(value => {
+        if (typeof value === 'number') numbers.push(value);
+      });
+    } else {
+      numbers.push(toNumber(arg));
+    }
+  }
+  return numbers;
+}
+
+/** Remove binary floating point noise before rounding (e.g. 1.1*3 = 3.3000000000000003) */
+function cleanFloat(value: number): number {
+  return Number(value.toPrecision(15));
+}
+
+function excelRoundUp(value: number, digits: number): number {
+  const factor = Math.pow(10, Math.trunc(digits));
+  return (Math.sign(value) * Math.ceil(cleanFloat(Math.abs(value) * factor))) / factor;
+}
+
+function excelRoundDown(value: number, digits: number): number {
+  const factor = Math.pow(10, Math.trunc(digits));
+  return (Math.sign(value) * Math.floor(cleanFloat(Math.abs(value) * factor))) / factor;
+}
+
+function excelRound(value: number, digits: number): number {
+  const factor = Math.pow(10, Math.trunc(digits));
+  return (Math.sign(value) * Math.round(cleanFloat(Math.abs(value) * factor))) / factor;
+}
+
+function excelCeiling(value: number, significance: number): number {
+  if (significance === 0 || value === 0) return 0;
+  if (value > 0 && significance < 0) {
+    throw new FormulaError('#NUM!', 'CEILING significance must have the same sign as the number');
+  }
+  return Math.ceil(cleanFloat(value / significance)) * significance;
+}
+
+function requireArgs(name: string, args: unknown[], min: number, max: number) {
+  if (args.length < min || args.length > max) {
+    const expected = min === max ? `${min}` : `${min}-${max}`;
+    throw new FormulaError('#VALUE!', `${name} expects ${expected} argument(s), got ${args.length}`);
+  }
+}
+
+type FormulaFunction = (args: FormulaNode[], evaluate: (node: FormulaNode) => EvalValue) => FormulaValue;
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  ROUNDUP: (args, evaluate) => {
+    requireArgs('ROUNDUP', args, 1, 2);
+    const digits = args[1] ? toNumber(scalar(evaluate(args[1]))) : 0;
+    return excelRoundUp(toNumber(scalar(evaluate(args[0]))), digits);
+  },
+  ROUNDDOWN: (args, evaluate) => {
+    requireArgs('ROUNDDOWN', args, 1, 2);
+    const digits = args[1] ? toNumber(scalar(evaluate(args[1]))) : 0;
+    return excelRoundDown(toNumber(scalar(evaluate(args[0]))), digits);
+  },
+  ROUND: (args, evaluate) => {
+    requireArgs('ROUND', args, 1, 2);
+    const digits = args[1] ? toNumber(scalar(evaluate(args[1]))) : 0;
+    return excelRound(toNumber(scalar(evaluate(args[0]))), digits);
+  },
+  CEILING: (args, evaluate) => {
+    requireArgs('CEILING', args, 1, 2);
+    const significance = args[1] ? toNumber(scalar(evaluate(args[1]))) : 1;
+    return excelCeiling(toNumber(scalar(evaluate(args[0]))), significance);
+  },
+  SUM: (args, evaluate) => collectNumbers(args.map(evaluate)).reduce((total, n) => total + n, 0),
+  MAX: (args, evaluate) => {
+    const numbers = collectNumbers(args.map(evaluate));
+    return numbers.length > 0 ? Math.max(...numbers) : 0;
+  },
+  MIN: (args, evaluate) => {
+    const numbers = collectNumbers(args.map(evaluate));
+    return numbers.length > 0 ? Math.min(...numbers) : 0;
+  },
+  ABS: (args, evaluate) => {
+    requireArgs('ABS', args, 1, 1);
+    return Math.abs(toNumber(scalar(evaluate(args[0]))));
+  },
+  SQRT: (args, evaluate) => {
+    requireArgs('SQRT', args, 1, 1);
+    const value = toNumber(scalar(evaluate(args[0])));
+    if (value < 0) throw new FormulaError('#NUM!', 'SQRT of a negative number');
+    return Math.sqrt(value);
+  },
+  PI: args => {
+    requireArgs('PI', args, 0, 0);
+    return Math.PI;
+  },
+  IF: (args, evaluate) => {
+    requireArgs('IF', args, 1, 3);
+    // Only the selected branch is evaluated, so errors in the other branch are ignored
+    if (toBoolean(scalar(evaluate(args[0])))) {
+      return args[1] ? scalar(evaluate(args[1])) : true;
+    }
+    return args[2] ? scalar(evaluate(args[2])) : false;
+  },
+};
+
+// Excel aliases that behave like CEILING for positive values
+FUNCTIONS['CEILING.XCL'] = FUNCTIONS.CEILING;
+FUNCTIONS['CEILING.MATH'] = FUNCTIONS.CEILING;
+
+function compare(operator: string, left: FormulaValue, right: FormulaValue): boolean {
+  // Text comparisons are case-insensitive in Excel; otherwise compare numerically
+  const bothText = typeof left === 'string' && typeof right === 'string';
+  const a = bothText ? (left as string).toUpperCase() : toNumber(left);
+  const b = bothText ? (right as string).toUpperCase() : toNumber(right);
+
+  switch (operator) {
+    case '=': return a === b;
+    case '<>': return a !== b;
+    case '<': return a < b;
+    case '>': return a > b;
+    case '<=': return a <= b;
+    default: return a >= b;
+  }
+}
+
+function evaluateNode(node: FormulaNode, resolver: CellResolver): EvalValue {
+  const evaluate = (child: FormulaNode) => evaluateNode(child, resolver);
+
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+
+    case 'cell': {
+      const value = resolver.getCell(node.address);
+      if (value === undefined) {
+        throw new FormulaError('#REF!', `Cell ${node.address} is not defined in this context`);
+      }
+      return value;
+    }
+
+    case 'range':
+      return expandRange(node.from, node.to).map(address => {
+        const value = resolver.getCell(address);
+        if (value === undefined) {
+          throw new FormulaError('#REF!', `Cell ${address} in range ${node.from}:${node.to} is not defined in this context`);
+        }
+        return value;
+      });
+
+    case 'name': {
+      const value = resolver.getName?.(node.name);
+      if (value === undefined) {
+        throw new FormulaError('#NAME?', `Unknown name "${node.name}"`);
+      }
+      return value;
+    }
+
+    case 'unary': {
+      const value = toNumber(scalar(evaluate(node.operand)));
+      return node.operator === '-' ? -value : value;
+    }
+
+    case 'binary': {
+      const left = scalar(evaluate(node.left));
+      const right = scalar(evaluate(node.right));
+
+      if (PRECEDENCE[node.operator] === 1) {
+        return compare(node.operator, left, right);
+      }
+
+      switch (node.operator) {
+        case '&': return toText(left) + toText(right);
+        case '+': return toNumber(left) + toNumber(right);
+        case '-': return toNumber(left) - toNumber(right);
+        case '*': return toNumber(left) * toNumber(right);
+        case '/': {
+          const divisor = toNumber(right);
+          if (divisor === 0) throw new FormulaError('#DIV/0!', 'Division by zero');
+          return toNumber(left) / divisor;
+        }
+        case '^': return Math.pow(toNumber(left), toNumber(right));
+        default:
+          throw new FormulaError('#PARSE!', `Unknown operator "${node.operator}"`);
+      }
+    }
+
+    case 'call': {
+      const fn = FUNCTIONS[node.name];
+      if (!fn) throw new FormulaError('#NAME?', `Unknown function ${node.name}()`);
+      return fn(node.args, evaluate);
+    }
+  }
+}
+
+/**
+ * Evaluate a formula (with or without the leading "=") against a resolver.
+ * Never throws: parse and evaluation failures are returned as an Excel-style error.
+ */
+export function evaluateFormula(formula: string, resolver: CellResolver): FormulaResult {
+  try {
+    const value = scalar(evaluateNode(parseFormula(formula), resolver));
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new FormulaError('#NUM!', 'Result is not a finite number');
+    }
+    return { value };
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return { value: null, error };
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// SHEET CONTEXT (cells holding values or formulas)
+// ============================================================================
+
+/**
+ * Cell contents keyed by A1 address (no "$").
+ * Strings starting with "=" are formulas; null is an explicitly blank cell.
+ * Addresses that are absent are outside the context and raise #REF!.
+ */
+export type FormulaSheet = Record<string, FormulaValue>;
+
+/**
+ * Evaluates cells of a sheet, following references between formula cells.
+ * Named variables are aliases for cells (name → address) and resolve through the sheet.
+ * Results are memoised per evaluator; circular references raise #CIRC!.
+ */
+export function createSheetEvaluator(sheet: FormulaSheet, names: Record<string, string> = {}) {
+  const results = new Map<string, FormulaResult>();
+  const evaluating = new Set<string>();
+
+  const resolveCell = (address: string): FormulaValue | undefined => {
+    const key = normalizeAddress(address);
+    if (!Object.hasOwn(sheet, key)) return undefined;
+    const result = evaluateCell(key);
+    // Propagate the referenced cell's error, like Excel does
+    if (result.error) throw result.error;
+    return result.value;
+  };
+
+  const resolver: CellResolver = {
+    getCell: resolveCell,
+    getName: name => {
+      if (!Object.hasOwn(names, name)) return undefined;
+      const value = resolveCell(names[name]);
+      if (value === undefined) {
+        throw new FormulaError('#REF!', `"${name}" (${names[name]}) is not defined in this context`);
+      }
+      return value;
+    },
+  };
+
+  const evaluateCell = (address: string): FormulaResult => {
+    const key = normalizeAddress(address);
+    const cached = results.get(key);
+    if (cached) return cached;
+
+    if (!Object.hasOwn(sheet, key)) {
+      return { value: null, error: new FormulaError('#REF!', `Cell ${key} is not defined in this context`) };
+    }
+
+    const content = sheet[key];
+    if (typeof content !== 'string' || !content.startsWith('=')) {
+      const result = { value: content };
+      results.set(key, result);
+      return result;
+    }
+
+    if (evaluating.has(key)) {
+      throw new FormulaError('#CIRC!', `Circular reference through ${key}`);
+    }
+
+    evaluating.add(key);
+    let result: FormulaResult;
+    try {
+      result = evaluateFormula(content, resolver);
+    } catch (error) {
+      if (!(error instanceof FormulaError)) throw error;
+      result = { value: null, error };
+    } finally {
+      evaluating.delete(key);
+    }
+    results.set(key, result);
+    return result;
+  };
+
+  return { evaluateCell, resolver };
+}
@@ -0,0 +1,515 @@
+// Excel BBS workbook importer for component mode
+
+import * as ExcelJS from 'exceljs';
+import type {
+  BBSMetadata,
+  BarDirection,
+  BarMeasurements,
+  ComponentBarEntry,
+  ConcreteComponent,
+  ConcreteComponentType,
+  ConcreteGrade,
+  SteelGrade
+} from '../types/component-types';
+import { COMPONENT_COVERS } from './constants';
+import { columnToIndex, indexToColumn } from './excel-formula';
+import type { ParseError } from './csv-parser';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Cell value as read from the sheet (formula cells hold their cached result) */
+export type SheetCellValue = string | number | boolean | null;
+
+export interface SheetGrid {
+  name: string;
+  rows: SheetCellValue[][];        // rows[rowNumber - 1][columnIndex - 1]
+}
+
+/** Spreadsheet fields the importer reads from each row */
+export type BBSImportField =
+  | 'barType'
+  | 'spanX'
+  | 'spanY'
+  | 'spacing'
+  | 'diameter'
+  | 'barsPerMember'
+  | 'totalMembers'
+  | 'a'
+  | 'b'
+  | 'c'
+  | 'd'
+  | 'e'
+  | 'f'
+  | 'lap'
+  | 'bends';
+
+/** Column letter for each field (null = not imported) */
+export type BBSColumnMapping = Record<BBSImportField, string | null>;
+
+export interface AmbiguousColumn {
+  field: BBSImportField;
+  candidates: string[];            // Column letters whose header matched the field
+  reason: 'multiple-matches' | 'not-found';
+}
+
+export interface BBSImportResult {
+  success: boolean;
+  sheetName: string;
+  components: ConcreteComponent[];
+  metadata: Partial<BBSMetadata>;
+  mapping: BBSColumnMapping;
+  ambiguous: AmbiguousColumn[];
+  headerRows: number[];            // Sheet rows recognised as table headers
+  errors: ParseError[];
+}
+
+// ============================================================================
+// COLUMN DETECTION
+// ============================================================================
+
+export const BBS_IMPORT_FIELDS: BBSImportField[] = [
+  'barType', 'spanX', 'spanY', 'spacing', 'diameter', 'barsPerMember', 'totalMembers',
+  'a', 'b', 'c', 'd', 'e', 'f', 'lap', 'bends'
+];
+
+export const BBS_IMPORT_FIELD_LABELS: Record<BBSImportField, string> = {
+  barType: 'Bar Type',
+  spanX: 'Span (X)',
+  spanY: 'Span (Y)',
+  spacing: 'Spacing',
+  diameter: 'Dia',
+  barsPerMember: 'Bars / Member',
+  totalMembers: 'Total Members',
+  a: 'a',
+  b: 'b',
+  c: 'c',
+  d: 'd',
+  e: 'e',
+  f: 'f',
+  lap: 'Lap',
+  bends: 'No of Bends',
+};
+
+// Column layout of the reference sheet (Sample Slab BBS.xlsx)
+export const DEFAULT_BBS_COLUMN_MAPPING: BBSColumnMapping = {
+  barType: 'B',
+  spanX: 'C',
+  spanY: 'D',
+  spacing: 'E',
+  diameter: 'F',
+  barsPerMember: 'G',
+  totalMembers: 'H',
+  a: 'J',
+  b: 'K',
+  c: 'L',
+  d: 'M',
+  e: 'N',
+  f: 'O',
+  lap: 'P',
+  bends: 'R',
+};
+
+// Header text patterns (matched against lower-cased, whitespace-collapsed cell text)
+const HEADER_PATTERNS: Record<BBSImportField, RegExp> = {
+  barType: /^(bar type|description)$/,
+  spanX: /^span\s*\(?x\)?/,
+  spanY: /^span\s*\(?y\)?/,
+  spacing: /^spacing/,
+  diameter: /^dia(\.|meter)?\s*(\(mm\))?$/,
+  barsPerMember: /per member/,
+  totalMembers: /no\.? of members/,
+  a: /^a$/,
+  b: /^b$/,
+  c: /^c$/,
+  d: /^d$/,
+  e: /^e$/,
+  f: /^f$/,
+  lap: /^lap$/,
+  bends: /bends/,
+};
+
+// A row is treated as a header row when it matches at least this many fields
+const MIN_HEADER_MATCHES = 3;
+
+function normalizeText(value: SheetCellValue): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().toLowerCase() : '';
+}
+
+function matchHeaderCell(value: SheetCellValue): BBSImportField[] {
+  const text = normalizeText(value);
+  if (!text) return [];
+  return BBS_IMPORT_FIELDS.filter(field => HEADER_PATTERNS[field].test(text));
+}
+
+/**
+ * Find the header rows of the BBS table and map each field to a column.
+ * Fields found in several columns, or not found at all, are reported as ambiguous;
+ * for those the mapping falls back to the reference sheet layout.
+ */
+export function detectColumnMapping(grid: SheetGrid): {
+  mapping: BBSColumnMapping;
+  ambiguous: AmbiguousColumn[];
+  headerRows: number[];
+} {
+  const headerRows: number[] = [];
+  const candidates = new Map<BBSImportField, Set<string>>();
+
+  // Header rows sit above the first component, so only the top of the sheet is scanned
+  grid.rows.slice(0, 30).forEach((row, rowIndex) => {
+    const matches = row.map(matchHeaderCell);
+    const matchedFields = new Set(matches.flat());
+    if (matchedFields.size < MIN_HEADER_MATCHES) return;
+
+    headerRows.push(rowIndex + 1);
+    matches.forEach((fields, colIndex) => {
+      fields.forEach(field => {
+        if (!candidates.has(field)) candidates.set(field, new Set());
+        candidates.get(field)!.add(indexToColumn(colIndex + 1));
+      });
+    });
+  });
+
+  const mapping = { ...DEFAULT_BBS_COLUMN_MAPPING };
+  const ambiguous: AmbiguousColumn[] = [];
+
+  BBS_IMPORT_FIELDS.forEach(field => {
+    const columns = Array.from(candidates.get(field) ?? []);
+    if (columns.length === 1) {
+      mapping[field] = columns[0];
+    } else if (columns.length > 1) {
+      mapping[field] = columns.includes(DEFAULT_BBS_COLUMN_MAPPING[field]!)
+        ? DEFAULT_BBS_COLUMN_MAPPING[field]
+        : columns[0];
+      ambiguous.push({ field, candidates: columns, reason: 'multiple-matches' });
+    } else {
+      ambiguous.push({ field, candidates: [], reason: 'not-found' });
+    }
+  });
+
+  return { mapping, ambiguous, headerRows };
+}
+
+// ============================================================================
+// CELL HELPERS
+// ============================================================================
+
+function getCell(row: SheetCellValue[] | undefined, column: string | null): SheetCellValue {
+  if (!row || !column) return null;
+  return row[columnToIndex(column) - 1] ?? null;
+}
+
+function toNumber(value: SheetCellValue): number | undefined {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value.trim());
+    return Number.isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
+
+function toText(value: SheetCellValue): string {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+}
+
+function isRowEmpty(row: SheetCellValue[] | undefined): boolean {
+  return !row || row.every(value => value === null || toText(value) === '');
+}
+
+/**
+ * Direction from the bar type label, matching BBSSpreadsheetView's auto-direction
+ */
+function directionFromBarType(barType: string): BarDirection {
+  if (/\(\s*Y\s*-\s*Y\s*\)/i.test(barType)) return 'Y';
+  if (/\(\s*X\s*-\s*X\s*\)/i.test(barType)) return 'X';
+  return 'X';
+}
+
+// ============================================================================
+// METADATA
+// ============================================================================
+
+const COMPONENT_TYPE_LABELS: Record<string, ConcreteComponentType> = {
+  slab: 'SLAB',
+  beam: 'BEAM',
+  column: 'COLUMN',
+  footing: 'FOOTING',
+  staircase: 'STAIRCASE',
+  wall: 'WALL',
+};
+
+/** Text after a "Label :- value" prefix, or the whole text when there is no separator */
+function labelValue(text: string): string {
+  const match = /^[^:]*:-?\s*(.*)$/.exec(text);
+  return (match ? match[1] : text).trim();
+}
+
+function toSteelGrade(value: string): SteelGrade | undefined {
+  const match = /(415|500|550)/.exec(value);
+  return match ? (`Fe${match[1]}` as SteelGrade) : undefined;
+}
+
+function toConcreteGrade(value: string): ConcreteGrade | undefined {
+  const match = /^M\s*(20|25|30|35|40)$/i.exec(value.trim());
+  return match ? (`M${match[1]}` as ConcreteGrade) : undefined;
+}
+
+/**
+ * Read the project block above the table: project, drawing, item, grades,
+ * cover, component type and the Ld reference table.
+ */
+function parseProjectHeader(grid: SheetGrid, firstHeaderRow: number) {
+  const metadata: Partial<BBSMetadata> = {};
+  let componentType: ConcreteComponentType | undefined;
+  let cover: number | undefined;
+  let diameterRow: SheetCellValue[] | undefined;
+
+  grid.rows.slice(0, Math.max(firstHeaderRow - 1, 0)).forEach(row => {
+    row.forEach((value, colIndex) => {
+      const text = toText(value);
+      const lower = text.toLowerCase();
+      const next = row[colIndex + 1] ?? null;
+
+      if (/^project\b/.test(lower)) metadata.projectName = labelValue(text);
+      else if (/^dwg\b|^drawing\b/.test(lower)) metadata.drawingNumber = labelValue(text);
+      else if (/^item\b/.test(lower)) metadata.itemDescription = labelValue(text);
+      else if (lower === 'concrete') metadata.concreteGrade = toConcreteGrade(toText(next)) ?? metadata.concreteGrade;
+      else if (/grade of steel|^steel\b/.test(lower)) metadata.steelGrade = toSteelGrade(toText(next)) ?? metadata.steelGrade;
+      else if (lower === 'cover') cover = toNumber(next) ?? cover;
+      else if (COMPONENT_TYPE_LABELS[lower]) componentType = COMPONENT_TYPE_LABELS[lower];
+      else if (/^dia of bar/.test(lower)) diameterRow = row;
+      else if (/^ld\b/.test(lower) && diameterRow) {
+        const developmentLengths: Record<number, number> = {};
+        row.forEach((ldValue, ldIndex) => {
+          const dia = toNumber(diameterRow![ldIndex] ?? null);
+          const ld = toNumber(ldValue);
+          if (dia !== undefined && ld !== undefined && ldIndex > colIndex) developmentLengths[dia] = ld;
+        });
+        if (Object.keys(developmentLengths).length > 0) metadata.developmentLengthOverrides = developmentLengths;
+      }
+    });
+  });
+
+  return { metadata, componentType, cover };
+}
+
+// ============================================================================
+// GRID PARSER
+// ============================================================================
+
+/**
+ * Parse a BBS sheet grid into components.
+ *
+ * Row kinds (reference layout, Sample Slab BBS.xlsx):
+ * - Component header: label in the bar type column with span X/Y values and no
+ *   spacing, e.g. "A1 (B1 - BK)" | 3160 | 1350; depth sits in the dia column and
+ *   the top extensions left/right/top/bottom in the b–e columns.
+ * - Span rows: no label, numeric span X/Y values - beam widths left/top, then right/bottom.
+ * - Bar rows: label in the bar type column with a diameter.
+ * Parsing stops at the first "Total ..." row.
+ */
+export function parseBBSGrid(grid: SheetGrid, mappingOverride?: Partial<BBSColumnMapping>): BBSImportResult {
+  const detected = detectColumnMapping(grid);
+  const mapping: BBSColumnMapping = { ...detected.mapping, ...mappingOverride };
+  const ambiguous = detected.ambiguous.filter(item => !mappingOverride || mappingOverride[item.field] === undefined);
+  const errors: ParseError[] = [];
+  const components: ConcreteComponent[] = [];
+
+  if (detected.headerRows.length === 0) {
+    return {
+      success: false,
+      sheetName: grid.name,
+      components,
+      metadata: {},
+      mapping,
+      ambiguous,
+      headerRows: [],
+      errors: [{ row: 0, column: '', message: `No BBS header row (Bar Type, Spacing, Dia, a–f) found in sheet "${grid.name}"`, value: '' }],
+    };
+  }
+
+  const firstHeaderRow = detected.headerRows[0];
+  const lastHeaderRow = detected.headerRows[detected.headerRows.length - 1];
+  const header = parseProjectHeader(grid, firstHeaderRow);
+  const componentType = header.componentType ?? 'SLAB';
+  const cover = header.cover ?? COMPONENT_COVERS[componentType] ?? 25;
+
+  let current: ConcreteComponent | null = null;
+  let widthRowsRead = 0;
+
+  for (let rowNumber = lastHeaderRow + 1; rowNumber <= grid.rows.length; rowNumber++) {
+    const row = grid.rows[rowNumber - 1];
+    if (isRowEmpty(row)) continue;
+
+    const label = toText(getCell(row, mapping.barType));
+    if (/^total\b/i.test(label)) break;
+
+    const spanX = toNumber(getCell(row, mapping.spanX));
+    const spanY = toNumber(getCell(row, mapping.spanY));
+    const spacing = toNumber(getCell(row, mapping.spacing));
+    const diameter = toNumber(getCell(row, mapping.diameter));
+
+    // Component header row
+    if (label && (spanX !== undefined || spanY !== undefined) && spacing === undefined) {
+      const extension = (field: BBSImportField) => toNumber(getCell(row, mapping[field])) ?? 0;
+      const hasExtensions = ['b', 'c', 'd', 'e'].some(field => toNumber(getCell(row, mapping[field as BBSImportField])) !== undefined);
+
+      current = {
+        id: crypto.randomUUID(),
+        name: label,
+        componentType,
+        spanX: spanX ?? 0,
+        spanY: spanY ?? 0,
+        depth: diameter,
+        cover,
+        topExtensions: hasExtensions
+          ? { left: extension('b'), right: extension('c'), top: extension('d'), bottom: extension('e') }
+          : undefined,
+        bars: [],
+      };
+      components.push(current);
+      widthRowsRead = 0;
+      continue;
+    }
+
+    // Beam width rows below the component header
+    if (!label && current && current.bars.length === 0 && (spanX !== undefined || spanY !== undefined)) {
+      const widths = current.beamWidths ?? { left: 0, right: 0, top: 0, bottom: 0 };
+      if (widthRowsRead === 0) {
+        current.beamWidths = { ...widths, left: spanX ?? 0, top: spanY ?? 0 };
+      } else if (widthRowsRead === 1) {
+        current.beamWidths = { ...widths, right: spanX ?? 0, bottom: spanY ?? 0 };
+      } else {
+        errors.push({ row: rowNumber, column: mapping.spanX ?? '', message: 'Unexpected extra span row ignored', value: toText(getCell(row, mapping.spanX)) });
+      }
+      widthRowsRead++;
+      continue;
+    }
+
+    // Bar row
+    if (label && diameter !== undefined) {
+      if (!current) {
+        errors.push({ row: rowNumber, column: mapping.barType ?? '', message: 'Bar row found before any component header', value: label });
+        continue;
+      }
+
+      const measurements: BarMeasurements = { a: toNumber(getCell(row, mapping.a)) ?? 0 };
+      (['b', 'c', 'd', 'e', 'f', 'lap'] as const).forEach(field => {
+        const value = toNumber(getCell(row, mapping[field]));
+        if (value !== undefined) measurements[field] = value;
+      });
+
+      const bends = toNumber(getCell(row, mapping.bends));
+      const bar: ComponentBarEntry = {
+        id: crypto.randomUUID(),
+        barType: label,
+        direction: directionFromBarType(label),
+        diameter,
+        spacing: spacing ?? 0,
+        barsPerMember: toNumber(getCell(row, mapping.barsPerMember)),
+        totalMembers: toNumber(getCell(row, mapping.totalMembers)),
+        measurements,
+        manualNoOfDeductions: bends,
+      };
+      current.bars.push(bar);
+      continue;
+    }
+
+    // Label-only rows ("Left/Right", notes) carry no data
+    if (!label && spanX === undefined && spanY === undefined) continue;
+
+    errors.push({
+      row: rowNumber,
+      column: mapping.barType ?? '',
+      message: label ? 'Row has a label but no diameter or spans' : 'Unrecognised row',
+      value: label,
+    });
+  }
+
+  if (components.length === 0) {
+    errors.push({ row: 0, column: '', message: `No components found in sheet "${grid.name}"`, value: '' });
+  }
+
+  return {
+    success: components.length > 0,
+    sheetName: grid.name,
+    components,
+    metadata: header.metadata,
+    mapping,
+    ambiguous,
+    headerRows: detected.headerRows,
+    errors,
+  };
+}
+
+// ============================================================================
+// WORKBOOK READING
+// ============================================================================
+
+function toSheetValue(value: ExcelJS.CellValue): SheetCellValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('result' in value) {
+      const result = value.result;
+      if (result === undefined || result === null || typeof result === 'object') return null;
+      return result as SheetCellValue;
+    }
+    if ('text' in value) return String(value.text);
+    if ('error' in value) return null;
+  }
+  return null;
+}
+
+/**
+ * Read every worksheet of an .xlsx workbook into plain value grids
+ */
+export async function readBBSWorkbook(data: ArrayBuffer): Promise<SheetGrid[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+
+  return workbook.worksheets.map(worksheet => {
+    const rows: SheetCellValue[][] = [];
+    for (let rowNumber = 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+      const row = worksheet.getRow(rowNumber);
+      const values: SheetCellValue[] = [];
+      row.eachCell({ includeEmpty: false }, (cell, colNumber) => {
+        values[colNumber - 1] = toSheetValue(cell.value);
+      });
+      rows.push(Array.from(values, value => value ?? null));
+    }
+    return { name: worksheet.name, rows };
+  });
+}
+
+/**
+ * Import the first sheet that contains a BBS table (or the named sheet)
+ */
+export async function importBBSWorkbook(
+  data: ArrayBuffer,
+  options: { sheetName?: string; mapping?: Partial<BBSColumnMapping> } = {}
+): Promise<BBSImportResult> {
+  const grids = await readBBSWorkbook(data);
+  const grid = options.sheetName
+    ? grids.find(sheet => sheet.name === options.sheetName)
+    : grids.find(sheet => detectColumnMapping(sheet).headerRows.length > 0) ?? grids[0];
+
+  if (!grid) {
+    return {
+      success: false,
+      sheetName: options.sheetName ?? '',
+      components: [],
+      metadata: {},
+      mapping: { ...DEFAULT_BBS_COLUMN_MAPPING },
+      ambiguous: [],
+      headerRows: [],
+      errors: [{ row: 0, column: '', message: 'Workbook has no matching worksheet', value: options.sheetName ?? '' }],
+    };
+  }
+
+  return parseBBSGrid(grid, options.mapping);
+}
@@ -0,0 +1,220 @@
+/**
+ * Fabrication Tags
+ * Printable tags for the bundles of cut and bent bars in the yard. Each calculated
+ * bar (manual CalculatedBar or component bar with its CalculatedBarResult) is split
+ * into bundles no heavier than the maximum bundle weight, as evenly as possible,
+ * and every bundle gets a tag with the project, component, bar type, mark,
+ * diameter, shape, dimensions, quantity and weight.
+ *
+ * Component bars have no shape code; the tag shape comes from the bar type and
+ * number of bends (straight, L, U, stirrup or link) with the segments a..f as
+ * dimensions A..F. Designed tie sets get a tag per piece of the set.
+ *
+ * The QR payload is the tag data as key=value pairs separated by ';':
+ * P project, DWG drawing, M member, BM bar mark, T bar type, DIA diameter, S shape,
+ * A..F dimensions, L cut length, N quantity, W weight (kg), BN bundle/bundles.
+ */
+
+import type { BarDimensions, CalculatedBar, ProjectConfig, ShapeCode, ShapeDimension } from '../types';
+import type {
+  BarMeasurements,
+  CalculatedBarResult,
+  ComponentBarEntry,
+  ConcreteComponent
+} from '../types/component-types';
+import { calculateComponentBarEntryEnhanced } from './enhanced-calculator';
+import { getDevelopmentLengthContext } from './development-length';
+import { getShapeDefinition } from './shape-registry';
+import { getTiePieceQuantities } from './tie-designer';
+
+export const DEFAULT_MAX_BUNDLE_WEIGHT = 2000;   // kg - what the yard crane lifts in one bundle
+const PAYLOAD_TEXT_LENGTH = 24;                   // Longest text field in the QR payload
+
+const DIMENSIONS: ShapeDimension[] = ['A', 'B', 'C', 'D', 'E', 'F'];
+const SEGMENTS = ['a', 'b', 'c', 'd', 'e', 'f'] as const;
+
+export interface FabricationTagOptions {
+  maxBundleWeight: number;         // kg
+}
+
+export const DEFAULT_TAG_OPTIONS: FabricationTagOptions = {
+  maxBundleWeight: DEFAULT_MAX_BUNDLE_WEIGHT,
+};
+
+/** Tag of one bundle */
+export interface FabricationTag {
+  id: string;
+  project: string;
+  drawingNumber?: string;
+  member: string;                  // Component name, or member type in manual mode
+  barType: string;                 // "Bottom Bar (X-X)", or the shape name in manual mode
+  barMark?: string;
+  diameter: number;                // mm
+  shapeCode: ShapeCode;
+  dimensions: BarDimensions;       // mm
+  cutLength: number;               // mm
+  quantity: number;                // Bars in this bundle
+  weight: number;                  // kg - this bundle
+  bundle: number;                  // 1-based
+  bundles: number;                 // Bundles of this bar
+}
+
+type TagSource = Omit<FabricationTag, 'id' | 'quantity' | 'weight' | 'bundle' | 'bundles'>;
+
+// ============================================================================
+// BUNDLES
+// ============================================================================
+
+/**
+ * Bars per bundle: fewest bundles within the maximum weight, quantities differing by
+ * at most one bar. A bar heavier than the limit goes in a bundle of its own.
+ */
+export function splitIntoBundles(quantity: number, barWeight: number, maxBundleWeight: number): number[] {
+  if (quantity <= 0) return [];
+  if (barWeight <= 0 || maxBundleWeight <= 0) return [quantity];
+
+  const perBundle = Math.max(1, Math.floor(maxBundleWeight / barWeight));
+  const count = Math.ceil(quantity / perBundle);
+  const base = Math.floor(quantity / count);
+  const extra = quantity % count;
+  return Array.from({ length: count }, (_, i) => base + (i < extra ? 1 : 0));
+}
+
+function createTags(
+  id: string,
+  source: TagSource,
+  quantity: number,
+  totalWeight: number,
+  options: FabricationTagOptions
+): FabricationTag[] {
+  const barWeight = quantity > 0 ? totalWeight / quantity : 0;
+  const bundles = splitIntoBundles(quantity, barWeight, options.maxBundleWeight);
+  return bundles.map((bundleQuantity, i) => ({
+    ...source,
+    id: `${id}-${i + 1}`,
+    quantity: bundleQuantity,
+    weight: barWeight * bundleQuantity,
+    bundle: i + 1,
+    bundles: bundles.length,
+  }));
+}
+
+// ============================================================================
+// TAGS
+// ============================================================================
+
+/**
+ * Tags of manually entered bars
+ */
+export function getCalculatedBarTags(
+  bars: CalculatedBar[],
+  project: ProjectConfig,
+  options: FabricationTagOptions = DEFAULT_TAG_OPTIONS
+): FabricationTag[] {
+  return bars.flatMap(bar => createTags(bar.id, {
+    project: project.name,
+    drawingNumber: project.bbsMetadata?.drawingNumber || undefined,
+    member: bar.memberType,
+    barType: getShapeDefinition(bar.shapeCode)?.name ?? bar.shapeCode,
+    barMark: bar.barMark,
+    diameter: bar.diameter,
+    shapeCode: bar.shapeCode,
+    dimensions: bar.dimensions,
+    cutLength: bar.cutLength,
+  }, bar.quantity, bar.totalWeight, options));
+}
+
+// Segments a..f as shape dimensions A..F
+function getSegmentDimensions(measurements: BarMeasurements): BarDimensions {
+  const dimensions: BarDimensions = { A: 0 };
+  SEGMENTS.forEach((segment, i) => {
+    const value = measurements[segment];
+    if (value) dimensions[DIMENSIONS[i]] = Math.round(value);
+  });
+  return dimensions;
+}
+
+/**
+ * Shape drawn on the tag of a component bar
+ */
+export function getComponentBarShape(
+  bar: ComponentBarEntry,
+  result: CalculatedBarResult
+): { shapeCode: ShapeCode; dimensions: BarDimensions } {
+  const dimensions = getSegmentDimensions(bar.measurements);
+
+  if (/link/i.test(bar.barType)) return { shapeCode: 'S7', dimensions: { A: dimensions.A } };
+  if (/stirrup|tie/i.test(bar.barType)) return { shapeCode: 'S3', dimensions };
+  if (result.noOfDeductions === 1) return { shapeCode: 'S5', dimensions };
+  if (result.noOfDeductions === 2) return { shapeCode: 'S2', dimensions };
+  return { shapeCode: 'S1', dimensions: { A: Math.round(result.cuttingLength) } };
+}
+
+/**
+ * Tags of component bars
+ */
+export function getComponentBarTags(
+  components: ConcreteComponent[],
+  project: ProjectConfig,
+  options: FabricationTagOptions = DEFAULT_TAG_OPTIONS
+): FabricationTag[] {
+  const ld = getDevelopmentLengthContext(project.bbsMetadata);
+  return components.flatMap(component => component.bars.flatMap(bar => {
+    const result = bar.calculated ?? calculateComponentBarEntryEnhanced(bar, component, ld);
+    const source = {
+      project: project.name,
+      drawingNumber: project.bbsMetadata?.drawingNumber || undefined,
+      member: component.name,
+      barType: bar.barType,
+      barMark: bar.barMark,
+      diameter: bar.diameter,
+    };
+
+    // Designed tie sets: a tag per piece, with its own shape, length and count
+    if (result.ties) {
+      return getTiePieceQuantities(result).flatMap(({ piece, quantity }, i) => createTags(`${bar.id}-${i + 1}`, {
+        ...source,
+        barType: `${bar.barType} - ${piece.name}`,
+        shapeCode: piece.shapeCode,
+        dimensions: getSegmentDimensions(piece.measurements),
+        cutLength: piece.cutLength,
+      }, quantity, (piece.cutLength * quantity / 1000) * result.unitWeight, options));
+    }
+
+    return createTags(bar.id, {
+      ...source,
+      ...getComponentBarShape(bar, result),
+      cutLength: result.cuttingLength,
+    }, result.noOfBars, result.totalWeight, options);
+  }));
+}
+
+// ============================================================================
+// QR PAYLOAD
+// ============================================================================
+
+const payloadText = (value: string) => value.replace(/[;=]/g, ',').trim().slice(0, PAYLOAD_TEXT_LENGTH);
+
+/**
+ * Data encoded in the QR code of a tag
+ */
+export function getTagPayload(tag: FabricationTag): string {
+  const fields: [string, string | number | undefined][] = [
+    ['P', payloadText(tag.project)],
+    ['DWG', tag.drawingNumber && payloadText(tag.drawingNumber)],
+    ['M', payloadText(tag.member)],
+    ['BM', tag.barMark && payloadText(tag.barMark)],
+    ['T', payloadText(tag.barType)],
+    ['DIA', tag.diameter],
+    ['S', tag.shapeCode],
+    ...DIMENSIONS.map((dimension): [string, number | undefined] => [dimension, tag.dimensions[dimension]]),
+    ['L', Math.round(tag.cutLength)],
+    ['N', tag.quantity],
+    ['W', tag.weight.toFixed(1)],
+    ['BN', `${tag.bundle}/${tag.bundles}`],
+  ];
+  return fields
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${value}`)
+    .join(';');
+}
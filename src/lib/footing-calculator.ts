@@ -0,0 +1,243 @@
+/**
+ * Combined and Stepped Footing Calculator
+ * Bars for FOOTING components with footing geometry (component.footing):
+ *
+ * - Combined footings: two or more columns along X, top bars between the columns
+ *   for the hogging moment, and an optional strap beam from the first to the last column
+ * - Stepped and sloped isolated footings: the bottom mesh turns up at the shallower
+ *   edge, top bars follow the sloped faces or sit on the upper step
+ * - Dowels lap with the column bars and take their size and number
+ *
+ * Bar types without a geometry rule fall back to the isolated footing formulas.
+ */
+
+import type {
+  BarMeasurements,
+  ConcreteComponent,
+  FootingColumn
+} from '../types/component-types';
+import { resolveDevelopmentLength, type DevelopmentLengthContext } from './development-length';
+import { DEFAULT_LAP_SPLICE_RULES, getSpliceLapLength } from './lap-splice-planner';
+import { getTieHookLength } from './tie-designer';
+
+const TOP_OFFSET = 75;                 // mm - flat top / upper step beyond each column face
+const MIN_EDGE_DEPTH = 150;            // mm - IS 456 34.1.2 minimum edge thickness
+const DOWEL_FOOT = 12;                 // × d, foot resting on the bottom mesh
+
+export function hasFootingGeometry(component: ConcreteComponent): boolean {
+  return component.componentType === 'FOOTING' && !!component.footing &&
+    component.footingType !== 'PILE_CYLINDER' && component.footingType !== 'PILE_CUBOID';
+}
+
+/**
+ * Columns on the footing, left to right; a single centred 300mm column by default
+ */
+export function getFootingColumns(component: ConcreteComponent): FootingColumn[] {
+  const columns = component.footing?.columns;
+  if (columns && columns.length > 0) {
+    return [...columns].sort((a, b) => a.position - b.position);
+  }
+  return [{ position: component.spanX / 2, width: 300, depth: 300 }];
+}
+
+const isCombined = (component: ConcreteComponent) =>
+  component.footingType === 'COMBINED' && getFootingColumns(component).length > 1;
+
+const getProfile = (component: ConcreteComponent) =>
+  isCombined(component) ? 'FLAT' : component.footing?.profile ?? 'FLAT';
+
+/**
+ * Depth at the footing edge: full depth when flat, otherwise the sloped edge or lower step
+ */
+export function getEdgeDepth(component: ConcreteComponent): number {
+  const depth = component.depth || 500;
+  if (getProfile(component) === 'FLAT') return depth;
+  return Math.min(depth, component.footing?.edgeDepth ?? Math.max(MIN_EDGE_DEPTH, depth / 2));
+}
+
+/**
+ * Plan size of the flat top (sloped) or upper step (stepped) round the first column
+ */
+export function getFootingTop(component: ConcreteComponent): { length: number; width: number } {
+  const [column] = getFootingColumns(component);
+  return {
+    length: component.footing?.topLength ?? column.width + 2 * TOP_OFFSET,
+    width: component.footing?.topWidth ?? column.depth + 2 * TOP_OFFSET,
+  };
+}
+
+/**
+ * Clear distance between the inner faces of the outermost columns
+ */
+function getColumnClearSpan(component: ConcreteComponent): number {
+  const columns = getFootingColumns(component);
+  const first = columns[0];
+  const last = columns[columns.length - 1];
+  return Math.max(0, (last.position - last.width / 2) - (first.position + first.width / 2));
+}
+
+/**
+ * Dowel size from the column bars (the largest if columns differ)
+ */
+export function getDowelDiameter(component: ConcreteComponent): number | undefined {
+  const sizes = getFootingColumns(component)
+    .map(column => column.barDiameter)
+    .filter((size): size is number => !!size);
+  return sizes.length > 0 ? Math.max(...sizes) : undefined;
+}
+
+// Top bars between the columns: Ld past each inner face, within the footing
+function getCombinedTopLength(component: ConcreteComponent, diameter: number, ld: DevelopmentLengthContext): number {
+  const developmentLength = resolveDevelopmentLength(diameter, ld);
+  return Math.ceil(Math.min(component.spanX - 2 * component.cover, getColumnClearSpan(component) + 2 * developmentLength));
+}
+
+// Top bar over a sloped face: flat top plus both slopes, measured along the slope
+function getSlopedTopLength(span: number, top: number, component: ConcreteComponent): number {
+  const run = Math.max(0, (span - top) / 2 - component.cover);
+  const rise = (component.depth || 500) - getEdgeDepth(component);
+  return Math.ceil(top + 2 * Math.hypot(run, rise));
+}
+
+// ============================================================================
+// MEASUREMENTS
+// ============================================================================
+
+/**
+ * Measurements of a footing bar from the footing geometry, or undefined to use
+ * the isolated footing formulas
+ */
+export function calculateFootingGeometryMeasurements(
+  barType: string,
+  component: ConcreteComponent,
+  diameter: number,
+  ld: DevelopmentLengthContext
+): BarMeasurements | undefined {
+  const normalizedType = barType.toLowerCase();
+  const cover = component.cover;
+  const depth = component.depth || 500;
+  const profile = getProfile(component);
+  const top = getFootingTop(component);
+
+  // Bottom mesh: full length or width, ends turned up at the edge
+  if (normalizedType === 'bottom main (l)' || normalizedType === 'bottom dist (b)') {
+    const span = normalizedType === 'bottom main (l)' ? component.spanX : component.spanY;
+    const leg = Math.max(0, getEdgeDepth(component) - 2 * cover);
+    return { a: span - 2 * cover, b: leg, c: leg };
+  }
+
+  if (normalizedType === 'top main (l)' || normalizedType === 'top dist (b)') {
+    const alongX = normalizedType === 'top main (l)';
+    if (isCombined(component)) {
+      return alongX
+        ? { a: getCombinedTopLength(component, diameter, ld) }
+        : { a: component.spanY - 2 * cover };
+    }
+    if (profile === 'SLOPED') {
+      return alongX
+        ? { a: getSlopedTopLength(component.spanX, top.length, component) }
+        : { a: getSlopedTopLength(component.spanY, top.width, component) };
+    }
+    if (profile === 'STEPPED') {
+      return { a: (alongX ? top.length : top.width) - 2 * cover };
+    }
+    return undefined;
+  }
+
+  // Dowels: lap above the footing, down to a foot on the bottom mesh
+  if (normalizedType === 'dowel bars') {
+    const lap = getSpliceLapLength(
+      diameter,
+      resolveDevelopmentLength(diameter, ld),
+      ld.profile?.lapSplice ?? DEFAULT_LAP_SPLICE_RULES
+    );
+    return { a: lap + depth - cover, b: DOWEL_FOOT * diameter };
+  }
+
+  const strap = component.footing?.strapBeam;
+  if (strap && normalizedType === 'strap beam bar') {
+    return { a: Math.ceil(getColumnClearSpan(component) + 2 * resolveDevelopmentLength(diameter, ld)) };
+  }
+  if (strap && normalizedType === 'strap beam stirrups') {
+    const perimeter = 2 * (strap.width - 2 * cover) + 2 * (strap.depth - 2 * cover);
+    return { a: perimeter + 2 * getTieHookLength(135, diameter) };
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// COUNTS AND BENDS
+// ============================================================================
+
+/**
+ * Number of bars from the footing geometry, or undefined to use the isolated footing counts
+ */
+export function calculateFootingGeometryCount(
+  barType: string,
+  component: ConcreteComponent,
+  spacing: number
+): number | undefined {
+  const normalizedType = barType.toLowerCase();
+  const top = getFootingTop(component);
+
+  if (normalizedType === 'top main (l)' && getProfile(component) === 'STEPPED') {
+    return Math.ceil(top.width / spacing); // Across the upper step
+  }
+
+  if (normalizedType === 'top dist (b)') {
+    if (isCombined(component)) {
+      return Math.ceil(getColumnClearSpan(component) / spacing); // Between the columns
+    }
+    if (getProfile(component) === 'STEPPED') {
+      return Math.ceil(top.length / spacing);
+    }
+  }
+
+  // One dowel per column bar
+  if (normalizedType === 'dowel bars') {
+    const bars = getFootingColumns(component).reduce((total, column) => total + (column.barCount || 0), 0);
+    return bars > 0 ? bars : undefined;
+  }
+
+  const strap = component.footing?.strapBeam;
+  if (strap && normalizedType === 'strap beam bar') {
+    const perLayer = Math.max(2, Math.ceil((strap.width - 2 * component.cover) / spacing) + 1);
+    return 2 * perLayer; // Top and bottom
+  }
+  if (strap && normalizedType === 'strap beam stirrups') {
+    return Math.ceil(getColumnClearSpan(component) / spacing);
+  }
+
+  return undefined;
+}
+
+/**
+ * Bends to deduct from the footing geometry, or undefined for the isolated footing rules
+ */
+export function getFootingGeometryDeductions(
+  barType: string,
+  component: ConcreteComponent
+): number | undefined {
+  const normalizedType = barType.toLowerCase();
+
+  if (normalizedType === 'bottom main (l)' || normalizedType === 'bottom dist (b)') {
+    return 2;
+  }
+  if (normalizedType === 'top main (l)' || normalizedType === 'top dist (b)') {
+    if (isCombined(component)) return 0;
+    if (getProfile(component) === 'SLOPED') return 2; // At the edges of the flat top
+    if (getProfile(component) === 'STEPPED') return 0;
+    return undefined;
+  }
+  if (normalizedType === 'dowel bars') {
+    return 1;
+  }
+  if (component.footing?.strapBeam && normalizedType === 'strap beam bar') {
+    return 0;
+  }
+  if (component.footing?.strapBeam && normalizedType === 'strap beam stirrups') {
+    return 6; // 4 corners + 2 hooks
+  }
+  return undefined;
+}
@@ -0,0 +1,195 @@
+/**
+ * Formula Variable Bindings
+ * Declarative mapping between the cells of the reference BBS sheet and the
+ * ConcreteComponent / BBSMetadata fields they hold. Canonical formulas are stored
+ * as named-variable expressions (e.g. "=+spanX-cover") built from this table,
+ * so every value a formula uses can be traced back to a model field.
+ */
+
+import type { BBSMetadata, ConcreteComponent } from '../types/component-types';
+import { getDevelopmentLengthContext, resolveDevelopmentLength } from './development-length';
+import {
+  getFormulaNames,
+  getFormulaReferences,
+  mapFormulaNames,
+  mapFormulaReferences,
+  parseFormula,
+  type FormulaSheet,
+  type FormulaValue
+} from './excel-formula';
+
+// ============================================================================
+// BINDING TABLE
+// ============================================================================
+
+/** Values available when evaluating a formula for one bar of a component */
+export interface BindingContext {
+  component: ConcreteComponent;
+  metadata?: BBSMetadata;
+  diameter: number;
+  spacing?: number;
+  barsPerMember?: number;
+}
+
+export interface FormulaBinding {
+  name: string;                                        // Variable name used in named formulas
+  cell: string;                                        // Cell on the standard component block
+  source: 'component' | 'metadata' | 'bar';
+  description: string;
+  // Returns undefined when the model does not define the value (formula → #REF!)
+  resolve: (context: BindingContext) => FormulaValue | undefined;
+}
+
+
+// Ld reference table in the sheet header: dia in F2:L2, Ld in F3:L3
+const LD_TABLE_DIAMETERS = [8, 10, 12, 16, 20, 25, 32];
+const LD_TABLE_COLUMNS = ['F', 'G', 'H', 'I', 'J', 'K', 'L'];
+
+export const FORMULA_BINDINGS: FormulaBinding[] = [
+  // Project header
+  { name: 'cover', cell: 'G4', source: 'component', description: 'Clear cover',
+    resolve: ({ component }) => component.cover },
+
+  // Component header row
+  { name: 'spanX', cell: 'C11', source: 'component', description: 'Span X-X',
+    resolve: ({ component }) => component.spanX },
+  { name: 'spanY', cell: 'D11', source: 'component', description: 'Span Y-Y',
+    resolve: ({ component }) => component.spanY },
+  { name: 'depth', cell: 'F11', source: 'component', description: 'Depth / thickness',
+    resolve: ({ component }) => component.depth || 125 },
+  { name: 'topExtLeft', cell: 'K11', source: 'component', description: 'Top extension (left)',
+    resolve: ({ component }) => component.topExtensions?.left },
+  { name: 'topExtRight', cell: 'L11', source: 'component', description: 'Top extension (right)',
+    resolve: ({ component }) => component.topExtensions?.right },
+  { name: 'topExtTop', cell: 'M11', source: 'component', description: 'Top extension (top)',
+    resolve: ({ component }) => component.topExtensions?.top },
+  { name: 'topExtBottom', cell: 'N11', source: 'component', description: 'Top extension (bottom)',
+    resolve: ({ component }) => component.topExtensions?.bottom },
+
+  // Supporting beam widths
+  { name: 'beamWidthLeft', cell: 'C13', source: 'component', description: 'Beam width (left)',
+    resolve: ({ component }) => component.beamWidths?.left },
+  { name: 'beamWidthTop', cell: 'D13', source: 'component', description: 'Beam width (top)',
+    resolve: ({ component }) => component.beamWidths?.top },
+  { name: 'beamWidthRight', cell: 'C14', source: 'component', description: 'Beam width (right)',
+    resolve: ({ component }) => component.beamWidths?.right },
+  { name: 'beamWidthBottom', cell: 'D14', source: 'component', description: 'Beam width (bottom)',
+    resolve: ({ component }) => component.beamWidths?.bottom },
+
+  // Bar row inputs
+  { name: 'spacing', cell: 'E15', source: 'bar', description: 'Bar spacing',
+    resolve: ({ spacing }) => spacing ?? null },
+  { name: 'diameter', cell: 'F15', source: 'bar', description: 'Bar diameter',
+    resolve: ({ diameter }) => diameter },
+  { name: 'barsPerMember', cell: 'G15', source: 'bar', description: 'Bars per member',
+    resolve: ({ barsPerMember }) => barsPerMember ?? 1 },
+
+  // Ld reference table
+  ...LD_TABLE_DIAMETERS.map((dia, index): FormulaBinding => ({
+    name: `ldDia${dia}`,
+    cell: `${LD_TABLE_COLUMNS[index]}3`,
+    source: 'metadata',
+    description: `Development length for ${dia} mm bars`,
+    resolve: ({ metadata }) => resolveDevelopmentLength(dia, getDevelopmentLengthContext(metadata)),
+  })),
+];
+
+/** Measurement cells of the bar row; their names let fields reference each other */
+export const MEASUREMENT_CELLS: Record<string, string> = {
+  a: 'J15', b: 'K15', c: 'L15', d: 'M15', e: 'N15', f: 'O15', lap: 'P15'
+};
+
+const BINDING_BY_CELL = new Map(FORMULA_BINDINGS.map(binding => [binding.cell, binding]));
+
+/** Every variable name a named formula may use, mapped to its cell */
+export const BINDING_NAMES: Record<string, string> = {
+  ...Object.fromEntries(FORMULA_BINDINGS.map(binding => [binding.name, binding.cell])),
+  ...MEASUREMENT_CELLS,
+};
+
+const MEASUREMENT_NAME_BY_CELL = new Map(Object.entries(MEASUREMENT_CELLS).map(([name, cell]) => [cell, name]));
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Replace standard-block cell references in a formula with their variable names.
+ * References without a binding are kept as cell references so audits can flag them.
+ */
+export function toNamedFormula(formula: string): string {
+  return mapFormulaReferences(formula, (address, text) => {
+    const cell = `${address.column}${address.row}`;
+    return BINDING_BY_CELL.get(cell)?.name ?? MEASUREMENT_NAME_BY_CELL.get(cell) ?? text;
+  });
+}
+
+/**
+ * Replace the variable names of a named formula with cell references on a written sheet.
+ * Returns null when the formula uses a name with no cell in the map, or still contains
+ * raw cell references that would not point at the right place.
+ */
+export function fromNamedFormula(formula: string, cells: Record<string, string>): string | null {
+  try {
+    if (getFormulaReferences(formula).length > 0) return null;
+    let complete = true;
+    const mapped = mapFormulaNames(formula, name => {
+      if (!(name in cells)) complete = false;
+      return cells[name] ?? name;
+    });
+    return complete ? mapped : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the cells of the standard component block from the binding table.
+ * Values the model does not define are left out of the sheet.
+ */
+export function buildBindingSheet(context: BindingContext): FormulaSheet {
+  const sheet: FormulaSheet = {};
+  FORMULA_BINDINGS.forEach(binding => {
+    const value = binding.resolve(context);
+    if (value !== undefined) sheet[binding.cell] = value;
+  });
+  return sheet;
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+export interface NamedFormulaAudit {
+  formula: string;
+  variables: string[];             // Bound variable names used by the formula
+  unboundReferences: string[];     // Raw cell references with no binding
+  unknownNames: string[];          // Names that are not in the binding table
+  parseError?: string;
+}
+
+/**
+ * Check a named formula: every identifier must be a known binding and no raw
+ * cell references may remain.
+ */
+export function auditNamedFormula(formula: string): NamedFormulaAudit {
+  try {
+    parseFormula(formula);
+  } catch (error) {
+    return {
+      formula,
+      variables: [],
+      unboundReferences: [],
+      unknownNames: [],
+      parseError: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const names = getFormulaNames(formula);
+  return {
+    formula,
+    variables: names.filter(name => Object.hasOwn(BINDING_NAMES, name)),
+    unboundReferences: getFormulaReferences(formula),
+    unknownNames: names.filter(name => !Object.hasOwn(BINDING_NAMES, name)),
+  };
+}
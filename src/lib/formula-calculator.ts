@@ -1,10 +1,20 @@
 /**
  * Formula-Driven Calculator
  * Uses canonical formulas from bar_type_canonical_formulas.json
- * to calculate bar measurements dynamically
+ * to calculate bar measurements dynamically.
+ * Formulas are stored as named-variable expressions (formula-bindings.ts) and
+ * evaluated by the Excel formula interpreter (excel-formula.ts) - never as JavaScript.
  */
 
-import type { BarMeasurements, ConcreteComponent, BarDirection } from '../types/component-types';
+import type { BarMeasurements, BBSMetadata, ConcreteComponent, BarDirection } from '../types/component-types';
+import {
+  createSheetEvaluator,
+  formatCellAddress,
+  mapFormulaReferences,
+  type CellAddress,
+  type FormulaErrorCode
+} from './excel-formula';
+import { BINDING_NAMES, buildBindingSheet, toNamedFormula } from './formula-bindings';
 // Note: This file uses old canonical formulas - consider migrating to formula-engine.ts
 import canonicalFormulas from '../../bar_type_canonical_formulas.json';
 
@@ -44,6 +54,9 @@ interface CanonicalBar {
     cut_length: string | null;
     total_length: string | null;
   };
+  // Measurement formulas relocated onto the standard block and expressed with
+  // formula-bindings variable names (e.g. "=+spanX-cover"); null when they cannot be relocated
+  named_formulas: NamedFormulas | null;
   _canonical_metadata: {
     bar_type: string;
     total_occurrences: number;
@@ -86,114 +99,262 @@ function normalizeBarTypeName(barType: string): string {
   return normalized.trim();
 }
 
+// ============================================================================
+// STANDARD COMPONENT BLOCK
+// ============================================================================
+
 /**
- * Parse and evaluate Excel formula
- * Replaces cell references with actual values
+ * Row layout of a component block in the reference BBS sheet ("Slab 20th Floor"):
+ *   row 11  header: C = span X, D = span Y, F = depth, K/L/M/N = top extensions
+ *   row 13  C = left beam width,  D = top beam width
+ *   row 14  C = right beam width, D = bottom beam width
+ *   row 15  bar row: E = spacing, F = dia, G = bars/member, J..P = a..f, lap
+ * Cover lives in $G$4 of the project header. The values held by each cell are
+ * declared in formula-bindings.ts.
  */
-function evaluateFormula(
-  formula: string | null,
-  context: {
-    component: ConcreteComponent;
-    direction: BarDirection;
-    diameter: number;
-    cover: number;
-  }
-): number {
-  if (!formula) return 0;
-  
-  const { component, direction, diameter: _diameter, cover } = context;
-  const span = direction === 'X' ? component.spanX : component.spanY;
-  const perpSpan = direction === 'X' ? component.spanY : component.spanX;
-  const depth = component.depth || 125;
-  
-  // Common Excel formulas and their meanings
-  // $G$4 = cover (always 30 in the Excel)
-  // C11, D11 = spanX, spanY
-  // C13, D13 = beam widths
-  // F11 = depth
-  
-  let expr = formula;
-  
-  // Replace common patterns
-  expr = expr.replace(/\$G\$4/g, cover.toString());
-  expr = expr.replace(/\$F\$\d+/g, depth.toString());
-  
-  // For direction-specific replacements
-  if (direction === 'X') {
-    // X direction uses spanX, beamLeft, beamRight
-    expr = expr.replace(/C\d+/g, span.toString());
-    expr = expr.replace(/D\d+/g, perpSpan.toString());
-  } else {
-    // Y direction uses spanY, beamTop, beamBottom
-    expr = expr.replace(/C\d+/g, perpSpan.toString());
-    expr = expr.replace(/D\d+/g, span.toString());
+const HEADER_ROW = 11;
+const WIDTH_ROW_LEFT_TOP = 13;
+const WIDTH_ROW_RIGHT_BOTTOM = 14;
+const BAR_ROW = 15;
+
+/** Header-block columns (spans, depth, top extensions) */
+const HEADER_COLUMNS = new Set(['C', 'D', 'F', 'K', 'L', 'M', 'N']);
+/** Columns that only exist on the header row (F is depth there, dia on the bar row) */
+const HEADER_ONLY_COLUMNS = new Set(['F', 'K', 'L', 'M', 'N']);
+
+const MEASUREMENT_FIELDS = ['a', 'b', 'c', 'd', 'e', 'f', 'lap'] as const;
+type MeasurementField = typeof MEASUREMENT_FIELDS[number];
+
+const MEASUREMENT_COLUMNS: Record<MeasurementField, string> = {
+  a: 'J', b: 'K', c: 'L', d: 'M', e: 'N', f: 'O', lap: 'P'
+};
+
+export type NamedFormulas = Partial<Record<MeasurementField, string | null>>;
+
+// ============================================================================
+// FORMULA RELOCATION
+// ============================================================================
+
+function headerReferences(formula: string): CellAddress[] {
+  const refs: CellAddress[] = [];
+  mapFormulaReferences(formula, (address, text) => {
+    if (address.row > 4 && HEADER_COLUMNS.has(address.column)) refs.push(address);
+    return text;
+  });
+  return refs;
+}
+
+function isValidHeaderRow(column: string, row: number): boolean {
+  if (HEADER_ONLY_COLUMNS.has(column)) return row === HEADER_ROW;
+  return row === HEADER_ROW || row === WIDTH_ROW_LEFT_TOP || row === WIDTH_ROW_RIGHT_BOTTOM;
+}
+
+/**
+ * Find the header row a canonical bar's measurement formulas were written against.
+ * Field "a" nearly always references the span on the header row; otherwise the
+ * depth / top-extension columns (which only live on the header row) are used.
+ */
+function findHeaderAnchor(formulas: Partial<Record<MeasurementField, string | null>>): number | null {
+  const aRefs = formulas.a ? headerReferences(formulas.a) : [];
+  if (aRefs.length > 0) return Math.min(...aRefs.map(ref => ref.row));
+
+  const headerOnlyRows = MEASUREMENT_FIELDS
+    .flatMap(field => formulas[field] ? headerReferences(formulas[field]!) : [])
+    .filter(ref => HEADER_ONLY_COLUMNS.has(ref.column))
+    .map(ref => ref.row);
+  return headerOnlyRows.length > 0 ? Math.min(...headerOnlyRows) : null;
+}
+
+/**
+ * Move a canonical measurement formula onto the standard component block.
+ *
+ * The canonical JSON keeps the most common formula per field, but each field may
+ * come from a different occurrence in the source workbook, so row numbers do not
+ * share one anchor. A field is shifted with the bar's own header anchor when that
+ * lands every reference on a valid block row; otherwise it is relocated by role:
+ * its lowest header reference is treated as the header row (fields a, depth and
+ * top extensions) or as the left/top (b) / right/bottom (c) beam width row.
+ * References to another bar row (e.g. "=J28") point at this bar's own row.
+ * Returns null when a reference still falls outside the block (another
+ * component's row) or the field would reference itself ("=J28" in field a).
+ */
+export function relocateCanonicalFormula(
+  field: MeasurementField,
+  formula: string,
+  headerAnchor: number | null
+): string | null {
+  const refs = headerReferences(formula);
+  let shift: ((row: number) => number) | null = null;
+
+  if (headerAnchor !== null && refs.every(ref => isValidHeaderRow(ref.column, HEADER_ROW + ref.row - headerAnchor))) {
+    shift = row => HEADER_ROW + row - headerAnchor;
+  } else if (refs.length > 0) {
+    const anchorRef = refs.reduce((lowest, ref) => (ref.row < lowest.row ? ref : lowest));
+    let base = 0;
+    if (field !== 'a' && !HEADER_ONLY_COLUMNS.has(anchorRef.column)) {
+      if (field === 'b') base = WIDTH_ROW_LEFT_TOP - HEADER_ROW;
+      if (field === 'c') base = WIDTH_ROW_RIGHT_BOTTOM - HEADER_ROW;
+    }
+    shift = row => HEADER_ROW + base + row - anchorRef.row;
   }
-  
-  // Remove Excel operators and convert to JavaScript
-  expr = expr.replace(/^=\+?/, ''); // Remove leading = or =+
-  expr = expr.replace(/\*/g, '*');
-  expr = expr.replace(/\//g, '/');
-  
-  // Handle simple arithmetic expressions
-  try {
-    // Use Function constructor for safe evaluation
-    const result = new Function(`return ${expr}`)();
-    return typeof result === 'number' && !isNaN(result) ? result : 0;
-  } catch (error) {
-    console.warn(`⚠️ Failed to evaluate formula: ${formula}`, error);
-    return 0;
+
+  let placed = true;
+  const relocated = mapFormulaReferences(formula, (address, text) => {
+    // Project header cells (cover, dia / Ld table) are shared by every block
+    if (address.row <= 4) return text;
+
+    if (HEADER_COLUMNS.has(address.column)) {
+      const row = shift ? shift(address.row) : address.row;
+      if (!isValidHeaderRow(address.column, row)) placed = false;
+      return formatCellAddress({ ...address, row });
+    }
+
+    if (address.column === MEASUREMENT_COLUMNS[field]) placed = false;
+    return formatCellAddress({ ...address, row: BAR_ROW });
+  });
+  return placed ? relocated : null;
+}
+
+/**
+ * Convert a canonical bar's measurement formulas to named-variable expressions.
+ * This is how `named_formulas` in bar_type_canonical_formulas.json is produced;
+ * the canonical formula tests check the stored expressions stay in sync.
+ * Returns null when any field cannot be relocated, so the bar type falls back to
+ * the hardcoded calculation rather than evaluating a partial set of formulas.
+ */
+export function buildNamedFormulas(formulas: Partial<Record<MeasurementField, string | null>>): NamedFormulas | null {
+  const anchor = findHeaderAnchor(formulas);
+  const named: NamedFormulas = {};
+  for (const field of MEASUREMENT_FIELDS) {
+    const formula = formulas[field];
+    if (!formula || !formula.startsWith('=')) {
+      named[field] = formula ?? null;
+      continue;
+    }
+    const relocated = relocateCanonicalFormula(field, formula, anchor);
+    if (relocated === null) return null;
+    named[field] = toNamedFormula(relocated);
   }
+  return named;
+}
+
+// Stored named formulas of a canonical bar (null when they cannot be relocated)
+function getNamedFormulas(canonical: CanonicalBar): NamedFormulas | null {
+  return canonical.named_formulas !== undefined ? canonical.named_formulas : buildNamedFormulas(canonical.formulas);
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+export interface CanonicalFormulaError {
+  field: MeasurementField;
+  cell: string;          // Cell on the standard block (e.g. "K15")
+  formula: string;       // Named formula that failed (e.g. "=2*(beamWidthLeft-(cover))")
+  code: FormulaErrorCode;
+  message: string;
+}
+
+export interface CanonicalFormulaEvaluation {
+  measurements: BarMeasurements;
+  errors: CanonicalFormulaError[];
 }
 
 /**
- * Calculate bar measurements using canonical formulas
+ * Evaluate the canonical measurement formulas of a bar type for a component.
+ * Returns null when the bar type has no canonical entry or its formulas cannot
+ * be relocated onto the standard block. Fields whose formula
+ * fails are reported in `errors` (with their Excel error code) and left at 0.
+ */
+export function evaluateCanonicalFormulas(
+  barType: string,
+  component: ConcreteComponent,
+  diameter: number,
+  options: { spacing?: number; barsPerMember?: number; metadata?: BBSMetadata } = {}
+): CanonicalFormulaEvaluation | null {
+  initializeCanonicalBars();
+  const canonical = canonicalBarsMap.get(barType.trim()) ?? canonicalBarsMap.get(normalizeBarTypeName(barType));
+  if (!canonical) return null;
+
+  const named = getNamedFormulas(canonical);
+  if (!named) return null;
+
+  const sheet = buildBindingSheet({ component, diameter, ...options });
+
+  MEASUREMENT_FIELDS.forEach(field => {
+    sheet[`${MEASUREMENT_COLUMNS[field]}${BAR_ROW}`] = named[field] ?? null;
+  });
+
+  const { evaluateCell } = createSheetEvaluator(sheet, BINDING_NAMES);
+  const measurements: BarMeasurements = { a: 0 };
+  const errors: CanonicalFormulaError[] = [];
+
+  MEASUREMENT_FIELDS.forEach(field => {
+    const cell = `${MEASUREMENT_COLUMNS[field]}${BAR_ROW}`;
+    const result = evaluateCell(cell);
+    if (result.error) {
+      errors.push({
+        field,
+        cell,
+        formula: named[field] ?? '',
+        code: result.error.code,
+        message: result.error.message,
+      });
+      measurements[field] = 0;
+      return;
+    }
+    measurements[field] = typeof result.value === 'number' ? result.value : Number(result.value) || 0;
+  });
+
+  return { measurements, errors };
+}
+
+/**
+ * Calculate bar measurements using canonical formulas.
+ * Returns null when there is no canonical formula or any field fails to evaluate,
+ * so callers can fall back to the hardcoded calculation.
  */
 export function calculateWithCanonicalFormulas(
   barType: string,
-  direction: BarDirection,
+  _direction: BarDirection,
   component: ConcreteComponent,
   diameter: number
 ): BarMeasurements | null {
-  // Initialize canonical bars map
-  initializeCanonicalBars();
-  
   // Normalize bar type
   const normalizedBarType = normalizeBarTypeName(barType);
-  
-  // Find canonical formula
-  const canonical = canonicalBarsMap.get(normalizedBarType);
-  
-  if (!canonical) {
-    console.warn(`⚠️ No canonical formula found for: ${normalizedBarType}`);
+
+  const evaluation = evaluateCanonicalFormulas(normalizedBarType, component, diameter);
+
+  if (!evaluation) {
+    console.warn(`⚠️ No usable canonical formula for: ${normalizedBarType}`);
     return null;
   }
-  
+
+  const canonical = canonicalBarsMap.get(normalizedBarType)!;
   console.log(`📐 Using canonical formula for: ${normalizedBarType}`);
   console.log(`   Formula variations: ${canonical._canonical_metadata.formula_variations}`);
   console.log(`   Usage: ${canonical._canonical_metadata.formula_usage_percentage}`);
-  
-  // Create evaluation context
-  const context = {
-    component,
-    direction,
-    diameter,
-    cover: component.cover
-  };
-  
-  // Evaluate each formula
-  const measurements: BarMeasurements = {
-    a: evaluateFormula(canonical.formulas.a, context),
-    b: evaluateFormula(canonical.formulas.b, context),
-    c: evaluateFormula(canonical.formulas.c, context),
-    d: evaluateFormula(canonical.formulas.d, context),
-    e: evaluateFormula(canonical.formulas.e, context),
-    f: evaluateFormula(canonical.formulas.f, context),
-    lap: evaluateFormula(canonical.formulas.lap, context)
-  };
-  
-  console.log(`   Calculated measurements:`, measurements);
-  
-  return measurements;
+
+  if (evaluation.errors.length > 0) {
+    evaluation.errors.forEach(error => {
+      console.warn(`⚠️ ${error.code} in ${error.field} (${error.cell}) for ${normalizedBarType}: ${error.formula} - ${error.message}`);
+    });
+    return null;
+  }
+
+  console.log(`   Calculated measurements:`, evaluation.measurements);
+
+  return evaluation.measurements;
+}
+
+/**
+ * Get the named measurement formulas of a bar type (null when there is no canonical entry)
+ */
+export function getCanonicalNamedFormulas(barType: string): NamedFormulas | null {
+  initializeCanonicalBars();
+  const canonical = canonicalBarsMap.get(barType.trim()) ?? canonicalBarsMap.get(normalizeBarTypeName(barType));
+  if (!canonical) return null;
+  return getNamedFormulas(canonical);
 }
 
 /**
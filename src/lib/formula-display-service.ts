@@ -14,7 +14,15 @@ import {
   calculateHookLength,
   calculateCutLength 
 } from './calculator';
-import { FORMULA_TEMPLATES } from './formula-templates';
+import { describeBendDeduction, describeBendRadius } from './bend-allowance';
+import { mapFormulaNames } from './excel-formula';
+import { getFormulaTemplate, type FormulaStep } from './formula-templates';
+import {
+  SHAPE_REGISTRY,
+  evaluateShapeFormula,
+  getShapeVariables,
+  toFormulaNotation
+} from './shape-registry';
 
 // Formula breakdown result interface
 export interface FormulaBreakdown {
@@ -45,14 +53,17 @@ export class FormulaDisplayService {
    * Generate complete formula breakdown for a bar entry
    */
   generateBreakdown(bar: BarEntry, config: ProjectConfig): FormulaBreakdown {
-    const template = FORMULA_TEMPLATES[bar.shapeCode];
+    const template = getFormulaTemplate(bar.shapeCode);
     const steps = this.generateSteps(bar, config);
     const finalResult = calculateCutLength(bar, config);
+    const hasExpressionSteps = template.steps.some(step => step.expression);
     
     return {
       shapeCode: bar.shapeCode,
       shapeName: template.name,
-      formula: this.formatFormulaWithValues(template.formula, bar, config),
+      formula: hasExpressionSteps
+        ? this.formatRegistryFormula(bar, config)
+        : this.formatFormulaWithValues(template.formula, bar, config),
       steps,
       finalResult,
       units: 'mm',
@@ -64,7 +75,7 @@ export class FormulaDisplayService {
    * Get simple tooltip formula for quick reference
    */
   getFormulaTooltip(shapeCode: ShapeCode): string {
-    const template = FORMULA_TEMPLATES[shapeCode];
+    const template = getFormulaTemplate(shapeCode);
     return `${shapeCode} - ${template.name}: ${template.formula}`;
   }
 
@@ -72,7 +83,7 @@ export class FormulaDisplayService {
    * Generate step-by-step calculation with actual values
    */
   generateSteps(bar: BarEntry, config: ProjectConfig): CalculationStep[] {
-    const template = FORMULA_TEMPLATES[bar.shapeCode];
+    const template = getFormulaTemplate(bar.shapeCode);
     const steps: CalculationStep[] = [];
     
     // Process each step from the template
@@ -111,6 +122,11 @@ export class FormulaDisplayService {
   ): CalculationStep | null {
     const { dimensions, diameter } = bar;
     
+    // Generated templates carry the formula term to evaluate
+    if (templateStep.expression) {
+      return this.processExpressionStep(templateStep, bar, config);
+    }
+    
     switch (templateStep.operation) {
       case 'constant':
         return this.processConstantStep(templateStep, dimensions);
@@ -227,38 +243,22 @@ export class FormulaDisplayService {
   ): CalculationStep {
     const variables = templateStep.variables || [];
     let value = 0;
-    let formulaParts: string[] = [];
-    let bendDetails: string[] = [];
+    const formulaParts: string[] = [];
+    const bendDetails: string[] = [];
     
     for (const variable of variables) {
-      if (variable.includes('D_{90°}')) {
-        const deduction = calculateBendDeduction(90, diameter, config);
-        const multiplier = this.extractMultiplier(templateStep.formula);
-        const bendMultiplier = config.bendDeductions.deg90;
-        value += multiplier * deduction;
-        formulaParts.push(`${multiplier} × D_{90°} = ${multiplier} × ${deduction} = ${multiplier * deduction}`);
-        bendDetails.push(`90° bend: ${bendMultiplier}d = ${bendMultiplier} × ${diameter} = ${deduction}mm`);
-      } else if (variable.includes('D_{45°}')) {
-        const deduction = calculateBendDeduction(45, diameter, config);
-        const multiplier = this.extractMultiplier(templateStep.formula);
-        const bendMultiplier = config.bendDeductions.deg45;
-        value += multiplier * deduction;
-        formulaParts.push(`${multiplier} × D_{45°} = ${multiplier} × ${deduction} = ${multiplier * deduction}`);
-        bendDetails.push(`45° bend: ${bendMultiplier}d = ${bendMultiplier} × ${diameter} = ${deduction}mm`);
-      } else if (variable.includes('D_{135°}')) {
-        const deduction = calculateBendDeduction(135, diameter, config);
-        const multiplier = this.extractMultiplier(templateStep.formula);
-        const bendMultiplier = config.bendDeductions.deg135;
-        value += multiplier * deduction;
-        formulaParts.push(`${multiplier} × D_{135°} = ${multiplier} × ${deduction} = ${multiplier * deduction}`);
-        bendDetails.push(`135° bend: ${bendMultiplier}d = ${bendMultiplier} × ${diameter} = ${deduction}mm`);
-      } else if (variable.includes('D_{180°}')) {
-        const deduction = calculateBendDeduction(180, diameter, config);
-        const bendMultiplier = 4; // Standard 180° bend deduction
-        value += deduction;
-        formulaParts.push(`D_{180°} = ${deduction}`);
-        bendDetails.push(`180° bend: ${bendMultiplier}d = ${bendMultiplier} × ${diameter} = ${deduction}mm`);
-      }
+      const angle = this.getBendAngle(variable);
+      if (angle === null) continue;
+      
+      const deduction = calculateBendDeduction(angle, diameter, config);
+      // 180° hook turns appear once per hook
+      const multiplier = angle === 180 ? 1 : this.extractMultiplier(templateStep.formula);
+      const deductionText = this.formatValue(deduction);
+      value += multiplier * deduction;
+      formulaParts.push(multiplier === 1
+        ? `D_{${angle}°} = ${deductionText}`
+        : `${multiplier} × D_{${angle}°} = ${multiplier} × ${deductionText} = ${this.formatValue(multiplier * deduction)}`);
+      bendDetails.push(describeBendDeduction(angle, diameter, config));
     }
     
     // Combine formula parts with bend details
@@ -296,6 +296,66 @@ export class FormulaDisplayService {
     };
   }
 
+  /**
+   * Process a step that evaluates a term of the shape's registry formula
+   */
+  private processExpressionStep(
+    templateStep: FormulaStep,
+    bar: BarEntry,
+    config: ProjectConfig
+  ): CalculationStep {
+    const expression = templateStep.expression!;
+    const variables = getShapeVariables(bar.dimensions, config, bar.diameter);
+    const value = evaluateShapeFormula(expression, variables);
+    const substituted = toFormulaNotation(this.substituteVariables(expression, variables));
+    const usesName = (name: string) => (templateStep.variables ?? []).some(
+      variable => variable.toUpperCase() === name
+    );
+    
+    const bendDetails = (templateStep.variables ?? [])
+      .map(variable => this.getBendAngle(variable))
+      .filter((angle): angle is number => angle !== null)
+      .map(angle => describeBendDeduction(angle, bar.diameter, config));
+    if (usesName('R')) {
+      bendDetails.push(describeBendRadius(bar.diameter, config));
+    }
+    
+    return {
+      description: bendDetails.length > 0
+        ? `${templateStep.description} (${bendDetails.join(', ')})`
+        : templateStep.description,
+      formula: `${templateStep.formula} = ${substituted} = ${this.formatValue(value)}`,
+      value,
+      units: 'mm',
+      operation: templateStep.operation,
+      isDeduction: templateStep.operation === 'subtract' || undefined,
+      isHook: usesName('HOOK') || undefined
+    };
+  }
+
+  /**
+   * Replace the names in a registry formula with their values
+   */
+  private substituteVariables(formula: string, variables: Record<string, number>): string {
+    return mapFormulaNames(formula, name => this.formatValue(variables[name.toUpperCase()] ?? 0));
+  }
+
+  /**
+   * Round to 0.1 mm for display
+   */
+  private formatValue(value: number): string {
+    return Number(value.toFixed(1)).toString();
+  }
+
+  /**
+   * Format a registry formula with actual values substituted
+   */
+  private formatRegistryFormula(bar: BarEntry, config: ProjectConfig): string {
+    const shape = SHAPE_REGISTRY[bar.shapeCode];
+    const variables = getShapeVariables(bar.dimensions, config, bar.diameter);
+    return `L = ${toFormulaNotation(this.substituteVariables(shape.cutLengthFormula, variables))}`;
+  }
+
   /**
    * Get dimension value by variable name
    */
@@ -309,6 +369,14 @@ export class FormulaDisplayService {
     }
   }
 
+  /**
+   * Bend angle of a deduction variable (D_{90°} or BEND_90), or null
+   */
+  private getBendAngle(variable: string): number | null {
+    const match = variable.match(/^(?:D_\{(\d+)°\}|BEND_(\d+))$/i);
+    return match ? Number(match[1] ?? match[2]) : null;
+  }
+
   /**
    * Extract multiplier from formula string (e.g., "2 × D_{90°}" returns 2)
    */
@@ -359,10 +427,10 @@ export class FormulaDisplayService {
     const d135 = calculateBendDeduction(135, diameter, config);
     const d180 = calculateBendDeduction(180, diameter, config);
     
-    formatted = formatted.replace(/D_{45°}/g, d45.toString());
-    formatted = formatted.replace(/D_{90°}/g, d90.toString());
-    formatted = formatted.replace(/D_{135°}/g, d135.toString());
-    formatted = formatted.replace(/D_{180°}/g, d180.toString());
+    formatted = formatted.replace(/D_{45°}/g, this.formatValue(d45));
+    formatted = formatted.replace(/D_{90°}/g, this.formatValue(d90));
+    formatted = formatted.replace(/D_{135°}/g, this.formatValue(d135));
+    formatted = formatted.replace(/D_{180°}/g, this.formatValue(d180));
     
     return formatted;
   }
@@ -374,6 +442,14 @@ export class FormulaDisplayService {
     const codeStandard = config.codeStandard;
     const profileId = config.codeProfileId;
     
+    // BS 8666 shape codes carry their own formula, whatever the design code
+    if (SHAPE_REGISTRY[shapeCode].standard === 'BS 8666') {
+      const radius = config.bendDeductions.mode === 'GEOMETRIC'
+        ? `${config.bendDeductions.formerTable ?? 'IS 2502'} former radius`
+        : 'standard bend radius';
+      return `BS 8666:2020, Shape code ${shapeCode} (r = ${radius})`;
+    }
+    
     switch (codeStandard) {
       case 'IS':
         return this.getISCodeReference(shapeCode, profileId);
@@ -403,6 +479,8 @@ export class FormulaDisplayService {
         return `${baseStandard}, Clause 26.2.3.1 (90° bends), Clause 26.2.3.3 (Cranked bars)`;
       case 'S6':
         return `${baseStandard}, Clause 26.2.3.1 (90° bends), Clause 26.2.2.1 (Hook length = 9d)`;
+      case 'S7':
+        return `${baseStandard}, Clause 26.2.2.1 (Hooks), IS 13920:2016 Clause 6.3.2 (135° link hooks)`;
       default:
         return baseStandard;
     }
@@ -427,6 +505,8 @@ export class FormulaDisplayService {
         return `${baseStandard}, Section 3.12.8.2 (Bend allowances), Section 3.12.8.5 (Cranked bars)`;
       case 'S6':
         return `${baseStandard}, Section 3.12.8.2 (Bend allowances), Section 3.12.8.3 (Hook lengths)`;
+      case 'S7':
+        return `${baseStandard}, Section 3.12.8.3 (Hook lengths), Section 3.12.8.4 (Links and stirrups)`;
       default:
         return baseStandard;
     }
@@ -451,6 +531,8 @@ export class FormulaDisplayService {
         return `${profileName} profile - Cranked bar with 90° bends`;
       case 'S6':
         return `${profileName} profile - Tee-bar with 90° bends and hooks`;
+      case 'S7':
+        return `${profileName} profile - Single leg link with 135° hooks`;
       default:
         return `${profileName} profile`;
     }
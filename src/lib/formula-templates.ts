@@ -4,6 +4,8 @@
  */
 
 import type { ShapeCode } from '../types';
+import { getFormulaNames, splitFormulaTerms } from './excel-formula';
+import { SHAPE_REGISTRY, isShapeCode, toFormulaNotation } from './shape-registry';
 
 // Formula template interface
 export interface FormulaTemplate {
@@ -23,10 +25,12 @@ export interface FormulaStep {
   formula: string;          // Mathematical expression
   operation: 'add' | 'subtract' | 'multiply' | 'divide' | 'sqrt' | 'constant';
   variables?: string[];     // Variables used in this step
+  expression?: string;      // Registry formula term evaluated for this step (generated templates)
 }
 
-// Formula templates for all 6 shapes (S1-S6)
-export const FORMULA_TEMPLATES: Record<ShapeCode, FormulaTemplate> = {
+// Hand-written templates for the original 6 shapes (S1-S6); other shapes are
+// generated from their registry formula
+export const FORMULA_TEMPLATES: Partial<Record<ShapeCode, FormulaTemplate>> = {
   S1: {
     code: 'S1',
     name: 'Straight Bar',
@@ -204,17 +208,49 @@ export const FORMULA_TEMPLATES: Record<ShapeCode, FormulaTemplate> = {
   }
 };
 
+/**
+ * Build a template from a shape's registry formula: one step per added or
+ * subtracted term, each carrying the term to evaluate
+ */
+function createRegistryTemplate(shapeCode: ShapeCode): FormulaTemplate {
+  const shape = SHAPE_REGISTRY[shapeCode];
+  const terms = splitFormulaTerms(shape.cutLengthFormula);
+
+  return {
+    code: shape.code,
+    name: shape.name,
+    formula: shape.formulaNotation,
+    description: shape.description,
+    variables: shape.requiredDimensions,
+    deductions: terms.filter(term => term.sign < 0).map(term => toFormulaNotation(term.text)),
+    hooks: shape.hookCount > 0 ? shape.hookCount : undefined,
+    steps: terms.map(term => {
+      const notation = toFormulaNotation(term.text);
+      const operation = terms.length === 1 ? 'constant' : term.sign < 0 ? 'subtract' : 'add';
+      return {
+        description: operation === 'constant'
+          ? 'Cut length'
+          : operation === 'subtract' ? `Deduct ${notation}` : `Add ${notation}`,
+        formula: notation,
+        operation,
+        variables: getFormulaNames(term.text),
+        expression: term.text,
+      };
+    }),
+  };
+}
+
 // Helper function to get formula template by shape code
 export function getFormulaTemplate(shapeCode: ShapeCode): FormulaTemplate {
-  return FORMULA_TEMPLATES[shapeCode];
+  return FORMULA_TEMPLATES[shapeCode] ?? createRegistryTemplate(shapeCode);
 }
 
 // Helper function to get all available formula templates
 export function getAllFormulaTemplates(): FormulaTemplate[] {
-  return Object.values(FORMULA_TEMPLATES);
+  return (Object.keys(SHAPE_REGISTRY) as ShapeCode[]).map(getFormulaTemplate);
 }
 
 // Helper function to validate if a shape code has a formula template
 export function hasFormulaTemplate(shapeCode: string): shapeCode is ShapeCode {
-  return shapeCode in FORMULA_TEMPLATES;
-}
\ No newline at end of file
+  return isShapeCode(shapeCode);
+}
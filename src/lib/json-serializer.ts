@@ -1,4 +1,5 @@
 import type { ProjectConfig, BarEntry } from '../types';
+import { migrateDevelopmentLengths } from './development-length';
 
 // Interface for serialized project data
 export interface SerializedProject {
@@ -45,7 +46,8 @@ export function serializeProject(config: ProjectConfig, bars: BarEntry[]): Seria
 
 /**
  * Deserializes a project from JSON format
- * Converts ISO date strings back to Date objects
+ * Converts ISO date strings back to Date objects and moves the legacy Ld table
+ * of the BBS metadata into the development length overrides
  */
 export function deserializeProject(serialized: SerializedProject): { config: ProjectConfig; bars: BarEntry[] } {
   const config: ProjectConfig = {
@@ -54,6 +56,7 @@ export function deserializeProject(serialized: SerializedProject): { config: Pro
     createdAt: new Date(serialized.config.createdAt),
     updatedAt: new Date(serialized.config.updatedAt)
   };
+  if (config.bbsMetadata) config.bbsMetadata = migrateDevelopmentLengths(config.bbsMetadata);
 
   return {
     config,
@@ -0,0 +1,201 @@
+/**
+ * Lap Splice Planner
+ * Splits bars longer than the stock length into stock-length pieces, places the
+ * laps away from the maximum-moment zones of the member and staggers the laps of
+ * adjacent bars as required by the code profile.
+ */
+
+import type { LapSpliceRules } from '../types';
+import type { BarSplicePlan, ConcreteComponentType, SpliceGroup } from '../types/component-types';
+import { CODE_PROFILES } from './code-profiles';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Part of the bar (fractions of its length, 0 = start) where laps may be placed */
+export interface SpliceZone {
+  start: number;
+  end: number;
+}
+
+export type BarLayer = 'TOP' | 'BOTTOM';
+
+export interface SplicePlanOptions {
+  stockLength: number;             // mm
+  developmentLength: number;       // mm - Ld of the bar
+  memberType: ConcreteComponentType;
+  layer?: BarLayer;                // Inferred from the bar type when not given
+  rules?: LapSpliceRules;          // Defaults to the IS 456 profile
+}
+
+export const DEFAULT_LAP_SPLICE_RULES: LapSpliceRules = CODE_PROFILES.IS456.lapSplice!;
+
+// ============================================================================
+// ZONES
+// ============================================================================
+
+/**
+ * Zones where laps are allowed, away from maximum moment:
+ * - Bottom bars of beams/slabs/footings: sagging peaks mid-span → lap near the supports
+ * - Top bars of beams/slabs: hogging peaks at the supports → lap in the middle half
+ * - Columns: end moments → lap in the middle half of the height
+ */
+export function getSpliceZones(memberType: ConcreteComponentType, layer: BarLayer): SpliceZone[] {
+  if (memberType === 'COLUMN') return [{ start: 0.25, end: 0.75 }];
+  if (layer === 'TOP' && memberType !== 'FOOTING') return [{ start: 0.25, end: 0.75 }];
+  return [{ start: 0, end: 0.25 }, { start: 0.75, end: 1 }];
+}
+
+/**
+ * Top or bottom layer from a bar type name ("Top Bar (X-X)", "Top Dist Bar ...")
+ */
+export function getBarLayer(barType: string): BarLayer {
+  return /\btop\b/i.test(barType) && !/^bottom/i.test(barType.trim()) ? 'TOP' : 'BOTTOM';
+}
+
+/**
+ * Lap length for a diameter: the greater of lapFactor × Ld, minLapDiameters × φ and the minimum lap
+ */
+export function getSpliceLapLength(diameter: number, developmentLength: number, rules: LapSpliceRules): number {
+  return Math.ceil(Math.max(
+    rules.lapFactor * developmentLength,
+    rules.minLapDiameters * diameter,
+    rules.minLapLength
+  ));
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * Latest piece end in [minEnd, maxEnd] whose lap [end - lap, end] lies inside a zone
+ */
+function findLapEnd(minEnd: number, maxEnd: number, lapLength: number, zones: SpliceZone[], barLength: number): number | null {
+  let best: number | null = null;
+  zones.forEach(zone => {
+    const low = Math.max(minEnd, zone.start * barLength + lapLength);
+    const high = Math.min(maxEnd, zone.end * barLength);
+    if (low <= high && (best === null || high > best)) best = high;
+  });
+  return best;
+}
+
+/**
+ * Split one bar into pieces. `offset` shortens the first piece so the laps of
+ * this group sit `offset` before those of the first group.
+ */
+function splitBar(
+  barLength: number,
+  stockLength: number,
+  lapLength: number,
+  zones: SpliceZone[],
+  offset: number
+): Omit<SpliceGroup, 'quantity'> {
+  const pieces: number[] = [];
+  const lapCentres: number[] = [];
+  let inRestrictedZone = false;
+  let start = 0;
+
+  while (barLength - start > stockLength) {
+    const maxEnd = start + stockLength - (pieces.length === 0 ? offset : 0);
+    // Each piece must extend past its own lap, so the bar keeps advancing
+    const minEnd = start + 2 * lapLength;
+    let end = findLapEnd(minEnd, maxEnd, lapLength, zones, barLength);
+    if (end === null) {
+      end = Math.max(maxEnd, minEnd);
+      inRestrictedZone = true;
+    }
+    end = Math.floor(end);
+    pieces.push(end - start);
+    lapCentres.push(end - lapLength / 2);
+    start = end - lapLength;
+  }
+  pieces.push(barLength - start);
+
+  return { pieces, lapCentres, inRestrictedZone };
+}
+
+/**
+ * Plan the splices of a bar entry: `quantity` identical bars of `barLength`
+ */
+export function planLapSplices(
+  barLength: number,
+  diameter: number,
+  quantity: number,
+  barType: string,
+  options: SplicePlanOptions
+): BarSplicePlan {
+  const rules = options.rules ?? DEFAULT_LAP_SPLICE_RULES;
+  const lapLength = getSpliceLapLength(diameter, options.developmentLength, rules);
+  const staggerDistance = Math.ceil(rules.staggerFactor * lapLength);
+  const warnings: string[] = [];
+
+  // A stock length that cannot hold a lap at each end leaves the bar unspliced
+  const tooShort = barLength > options.stockLength && options.stockLength <= 2 * lapLength;
+  if (tooShort) {
+    warnings.push(`Stock length ${options.stockLength} mm is too short for a ${lapLength} mm lap; ${barType} is not spliced`);
+  }
+  if (barLength <= options.stockLength || tooShort) {
+    return {
+      barLength, diameter, lapLength, laps: 0, staggerDistance,
+      groups: [{ quantity, pieces: [barLength], lapCentres: [], inRestrictedZone: false }],
+      totalLapLength: 0,
+      warnings,
+    };
+  }
+
+  const layer = options.layer ?? getBarLayer(barType);
+  const zones = getSpliceZones(options.memberType, layer);
+
+  // Split bars across groups so no more than maxBarsSplicedPercent are lapped at one section
+  const groupCount = Math.max(1, Math.min(quantity, Math.ceil(100 / rules.maxBarsSplicedPercent)));
+  const groups: SpliceGroup[] = [];
+  for (let g = 0; g < groupCount; g++) {
+    const groupQuantity = Math.floor(quantity / groupCount) + (g < quantity % groupCount ? 1 : 0);
+    const split = splitBar(barLength, options.stockLength, lapLength, zones, g * staggerDistance);
+    groups.push({ quantity: groupQuantity, ...split });
+  }
+
+  // Laps per bar must agree between groups for a uniform cut length in the BBS
+  const laps = Math.max(...groups.map(group => group.pieces.length - 1));
+  if (groups.some(group => group.inRestrictedZone)) {
+    warnings.push(`Some laps of ${barType} fall in a maximum-moment zone (${layer.toLowerCase()} bars of ${options.memberType.toLowerCase()})`);
+  }
+  if (groups.some(group => group.pieces.length - 1 !== laps)) {
+    warnings.push(`Staggering adds a lap to some ${barType} bars`);
+  }
+
+  return {
+    barLength,
+    diameter,
+    lapLength,
+    laps,
+    staggerDistance,
+    groups,
+    totalLapLength: laps * lapLength,
+    warnings,
+  };
+}
+
+/**
+ * Cut lengths of the pieces of a plan with their quantities (for cutting and weights).
+ * `endAllowance` is the length beyond the straight run (bends, hooks, legs less
+ * deductions); it is shared between the two end pieces.
+ */
+export function getSplicePieces(plan: BarSplicePlan, endAllowance: number = 0): { length: number; quantity: number }[] {
+  const pieces = new Map<number, number>();
+  plan.groups.forEach(group => {
+    const last = group.pieces.length - 1;
+    group.pieces.forEach((piece, index) => {
+      let length = piece;
+      if (index === 0) length += last === 0 ? endAllowance : endAllowance / 2;
+      else if (index === last) length += endAllowance / 2;
+      pieces.set(length, (pieces.get(length) ?? 0) + group.quantity);
+    });
+  });
+  return Array.from(pieces.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([length, quantity]) => ({ length, quantity }));
+}
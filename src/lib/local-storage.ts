@@ -1,9 +1,15 @@
 import type { ProjectConfig, BarEntry } from '../types';
 import { serializeProject, deserializeProject, validateSerializedProject } from './json-serializer';
+import { reviveHistory, trimHistory, EMPTY_HISTORY, HISTORY_LIMIT, type ProjectHistory } from './project-history';
+import { reviveRevisions, type RevisionSnapshot } from './project-revisions';
+import type { SyncState } from './project-sync';
 
 // Storage key prefix for projects
 const PROJECT_KEY_PREFIX = 'bbs_project_';
 const PROJECT_LIST_KEY = 'bbs_project_list';
+const HISTORY_KEY_PREFIX = 'bbs_history_';
+const REVISIONS_KEY_PREFIX = 'bbs_revisions_';
+const SYNC_STATE_KEY = 'bbs_sync_state';
 
 // Result types for storage operations
 export interface StorageResult<T> {
@@ -16,6 +22,7 @@ export interface ProjectListItem {
   id: string;
   name: string;
   lastModified: string;
+  updatedAt?: string;  // config.updatedAt (ISO), compared by cloud sync
 }
 
 /**
@@ -51,7 +58,7 @@ export function saveToLocalStorage(config: ProjectConfig, bars: BarEntry[]): Sto
     localStorage.setItem(key, JSON.stringify(serialized));
     
     // Update the project list
-    updateProjectList(config.id, config.name, serialized.lastModified);
+    updateProjectList(config.id, config.name, serialized.lastModified, serialized.config.updatedAt);
     
     return { success: true };
   } catch (error) {
@@ -177,9 +184,22 @@ export function deleteFromLocalStorage(projectId: string): StorageResult<void> {
   try {
     const key = PROJECT_KEY_PREFIX + projectId;
     localStorage.removeItem(key);
+    localStorage.removeItem(HISTORY_KEY_PREFIX + projectId);
+    localStorage.removeItem(REVISIONS_KEY_PREFIX + projectId);
     
     // Remove from project list
     removeFromProjectList(projectId);
+
+    // Projects already in the cloud are deleted there on the next sync
+    const syncState = loadSyncState();
+    if (syncState.success && syncState.data!.projects[projectId]) {
+      const projects = { ...syncState.data!.projects };
+      delete projects[projectId];
+      saveSyncState({
+        projects,
+        pendingDeletes: [...syncState.data!.pendingDeletes.filter(id => id !== projectId), projectId]
+      });
+    }
     
     return { success: true };
   } catch (error) {
@@ -191,6 +211,198 @@ export function deleteFromLocalStorage(projectId: string): StorageResult<void> {
   }
 }
 
+/**
+ * Saves the last `limit` undo/redo steps of a project
+ */
+export function saveHistoryToLocalStorage(
+  projectId: string,
+  history: ProjectHistory,
+  limit: number = HISTORY_LIMIT
+): StorageResult<void> {
+  if (!isLocalStorageAvailable()) {
+    return {
+      success: false,
+      error: 'Local storage is not available. History cannot be saved.'
+    };
+  }
+
+  try {
+    localStorage.setItem(HISTORY_KEY_PREFIX + projectId, JSON.stringify(trimHistory(history, limit)));
+    return { success: true };
+  } catch (error) {
+    // Out of quota: drop the stale history so it doesn't keep the project from saving
+    localStorage.removeItem(HISTORY_KEY_PREFIX + projectId);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return {
+      success: false,
+      error: `Failed to save history: ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Loads the saved undo/redo steps of a project (empty history when none are saved)
+ */
+export function loadHistoryFromLocalStorage(projectId: string): StorageResult<ProjectHistory> {
+  if (!isLocalStorageAvailable()) {
+    return {
+      success: false,
+      error: 'Local storage is not available.'
+    };
+  }
+
+  try {
+    const stored = localStorage.getItem(HISTORY_KEY_PREFIX + projectId);
+    if (!stored) {
+      return { success: true, data: EMPTY_HISTORY };
+    }
+
+    const history = reviveHistory(JSON.parse(stored));
+    if (!history) {
+      // Discard corrupted history rather than blocking the project
+      localStorage.removeItem(HISTORY_KEY_PREFIX + projectId);
+      return { success: true, data: EMPTY_HISTORY };
+    }
+
+    return { success: true, data: history };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return {
+      success: false,
+      error: `Failed to load history: ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Deletes the saved undo/redo steps of a project
+ */
+export function deleteHistoryFromLocalStorage(projectId: string): StorageResult<void> {
+  if (!isLocalStorageAvailable()) {
+    return {
+      success: false,
+      error: 'Local storage is not available.'
+    };
+  }
+
+  localStorage.removeItem(HISTORY_KEY_PREFIX + projectId);
+  return { success: true };
+}
+
+/**
+ * Saves the revision snapshots (R0, R1, ...) of a project
+ */
+export function saveRevisionsToLocalStorage(
+  projectId: string,
+  revisions: RevisionSnapshot[]
+): StorageResult<void> {
+  if (!isLocalStorageAvailable()) {
+    return {
+      success: false,
+      error: 'Local storage is not available. Revisions cannot be saved.'
+    };
+  }
+
+  try {
+    localStorage.setItem(REVISIONS_KEY_PREFIX + projectId, JSON.stringify(revisions));
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return {
+      success: false,
+      error: `Failed to save revisions: ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Loads the revision snapshots of a project (empty list when none are saved)
+ */
+export function loadRevisionsFromLocalStorage(projectId: string): StorageResult<RevisionSnapshot[]> {
+  if (!isLocalStorageAvailable()) {
+    return {
+      success: false,
+      error: 'Local storage is not available.'
+    };
+  }
+
+  try {
+    const stored = localStorage.getItem(REVISIONS_KEY_PREFIX + projectId);
+    if (!stored) {
+      return { success: true, data: [] };
+    }
+
+    const revisions = reviveRevisions(JSON.parse(stored));
+    if (!revisions) {
+      // Issued revisions are not discarded silently, unlike undo history
+      return {
+        success: false,
+        error: 'Saved revisions are corrupted.'
+      };
+    }
+
+    return { success: true, data: revisions };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return {
+      success: false,
+      error: `Failed to load revisions: ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Saves the cloud sync state (last synced version of each project, pending deletes)
+ */
+export function saveSyncState(state: SyncState): StorageResult<void> {
+  if (!isLocalStorageAvailable()) {
+    return {
+      success: false,
+      error: 'Local storage is not available.'
+    };
+  }
+
+  try {
+    localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return {
+      success: false,
+      error: `Failed to save sync state: ${errorMessage}`
+    };
+  }
+}
+
+/**
+ * Loads the cloud sync state (nothing synced yet when none is saved)
+ */
+export function loadSyncState(): StorageResult<SyncState> {
+  if (!isLocalStorageAvailable()) {
+    return {
+      success: false,
+      error: 'Local storage is not available.'
+    };
+  }
+
+  try {
+    const stored = localStorage.getItem(SYNC_STATE_KEY);
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (!parsed || typeof parsed.projects !== 'object' || !Array.isArray(parsed.pendingDeletes)) {
+      // Without a sync state every project is compared afresh, which is safe
+      return { success: true, data: { projects: {}, pendingDeletes: [] } };
+    }
+
+    return { success: true, data: parsed };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    return {
+      success: false,
+      error: `Failed to load sync state: ${errorMessage}`
+    };
+  }
+}
+
 /**
  * Exports project data as JSON string for backup
  */
@@ -244,7 +456,7 @@ export function importProjectFromJSON(jsonString: string): StorageResult<{ confi
 /**
  * Updates the project list with a new or modified project
  */
-function updateProjectList(id: string, name: string, lastModified: string): void {
+function updateProjectList(id: string, name: string, lastModified: string, updatedAt: string): void {
   const listResult = getProjectList();
   const currentList = listResult.success ? listResult.data! : [];
   
@@ -252,7 +464,7 @@ function updateProjectList(id: string, name: string, lastModified: string): void
   const filteredList = currentList.filter(item => item.id !== id);
   
   // Add the updated entry
-  const updatedList = [...filteredList, { id, name, lastModified }];
+  const updatedList = [...filteredList, { id, name, lastModified, updatedAt }];
   
   // Sort by last modified (most recent first)
   updatedList.sort((a, b) => new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime());
@@ -286,13 +498,18 @@ export function clearAllProjects(): StorageResult<void> {
 
   try {
     // Get all project keys
-    const keys = Object.keys(localStorage).filter(key => key.startsWith(PROJECT_KEY_PREFIX));
+    const keys = Object.keys(localStorage).filter(key =>
+      key.startsWith(PROJECT_KEY_PREFIX) ||
+      key.startsWith(HISTORY_KEY_PREFIX) ||
+      key.startsWith(REVISIONS_KEY_PREFIX)
+    );
     
     // Remove all project data
     keys.forEach(key => localStorage.removeItem(key));
     
-    // Clear project list
+    // Clear project list; the next sync starts over
     localStorage.removeItem(PROJECT_LIST_KEY);
+    localStorage.removeItem(SYNC_STATE_KEY);
     
     return { success: true };
   } catch (error) {
@@ -0,0 +1,202 @@
+/**
+ * Pile and Pile Cap Calculator
+ * Bars for FOOTING components of type PILE_CYLINDER (circular piles) or PILE_CUBOID
+ * (square piles). The component is the pile cap, spanX × spanY × depth; the piles
+ * under it come from component.pile.
+ *
+ * Piles (IS 2911):
+ * - Main bars run the pile length and anchor Ld into the cap above the pile head,
+ *   bent over at the top where the cap is too shallow for a straight bar
+ * - Helical links at a pitch, or circular hoops / closed links at a spacing
+ * - Stiffener rings inside the main bars to hold the cage
+ *
+ * Pile cap:
+ * - Bottom mesh in both directions with ends bent up to the top less cover
+ * - Side face bars as closed loops round the cap, lapped once
+ *
+ * Counts include every pile under the cap.
+ */
+
+import type { BarMeasurements, ConcreteComponent, PileDetails } from '../types/component-types';
+import { resolveDevelopmentLength, type DevelopmentLengthContext } from './development-length';
+import { DEFAULT_LAP_SPLICE_RULES, getSpliceLapLength } from './lap-splice-planner';
+import { designTies } from './tie-designer';
+
+const DEFAULT_PILE: Required<PileDetails> = {
+  diameter: 600,
+  length: 10000,
+  count: 1,
+  embedment: 75,
+};
+
+const MIN_BARS_CIRCULAR = 6;           // IS 2911-1-2: at least 6 main bars in a circular pile
+const MIN_BARS_SQUARE = 4;
+const MIN_ANCHORAGE_LEG = 12;          // × d, minimum leg of a bar bent over in the cap
+const RING_LAP = 10;                   // × d, stiffener rings closed with a 10d lap
+
+export function isPileFooting(component: ConcreteComponent): boolean {
+  return component.componentType === 'FOOTING' &&
+    (component.footingType === 'PILE_CYLINDER' || component.footingType === 'PILE_CUBOID');
+}
+
+export function getPileDetails(component: ConcreteComponent): Required<PileDetails> {
+  return { ...DEFAULT_PILE, ...component.pile };
+}
+
+const isCircular = (component: ConcreteComponent) => component.footingType === 'PILE_CYLINDER';
+
+// Pile section for the tie designer: links are spaced along the pile length
+function getPileSection(component: ConcreteComponent) {
+  const pile = getPileDetails(component);
+  return { width: pile.diameter, depth: pile.diameter, cover: component.cover, length: pile.length };
+}
+
+// Helical links only suit circular piles; square piles get closed links
+function getLinkLayout(barType: string, component: ConcreteComponent, diameter: number, spacing: number) {
+  const configuration = !isCircular(component)
+    ? 'TWO_LEGGED'
+    : barType === 'pile helical link' ? 'SPIRAL' : 'CIRCULAR_HOOP';
+  return designTies({ configuration }, getPileSection(component), diameter, spacing);
+}
+
+// ============================================================================
+// MEASUREMENTS
+// ============================================================================
+
+/**
+ * Measurements of a pile or pile cap bar, or undefined for other bar types
+ */
+export function calculatePileBarMeasurements(
+  barType: string,
+  component: ConcreteComponent,
+  diameter: number,
+  spacing: number,
+  ld: DevelopmentLengthContext
+): BarMeasurements | undefined {
+  const normalizedType = barType.toLowerCase();
+  const pile = getPileDetails(component);
+  const cover = component.cover;
+  const capDepth = component.depth || 900;
+
+  // Main bars: pile length, then anchorage above the pile head
+  if (normalizedType === 'pile main bar') {
+    const developmentLength = resolveDevelopmentLength(diameter, ld);
+    const available = Math.max(0, capDepth - pile.embedment - cover);
+    const straight = Math.min(developmentLength, available);
+    const a = Math.ceil(pile.length - cover + pile.embedment + straight);
+    if (developmentLength <= available) return { a };
+    return { a, b: Math.ceil(Math.max(developmentLength - available, MIN_ANCHORAGE_LEG * diameter)) };
+  }
+
+  // Links: one piece per link, as calculateColumnTie
+  if (normalizedType === 'pile helical link' || normalizedType === 'pile link') {
+    const [piece] = getLinkLayout(normalizedType, component, diameter, spacing).pieces;
+    const { a, b = 0, c = 0, d = 0, e = 0, f = 0 } = piece.measurements;
+    return { a: a + b + c + d + e + f };
+  }
+
+  // Stiffener rings: inside the main bars, lapped closed
+  if (normalizedType === 'pile stiffener ring') {
+    const inside = pile.diameter - 2 * cover - 2 * diameter;
+    const perimeter = isCircular(component) ? Math.PI * inside : 4 * inside;
+    return { a: Math.round(perimeter), lap: RING_LAP * diameter };
+  }
+
+  // Cap bottom mesh: ends bent up to the top of the cap
+  if (normalizedType === 'cap bottom main (l)' || normalizedType === 'cap bottom main (b)') {
+    const span = normalizedType.endsWith('(l)') ? component.spanX : component.spanY;
+    const leg = Math.max(0, capDepth - 2 * cover);
+    return { a: span - 2 * cover, b: leg, c: leg };
+  }
+
+  // Cap side face bars: closed loop round the cap
+  if (normalizedType === 'cap side face bar') {
+    const perimeter = 2 * (component.spanX - 2 * cover) + 2 * (component.spanY - 2 * cover);
+    const lap = getSpliceLapLength(
+      diameter,
+      resolveDevelopmentLength(diameter, ld),
+      ld.profile?.lapSplice ?? DEFAULT_LAP_SPLICE_RULES
+    );
+    return { a: perimeter, lap };
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// COUNTS AND BENDS
+// ============================================================================
+
+/**
+ * Number of bars for the whole cap and all its piles, or undefined for other bar types
+ */
+export function calculatePileBarCount(
+  barType: string,
+  component: ConcreteComponent,
+  spacing: number
+): number | undefined {
+  const normalizedType = barType.toLowerCase();
+  const pile = getPileDetails(component);
+  const cover = component.cover;
+  const capDepth = component.depth || 900;
+  const perPile = (count: number) => count * pile.count;
+
+  if (normalizedType === 'pile main bar') {
+    const core = pile.diameter - 2 * cover;
+    return perPile(isCircular(component)
+      ? Math.max(MIN_BARS_CIRCULAR, Math.ceil((Math.PI * core) / spacing))
+      : Math.max(MIN_BARS_SQUARE, 4 * Math.ceil(core / spacing)));
+  }
+
+  // One continuous helix per pile
+  if (normalizedType === 'pile helical link' && isCircular(component)) {
+    return perPile(1);
+  }
+
+  if (normalizedType === 'pile helical link' || normalizedType === 'pile link' || normalizedType === 'pile stiffener ring') {
+    return perPile(Math.ceil(pile.length / spacing));
+  }
+
+  if (normalizedType === 'cap bottom main (l)') {
+    return Math.ceil(component.spanY / spacing); // Across width
+  }
+
+  if (normalizedType === 'cap bottom main (b)') {
+    return Math.ceil(component.spanX / spacing); // Across length
+  }
+
+  if (normalizedType === 'cap side face bar') {
+    return Math.ceil(Math.max(0, capDepth - 2 * cover) / spacing); // Up the cap depth
+  }
+
+  return undefined;
+}
+
+/**
+ * Bends to deduct for a pile or pile cap bar, or undefined for other bar types
+ */
+export function getPileBarDeductions(
+  barType: string,
+  component: ConcreteComponent,
+  measurements: BarMeasurements,
+  diameter: number
+): number | undefined {
+  const normalizedType = barType.toLowerCase();
+
+  if (normalizedType === 'pile main bar') {
+    return measurements.b ? 1 : 0;
+  }
+  if (normalizedType === 'pile helical link' || normalizedType === 'pile link') {
+    return getLinkLayout(normalizedType, component, diameter, 0).pieces[0].bends;
+  }
+  if (normalizedType === 'pile stiffener ring') {
+    return 0;
+  }
+  if (normalizedType === 'cap bottom main (l)' || normalizedType === 'cap bottom main (b)') {
+    return 2;
+  }
+  if (normalizedType === 'cap side face bar') {
+    return 4; // Corners of the loop
+  }
+  return undefined;
+}
@@ -0,0 +1,342 @@
+/**
+ * Project History
+ * Command-based undo/redo for both calculation modes. Every edit is recorded as a
+ * command holding the parts of the project it changed (config and/or manual bars)
+ * before and after, so undo and redo restore state without re-running the edit.
+ * Commands are plain data, which lets the last N steps be saved with the project.
+ */
+
+import type { ProjectConfig, BarEntry } from '../types';
+import type { ConcreteComponent } from '../types/component-types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProjectState {
+  config: ProjectConfig;
+  bars: BarEntry[];
+}
+
+export type HistoryCommandType =
+  | 'ADD'
+  | 'UPDATE'
+  | 'DELETE'
+  | 'REORDER'
+  | 'METADATA'
+  | 'PROFILE'
+  | 'SETTINGS'
+  | 'MODE'
+  | 'MARKS';
+
+export interface HistoryCommand {
+  id: string;
+  type: HistoryCommandType;
+  label: string;                   // Shown in the history panel, e.g. "Delete component C3 (40 bars)"
+  timestamp: number;               // ms since epoch
+  mergeKey?: string;               // Consecutive edits with the same key collapse into one step
+  before: Partial<ProjectState>;
+  after: Partial<ProjectState>;
+}
+
+export interface ProjectHistory {
+  past: HistoryCommand[];          // Oldest first
+  future: HistoryCommand[];        // Next redo first
+}
+
+/** What an edit is, before it is turned into a command */
+export interface HistoryChange {
+  type: HistoryCommandType;
+  label: string;
+  mergeKey?: string;
+}
+
+export const HISTORY_LIMIT = 50;
+// Characters of saved history per project; each step holds full snapshots and the
+// whole origin shares a ~5 MB localStorage quota with the projects themselves
+export const HISTORY_STORAGE_LIMIT = 1_000_000;
+
+// Typing in a field collapses into one step while edits keep coming this fast
+const MERGE_WINDOW_MS = 1000;
+// Edits one user action makes through several callbacks (e.g. metadata + recalculation)
+const BATCH_WINDOW_MS = 100;
+
+export const EMPTY_HISTORY: ProjectHistory = { past: [], future: [] };
+
+// ============================================================================
+// DESCRIBING CHANGES
+// ============================================================================
+
+function sameOrder<T extends { id: string }>(before: T[], after: T[]): boolean {
+  return before.every((item, index) => item.id === after[index].id);
+}
+
+function changedItem<T extends { id: string }>(before: T[], after: T[]): T | undefined {
+  const previous = new Map(before.map(item => [item.id, item]));
+  return after.find(item => previous.get(item.id) !== item);
+}
+
+/**
+ * Describe an edit of the manual bar list (BarEntryTable)
+ */
+export function describeBarChange(before: BarEntry[], after: BarEntry[]): HistoryChange {
+  const barLabel = (bar: BarEntry) => `${bar.memberType.toLowerCase()} bar ${bar.shapeCode} Ø${bar.diameter}`;
+
+  if (after.length > before.length) {
+    const ids = new Set(before.map(bar => bar.id));
+    const added = after.filter(bar => !ids.has(bar.id));
+    return {
+      type: 'ADD',
+      label: added.length === 1 ? `Add ${barLabel(added[0])}` : `Add ${added.length} bars`,
+    };
+  }
+
+  if (after.length < before.length) {
+    const ids = new Set(after.map(bar => bar.id));
+    const removed = before.filter(bar => !ids.has(bar.id));
+    return {
+      type: 'DELETE',
+      label: removed.length === 1 ? `Delete ${barLabel(removed[0])}` : `Delete ${removed.length} bars`,
+    };
+  }
+
+  if (!sameOrder(before, after)) {
+    return { type: 'REORDER', label: 'Reorder bars' };
+  }
+
+  const updated = changedItem(before, after);
+  return {
+    type: 'UPDATE',
+    label: updated ? `Edit ${barLabel(updated)}` : 'Edit bars',
+    mergeKey: updated ? `bar:${updated.id}` : undefined,
+  };
+}
+
+/**
+ * Describe an edit of the component list (BBSSpreadsheetView)
+ */
+export function describeComponentChange(before: ConcreteComponent[], after: ConcreteComponent[]): HistoryChange {
+  const barCount = (component: ConcreteComponent) =>
+    `${component.bars.length} bar${component.bars.length === 1 ? '' : 's'}`;
+
+  if (after.length > before.length) {
+    const ids = new Set(before.map(component => component.id));
+    const added = after.filter(component => !ids.has(component.id));
+    return {
+      type: 'ADD',
+      label: added.length === 1 ? `Add component ${added[0].name}` : `Add ${added.length} components`,
+    };
+  }
+
+  if (after.length < before.length) {
+    const ids = new Set(after.map(component => component.id));
+    const removed = before.filter(component => !ids.has(component.id));
+    return {
+      type: 'DELETE',
+      label: removed.length === 1
+        ? `Delete component ${removed[0].name} (${barCount(removed[0])})`
+        : `Delete ${removed.length} components`,
+    };
+  }
+
+  if (!sameOrder(before, after)) {
+    return { type: 'REORDER', label: 'Reorder components' };
+  }
+
+  const updated = changedItem(before, after);
+  if (!updated) return { type: 'UPDATE', label: 'Edit components' };
+
+  const previous = before.find(component => component.id === updated.id)!;
+  if (updated.bars.length > previous.bars.length) {
+    return { type: 'ADD', label: `Add bar to ${updated.name}` };
+  }
+  if (updated.bars.length < previous.bars.length) {
+    const ids = new Set(updated.bars.map(bar => bar.id));
+    const removed = previous.bars.find(bar => !ids.has(bar.id));
+    return { type: 'DELETE', label: `Delete ${removed?.barType ?? 'bar'} from ${updated.name}` };
+  }
+  return { type: 'UPDATE', label: `Edit ${updated.name}`, mergeKey: `component:${updated.id}` };
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Record an edit. Repeated edits of the same item within a second, and edits made
+ * by one action through several callbacks, are merged into the previous step.
+ */
+export function recordCommand(
+  history: ProjectHistory,
+  change: HistoryChange,
+  before: Partial<ProjectState>,
+  after: Partial<ProjectState>,
+  timestamp: number = Date.now(),
+  limit: number = HISTORY_LIMIT
+): ProjectHistory {
+  const last = history.past[history.past.length - 1];
+  const elapsed = last ? timestamp - last.timestamp : Infinity;
+  const merge = last && (
+    elapsed < BATCH_WINDOW_MS ||
+    (change.mergeKey !== undefined && change.mergeKey === last.mergeKey && elapsed < MERGE_WINDOW_MS)
+  );
+
+  if (merge) {
+    const merged: HistoryCommand = {
+      ...last,
+      timestamp,
+      // The oldest value of each part is kept so undo returns to before the first edit
+      before: { ...before, ...last.before },
+      after: { ...last.after, ...after },
+    };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  const command: HistoryCommand = {
+    id: crypto.randomUUID(),
+    ...change,
+    timestamp,
+    before,
+    after,
+  };
+  return { past: [...history.past, command].slice(-limit), future: [] };
+}
+
+// ============================================================================
+// UNDO / REDO
+// ============================================================================
+
+function applySnapshot(state: ProjectState, snapshot: Partial<ProjectState>): ProjectState {
+  return {
+    config: snapshot.config ?? state.config,
+    bars: snapshot.bars ?? state.bars,
+  };
+}
+
+export function canUndo(history: ProjectHistory): boolean {
+  return history.past.length > 0;
+}
+
+export function canRedo(history: ProjectHistory): boolean {
+  return history.future.length > 0;
+}
+
+/**
+ * Undo the last step. Returns null when there is nothing to undo.
+ */
+export function undo(
+  history: ProjectHistory,
+  state: ProjectState
+): { history: ProjectHistory; state: ProjectState } | null {
+  const command = history.past[history.past.length - 1];
+  if (!command) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [command, ...history.future] },
+    state: applySnapshot(state, command.before),
+  };
+}
+
+/**
+ * Redo the last undone step. Returns null when there is nothing to redo.
+ */
+export function redo(
+  history: ProjectHistory,
+  state: ProjectState
+): { history: ProjectHistory; state: ProjectState } | null {
+  const [command, ...future] = history.future;
+  if (!command) return null;
+  return {
+    history: { past: [...history.past, command], future },
+    state: applySnapshot(state, command.after),
+  };
+}
+
+/**
+ * Undo or redo until `commandId` is the last applied step (history panel jumps)
+ */
+export function jumpTo(
+  history: ProjectHistory,
+  state: ProjectState,
+  commandId: string | null
+): { history: ProjectHistory; state: ProjectState } {
+  let current = { history, state };
+  const isTarget = (h: ProjectHistory) =>
+    commandId === null ? h.past.length === 0 : h.past[h.past.length - 1]?.id === commandId;
+
+  if (commandId === null || history.past.some(command => command.id === commandId)) {
+    while (!isTarget(current.history)) {
+      const next = undo(current.history, current.state);
+      if (!next) break;
+      current = next;
+    }
+  } else if (history.future.some(command => command.id === commandId)) {
+    while (!isTarget(current.history)) {
+      const next = redo(current.history, current.state);
+      if (!next) break;
+      current = next;
+    }
+  }
+  return current;
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+function reviveSnapshot(snapshot: Partial<ProjectState>): Partial<ProjectState> {
+  if (!snapshot.config) return snapshot;
+  return {
+    ...snapshot,
+    config: {
+      ...snapshot.config,
+      createdAt: new Date(snapshot.config.createdAt),
+      updatedAt: new Date(snapshot.config.updatedAt),
+    },
+  };
+}
+
+/**
+ * Restore history parsed from JSON (dates in config snapshots come back as strings)
+ */
+export function reviveHistory(data: unknown): ProjectHistory | null {
+  if (!data || typeof data !== 'object') return null;
+  const { past, future } = data as Partial<ProjectHistory>;
+  if (!Array.isArray(past) || !Array.isArray(future)) return null;
+
+  const isCommand = (command: HistoryCommand) =>
+    !!command && typeof command.id === 'string' && typeof command.label === 'string' &&
+    typeof command.before === 'object' && typeof command.after === 'object';
+  if (!past.every(isCommand) || !future.every(isCommand)) return null;
+
+  const revive = (command: HistoryCommand): HistoryCommand => ({
+    ...command,
+    before: reviveSnapshot(command.before),
+    after: reviveSnapshot(command.after),
+  });
+  return { past: past.map(revive), future: future.map(revive) };
+}
+
+/**
+ * Keep at most `limit` steps and `maxSize` characters of JSON in total for storage,
+ * dropping the oldest undo steps first, then the furthest redo steps
+ */
+export function trimHistory(
+  history: ProjectHistory,
+  limit: number = HISTORY_LIMIT,
+  maxSize: number = HISTORY_STORAGE_LIMIT
+): ProjectHistory {
+  let future = history.future.slice(0, limit);
+  let past = history.past.slice(Math.max(0, history.past.length - (limit - future.length)));
+
+  const sizeOf = (command: HistoryCommand) => JSON.stringify(command).length + 1;
+  let size = [...past, ...future].reduce((total, command) => total + sizeOf(command), 0);
+  while (size > maxSize && past.length > 0) {
+    size -= sizeOf(past[0]);
+    past = past.slice(1);
+  }
+  while (size > maxSize && future.length > 0) {
+    size -= sizeOf(future[future.length - 1]);
+    future = future.slice(0, -1);
+  }
+  return { past, future };
+}
@@ -0,0 +1,327 @@
+/**
+ * Project Revisions
+ * Named snapshots of a project (R0, R1, R2, ...) issued as BBS revisions, and the
+ * diff between two of them: component by component and bar by bar, with the net
+ * weight change per diameter. Both calculation modes are compared the same way by
+ * first reducing a snapshot to groups of calculated bars.
+ */
+
+import type { ProjectConfig, BarEntry } from '../types';
+import { calculateAll } from './calculator';
+import { calculateComponentBarEntryEnhanced } from './enhanced-calculator';
+import { getDevelopmentLengthContext } from './development-length';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RevisionSnapshot {
+  id: string;
+  name: string;                    // "R0", "R1", ...
+  note?: string;                   // Reason for the revision
+  createdAt: string;               // ISO date
+  config: ProjectConfig;
+  bars: BarEntry[];
+}
+
+/** A bar as compared between revisions */
+export interface RevisionBar {
+  key: string;                     // Bar id
+  label: string;                   // "Bottom Bar (X-X)", "S1 Ø12", ...
+  diameter: number;                // mm
+  cutLength: number;               // mm
+  quantity: number;
+  weight: number;                  // kg
+}
+
+/** A component (component mode) or member type (manual mode) */
+export interface RevisionGroup {
+  key: string;
+  name: string;
+  bars: RevisionBar[];
+}
+
+export type RevisionChangeType = 'ADDED' | 'REMOVED' | 'CHANGED' | 'UNCHANGED';
+
+export type RevisionField = 'cutLength' | 'quantity' | 'diameter';
+
+export interface BarDiff {
+  key: string;
+  label: string;
+  type: RevisionChangeType;
+  before?: RevisionBar;
+  after?: RevisionBar;
+  changes: RevisionField[];
+  weightDelta: number;             // kg
+}
+
+export interface ComponentDiff {
+  key: string;
+  name: string;
+  type: RevisionChangeType;
+  bars: BarDiff[];
+  weightDelta: number;             // kg
+}
+
+export interface DiameterDelta {
+  diameter: number;
+  before: number;                  // kg
+  after: number;                   // kg
+  delta: number;                   // kg
+}
+
+export interface RevisionDiff {
+  from: RevisionSnapshot;
+  to: RevisionSnapshot;
+  components: ComponentDiff[];
+  diameters: DiameterDelta[];
+  totalBefore: number;             // kg
+  totalAfter: number;              // kg
+  totalDelta: number;              // kg
+}
+
+const MEMBER_NAMES: Record<BarEntry['memberType'], string> = {
+  BEAM: 'Beams',
+  COLUMN: 'Columns',
+  SLAB: 'Slabs',
+};
+
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+/**
+ * Next revision name: R0 for the first issue, then one above the highest Rn
+ * (falls back to the number of revisions when none follow the Rn pattern)
+ */
+export function getNextRevisionName(revisions: RevisionSnapshot[]): string {
+  const numbers = revisions
+    .map(revision => /^R(\d+)$/i.exec(revision.name.trim()))
+    .filter((match): match is RegExpExecArray => match !== null)
+    .map(match => parseInt(match[1], 10));
+  return `R${numbers.length === 0 ? revisions.length : Math.max(...numbers) + 1}`;
+}
+
+/**
+ * Freeze the current project as a named revision
+ */
+export function createRevisionSnapshot(
+  config: ProjectConfig,
+  bars: BarEntry[],
+  name: string,
+  note?: string
+): RevisionSnapshot {
+  // Copy so later edits of the project cannot reach into the snapshot
+  const copy = JSON.parse(JSON.stringify({ config, bars })) as { config: ProjectConfig; bars: BarEntry[] };
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    note: note?.trim() || undefined,
+    createdAt: new Date().toISOString(),
+    config: {
+      ...copy.config,
+      createdAt: new Date(config.createdAt),
+      updatedAt: new Date(config.updatedAt),
+    },
+    bars: copy.bars,
+  };
+}
+
+/**
+ * Restore snapshots parsed from JSON; invalid entries are dropped
+ */
+export function reviveRevisions(data: unknown): RevisionSnapshot[] | null {
+  if (!Array.isArray(data)) return null;
+  return data
+    .filter((revision: RevisionSnapshot) =>
+      !!revision && typeof revision.id === 'string' && typeof revision.name === 'string' &&
+      !!revision.config && Array.isArray(revision.bars)
+    )
+    .map((revision: RevisionSnapshot) => ({
+      ...revision,
+      config: {
+        ...revision.config,
+        createdAt: new Date(revision.config.createdAt),
+        updatedAt: new Date(revision.config.updatedAt),
+      },
+    }));
+}
+
+/**
+ * Reduce a snapshot to groups of calculated bars in the snapshot's own mode
+ */
+export function getRevisionGroups(snapshot: Pick<RevisionSnapshot, 'config' | 'bars'>): RevisionGroup[] {
+  const { config, bars } = snapshot;
+
+  if (config.calculationMode === 'COMPONENT') {
+    const ld = getDevelopmentLengthContext(config.bbsMetadata);
+    return (config.components || []).map(component => ({
+      key: component.id,
+      name: component.name,
+      bars: component.bars.map(bar => {
+        const calculated = bar.calculated ?? calculateComponentBarEntryEnhanced(bar, component, ld);
+        return {
+          key: bar.id,
+          label: bar.barType,
+          diameter: bar.diameter,
+          cutLength: calculated.cuttingLength,
+          quantity: calculated.noOfBars,
+          weight: calculated.totalWeight,
+        };
+      }),
+    }));
+  }
+
+  const calculated = calculateAll(bars, config);
+  return (['BEAM', 'COLUMN', 'SLAB'] as const)
+    .map(memberType => ({
+      key: memberType,
+      name: MEMBER_NAMES[memberType],
+      bars: calculated
+        .filter(bar => bar.memberType === memberType)
+        .map(bar => ({
+          key: bar.id,
+          label: `${bar.shapeCode} Ø${bar.diameter}${bar.remarks ? ` - ${bar.remarks}` : ''}`,
+          diameter: bar.diameter,
+          cutLength: bar.cutLength,
+          quantity: bar.quantity,
+          weight: bar.totalWeight,
+        })),
+    }))
+    .filter(group => group.bars.length > 0);
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Pair items by key, then the leftovers by a secondary name (e.g. a component
+ * deleted and re-added under the same name). Unpaired items have one side missing.
+ */
+function matchItems<T>(
+  before: T[],
+  after: T[],
+  key: (item: T) => string,
+  name: (item: T) => string
+): { before?: T; after?: T }[] {
+  const pairs: { before?: T; after?: T }[] = [];
+  const unmatched = [...before];
+
+  const take = (predicate: (item: T) => boolean) => {
+    const index = unmatched.findIndex(predicate);
+    return index === -1 ? undefined : unmatched.splice(index, 1)[0];
+  };
+
+  const pending: T[] = [];
+  after.forEach(item => {
+    const match = take(candidate => key(candidate) === key(item));
+    if (match) pairs.push({ before: match, after: item });
+    else pending.push(item);
+  });
+  pending.forEach(item => {
+    const match = take(candidate => name(candidate) === name(item));
+    pairs.push({ before: match, after: item });
+  });
+  unmatched.forEach(item => pairs.push({ before: item }));
+
+  return pairs;
+}
+
+function diffBar(before?: RevisionBar, after?: RevisionBar): BarDiff {
+  const weightDelta = (after?.weight ?? 0) - (before?.weight ?? 0);
+  const bar = (after ?? before)!;
+
+  if (!before || !after) {
+    return {
+      key: bar.key,
+      label: bar.label,
+      type: before ? 'REMOVED' : 'ADDED',
+      before,
+      after,
+      changes: [],
+      weightDelta,
+    };
+  }
+
+  // Cut lengths are compared to the millimetre shown in the schedule
+  const changes: RevisionField[] = [];
+  if (Math.round(before.cutLength) !== Math.round(after.cutLength)) changes.push('cutLength');
+  if (before.quantity !== after.quantity) changes.push('quantity');
+  if (before.diameter !== after.diameter) changes.push('diameter');
+
+  return {
+    key: bar.key,
+    label: bar.label,
+    type: changes.length > 0 ? 'CHANGED' : 'UNCHANGED',
+    before,
+    after,
+    changes,
+    weightDelta,
+  };
+}
+
+function diffGroup(before?: RevisionGroup, after?: RevisionGroup): ComponentDiff {
+  const group = (after ?? before)!;
+  const bars = matchItems(before?.bars ?? [], after?.bars ?? [], bar => bar.key, bar => bar.label)
+    .map(pair => diffBar(pair.before, pair.after));
+
+  const type: RevisionChangeType = !before
+    ? 'ADDED'
+    : !after
+      ? 'REMOVED'
+      : bars.some(bar => bar.type !== 'UNCHANGED') || before.name !== after.name
+        ? 'CHANGED'
+        : 'UNCHANGED';
+
+  return {
+    key: group.key,
+    name: group.name,
+    type,
+    bars,
+    weightDelta: bars.reduce((sum, bar) => sum + bar.weightDelta, 0),
+  };
+}
+
+function weightByDiameter(groups: RevisionGroup[]): Map<number, number> {
+  const weights = new Map<number, number>();
+  groups.forEach(group => group.bars.forEach(bar => {
+    weights.set(bar.diameter, (weights.get(bar.diameter) ?? 0) + bar.weight);
+  }));
+  return weights;
+}
+
+/**
+ * Compare two revisions. Components are matched by id, then by name; bars within
+ * a component by id, then by bar type.
+ */
+export function diffRevisions(from: RevisionSnapshot, to: RevisionSnapshot): RevisionDiff {
+  const beforeGroups = getRevisionGroups(from);
+  const afterGroups = getRevisionGroups(to);
+
+  const components = matchItems(beforeGroups, afterGroups, group => group.key, group => group.name)
+    .map(pair => diffGroup(pair.before, pair.after));
+
+  const beforeWeights = weightByDiameter(beforeGroups);
+  const afterWeights = weightByDiameter(afterGroups);
+  const diameters = [...new Set([...beforeWeights.keys(), ...afterWeights.keys()])]
+    .sort((a, b) => a - b)
+    .map(diameter => {
+      const before = beforeWeights.get(diameter) ?? 0;
+      const after = afterWeights.get(diameter) ?? 0;
+      return { diameter, before, after, delta: after - before };
+    });
+
+  const totalBefore = diameters.reduce((sum, item) => sum + item.before, 0);
+  const totalAfter = diameters.reduce((sum, item) => sum + item.after, 0);
+
+  return {
+    from,
+    to,
+    components,
+    diameters,
+    totalBefore,
+    totalAfter,
+    totalDelta: totalAfter - totalBefore,
+  };
+}
@@ -0,0 +1,189 @@
+/**
+ * Project Storage
+ * One async API over where projects are kept: the browser (localStorage) and
+ * Supabase. Both return `StorageResult`, so the sync in project-sync.ts can move
+ * projects between them without knowing which is which.
+ *
+ * Supabase table (create once per Supabase project):
+ *
+ *   create table projects (
+ *     id text primary key,
+ *     name text not null,
+ *     updated_at timestamptz not null,   -- config.updatedAt, compared for conflicts
+ *     data jsonb not null                -- SerializedProject
+ *   );
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ProjectConfig, BarEntry } from '../types';
+import {
+  serializeProject,
+  deserializeProject,
+  validateSerializedProject,
+  type SerializedProject
+} from './json-serializer';
+import {
+  deleteFromLocalStorage,
+  deleteHistoryFromLocalStorage,
+  getProjectList,
+  loadFromLocalStorage,
+  saveToLocalStorage,
+  type StorageResult
+} from './local-storage';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StoredProject {
+  config: ProjectConfig;
+  bars: BarEntry[];
+}
+
+/** What the sync needs to know about a project without loading it */
+export interface ProjectVersion {
+  id: string;
+  name: string;
+  updatedAt: string;               // ISO, config.updatedAt
+}
+
+export interface ProjectStorage {
+  readonly name: 'local' | 'supabase';
+  listProjects(): Promise<StorageResult<ProjectVersion[]>>;
+  loadProject(projectId: string): Promise<StorageResult<StoredProject>>;
+  saveProject(config: ProjectConfig, bars: BarEntry[]): Promise<StorageResult<void>>;
+  deleteProject(projectId: string): Promise<StorageResult<void>>;
+}
+
+export const PROJECTS_TABLE = 'projects';
+
+interface ProjectRow {
+  id: string;
+  name: string;
+  updated_at: string;
+  data: SerializedProject;
+}
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : 'Unknown error occurred';
+
+// ============================================================================
+// LOCAL
+// ============================================================================
+
+/**
+ * Projects in this browser (see local-storage.ts)
+ */
+export const localProjectStorage: ProjectStorage = {
+  name: 'local',
+
+  async listProjects() {
+    const list = getProjectList();
+    if (!list.success) return { success: false, error: list.error };
+
+    const versions: ProjectVersion[] = [];
+    for (const item of list.data!) {
+      // Lists saved before sync existed have no updatedAt; read it from the project
+      let updatedAt = item.updatedAt;
+      if (!updatedAt) {
+        const project = loadFromLocalStorage(item.id);
+        if (!project.success) continue;
+        updatedAt = project.data!.config.updatedAt.toISOString();
+      }
+      versions.push({ id: item.id, name: item.name, updatedAt });
+    }
+    return { success: true, data: versions };
+  },
+
+  async loadProject(projectId) {
+    return loadFromLocalStorage(projectId);
+  },
+
+  // Only a sync saves here, over the local copy: undo steps recorded against the
+  // replaced copy would revert the pulled changes, so they are dropped
+  async saveProject(config, bars) {
+    const saved = saveToLocalStorage(config, bars);
+    if (saved.success) deleteHistoryFromLocalStorage(config.id);
+    return saved;
+  },
+
+  async deleteProject(projectId) {
+    return deleteFromLocalStorage(projectId);
+  },
+};
+
+// ============================================================================
+// SUPABASE
+// ============================================================================
+
+/**
+ * Projects in a Supabase table (one row per project)
+ */
+export function createSupabaseProjectStorage(
+  client: SupabaseClient,
+  table: string = PROJECTS_TABLE
+): ProjectStorage {
+  return {
+    name: 'supabase',
+
+    async listProjects() {
+      try {
+        const { data, error } = await client.from(table).select('id, name, updated_at');
+        if (error) return { success: false, error: `Failed to load cloud projects: ${error.message}` };
+
+        return {
+          success: true,
+          data: (data as Pick<ProjectRow, 'id' | 'name' | 'updated_at'>[]).map(row => ({
+            id: row.id,
+            name: row.name,
+            updatedAt: new Date(row.updated_at).toISOString(),
+          })),
+        };
+      } catch (error) {
+        return { success: false, error: `Failed to load cloud projects: ${errorMessage(error)}` };
+      }
+    },
+
+    async loadProject(projectId) {
+      try {
+        const { data, error } = await client.from(table).select('data').eq('id', projectId).maybeSingle();
+        if (error) return { success: false, error: `Failed to load cloud project: ${error.message}` };
+        if (!data) return { success: false, error: 'Project not found in the cloud.' };
+
+        const serialized = (data as Pick<ProjectRow, 'data'>).data;
+        if (!validateSerializedProject(serialized)) {
+          return { success: false, error: 'Invalid project data format in the cloud.' };
+        }
+        return { success: true, data: deserializeProject(serialized) };
+      } catch (error) {
+        return { success: false, error: `Failed to load cloud project: ${errorMessage(error)}` };
+      }
+    },
+
+    async saveProject(config, bars) {
+      try {
+        const row: ProjectRow = {
+          id: config.id,
+          name: config.name,
+          updated_at: config.updatedAt.toISOString(),
+          data: serializeProject(config, bars),
+        };
+        const { error } = await client.from(table).upsert(row);
+        if (error) return { success: false, error: `Failed to save cloud project: ${error.message}` };
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: `Failed to save cloud project: ${errorMessage(error)}` };
+      }
+    },
+
+    async deleteProject(projectId) {
+      try {
+        const { error } = await client.from(table).delete().eq('id', projectId);
+        if (error) return { success: false, error: `Failed to delete cloud project: ${error.message}` };
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: `Failed to delete cloud project: ${errorMessage(error)}` };
+      }
+    },
+  };
+}
@@ -0,0 +1,235 @@
+/**
+ * Project Sync
+ * Offline-first sync between the browser and the cloud. Projects are always edited
+ * and saved locally; a sync compares each project's `updatedAt` on both sides with
+ * the version they last agreed on, then pushes, pulls, or reports a conflict when
+ * both sides changed. Conflicts are left untouched until the user picks a side.
+ */
+
+import type { StorageResult } from './local-storage';
+import type { ProjectStorage, ProjectVersion } from './project-storage';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SyncState {
+  projects: Record<string, { syncedAt: string }>;  // updatedAt both sides had at the last sync
+  pendingDeletes: string[];                         // Deleted locally, still to delete in the cloud
+}
+
+export const EMPTY_SYNC_STATE: SyncState = { projects: {}, pendingDeletes: [] };
+
+export interface SyncConflict {
+  projectId: string;
+  name: string;
+  localUpdatedAt: string;
+  remoteUpdatedAt: string;
+}
+
+export type SyncAction =
+  | { type: 'PUSH'; projectId: string; updatedAt: string }
+  | { type: 'PULL'; projectId: string; updatedAt: string }
+  | { type: 'DELETE_LOCAL'; projectId: string }
+  | { type: 'DELETE_REMOTE'; projectId: string }
+  | { type: 'IN_SYNC'; projectId: string; updatedAt: string }
+  | { type: 'CONFLICT'; conflict: SyncConflict };
+
+export interface SyncReport {
+  pushed: string[];
+  pulled: string[];
+  deleted: string[];                // Project ids deleted on either side
+  conflicts: SyncConflict[];
+  errors: string[];                 // Per-project failures; the rest of the sync still ran
+  state: SyncState;
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+const sameTime = (a?: string, b?: string) =>
+  !!a && !!b && new Date(a).getTime() === new Date(b).getTime();
+
+/**
+ * Decide what to do with each project. Pure: reads versions, changes nothing.
+ */
+export function planSync(
+  local: ProjectVersion[],
+  remote: ProjectVersion[],
+  state: SyncState
+): SyncAction[] {
+  const localById = new Map(local.map(version => [version.id, version]));
+  const remoteById = new Map(remote.map(version => [version.id, version]));
+  const ids = [...new Set([...localById.keys(), ...remoteById.keys(), ...state.pendingDeletes])];
+
+  return ids.flatMap((projectId): SyncAction[] => {
+    const localVersion = localById.get(projectId);
+    const remoteVersion = remoteById.get(projectId);
+    const syncedAt = state.projects[projectId]?.syncedAt;
+
+    if (state.pendingDeletes.includes(projectId) && !localVersion) {
+      if (!remoteVersion) return [];
+      // Edited in the cloud after this browser deleted it: keep the edits
+      if (syncedAt && !sameTime(remoteVersion.updatedAt, syncedAt)) {
+        return [{ type: 'PULL', projectId, updatedAt: remoteVersion.updatedAt }];
+      }
+      return [{ type: 'DELETE_REMOTE', projectId }];
+    }
+
+    if (localVersion && !remoteVersion) {
+      // Deleted in the cloud; local edits since the last sync survive the delete
+      if (syncedAt && sameTime(localVersion.updatedAt, syncedAt)) {
+        return [{ type: 'DELETE_LOCAL', projectId }];
+      }
+      return [{ type: 'PUSH', projectId, updatedAt: localVersion.updatedAt }];
+    }
+
+    if (!localVersion && remoteVersion) {
+      return [{ type: 'PULL', projectId, updatedAt: remoteVersion.updatedAt }];
+    }
+
+    if (!localVersion || !remoteVersion) return [];
+
+    if (sameTime(localVersion.updatedAt, remoteVersion.updatedAt)) {
+      return [{ type: 'IN_SYNC', projectId, updatedAt: localVersion.updatedAt }];
+    }
+    if (syncedAt && sameTime(remoteVersion.updatedAt, syncedAt)) {
+      return [{ type: 'PUSH', projectId, updatedAt: localVersion.updatedAt }];
+    }
+    if (syncedAt && sameTime(localVersion.updatedAt, syncedAt)) {
+      return [{ type: 'PULL', projectId, updatedAt: remoteVersion.updatedAt }];
+    }
+
+    // Both changed since the last sync, or never synced and different
+    return [{
+      type: 'CONFLICT',
+      conflict: {
+        projectId,
+        name: localVersion.name,
+        localUpdatedAt: localVersion.updatedAt,
+        remoteUpdatedAt: remoteVersion.updatedAt,
+      },
+    }];
+  });
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+async function copyProject(
+  from: ProjectStorage,
+  to: ProjectStorage,
+  projectId: string
+): Promise<StorageResult<void>> {
+  const loaded = await from.loadProject(projectId);
+  if (!loaded.success) return { success: false, error: loaded.error };
+  return to.saveProject(loaded.data!.config, loaded.data!.bars);
+}
+
+function withSynced(state: SyncState, projectId: string, syncedAt: string): SyncState {
+  return {
+    projects: { ...state.projects, [projectId]: { syncedAt } },
+    pendingDeletes: state.pendingDeletes.filter(id => id !== projectId),
+  };
+}
+
+function withoutProject(state: SyncState, projectId: string): SyncState {
+  const projects = { ...state.projects };
+  delete projects[projectId];
+  return { projects, pendingDeletes: state.pendingDeletes.filter(id => id !== projectId) };
+}
+
+/**
+ * Sync state to save after a sync or conflict resolution. `synced` was computed from
+ * `started`; projects deleted locally in the meantime (queued in `current`) stay
+ * queued instead of being overwritten.
+ */
+export function mergeSyncState(started: SyncState, synced: SyncState, current: SyncState): SyncState {
+  const deletedMeanwhile = current.pendingDeletes.filter(id => !started.pendingDeletes.includes(id));
+  return deletedMeanwhile.reduce((state, projectId) => {
+    const projects = { ...state.projects };
+    delete projects[projectId];
+    return { projects, pendingDeletes: [...state.pendingDeletes.filter(id => id !== projectId), projectId] };
+  }, synced);
+}
+
+/**
+ * Sync every project between `local` and `remote`. Fails only when either side
+ * cannot be listed (e.g. offline); failures of single projects are reported.
+ */
+export async function syncProjects(
+  local: ProjectStorage,
+  remote: ProjectStorage,
+  state: SyncState
+): Promise<StorageResult<SyncReport>> {
+  const [localList, remoteList] = await Promise.all([local.listProjects(), remote.listProjects()]);
+  if (!localList.success) return { success: false, error: localList.error };
+  if (!remoteList.success) return { success: false, error: remoteList.error };
+
+  const report: SyncReport = { pushed: [], pulled: [], deleted: [], conflicts: [], errors: [], state };
+
+  for (const action of planSync(localList.data!, remoteList.data!, state)) {
+    switch (action.type) {
+      case 'IN_SYNC':
+        report.state = withSynced(report.state, action.projectId, action.updatedAt);
+        break;
+
+      case 'PUSH':
+      case 'PULL': {
+        const result = action.type === 'PUSH'
+          ? await copyProject(local, remote, action.projectId)
+          : await copyProject(remote, local, action.projectId);
+        if (!result.success) {
+          report.errors.push(result.error || `Failed to sync project ${action.projectId}`);
+          break;
+        }
+        report.state = withSynced(report.state, action.projectId, action.updatedAt);
+        (action.type === 'PUSH' ? report.pushed : report.pulled).push(action.projectId);
+        break;
+      }
+
+      case 'DELETE_LOCAL':
+      case 'DELETE_REMOTE': {
+        const result = action.type === 'DELETE_LOCAL'
+          ? await local.deleteProject(action.projectId)
+          : await remote.deleteProject(action.projectId);
+        if (!result.success) {
+          report.errors.push(result.error || `Failed to delete project ${action.projectId}`);
+          break;
+        }
+        report.state = withoutProject(report.state, action.projectId);
+        report.deleted.push(action.projectId);
+        break;
+      }
+
+      case 'CONFLICT':
+        report.conflicts.push(action.conflict);
+        break;
+    }
+  }
+
+  return { success: true, data: report };
+}
+
+/**
+ * Settle a conflict by keeping one side; the other side is overwritten
+ */
+export async function resolveConflict(
+  conflict: SyncConflict,
+  keep: ConflictChoice,
+  local: ProjectStorage,
+  remote: ProjectStorage,
+  state: SyncState
+): Promise<StorageResult<SyncState>> {
+  const result = keep === 'local'
+    ? await copyProject(local, remote, conflict.projectId)
+    : await copyProject(remote, local, conflict.projectId);
+  if (!result.success) return { success: false, error: result.error };
+
+  const syncedAt = keep === 'local' ? conflict.localUpdatedAt : conflict.remoteUpdatedAt;
+  return { success: true, data: withSynced(state, conflict.projectId, syncedAt) };
+}
@@ -0,0 +1,396 @@
+/**
+ * QR Code Encoder
+ * Encodes text (UTF-8, byte mode) as a QR code (ISO/IEC 18004) with error
+ * correction level M, for the fabrication tags. Picks the smallest version from
+ * 1 to 10 that holds the text (up to 213 bytes) and the mask with the lowest
+ * penalty score. Module placement follows the reference layout: finder,
+ * timing and alignment patterns, format and version information, then the
+ * interleaved data and Reed-Solomon codewords in the zigzag order.
+ */
+
+// ============================================================================
+// TYPES & TABLES
+// ============================================================================
+
+export interface QrCode {
+  version: number;
+  size: number;                    // Modules per side, 17 + 4 × version
+  modules: boolean[][];            // [y][x], true = dark
+  mask: number;
+}
+
+interface VersionSpec {
+  ecCodewordsPerBlock: number;
+  blocks: number[];                // Data codewords of each block, short blocks first
+  alignment: number[];             // Alignment pattern centres
+}
+
+// Error correction level M
+const VERSIONS: VersionSpec[] = [
+  { ecCodewordsPerBlock: 10, blocks: [16], alignment: [] },
+  { ecCodewordsPerBlock: 16, blocks: [28], alignment: [6, 18] },
+  { ecCodewordsPerBlock: 26, blocks: [44], alignment: [6, 22] },
+  { ecCodewordsPerBlock: 18, blocks: [32, 32], alignment: [6, 26] },
+  { ecCodewordsPerBlock: 24, blocks: [43, 43], alignment: [6, 30] },
+  { ecCodewordsPerBlock: 16, blocks: [27, 27, 27, 27], alignment: [6, 34] },
+  { ecCodewordsPerBlock: 18, blocks: [31, 31, 31, 31], alignment: [6, 22, 38] },
+  { ecCodewordsPerBlock: 22, blocks: [38, 38, 39, 39], alignment: [6, 24, 42] },
+  { ecCodewordsPerBlock: 22, blocks: [36, 36, 36, 37, 37], alignment: [6, 26, 46] },
+  { ecCodewordsPerBlock: 26, blocks: [43, 43, 43, 43, 44], alignment: [6, 28, 50] },
+];
+
+const EC_LEVEL_M_BITS = 0b00;      // Format information bits of level M
+const BYTE_MODE = 0b0100;
+const PAD_BYTES = [0xec, 0x11];
+
+const PENALTY_RUN = 3;             // N1: run of five, plus one per extra module
+const PENALTY_BLOCK = 3;           // N2: 2 × 2 block of one colour
+const PENALTY_FINDER = 40;         // N3: finder-like 1:1:3:1:1 pattern
+const PENALTY_BALANCE = 10;        // N4: per 5% away from half dark
+
+// ============================================================================
+// REED-SOLOMON
+// ============================================================================
+
+/** Product in GF(2^8) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1 */
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function getGeneratorPolynomial(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+/**
+ * Error correction codewords of a block: remainder of the data over the generator polynomial
+ */
+export function getErrorCorrectionCodewords(data: number[], degree: number): number[] {
+  const generator = getGeneratorPolynomial(degree);
+  const result = new Array<number>(degree).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    generator.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  });
+  return result;
+}
+
+// ============================================================================
+// CODEWORDS
+// ============================================================================
+
+const getDataCapacity = (spec: VersionSpec) => spec.blocks.reduce((sum, block) => sum + block, 0);
+const getCountBits = (version: number) => version < 10 ? 8 : 16;
+
+function getVersion(byteLength: number): number {
+  const index = VERSIONS.findIndex((spec, i) =>
+    4 + getCountBits(i + 1) + byteLength * 8 <= getDataCapacity(spec) * 8
+  );
+  if (index < 0) {
+    throw new Error(`Text too long for a QR code: ${byteLength} bytes (max ${getDataCapacity(VERSIONS[VERSIONS.length - 1]) - 3})`);
+  }
+  return index + 1;
+}
+
+function getDataCodewords(bytes: Uint8Array, version: number): number[] {
+  const capacity = getDataCapacity(VERSIONS[version - 1]) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(BYTE_MODE, 4);
+  append(bytes.length, getCountBits(version));
+  bytes.forEach(byte => append(byte, 8));
+
+  // Terminator, then pad to a whole codeword
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - bits.length % 8) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let i = 0; codewords.length < capacity / 8; i++) {
+    codewords.push(PAD_BYTES[i % 2]);
+  }
+  return codewords;
+}
+
+/** Data codewords split into blocks with their error correction, interleaved */
+function getFinalCodewords(data: number[], version: number): number[] {
+  const spec = VERSIONS[version - 1];
+  let offset = 0;
+  const blocks = spec.blocks.map(length => {
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    return { data: block, ec: getErrorCorrectionCodewords(block, spec.ecCodewordsPerBlock) };
+  });
+
+  const result: number[] = [];
+  const longest = Math.max(...spec.blocks);
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach(block => {
+      if (i < block.data.length) result.push(block.data[i]);
+    });
+  }
+  for (let i = 0; i < spec.ecCodewordsPerBlock; i++) {
+    blocks.forEach(block => result.push(block.ec[i]));
+  }
+  return result;
+}
+
+// ============================================================================
+// MATRIX
+// ============================================================================
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly isFunction: boolean[][];
+
+  constructor(size: number) {
+    this.size = size;
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    this.isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.isFunction[y][x] = true;
+  }
+}
+
+/** BCH code of a value: the value followed by its remainder over the generator */
+function getBchCode(value: number, generator: number, remainderBits: number): number {
+  let remainder = value;
+  for (let i = 0; i < remainderBits; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> (remainderBits - 1)) * generator);
+  }
+  return (value << remainderBits) | remainder;
+}
+
+/** 15-bit format information of level M and a mask */
+export function getFormatBits(mask: number): number {
+  return getBchCode((EC_LEVEL_M_BITS << 3) | mask, 0x537, 10) ^ 0x5412;
+}
+
+function drawFunctionPatterns(matrix: QrMatrix, version: number) {
+  const { size } = matrix;
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    matrix.setFunction(6, i, i % 2 === 0);
+    matrix.setFunction(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const [x, y] = [cx + dx, cy + dy];
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          matrix.setFunction(x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  });
+
+  // Alignment patterns, except where they would overlap a finder
+  const centres = VERSIONS[version - 1].alignment;
+  const last = centres.length - 1;
+  centres.forEach((cy, i) => centres.forEach((cx, j) => {
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        matrix.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }));
+
+  // Reserve the format information until the mask is chosen
+  drawFormatBits(matrix, 0);
+
+  // Version information (version 7 and up)
+  if (version >= 7) {
+    const bits = getBchCode(version, 0x1f25, 12);
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const [a, b] = [size - 11 + (i % 3), Math.floor(i / 3)];
+      matrix.setFunction(a, b, dark);
+      matrix.setFunction(b, a, dark);
+    }
+  }
+}
+
+function drawFormatBits(matrix: QrMatrix, mask: number) {
+  const { size } = matrix;
+  const bits = getFormatBits(mask);
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+  // Around the top-left finder
+  for (let i = 0; i <= 5; i++) matrix.setFunction(8, i, bit(i));
+  matrix.setFunction(8, 7, bit(6));
+  matrix.setFunction(8, 8, bit(7));
+  matrix.setFunction(7, 8, bit(8));
+  for (let i = 9; i < 15; i++) matrix.setFunction(14 - i, 8, bit(i));
+
+  // Copy beside the other two finders
+  for (let i = 0; i < 8; i++) matrix.setFunction(size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) matrix.setFunction(8, size - 15 + i, bit(i));
+  matrix.setFunction(8, size - 8, true);
+}
+
+/** Codeword bits in two-module columns, upwards and downwards from the bottom right */
+function drawCodewords(matrix: QrMatrix, codewords: number[]) {
+  const { size } = matrix;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      const y = upward ? size - 1 - vertical : vertical;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (matrix.isFunction[y][x]) continue;
+        // Bits past the last codeword are the remainder bits, left light
+        if (i < codewords.length * 8) {
+          matrix.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+          i++;
+        }
+      }
+    }
+  }
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+function applyMask(matrix: QrMatrix, mask: number) {
+  for (let y = 0; y < matrix.size; y++) {
+    for (let x = 0; x < matrix.size; x++) {
+      if (!matrix.isFunction[y][x] && MASKS[mask](x, y)) {
+        matrix.modules[y][x] = !matrix.modules[y][x];
+      }
+    }
+  }
+}
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+function getLinePenalty(line: boolean[]): number {
+  let penalty = 0;
+  let run = 1;
+  for (let i = 1; i <= line.length; i++) {
+    if (i < line.length && line[i] === line[i - 1]) {
+      run++;
+      continue;
+    }
+    if (run >= 5) penalty += PENALTY_RUN + run - 5;
+    run = 1;
+  }
+  for (let i = 0; i + 11 <= line.length; i++) {
+    if (FINDER_LIKE.some(pattern => pattern.every((dark, j) => line[i + j] === dark))) {
+      penalty += PENALTY_FINDER;
+    }
+  }
+  return penalty;
+}
+
+/** Penalty score of a masked symbol (lower reads more reliably) */
+function getPenaltyScore(modules: boolean[][]): number {
+  const size = modules.length;
+  let penalty = 0;
+
+  for (let i = 0; i < size; i++) {
+    penalty += getLinePenalty(modules[i]);
+    penalty += getLinePenalty(modules.map(row => row[i]));
+  }
+
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const colour = modules[y][x];
+      if (modules[y][x + 1] === colour && modules[y + 1][x] === colour && modules[y + 1][x + 1] === colour) {
+        penalty += PENALTY_BLOCK;
+      }
+    }
+  }
+
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  penalty += Math.floor(Math.abs(dark * 20 - total * 10) / total) * PENALTY_BALANCE;
+  return penalty;
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * Encode text as a QR code; throws when it does not fit in version 10
+ */
+export function encodeQrCode(text: string): QrCode {
+  const bytes = new TextEncoder().encode(text);
+  const version = getVersion(bytes.length);
+  const codewords = getFinalCodewords(getDataCodewords(bytes, version), version);
+
+  const size = 17 + 4 * version;
+  const base = new QrMatrix(size);
+  drawFunctionPatterns(base, version);
+  drawCodewords(base, codewords);
+
+  let best: { mask: number; modules: boolean[][]; penalty: number } | null = null;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const matrix = new QrMatrix(size);
+    base.modules.forEach((row, y) => row.forEach((dark, x) => {
+      matrix.modules[y][x] = dark;
+      matrix.isFunction[y][x] = base.isFunction[y][x];
+    }));
+    applyMask(matrix, mask);
+    drawFormatBits(matrix, mask);
+    const penalty = getPenaltyScore(matrix.modules);
+    if (!best || penalty < best.penalty) best = { mask, modules: matrix.modules, penalty };
+  }
+
+  return { version, size, modules: best!.modules, mask: best!.mask };
+}
+
+/**
+ * SVG path of the dark modules, one unit per module, offset by the quiet zone
+ */
+export function getQrCodePath(qr: QrCode, quietZone = 4): string {
+  const parts: string[] = [];
+  qr.modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) parts.push(`M${x + quietZone} ${y + quietZone}h1v1h-1z`);
+  }));
+  return parts.join('');
+}
@@ -0,0 +1,509 @@
+/**
+ * Shape Registry
+ * Data-driven shape code library: every shape declares its dimensions, bend angles,
+ * hooks, cut-length formula and diagram, and the calculator, formula display and
+ * diagrams read it from here. Holds the IS shapes (S1-S7, per IS 2502
+ * practice) and the BS 8666:2020 shape codes.
+ *
+ * Cut-length formulas use the Excel formula syntax of excel-formula.ts with these names:
+ *   A..F      - shape dimensions in mm (missing dimensions are 0)
+ *   DIA       - bar diameter d
+ *   HOOK      - hook length (hook multiplier × d)
+ *   R         - bend radius r: BS 8666 Table 2 standard radius, or the profile's
+ *               former table radius in geometric bend deduction mode
+ *   BEND_45, BEND_90, BEND_135, BEND_180 - project bend deductions for that angle
+ *               (bend-allowance.ts; multiplier mode deducts 180° as 90°)
+ */
+
+import type {
+  BarDimensions,
+  ProjectConfig,
+  ShapeCode,
+  ShapeDefinition,
+  ShapeDimension,
+  ShapeStandard
+} from '../types';
+import { evaluateFormula, mapFormulaNames } from './excel-formula';
+import { getBendDeduction, getProjectBendRadius } from './bend-allowance';
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+type ShapeSpec = Omit<ShapeDefinition, 'hasHook' | 'hookCount'> & { hookCount?: number };
+
+function defineShape(spec: ShapeSpec): ShapeDefinition {
+  const hookCount = spec.hookCount ?? 0;
+  return { ...spec, hasHook: hookCount > 0, hookCount };
+}
+
+const IS = 'IS 2502';
+const BS = 'BS 8666';
+
+const SHAPES: ShapeDefinition[] = [
+  // Original shapes, kept under their S-codes
+  defineShape({
+    code: 'S1', standard: IS, name: 'Straight',
+    description: 'Straight bar with no bends',
+    requiredDimensions: ['A'], bendAngles: [],
+    cutLengthFormula: 'A',
+    formulaNotation: 'L = A',
+    diagramSvg: 'M 10 50 L 190 50',
+    dimensionLabels: { A: [100, 30] },
+  }),
+  defineShape({
+    code: 'S2', standard: IS, name: 'U-Bar',
+    description: 'U-shaped bar with two 90° bends',
+    requiredDimensions: ['A', 'B'], bendAngles: [90, 90],
+    cutLengthFormula: 'A + 2*B - 2*BEND_90',
+    formulaNotation: 'L = A + 2B - 2D_{90°}',
+    diagramSvg: 'M 10 20 L 10 80 L 190 80 L 190 20',
+    dimensionLabels: { A: [100, 64], B: [26, 50] },
+  }),
+  defineShape({
+    code: 'S3', standard: IS, name: 'Stirrup',
+    description: 'Rectangular stirrup with hooks',
+    requiredDimensions: ['A', 'B'], bendAngles: [90, 90, 90, 90, 135, 135], hookCount: 2,
+    cutLengthFormula: '2*(A + B) + 2*HOOK - 4*BEND_90 - 2*BEND_135',
+    formulaNotation: 'L = 2(A + B) + 2H - 4D_{90°} - 2D_{135°}',
+    diagramSvg: 'M 30 10 L 10 10 L 10 90 L 190 90 L 190 10 L 170 10 M 30 10 L 40 20 M 170 10 L 160 20',
+    dimensionLabels: { A: [100, 74], B: [26, 50] },
+  }),
+  defineShape({
+    code: 'S4', standard: IS, name: 'Cranked',
+    description: 'Cranked bar with inclined portion',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [45, 45],
+    cutLengthFormula: 'A + SQRT(B^2 + C^2) + C - 2*BEND_45',
+    formulaNotation: 'L = A + \\sqrt{B^2 + C^2} + C - 2D_{45°}',
+    diagramSvg: 'M 10 70 L 60 70 L 100 30 L 140 30 L 190 30',
+    dimensionLabels: { A: [35, 84], B: [80, 64], C: [165, 16] },
+  }),
+  defineShape({
+    code: 'S5', standard: IS, name: 'L-Bar',
+    description: 'L-shaped bar with one 90° bend',
+    requiredDimensions: ['A', 'B'], bendAngles: [90],
+    cutLengthFormula: 'A + B - BEND_90',
+    formulaNotation: 'L = A + B - D_{90°}',
+    diagramSvg: 'M 10 20 L 10 80 L 190 80',
+    dimensionLabels: { A: [100, 64], B: [26, 50] },
+  }),
+  defineShape({
+    code: 'S6', standard: IS, name: 'Hooked',
+    description: 'Straight bar with hook at one end',
+    requiredDimensions: ['A'], bendAngles: [180], hookCount: 1,
+    cutLengthFormula: 'A + HOOK - BEND_180',
+    formulaNotation: 'L = A + H - D_{180°}',
+    diagramSvg: 'M 10 50 L 170 50 Q 190 50 190 70 Q 190 90 170 90',
+    dimensionLabels: { A: [90, 30] },
+  }),
+  defineShape({
+    code: 'S7', standard: IS, name: 'Single Leg Link',
+    description: 'Straight link with a 135° hook at each end',
+    requiredDimensions: ['A'], bendAngles: [135, 135], hookCount: 2,
+    cutLengthFormula: 'A + 2*HOOK - 2*BEND_135',
+    formulaNotation: 'L = A + 2H - 2D_{135°}',
+    diagramSvg: 'M 40 30 L 20 50 L 180 50 L 160 30',
+    dimensionLabels: { A: [100, 66] },
+  }),
+
+  // BS 8666:2020 shape codes (Table 3). Lengths use the standard radius r
+  defineShape({
+    code: '00', standard: BS, name: 'Straight',
+    description: 'Straight bar',
+    requiredDimensions: ['A'], bendAngles: [],
+    cutLengthFormula: 'A',
+    formulaNotation: 'L = A',
+    diagramSvg: 'M 10 50 L 190 50',
+    dimensionLabels: { A: [100, 30] },
+  }),
+  defineShape({
+    code: '11', standard: BS, name: 'L-Bar',
+    description: 'One 90° bend',
+    requiredDimensions: ['A', 'B'], bendAngles: [90],
+    cutLengthFormula: 'A + B - 0.5*R - DIA',
+    formulaNotation: 'L = A + B - 0.5r - d',
+    diagramSvg: 'M 30 15 L 30 75 L 190 75',
+    dimensionLabels: { A: [16, 45], B: [110, 88] },
+  }),
+  defineShape({
+    code: '13', standard: BS, name: 'Large Radius U',
+    description: 'Two straights joined by a 180° bend of internal diameter B',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [180],
+    cutLengthFormula: 'A + 0.57*B + C - 1.6*DIA',
+    formulaNotation: 'L = A + 0.57B + C - 1.6d',
+    diagramSvg: 'M 190 20 L 60 20 A 30 30 0 0 0 60 80 L 150 80',
+    dimensionLabels: { A: [125, 34], B: [16, 50], C: [105, 66] },
+  }),
+  defineShape({
+    code: '15', standard: BS, name: 'Sloped End',
+    description: 'Straight with an inclined end; B is the horizontal projection of C',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [45],
+    cutLengthFormula: 'A + C',
+    formulaNotation: 'L = A + C',
+    diagramSvg: 'M 10 75 L 110 75 L 190 20',
+    dimensionLabels: { A: [60, 88], B: [150, 88], C: [135, 30] },
+  }),
+  defineShape({
+    code: '21', standard: BS, name: 'U-Bar',
+    description: 'Two 90° bends in the same direction',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [90, 90],
+    cutLengthFormula: 'A + B + C - R - 2*DIA',
+    formulaNotation: 'L = A + B + C - r - 2d',
+    diagramSvg: 'M 30 15 L 30 80 L 170 80 L 170 15',
+    dimensionLabels: { A: [16, 45], B: [100, 66], C: [184, 45] },
+  }),
+  defineShape({
+    code: '22', standard: BS, name: 'U-Bar with Return',
+    description: 'U-bar with one leg returned',
+    requiredDimensions: ['A', 'B', 'C', 'D'], bendAngles: [90, 90, 90],
+    cutLengthFormula: 'A + B + C + D - 1.5*R - 3*DIA',
+    formulaNotation: 'L = A + B + C + D - 1.5r - 3d',
+    diagramSvg: 'M 30 15 L 30 80 L 170 80 L 170 30 L 130 30',
+    dimensionLabels: { A: [16, 45], B: [100, 66], C: [184, 55], D: [140, 44] },
+  }),
+  defineShape({
+    code: '23', standard: BS, name: 'Z-Bar',
+    description: 'Two 90° bends in opposite directions',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [90, 90],
+    cutLengthFormula: 'A + B + C - R - 2*DIA',
+    formulaNotation: 'L = A + B + C - r - 2d',
+    diagramSvg: 'M 10 20 L 70 20 L 70 80 L 190 80',
+    dimensionLabels: { A: [40, 34], B: [84, 50], C: [130, 66] },
+  }),
+  defineShape({
+    code: '24', standard: BS, name: 'Splayed U',
+    description: 'Two bends not exceeding 90° in the same plane',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [45, 45],
+    cutLengthFormula: 'A + B + C',
+    formulaNotation: 'L = A + B + C',
+    diagramSvg: 'M 20 20 L 50 80 L 150 80 L 180 20',
+    dimensionLabels: { A: [22, 60], B: [100, 66], C: [178, 60] },
+  }),
+  defineShape({
+    code: '25', standard: BS, name: 'Inclined Leg',
+    description: 'Two legs in different planes; E is the inclined leg',
+    requiredDimensions: ['A', 'B', 'E'], bendAngles: [90, 45],
+    cutLengthFormula: 'A + B + E',
+    formulaNotation: 'L = A + B + E',
+    diagramSvg: 'M 20 20 L 60 80 L 190 80',
+    dimensionLabels: { A: [26, 62], B: [125, 66], E: [70, 30] },
+  }),
+  defineShape({
+    code: '26', standard: BS, name: 'Cranked',
+    description: 'Joggle with an inclined middle portion',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [45, 45],
+    cutLengthFormula: 'A + B + C',
+    formulaNotation: 'L = A + B + C',
+    diagramSvg: 'M 10 75 L 70 75 L 130 25 L 190 25',
+    dimensionLabels: { A: [40, 88], B: [90, 38], C: [160, 12] },
+  }),
+  defineShape({
+    code: '27', standard: BS, name: 'L-Bar with Slope',
+    description: 'One 90° bend and one inclined leg',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [90, 45],
+    cutLengthFormula: 'A + B + C - 0.5*R - DIA',
+    formulaNotation: 'L = A + B + C - 0.5r - d',
+    diagramSvg: 'M 20 15 L 20 75 L 120 75 L 190 30',
+    dimensionLabels: { A: [34, 40], B: [70, 88], C: [145, 38] },
+  }),
+  defineShape({
+    code: '28', standard: BS, name: 'Sloped L-Bar',
+    description: 'Inclined leg followed by a 90° bend',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [45, 90],
+    cutLengthFormula: 'A + B + C - 0.5*R - DIA',
+    formulaNotation: 'L = A + B + C - 0.5r - d',
+    diagramSvg: 'M 20 30 L 90 75 L 180 75 L 180 15',
+    dimensionLabels: { A: [45, 62], B: [135, 88], C: [166, 45] },
+  }),
+  defineShape({
+    code: '29', standard: BS, name: 'U-Bar with Slope',
+    description: 'Two 90° bends with an inclined leg',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [90, 90],
+    cutLengthFormula: 'A + B + C - R - 2*DIA',
+    formulaNotation: 'L = A + B + C - r - 2d',
+    diagramSvg: 'M 20 30 L 50 80 L 170 80 L 170 15',
+    dimensionLabels: { A: [24, 62], B: [110, 66], C: [184, 45] },
+  }),
+  defineShape({
+    code: '31', standard: BS, name: 'Three Bends',
+    description: 'Three 90° bends in the same direction',
+    requiredDimensions: ['A', 'B', 'C', 'D'], bendAngles: [90, 90, 90],
+    cutLengthFormula: 'A + B + C + D - 1.5*R - 3*DIA',
+    formulaNotation: 'L = A + B + C + D - 1.5r - 3d',
+    diagramSvg: 'M 30 40 L 30 80 L 170 80 L 170 20 L 100 20',
+    dimensionLabels: { A: [16, 60], B: [100, 66], C: [184, 50], D: [135, 34] },
+  }),
+  defineShape({
+    code: '32', standard: BS, name: 'Three Bends Reversed',
+    description: 'Three 90° bends, one in the opposite direction',
+    requiredDimensions: ['A', 'B', 'C', 'D'], bendAngles: [90, 90, 90],
+    cutLengthFormula: 'A + B + C + D - 1.5*R - 3*DIA',
+    formulaNotation: 'L = A + B + C + D - 1.5r - 3d',
+    diagramSvg: 'M 10 80 L 70 80 L 70 20 L 180 20 L 180 60',
+    dimensionLabels: { A: [40, 66], B: [56, 50], C: [125, 34], D: [166, 45] },
+  }),
+  defineShape({
+    code: '33', standard: BS, name: 'Hairpin',
+    description: 'Loop of internal diameter B with hooked legs C',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [180, 90, 90],
+    cutLengthFormula: '2*A + 1.7*B + 2*(C - 4*DIA)',
+    formulaNotation: 'L = 2A + 1.7B + 2(C - 4d)',
+    diagramSvg: 'M 40 35 L 20 20 L 160 20 A 30 30 0 0 1 160 80 L 20 80 L 40 65',
+    dimensionLabels: { A: [95, 34], B: [176, 50], C: [46, 50] },
+  }),
+  defineShape({
+    code: '34', standard: BS, name: 'Cranked with Return',
+    description: 'Crank with an inclined portion E and one 90° return',
+    requiredDimensions: ['A', 'B', 'C', 'E'], bendAngles: [45, 45, 90],
+    cutLengthFormula: 'A + B + C + E - 0.5*R - DIA',
+    formulaNotation: 'L = A + B + C + E - 0.5r - d',
+    diagramSvg: 'M 10 75 L 70 75 L 110 30 L 180 30 L 180 75',
+    dimensionLabels: { A: [40, 88], B: [145, 16], C: [166, 55], E: [76, 46] },
+  }),
+  defineShape({
+    code: '35', standard: BS, name: 'Return with Crank',
+    description: 'One 90° return followed by a crank with an inclined portion E',
+    requiredDimensions: ['A', 'B', 'C', 'E'], bendAngles: [90, 45, 45],
+    cutLengthFormula: 'A + B + C + E - 0.5*R - DIA',
+    formulaNotation: 'L = A + B + C + E - 0.5r - d',
+    diagramSvg: 'M 20 25 L 20 75 L 90 75 L 130 30 L 190 30',
+    dimensionLabels: { A: [34, 50], B: [55, 88], C: [160, 16], E: [124, 62] },
+  }),
+  defineShape({
+    code: '36', standard: BS, name: 'U-Bar with Sloped Leg',
+    description: 'Two 90° bends and one inclined leg D',
+    requiredDimensions: ['A', 'B', 'C', 'D'], bendAngles: [90, 90, 45],
+    cutLengthFormula: 'A + B + C + D - R - 2*DIA',
+    formulaNotation: 'L = A + B + C + D - r - 2d',
+    diagramSvg: 'M 10 80 L 50 80 L 50 20 L 150 20 L 190 80',
+    dimensionLabels: { A: [30, 66], B: [64, 50], C: [100, 34], D: [156, 55] },
+  }),
+  defineShape({
+    code: '41', standard: BS, name: 'Double Crank',
+    description: 'Four 90° bends, raised middle portion',
+    requiredDimensions: ['A', 'B', 'C', 'D', 'E'], bendAngles: [90, 90, 90, 90],
+    cutLengthFormula: 'A + B + C + D + E - 2*R - 4*DIA',
+    formulaNotation: 'L = A + B + C + D + E - 2r - 4d',
+    diagramSvg: 'M 10 80 L 50 80 L 50 20 L 150 20 L 150 80 L 190 80',
+    dimensionLabels: { A: [30, 66], B: [64, 50], C: [100, 34], D: [136, 50], E: [170, 66] },
+  }),
+  defineShape({
+    code: '44', standard: BS, name: 'Double Crank Reversed',
+    description: 'Four 90° bends, lowered middle portion',
+    requiredDimensions: ['A', 'B', 'C', 'D', 'E'], bendAngles: [90, 90, 90, 90],
+    cutLengthFormula: 'A + B + C + D + E - 2*R - 4*DIA',
+    formulaNotation: 'L = A + B + C + D + E - 2r - 4d',
+    diagramSvg: 'M 10 20 L 50 20 L 50 80 L 150 80 L 150 20 L 190 20',
+    dimensionLabels: { A: [30, 34], B: [64, 50], C: [100, 66], D: [136, 50], E: [170, 34] },
+  }),
+  defineShape({
+    code: '46', standard: BS, name: 'Bent-up Bar',
+    description: 'Two inclined portions B of rise D',
+    requiredDimensions: ['A', 'B', 'C', 'D', 'E'], bendAngles: [45, 45, 45, 45],
+    cutLengthFormula: 'A + 2*B + C + E',
+    formulaNotation: 'L = A + 2B + C + E',
+    diagramSvg: 'M 10 75 L 50 75 L 80 25 L 120 25 L 150 75 L 190 75',
+    dimensionLabels: { A: [30, 88], B: [52, 46], C: [100, 40], D: [100, 66], E: [170, 88] },
+  }),
+  defineShape({
+    code: '47', standard: BS, name: 'Open Link',
+    description: 'U with both legs returned inwards',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [90, 90, 90, 90],
+    cutLengthFormula: '2*A + B + 2*C + 1.5*R - 3*DIA',
+    formulaNotation: 'L = 2A + B + 2C + 1.5r - 3d',
+    diagramSvg: 'M 50 20 L 20 20 L 20 80 L 180 80 L 180 20 L 150 20',
+    dimensionLabels: { A: [36, 50], B: [100, 66], C: [50, 34] },
+  }),
+  defineShape({
+    code: '51', standard: BS, name: 'Closed Link',
+    description: 'Closed rectangular link with hooked ends C',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [90, 90, 90, 135, 135],
+    cutLengthFormula: '2*(A + B + C) - 2.5*R - 5*DIA',
+    formulaNotation: 'L = 2(A + B + C) - 2.5r - 5d',
+    diagramSvg: 'M 60 20 L 20 20 L 20 80 L 180 80 L 180 20 L 40 20 L 55 35',
+    dimensionLabels: { A: [100, 66], B: [166, 50], C: [75, 36] },
+  }),
+  defineShape({
+    code: '52', standard: BS, name: 'Closed Link with Lap',
+    description: 'Closed rectangular link with lapped ends C',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [90, 90, 90],
+    cutLengthFormula: '2*(A + B + C) - 1.5*R - 3*DIA',
+    formulaNotation: 'L = 2(A + B + C) - 1.5r - 3d',
+    diagramSvg: 'M 20 35 L 20 80 L 180 80 L 180 20 L 20 20 L 20 50',
+    dimensionLabels: { A: [100, 66], B: [166, 50], C: [34, 42] },
+  }),
+  defineShape({
+    code: '56', standard: BS, name: 'Link with Hooks',
+    description: 'Closed link with two hooked ends E',
+    requiredDimensions: ['A', 'B', 'C', 'D', 'E'], bendAngles: [90, 90, 90, 135, 135],
+    cutLengthFormula: 'A + B + C + D + 2*E - 2.5*R - 5*DIA',
+    formulaNotation: 'L = A + B + C + D + 2E - 2.5r - 5d',
+    diagramSvg: 'M 20 20 L 20 80 L 180 80 L 180 20 L 20 20 M 20 20 L 40 40 M 180 20 L 160 40',
+    dimensionLabels: { A: [100, 66], B: [166, 56], C: [100, 34], D: [34, 56], E: [56, 40] },
+  }),
+  defineShape({
+    code: '63', standard: BS, name: 'Closed Link Overlapped',
+    description: 'Closed link with an overlapping side and hooked ends C',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [90, 90, 90, 90, 135, 135],
+    cutLengthFormula: '2*A + 3*B + 2*C - 3*R - 6*DIA',
+    formulaNotation: 'L = 2A + 3B + 2C - 3r - 6d',
+    diagramSvg: 'M 40 35 L 20 20 L 20 80 L 180 80 L 180 20 L 20 20',
+    dimensionLabels: { A: [166, 50], B: [100, 66], C: [56, 42] },
+  }),
+  defineShape({
+    code: '64', standard: BS, name: 'Triple Crank',
+    description: 'Six 90° bends',
+    requiredDimensions: ['A', 'B', 'C', 'D', 'E', 'F'], bendAngles: [90, 90, 90, 90, 90, 90],
+    cutLengthFormula: 'A + B + C + 2*D + E + F - 3*R - 6*DIA',
+    formulaNotation: 'L = A + B + C + 2D + E + F - 3r - 6d',
+    diagramSvg: 'M 10 50 L 10 80 L 50 80 L 50 20 L 150 20 L 150 80 L 190 80 L 190 50',
+    dimensionLabels: { A: [24, 60], B: [30, 66], C: [64, 50], D: [100, 34], E: [136, 50], F: [176, 60] },
+  }),
+  defineShape({
+    code: '67', standard: BS, name: 'Arc',
+    description: 'Curved bar; A is the developed length of chord B and rise C',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [],
+    cutLengthFormula: 'A',
+    formulaNotation: 'L = A',
+    diagramSvg: 'M 20 80 Q 100 0 180 80',
+    dimensionLabels: { A: [100, 26], B: [100, 80], C: [100, 56] },
+  }),
+  defineShape({
+    code: '75', standard: BS, name: 'Circular Hoop',
+    description: 'Circle of outside diameter A with lap B',
+    requiredDimensions: ['A', 'B'], bendAngles: [],
+    cutLengthFormula: 'PI()*(A - DIA) + B',
+    formulaNotation: 'L = π(A - d) + B',
+    diagramSvg: 'M 60 50 A 40 40 0 1 1 140 50 A 40 40 0 1 1 60 50 M 140 50 L 140 20',
+    dimensionLabels: { A: [100, 50], B: [156, 30] },
+  }),
+  defineShape({
+    code: '77', standard: BS, name: 'Helix',
+    description: 'Helix of outside diameter A, pitch B and C turns',
+    requiredDimensions: ['A', 'B', 'C'], bendAngles: [],
+    cutLengthFormula: 'C*IF(B > A/5, SQRT((PI()*(A - DIA))^2 + B^2), PI()*(A - DIA))',
+    formulaNotation: 'L = Cπ(A - d), or C\\sqrt{(π(A - d))^2 + B^2} when B > A/5',
+    diagramSvg: 'M 20 30 L 40 72 L 60 30 L 80 72 L 100 30 L 120 72 L 140 30 L 160 72 L 180 30',
+    dimensionLabels: { A: [100, 87], B: [50, 15], C: [150, 15] },
+  }),
+  defineShape({
+    code: '98', standard: BS, name: 'Isometric',
+    description: 'Four 90° bends, not all in one plane',
+    requiredDimensions: ['A', 'B', 'C', 'D'], bendAngles: [90, 90, 90, 90],
+    cutLengthFormula: 'A + 2*B + C + D - 2*R - 4*DIA',
+    formulaNotation: 'L = A + 2B + C + D - 2r - 4d',
+    diagramSvg: 'M 20 50 L 20 80 L 120 80 L 120 20 L 180 20 L 180 50',
+    dimensionLabels: { A: [34, 65], B: [70, 66], C: [134, 50], D: [150, 34] },
+  }),
+];
+
+export const SHAPE_REGISTRY = Object.fromEntries(
+  SHAPES.map(shape => [shape.code, shape])
+) as Record<ShapeCode, ShapeDefinition>;
+
+export const SHAPE_STANDARDS: ShapeStandard[] = [IS, BS];
+
+// ============================================================================
+// LOOKUP
+// ============================================================================
+
+export function getShapeDefinition(shapeCode: ShapeCode): ShapeDefinition {
+  return SHAPE_REGISTRY[shapeCode];
+}
+
+export function isShapeCode(value: string): value is ShapeCode {
+  return value in SHAPE_REGISTRY;
+}
+
+/**
+ * Shapes of one standard, in registry order
+ */
+export function getShapesByStandard(standard: ShapeStandard): ShapeDefinition[] {
+  return SHAPES.filter(shape => shape.standard === standard);
+}
+
+// ============================================================================
+// CUT LENGTH
+// ============================================================================
+
+/**
+ * Values of every name a cut-length formula can use for one bar
+ */
+export function getShapeVariables(
+  dimensions: BarDimensions,
+  config: ProjectConfig,
+  diameter: number
+): Record<string, number> {
+  const dimensionValues: Record<ShapeDimension, number> = {
+    A: dimensions.A,
+    B: dimensions.B ?? 0,
+    C: dimensions.C ?? 0,
+    D: dimensions.D ?? 0,
+    E: dimensions.E ?? 0,
+    F: dimensions.F ?? 0,
+  };
+
+  return {
+    ...dimensionValues,
+    DIA: diameter,
+    HOOK: config.defaultHookMultiplier * diameter,
+    R: getProjectBendRadius(diameter, config),
+    BEND_45: getBendDeduction(45, diameter, config),
+    BEND_90: getBendDeduction(90, diameter, config),
+    BEND_135: getBendDeduction(135, diameter, config),
+    BEND_180: getBendDeduction(180, diameter, config),
+  };
+}
+
+/**
+ * Evaluate a shape formula (or part of one) against resolved variables
+ */
+export function evaluateShapeFormula(formula: string, variables: Record<string, number>): number {
+  const result = evaluateFormula(formula, {
+    getCell: () => undefined,
+    getName: name => variables[name.toUpperCase()],
+  });
+  if (result.error) {
+    throw new Error(`Cannot evaluate shape formula "${formula}": ${result.error.message}`);
+  }
+  return Number(result.value);
+}
+
+/**
+ * Cut length of a bar of the given shape, in mm
+ */
+export function calculateShapeCutLength(
+  shapeCode: ShapeCode,
+  dimensions: BarDimensions,
+  config: ProjectConfig,
+  diameter: number
+): number {
+  const shape = SHAPE_REGISTRY[shapeCode];
+  return evaluateShapeFormula(shape.cutLengthFormula, getShapeVariables(dimensions, config, diameter));
+}
+
+// ============================================================================
+// NOTATION
+// ============================================================================
+
+const NAME_NOTATION: Record<string, string> = {
+  DIA: 'd',
+  HOOK: 'H',
+  R: 'r',
+  BEND_45: 'D_{45°}',
+  BEND_90: 'D_{90°}',
+  BEND_135: 'D_{135°}',
+  BEND_180: 'D_{180°}',
+};
+
+/**
+ * Write a registry formula (or a term of one) the way formulas are shown to the user:
+ * "2*(A + B) - 0.5*R - DIA" → "2(A + B) - 0.5r - d"
+ */
+export function toFormulaNotation(formula: string): string {
+  return mapFormulaNames(formula, name => NAME_NOTATION[name.toUpperCase()] ?? name)
+    .replace(/PI\(\)\*?/g, 'π')
+    .replace(/SQRT/g, '√')
+    .replace(/(\d)\*(?=[A-Za-z(π])/g, '$1')
+    .replace(/\*/g, ' × ');
+}
@@ -0,0 +1,251 @@
+/**
+ * Slab Grid
+ * Slab panels generated from the beam grid of a floor (SlabGridLayout) instead of
+ * being entered one at a time. Each bay between two gridlines each way becomes a
+ * SLAB component named after its bottom left gridlines (A1, A2, B1...):
+ *
+ * - Clear spans between the beam faces, beam widths from the gridlines round it
+ * - Edges over an interior beam are continuous into the next panel, edges on the
+ *   outer gridlines are discontinuous
+ * - Top extensions at each edge from the short span Lx: Lx/3 where the edge is
+ *   continuous, Lx/4 where it is discontinuous
+ * - Panels with Ly/Lx up to 2 are two-way and take their case from the
+ *   continuous edges (IS 456 Table 26)
+ */
+
+import type {
+  ComponentBarEntry,
+  ConcreteComponent,
+  GridLine,
+  PanelEdges,
+  SlabGridLayout
+} from '../types/component-types';
+import type { DevelopmentLengthContext } from './development-length';
+import { calculateBarMeasurementsAuto } from './enhanced-calculator';
+import { applySlabOpenings, isSlabOpeningBarType } from './slab-openings';
+import { applySlabOutline } from './slab-outline';
+
+const CONTINUOUS_EXTENSION = 3;        // Lx/3 past a continuous edge
+const DISCONTINUOUS_EXTENSION = 4;     // Lx/4 past a discontinuous edge
+const EXTENSION_ROUNDING = 10;         // mm
+const MAX_TWO_WAY_RATIO = 2;           // Ly/Lx
+const DEFAULT_DIAMETER = 10;           // mm
+const DEFAULT_SPACING = 150;           // mm
+const DEFAULT_COVER = 20;              // mm
+
+const PANEL_BAR_TYPES = [
+  { barType: 'Bottom Bar (X-X)', direction: 'X' },
+  { barType: 'Bottom Bar (Y-Y)', direction: 'Y' },
+] as const;
+
+// ============================================================================
+// GRID
+// ============================================================================
+
+/**
+ * Start a grid of 2 × 2 panels
+ */
+export function createSlabGrid(): SlabGridLayout {
+  const lines = (spacing: number) => [0, spacing, 2 * spacing].map(position => ({ position, beamWidth: 230 }));
+  return { xLines: lines(4000), yLines: lines(3500), depth: 125 };
+}
+
+export function getGridLineLabel(line: GridLine, index: number, axis: 'X' | 'Y'): string {
+  return line.label || (axis === 'X' ? `${index + 1}` : String.fromCharCode(65 + index));
+}
+
+/**
+ * Add a gridline past the last one, at the last bay's spacing
+ */
+export function addGridLine(lines: GridLine[]): GridLine[] {
+  const last = lines[lines.length - 1];
+  const bay = lines.length > 1 ? last.position - lines[lines.length - 2].position : 3000;
+  return [...lines, { position: last.position + bay, beamWidth: last.beamWidth }];
+}
+
+export function removeGridLine(lines: GridLine[], index: number): GridLine[] {
+  if (lines.length <= 2) return lines;
+  return lines.filter((_, i) => i !== index);
+}
+
+/**
+ * Clear span between the faces of the beams on two gridlines
+ */
+export function getClearSpan(from: GridLine, to: GridLine): number {
+  return to.position - from.position - (from.beamWidth + to.beamWidth) / 2;
+}
+
+/**
+ * Problems with a grid; none means its panels can be generated
+ */
+export function validateSlabGrid(layout: SlabGridLayout): string[] {
+  const problems: string[] = [];
+  (['X', 'Y'] as const).forEach(axis => {
+    const lines = axis === 'X' ? layout.xLines : layout.yLines;
+    if (lines.length < 2) {
+      problems.push(`At least 2 gridlines are needed across ${axis}`);
+      return;
+    }
+    for (let i = 0; i + 1 < lines.length; i++) {
+      if (getClearSpan(lines[i], lines[i + 1]) <= 0) {
+        problems.push(`No slab between gridlines ${getGridLineLabel(lines[i], i, axis)} and ${getGridLineLabel(lines[i + 1], i + 1, axis)}`);
+      }
+    }
+  });
+  return problems;
+}
+
+// ============================================================================
+// PANELS
+// ============================================================================
+
+/**
+ * Top bar extension past an edge of a panel with short span lx
+ */
+export function getTopExtension(lx: number, continuous: boolean): number {
+  const extension = lx / (continuous ? CONTINUOUS_EXTENSION : DISCONTINUOUS_EXTENSION);
+  return Math.ceil(extension / EXTENSION_ROUNDING) * EXTENSION_ROUNDING;
+}
+
+export function isTwoWayPanel(spanX: number, spanY: number): boolean {
+  const lx = Math.min(spanX, spanY);
+  return lx > 0 && Math.max(spanX, spanY) / lx <= MAX_TWO_WAY_RATIO;
+}
+
+/**
+ * Panel case for the moment coefficients of a two-way slab (IS 456 Table 26)
+ */
+export function getPanelCase(edges: PanelEdges, spanX: number, spanY: number): string {
+  // Short edges are the ones as long as the short span
+  const shortEdges: (keyof PanelEdges)[] = spanX <= spanY ? ['top', 'bottom'] : ['left', 'right'];
+  const discontinuous = (Object.keys(edges) as (keyof PanelEdges)[]).filter(edge => !edges[edge]);
+  const short = discontinuous.filter(edge => shortEdges.includes(edge)).length;
+
+  switch (discontinuous.length) {
+    case 0:
+      return 'Interior panel';
+    case 1:
+      return short === 1 ? 'One short edge discontinuous' : 'One long edge discontinuous';
+    case 2:
+      if (short === 1) return 'Two adjacent edges discontinuous';
+      return short === 2 ? 'Two short edges discontinuous' : 'Two long edges discontinuous';
+    case 3:
+      return short === 2 ? 'Three edges discontinuous (one long edge continuous)' : 'Three edges discontinuous (one short edge continuous)';
+    default:
+      return 'Four edges discontinuous';
+  }
+}
+
+function describePanel(spanX: number, spanY: number, edges: PanelEdges): string {
+  return isTwoWayPanel(spanX, spanY) ? `Two-way: ${getPanelCase(edges, spanX, spanY)}` : 'One-way';
+}
+
+/**
+ * The panels of a grid, each with its main bars in both directions
+ */
+export function generateSlabPanels(layout: SlabGridLayout, ld: DevelopmentLengthContext): ConcreteComponent[] {
+  const { xLines, yLines } = layout;
+  const panels: ConcreteComponent[] = [];
+
+  for (let row = 0; row + 1 < yLines.length; row++) {
+    for (let column = 0; column + 1 < xLines.length; column++) {
+      const [left, right] = [xLines[column], xLines[column + 1]];
+      const [bottom, top] = [yLines[row], yLines[row + 1]];
+      const edges: PanelEdges = {
+        left: column > 0,
+        right: column + 2 < xLines.length,
+        bottom: row > 0,
+        top: row + 2 < yLines.length,
+      };
+      const spanX = getClearSpan(left, right);
+      const spanY = getClearSpan(bottom, top);
+      const lx = Math.min(spanX, spanY);
+
+      const panel: ConcreteComponent = {
+        id: crypto.randomUUID(),
+        name: `${getGridLineLabel(bottom, row, 'Y')}${getGridLineLabel(left, column, 'X')}`,
+        description: describePanel(spanX, spanY, edges),
+        componentType: 'SLAB',
+        spanX,
+        spanY,
+        depth: layout.depth,
+        cover: DEFAULT_COVER,
+        beamWidths: { left: left.beamWidth, right: right.beamWidth, top: top.beamWidth, bottom: bottom.beamWidth },
+        topExtensions: {
+          left: getTopExtension(lx, edges.left),
+          right: getTopExtension(lx, edges.right),
+          top: getTopExtension(lx, edges.top),
+          bottom: getTopExtension(lx, edges.bottom),
+        },
+        panelEdges: edges,
+        bars: [],
+      };
+      panels.push({
+        ...panel,
+        bars: PANEL_BAR_TYPES.map(({ barType, direction }) => createPanelBar(panel, barType, direction, layout, ld)),
+      });
+    }
+  }
+
+  return panels;
+}
+
+function createPanelBar(
+  panel: ConcreteComponent,
+  barType: string,
+  direction: 'X' | 'Y',
+  layout: SlabGridLayout,
+  ld: DevelopmentLengthContext
+): ComponentBarEntry {
+  const diameter = layout.diameter ?? DEFAULT_DIAMETER;
+  return {
+    id: crypto.randomUUID(),
+    barType,
+    direction,
+    diameter,
+    spacing: layout.spacing ?? DEFAULT_SPACING,
+    measurements: calculateBarMeasurementsAuto(barType, direction, panel, diameter, ld),
+  };
+}
+
+/**
+ * Add a grid's panels to the components. Panels generated before under the same
+ * name take the new geometry but keep their id, cover, openings, outline and bars,
+ * with the bars measured again and the outline strips and opening bars laid out
+ * afresh.
+ */
+export function applySlabGrid(
+  components: ConcreteComponent[],
+  layout: SlabGridLayout,
+  ld: DevelopmentLengthContext
+): ConcreteComponent[] {
+  const panels = generateSlabPanels(layout, ld);
+  const existing = new Map(components.filter(c => c.panelEdges).map(c => [c.name, c]));
+  const updated = new Set<string>();
+
+  const result = components.map(component => {
+    const panel = component.panelEdges && panels.find(p => p.name === component.name);
+    if (!panel || updated.has(panel.name)) return component;
+    updated.add(panel.name);
+    const regenerated: ConcreteComponent = {
+      ...component,
+      description: panel.description,
+      spanX: panel.spanX,
+      spanY: panel.spanY,
+      depth: panel.depth,
+      beamWidths: panel.beamWidths,
+      topExtensions: panel.topExtensions,
+      panelEdges: panel.panelEdges,
+    };
+    const remeasured = {
+      ...regenerated,
+      bars: component.bars.map(bar => isSlabOpeningBarType(bar.barType) ? bar : {
+        ...bar,
+        measurements: calculateBarMeasurementsAuto(bar.barType, bar.direction, regenerated, bar.diameter, ld, bar.section_span_1),
+      }),
+    };
+    return applySlabOpenings(remeasured.outline ? applySlabOutline(remeasured, ld) : remeasured, ld);
+  });
+
+  return [...result, ...panels.filter(panel => !existing.has(panel.name))];
+}
@@ -0,0 +1,248 @@
+/**
+ * Slab Openings
+ * Rectangular and circular openings in SLAB components (component.openings). Bars
+ * running through an opening are cut:
+ *
+ * - Interrupted bars are taken out of their entry's count and replaced by two
+ *   pieces, one each side, stopped with cover short of the opening; each piece keeps
+ *   the full bar's allowance at its support end
+ * - Trimmer bars along each side of the opening replace the steel cut in that
+ *   direction, half on each side with at least 2 bars, extending Ld past the corners
+ * - Diagonal bars across each corner, one per layer of cut bars (IS 456 31.8,
+ *   SP 34 9.4)
+ *
+ * Circular openings cut the bars that cross the circle; pieces and trimmers are
+ * set out on the square round it. Each opening is treated on its own, so openings
+ * should not share bars. Entries covering a strip of an L-shaped or composite slab
+ * are only cut where the opening falls within their strip.
+ */
+
+import type {
+  BarDirection,
+  BarMeasurements,
+  ComponentBarEntry,
+  ConcreteComponent,
+  SlabOpening
+} from '../types/component-types';
+import { resolveDevelopmentLength, type DevelopmentLengthContext } from './development-length';
+import { carryOverBarMarks, withDroppedBarMarks } from './bar-mark-carryover';
+
+const MIN_TRIMMERS = 2;                // Per side of the opening
+
+// Bar types generated for openings, e.g. "Bottom Bar (X-X) - O1 Piece 2" or "Corner Bar - O1"
+const OPENING_BAR_TYPE = /( - .+ Piece [12]|^(Trimmer Bar \((X-X|Y-Y)\)|Corner Bar) - .+)$/;
+
+// Main and distribution bars that run the span in one direction
+const SPAN_BAR_TYPE = /\((X-X|Y-Y)\)/;
+
+export function isSlabOpeningBarType(barType: string): boolean {
+  return OPENING_BAR_TYPE.test(barType);
+}
+
+export function getOpeningLabel(opening: SlabOpening, index: number): string {
+  return opening.label || `O${index + 1}`;
+}
+
+/**
+ * Opening size along Y; circular openings are as deep as they are wide
+ */
+export function getOpeningHeight(opening: SlabOpening): number {
+  return opening.shape === 'CIRCULAR' ? opening.width : opening.height ?? opening.width;
+}
+
+function isCutByOpenings(barType: string, direction: BarDirection, component: ConcreteComponent): boolean {
+  return component.componentType === 'SLAB' && !!component.openings?.length &&
+    (direction === 'X' || direction === 'Y') &&
+    SPAN_BAR_TYPE.test(barType) && !isSlabOpeningBarType(barType);
+}
+
+type SpanBar = Pick<ComponentBarEntry, 'direction' | 'spacing' | 'outlineStrip' | 'section_span_1' | 'section_span_2'>;
+
+interface BarRun {
+  start: number;                   // mm - along the bars
+  end: number;
+  from: number;                    // mm - across the bars
+  to: number;
+}
+
+// Where an entry's bars lie: the whole slab, or their strip of the slab outline
+function getBarRun(bar: SpanBar, component: ConcreteComponent): BarRun {
+  const along = bar.direction === 'X' ? component.spanX : component.spanY;
+  const across = bar.direction === 'X' ? component.spanY : component.spanX;
+  const strip = bar.outlineStrip;
+  return strip
+    ? {
+        start: strip.start,
+        end: strip.start + (bar.section_span_1 ?? along),
+        from: strip.offset,
+        to: strip.offset + (bar.section_span_2 ?? across),
+      }
+    : { start: 0, end: along, from: 0, to: across };
+}
+
+// Extent of an opening along and across bars in one direction
+function getOpeningExtent(opening: SlabOpening, direction: 'X' | 'Y') {
+  return direction === 'X'
+    ? { start: opening.x, end: opening.x + opening.width, from: opening.y, to: opening.y + getOpeningHeight(opening) }
+    : { start: opening.y, end: opening.y + getOpeningHeight(opening), from: opening.x, to: opening.x + opening.width };
+}
+
+/**
+ * Bars of an entry that run through one opening, set out across their run from
+ * cover at its edge
+ */
+function countBarsThroughOpening(bar: SpanBar, component: ConcreteComponent, opening: SlabOpening): number {
+  if (bar.spacing <= 0) return 0;
+  const run = getBarRun(bar, component);
+  const extent = getOpeningExtent(opening, bar.direction as 'X' | 'Y');
+  if (extent.end <= run.start || extent.start >= run.end) return 0;
+  const radius = opening.width / 2;
+
+  let count = 0;
+  for (let position = run.from + component.cover; position <= run.to - component.cover; position += bar.spacing) {
+    const cut = opening.shape === 'CIRCULAR'
+      ? Math.abs(position - (extent.from + radius)) < radius
+      : position >= extent.from && position <= extent.to;
+    if (cut) count++;
+  }
+  return count;
+}
+
+/**
+ * Bars of an entry cut by the slab's openings, to be left out of its count
+ */
+export function getInterruptedBarCount(
+  barType: string,
+  direction: BarDirection,
+  component: ConcreteComponent,
+  spacing: number,
+  bar: Partial<SpanBar> = {}
+): number {
+  if (!isCutByOpenings(barType, direction, component)) return 0;
+  return component.openings!.reduce(
+    (total, opening) => total + countBarsThroughOpening({ ...bar, direction, spacing }, component, opening),
+    0
+  );
+}
+
+// ============================================================================
+// BARS
+// ============================================================================
+
+interface CutSteel {
+  area: number;                    // Σ bars × d², to size the trimmers
+  diameter: number;                // Largest cut bar
+}
+
+const sumSegments = ({ a, b = 0, c = 0, d = 0, e = 0, f = 0 }: BarMeasurements) => a + b + c + d + e + f;
+
+const openingEntry = (
+  barType: string,
+  direction: BarDirection,
+  diameter: number,
+  count: number,
+  measurements: BarMeasurements
+): ComponentBarEntry => ({
+  id: crypto.randomUUID(),
+  barType,
+  direction,
+  diameter,
+  spacing: 0,
+  barsPerMember: count,
+  totalMembers: 1,
+  measurements,
+  manualNoOfDeductions: 0,
+});
+
+/**
+ * Cut pieces, trimmer bars and corner bars for every opening of a slab
+ */
+export function generateSlabOpeningBars(
+  component: ConcreteComponent,
+  ld: DevelopmentLengthContext
+): ComponentBarEntry[] {
+  const cover = component.cover;
+  const spanBars = component.bars.filter(bar => isCutByOpenings(bar.barType, bar.direction, component));
+  const entries: ComponentBarEntry[] = [];
+
+  (component.openings ?? []).forEach((opening, index) => {
+    const label = getOpeningLabel(opening, index);
+    const cutSteel: Partial<Record<'X' | 'Y', CutSteel>> = {};
+    const layers = new Set<string>();
+
+    for (const bar of spanBars) {
+      const direction = bar.direction as 'X' | 'Y';
+      const count = countBarsThroughOpening(bar, component, opening);
+      if (count === 0) continue;
+
+      // Pieces either side, each with the full bar's end allowance beyond its run
+      const run = getBarRun(bar, component);
+      const extent = getOpeningExtent(opening, direction);
+      const allowance = Math.max(0, (sumSegments(bar.measurements) - (run.end - run.start)) / 2);
+      [extent.start - run.start - cover, run.end - extent.end - cover].forEach((length, piece) => {
+        if (length > 0) {
+          const strip = bar.outlineStrip ? ` Strip ${bar.outlineStrip.index}` : '';
+          entries.push(openingEntry(
+            `${bar.barType} - ${label}${strip} Piece ${piece + 1}`,
+            direction,
+            bar.diameter,
+            count,
+            { a: Math.ceil(length + allowance) }
+          ));
+        }
+      });
+
+      const steel = cutSteel[direction] ?? { area: 0, diameter: 0 };
+      cutSteel[direction] = {
+        area: steel.area + count * bar.diameter * bar.diameter,
+        diameter: Math.max(steel.diameter, bar.diameter),
+      };
+      layers.add(/top/i.test(bar.barType) ? 'TOP' : 'BOTTOM');
+    }
+
+    // Trimmers: half the cut steel each side, Ld past the corners
+    (['X', 'Y'] as const).forEach(direction => {
+      const steel = cutSteel[direction];
+      if (!steel) return;
+      const perSide = Math.max(MIN_TRIMMERS, Math.ceil(steel.area / 2 / (steel.diameter * steel.diameter)));
+      const side = direction === 'X' ? opening.width : getOpeningHeight(opening);
+      entries.push(openingEntry(
+        `Trimmer Bar (${direction}-${direction}) - ${label}`,
+        direction,
+        steel.diameter,
+        2 * perSide,
+        { a: Math.ceil(side + 2 * resolveDevelopmentLength(steel.diameter, ld)) }
+      ));
+    });
+
+    // Corner bars: Ld each side of the corner, in every layer that was cut
+    if (layers.size > 0) {
+      const diameter = Math.max(cutSteel.X?.diameter ?? 0, cutSteel.Y?.diameter ?? 0);
+      entries.push(openingEntry(
+        `Corner Bar - ${label}`,
+        'NONE',
+        diameter,
+        4 * layers.size,
+        { a: Math.ceil(2 * resolveDevelopmentLength(diameter, ld)) }
+      ));
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Regenerate a slab's opening bars from its openings and span bars; other entries are kept
+ */
+export function applySlabOpenings(
+  component: ConcreteComponent,
+  ld: DevelopmentLengthContext
+): ConcreteComponent {
+  const replaced = component.bars.filter(bar => isSlabOpeningBarType(bar.barType));
+  const keptBars = component.bars.filter(bar => !isSlabOpeningBarType(bar.barType));
+  const base = { ...component, bars: keptBars };
+  return withDroppedBarMarks(component, {
+    ...base,
+    bars: [...keptBars, ...carryOverBarMarks(replaced, generateSlabOpeningBars(base, ld))],
+  });
+}
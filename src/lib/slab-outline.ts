@@ -0,0 +1,219 @@
+/**
+ * Slab Outline
+ * L-shaped and composite slabs drawn as orthogonal polygons (component.outline),
+ * with re-entrant corners. For bars in each direction the outline is cut into
+ * rectangular strips, each with its own bar length (section_span_1) and width to
+ * count the bars over (section_span_2):
+ *
+ * - Bars along X: the outline is cut at every corner level in Y, neighbouring
+ *   bands with the same run are merged into one strip
+ * - Bars along Y: the same across X
+ *
+ * Each span bar entry of the slab is repeated once per strip; its first strip
+ * carries the settings for the others.
+ */
+
+import type {
+  BarMeasurements,
+  ComponentBarEntry,
+  ConcreteComponent,
+  OutlineStrip,
+  PlanPoint
+} from '../types/component-types';
+import type { DevelopmentLengthContext } from './development-length';
+import { calculateBarMeasurementsAuto } from './enhanced-calculator';
+import { getInterruptedBarCount, isSlabOpeningBarType } from './slab-openings';
+import { carryOverBarMarks, withDroppedBarMarks } from './bar-mark-carryover';
+
+export interface SlabStrip {
+  start: number;                   // mm - where the bars start, along their direction
+  length: number;                  // mm - bar run
+  offset: number;                  // mm - edge of the strip, across the bars
+  width: number;                   // mm - strip width the bars are spaced over
+}
+
+// Main and distribution bars that run the span in one direction
+const SPAN_BAR_TYPE = /\((X-X|Y-Y)\)/;
+
+// ============================================================================
+// OUTLINE
+// ============================================================================
+
+export type OutlinePreset = 'RECTANGLE' | 'L_SHAPE';
+
+/**
+ * Start an outline from the slab's spans: the full rectangle, or an L with the
+ * top right quarter cut away
+ */
+export function createSlabOutline(component: ConcreteComponent, preset: OutlinePreset = 'RECTANGLE'): PlanPoint[] {
+  const { spanX: x, spanY: y } = component;
+  return preset === 'L_SHAPE'
+    ? [{ x: 0, y: 0 }, { x, y: 0 }, { x, y: y / 2 }, { x: x / 2, y: y / 2 }, { x: x / 2, y }, { x: 0, y }]
+    : [{ x: 0, y: 0 }, { x, y: 0 }, { x, y }, { x: 0, y }];
+}
+
+/**
+ * Problems with an outline; none means it can be cut into strips
+ */
+export function validateSlabOutline(outline: PlanPoint[]): string[] {
+  if (outline.length < 4) return ['An outline needs at least 4 corners'];
+  const problems: string[] = [];
+  outline.forEach((point, i) => {
+    const next = outline[(i + 1) % outline.length];
+    if (point.x === next.x && point.y === next.y) {
+      problems.push(`Corners ${i + 1} and ${(i + 1) % outline.length + 1} are the same point`);
+    } else if (point.x !== next.x && point.y !== next.y) {
+      problems.push(`Edge from corner ${i + 1} to ${(i + 1) % outline.length + 1} is not along X or Y`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * Bounding box of the outline, which sets the slab's spans
+ */
+export function getOutlineBounds(outline: PlanPoint[]): { spanX: number; spanY: number } {
+  const xs = outline.map(point => point.x);
+  const ys = outline.map(point => point.y);
+  return { spanX: Math.max(...xs) - Math.min(...xs), spanY: Math.max(...ys) - Math.min(...ys) };
+}
+
+/**
+ * Area enclosed by the outline (shoelace formula), in mm²
+ */
+export function getOutlineArea(outline: PlanPoint[]): number {
+  const twiceArea = outline.reduce((total, point, i) => {
+    const next = outline[(i + 1) % outline.length];
+    return total + point.x * next.y - next.x * point.y;
+  }, 0);
+  return Math.abs(twiceArea) / 2;
+}
+
+/**
+ * Strips of the outline for bars along one direction, from the bottom (X) or
+ * left (Y) edge
+ */
+export function getSlabStrips(outline: PlanPoint[], direction: 'X' | 'Y'): SlabStrip[] {
+  const along = (point: PlanPoint) => direction === 'X' ? point.x : point.y;
+  const across = (point: PlanPoint) => direction === 'X' ? point.y : point.x;
+  const levels = [...new Set(outline.map(across))].sort((a, b) => a - b);
+  const strips: SlabStrip[] = [];
+  let open: SlabStrip[] = [];
+
+  for (let k = 0; k < levels.length - 1; k++) {
+    const mid = (levels[k] + levels[k + 1]) / 2;
+
+    // Edges across the bars that the band crosses, paired into runs
+    const crossings = outline
+      .map((point, i) => [point, outline[(i + 1) % outline.length]] as const)
+      .filter(([p, q]) => along(p) === along(q) && Math.min(across(p), across(q)) < mid && Math.max(across(p), across(q)) > mid)
+      .map(([p]) => along(p))
+      .sort((a, b) => a - b);
+
+    const band: SlabStrip[] = [];
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const [start, end] = [crossings[i], crossings[i + 1]];
+      const below = open.find(strip => strip.start === start && strip.length === end - start);
+      if (below) {
+        below.width += levels[k + 1] - levels[k];
+        band.push(below);
+      } else {
+        const strip = { start, length: end - start, offset: levels[k], width: levels[k + 1] - levels[k] };
+        strips.push(strip);
+        band.push(strip);
+      }
+    }
+    open = band;
+  }
+
+  return strips;
+}
+
+// ============================================================================
+// BARS
+// ============================================================================
+
+const isSpanBar = (bar: ComponentBarEntry) =>
+  (bar.direction === 'X' || bar.direction === 'Y') &&
+  SPAN_BAR_TYPE.test(bar.barType) && !isSlabOpeningBarType(bar.barType);
+
+// Bar over a strip: the slab calculator on a slab spanning the strip run when the slab
+// has U-bar dimensions, otherwise the entry's shape with the run as segment a
+function measureStripBar(
+  bar: ComponentBarEntry,
+  component: ConcreteComponent,
+  strip: SlabStrip,
+  ld: DevelopmentLengthContext
+): BarMeasurements {
+  if (component.beamWidths && component.topExtensions) {
+    const stripSlab = bar.direction === 'X'
+      ? { ...component, spanX: strip.length }
+      : { ...component, spanY: strip.length };
+    return calculateBarMeasurementsAuto(bar.barType, bar.direction, stripSlab, bar.diameter, ld, strip.length);
+  }
+  return { ...bar.measurements, a: strip.length };
+}
+
+/**
+ * Repeat a slab's span bars once per strip of its outline. Without an outline the
+ * first strip of each entry goes back to covering the whole slab; an outline with
+ * problems leaves the bars as they are.
+ */
+export function applySlabOutline(
+  component: ConcreteComponent,
+  ld: DevelopmentLengthContext
+): ConcreteComponent {
+  const outline = component.outline;
+  if (outline && validateSlabOutline(outline).length > 0) return component;
+
+  const bars: ComponentBarEntry[] = [];
+  const spanBars = component.bars.filter(isSpanBar);
+
+  for (const bar of component.bars) {
+    if (!isSpanBar(bar)) {
+      bars.push(bar);
+      continue;
+    }
+    if (bar.outlineStrip && bar.outlineStrip.index > 1) continue; // Regenerated from the first strip
+
+    // The entry's own bars per member (layers), without the 1 given to strips of an uncounted entry
+    const barsPerMember = bar.outlineStrip?.ownCount && bar.barsPerMember === 1 ? undefined : bar.barsPerMember;
+    const template: ComponentBarEntry = {
+      ...bar,
+      barsPerMember,
+      outlineStrip: undefined,
+      section_span_1: undefined,
+      section_span_2: undefined,
+      totalMembers: undefined,
+    };
+    if (!outline) {
+      const along = bar.direction === 'X' ? component.spanX : component.spanY;
+      const across = bar.direction === 'X' ? component.spanY : component.spanX;
+      const wholeSlab = { start: 0, length: along, offset: 0, width: across };
+      bars.push(bar.outlineStrip ? { ...template, measurements: measureStripBar(bar, component, wholeSlab, ld) } : bar);
+      continue;
+    }
+
+    // Each strip keeps its own mark, not the first strip's
+    const strips = getSlabStrips(outline, bar.direction as 'X' | 'Y').map((strip, i) => {
+      const outlineStrip: OutlineStrip = {
+        index: i + 1,
+        start: strip.start,
+        offset: strip.offset,
+        ...(barsPerMember ? {} : { ownCount: true }),
+      };
+      const placed = { ...template, outlineStrip, section_span_1: strip.length, section_span_2: strip.width };
+      const count = bar.spacing > 0 ? Math.ceil(strip.width / bar.spacing) : 1;
+      return {
+        ...placed,
+        id: i === 0 ? bar.id : crypto.randomUUID(),
+        measurements: measureStripBar(bar, component, strip, ld),
+        barsPerMember: barsPerMember || 1,
+        totalMembers: Math.max(0, count - getInterruptedBarCount(bar.barType, bar.direction, component, bar.spacing, placed)),
+      };
+    });
+    bars.push(...carryOverBarMarks(spanBars, strips));
+  }
+
+  return withDroppedBarMarks(component, { ...component, bars });
+}
@@ -0,0 +1,148 @@
+/**
+ * Staircase Calculator
+ * Bars for STAIRCASE components. The component is one flight with the landings at
+ * its foot and head: spanY is the flight width, depth the waist slab thickness and
+ * the steps come from component.staircase. Dog-legged stairs repeat the flight
+ * twice and open-well stairs three times.
+ *
+ * - Main bars run along the soffit of the waist, cranked at each landing junction
+ *   and carried to the end of the landing, or anchored Ld into the floor where the
+ *   flight has no landing
+ * - Distribution bars across the flight, spaced along the developed length of the
+ *   waist and landings
+ * - Nosing bars across the flight at the nosing of every tread
+ */
+
+import type { BarMeasurements, ConcreteComponent, StaircaseDetails } from '../types/component-types';
+import { resolveDevelopmentLength, type DevelopmentLengthContext } from './development-length';
+
+const DEFAULT_STAIRCASE: Required<Omit<StaircaseDetails, 'flights'>> = {
+  type: 'DOG_LEGGED',
+  riser: 150,
+  tread: 300,
+  steps: 10,
+  bottomLanding: 0,
+  topLanding: 1200,
+};
+
+const DEFAULT_FLIGHTS = { DOG_LEGGED: 2, OPEN_WELL: 3 };
+
+export function isStaircase(component: ConcreteComponent): boolean {
+  return component.componentType === 'STAIRCASE';
+}
+
+export function getStaircaseDetails(component: ConcreteComponent): Required<StaircaseDetails> {
+  const details = { ...DEFAULT_STAIRCASE, ...component.staircase };
+  return { ...details, flights: component.staircase?.flights ?? DEFAULT_FLIGHTS[details.type] };
+}
+
+/**
+ * Horizontal going of the flight: the top tread is the landing
+ */
+export function getStaircaseGoing(details: StaircaseDetails): number {
+  return Math.max(0, details.steps - 1) * details.tread;
+}
+
+export function getStaircaseRise(details: StaircaseDetails): number {
+  return details.steps * details.riser;
+}
+
+/**
+ * Length of the waist along the slope
+ */
+export function getInclinedLength(details: StaircaseDetails): number {
+  return Math.ceil(Math.hypot(getStaircaseGoing(details), getStaircaseRise(details)));
+}
+
+/**
+ * Plan length of the flight with its landings, shown as the component's span X
+ */
+export function getStaircasePlanLength(details: StaircaseDetails): number {
+  return (details.bottomLanding ?? 0) + getStaircaseGoing(details) + (details.topLanding ?? 0);
+}
+
+// Flight width less cover at both sides
+const getClearWidth = (component: ConcreteComponent) => Math.max(0, component.spanY - 2 * component.cover);
+
+// ============================================================================
+// MEASUREMENTS
+// ============================================================================
+
+/**
+ * Measurements of a staircase bar, or undefined for other bar types
+ */
+export function calculateStaircaseBarMeasurements(
+  barType: string,
+  component: ConcreteComponent,
+  diameter: number,
+  ld: DevelopmentLengthContext
+): BarMeasurements | undefined {
+  const normalizedType = barType.toLowerCase();
+  const details = getStaircaseDetails(component);
+
+  // Main bars: waist, then the landing or an anchorage into the floor at each end
+  if (normalizedType === 'stair main bar') {
+    const developmentLength = Math.ceil(resolveDevelopmentLength(diameter, ld));
+    const endLength = (landing: number) =>
+      landing > 0 ? Math.max(0, landing - component.cover) : developmentLength;
+    return {
+      a: getInclinedLength(details),
+      b: endLength(details.bottomLanding),
+      c: endLength(details.topLanding),
+    };
+  }
+
+  if (normalizedType === 'stair dist bar' || normalizedType === 'nosing bar') {
+    return { a: getClearWidth(component) };
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// COUNTS AND BENDS
+// ============================================================================
+
+/**
+ * Number of bars in all flights, or undefined for other bar types
+ */
+export function calculateStaircaseBarCount(
+  barType: string,
+  component: ConcreteComponent,
+  spacing: number
+): number | undefined {
+  const normalizedType = barType.toLowerCase();
+  const details = getStaircaseDetails(component);
+  const perFlight = (count: number) => count * details.flights;
+
+  if (normalizedType === 'stair main bar') {
+    return perFlight(Math.ceil(component.spanY / spacing)); // Across the flight
+  }
+
+  if (normalizedType === 'stair dist bar') {
+    const developedLength = details.bottomLanding + getInclinedLength(details) + details.topLanding;
+    return perFlight(Math.ceil(developedLength / spacing));
+  }
+
+  // One per tread
+  if (normalizedType === 'nosing bar') {
+    return perFlight(Math.max(0, details.steps - 1));
+  }
+
+  return undefined;
+}
+
+/**
+ * Bends to deduct for a staircase bar, or undefined for other bar types
+ */
+export function getStaircaseBarDeductions(barType: string): number | undefined {
+  const normalizedType = barType.toLowerCase();
+
+  if (normalizedType === 'stair main bar') {
+    return 2; // Cranks at the foot and head of the waist
+  }
+  if (normalizedType === 'stair dist bar' || normalizedType === 'nosing bar') {
+    return 0;
+  }
+  return undefined;
+}
@@ -0,0 +1,115 @@
+/**
+ * Stirrup Spacing Zones
+ * Zone-wise stirrup/tie counts for ductile detailing: closer spacing in the
+ * confinement zones at member ends, wider spacing in the middle.
+ *
+ * Zones run along the member in order. A bar sits at the start of the member and
+ * at every spacing step; the bar on a boundary between two zones is shared and
+ * counted once, in the zone it closes:
+ *
+ *   sets = 1 + Σ ceil(zone length / zone spacing)
+ */
+
+import type { ConcreteComponent, StirrupZone } from '../types/component-types';
+
+export interface ZoneCount {
+  label: string;
+  start: number;                   // mm from the member start
+  end: number;                     // mm
+  length: number;                  // mm
+  spacing: number;                 // mm
+  count: number;                   // Bars placed in this zone
+}
+
+export interface ZoneBreakdown {
+  memberLength: number;            // mm
+  zones: ZoneCount[];
+  total: number;
+}
+
+/**
+ * Length the stirrups or ties are spaced along: beam span, column height
+ */
+export function getZoneMemberLength(component: ConcreteComponent): number {
+  return component.componentType === 'COLUMN' ? (component.depth || 3000) : component.spanX;
+}
+
+// Round a maximum spacing down to a practical 5mm step
+const roundDownTo5 = (value: number) => Math.floor(value / 5) * 5;
+
+/**
+ * Default end, middle and end zones for a member
+ * Beams (IS 13920 6.3.5): 2d at each end at d/4 but not more than 100mm, d/2 in the middle
+ * Columns (IS 13920 7.4.1): lo = max(larger dimension, clear height / 6, 450mm) at each end
+ * at B/4 (smaller dimension) between 75mm and 100mm, the entry spacing in the middle
+ */
+export function getDefaultSpacingZones(component: ConcreteComponent, spacing: number): StirrupZone[] {
+  let endLength: number;
+  let endSpacing: number;
+  let middleSpacing = spacing;
+
+  if (component.componentType === 'COLUMN') {
+    const height = component.depth || 3000;
+    endLength = Math.max(component.spanX, component.spanY, height / 6, 450);
+    endSpacing = Math.min(100, Math.max(75, roundDownTo5(Math.min(component.spanX, component.spanY) / 4)));
+  } else {
+    const effectiveDepth = (component.depth || 450) - component.cover;
+    endLength = 2 * effectiveDepth;
+    endSpacing = Math.min(100, roundDownTo5(effectiveDepth / 4));
+    middleSpacing = Math.min(spacing || Infinity, roundDownTo5(effectiveDepth / 2));
+  }
+
+  // Short members are all confinement zone
+  endLength = Math.ceil(Math.min(endLength, getZoneMemberLength(component) / 2));
+
+  return [
+    { label: 'End', length: endLength, spacing: endSpacing },
+    { label: 'Middle', spacing: Math.max(endSpacing, middleSpacing) },
+    { label: 'End', length: endLength, spacing: endSpacing },
+  ];
+}
+
+/**
+ * Count bars zone by zone along a member
+ * Zones without a length share whatever the fixed zones leave of the member.
+ */
+export function calculateZoneCounts(memberLength: number, zones: StirrupZone[]): ZoneBreakdown {
+  const fixedLength = zones.reduce((total, zone) => total + (zone.length ?? 0), 0);
+  const openZones = zones.filter(zone => zone.length === undefined).length;
+  const remainder = openZones > 0 ? Math.max(0, memberLength - fixedLength) / openZones : 0;
+
+  let start = 0;
+  const counts = zones.map((zone, index) => {
+    const length = zone.length ?? remainder;
+    const count = length > 0 && zone.spacing > 0 ? Math.ceil(length / zone.spacing) : 0;
+    const zoneCount: ZoneCount = {
+      label: zone.label || `Zone ${index + 1}`,
+      start,
+      end: start + length,
+      length,
+      spacing: zone.spacing,
+      count,
+    };
+    start += length;
+    return zoneCount;
+  });
+
+  // The bar at the member start belongs to the first zone that has bars
+  const first = counts.find(zone => zone.count > 0);
+  if (first) first.count += 1;
+
+  return {
+    memberLength,
+    zones: counts,
+    total: counts.reduce((total, zone) => total + zone.count, 0),
+  };
+}
+
+/**
+ * One line per zone for tooltips, e.g. "End: 0-900mm @ 100mm = 10 nos"
+ */
+export function describeZoneBreakdown(breakdown: ZoneBreakdown): string[] {
+  return breakdown.zones.map(zone =>
+    `${zone.label}: ${Math.round(zone.start)}-${Math.round(zone.end)}mm @ ${zone.spacing}mm = ${zone.count} nos`
+  );
+}
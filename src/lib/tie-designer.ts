@@ -0,0 +1,275 @@
+/**
+ * Stirrup and Tie Designer
+ * Lays out beam stirrups and column ties as one or more pieces per tie set:
+ * 2-legged and 4-legged links, diamond ties, single-leg links, circular hoops and
+ * spirals. Each piece gets its shape code, hooks and cut length, and the set's
+ * pieces are carried into the bar totals of the entry.
+ *
+ * Dimensions follow the component calculators: sides are measured inside the
+ * cover (W - 2C, D - 2C), hooks are added per end, and every bend deducts 2d.
+ */
+
+import type {
+  BarMeasurements,
+  CalculatedBarResult,
+  ComponentBarEntry,
+  ConcreteComponent,
+  TieConfiguration,
+  TieDesign,
+  TieHookAngle,
+  TieLayout,
+  TiePiece
+} from '../types/component-types';
+import type { ShapeCode } from '../types';
+import { WEIGHT_PER_METER } from './constants';
+
+// ============================================================================
+// CONFIGURATIONS
+// ============================================================================
+
+export const TIE_CONFIGURATIONS: Record<TieConfiguration, { label: string; description: string }> = {
+  TWO_LEGGED: { label: '2-legged', description: 'Single closed link' },
+  FOUR_LEGGED: { label: '4-legged', description: 'Outer link + inner link round the middle bars' },
+  DIAMOND: { label: 'Diamond', description: 'Outer link + diamond through the mid-side bars' },
+  SINGLE_LEG: { label: 'Single leg', description: 'Straight link with a hook at each end' },
+  CIRCULAR_HOOP: { label: 'Circular hoop', description: 'Closed hoop, section width is the diameter' },
+  SPIRAL: { label: 'Spiral', description: 'Continuous helix, section width is the diameter' },
+};
+
+const DEFAULT_HOOK_ANGLE: TieHookAngle = 135;
+const BEND_DEDUCTION_MULTIPLIER = 2;   // 2d per bend, as calculateDeductionAmount
+const SPIRAL_END_TURNS = 1.5;          // IS 456 26.5.3.2: 1.5 extra turns to anchor each end
+
+// Bar types the designer applies to
+const TIE_BAR_TYPES = new Set(['stirrups', 'tie', 'master tie']);
+
+export function isTieBarType(barType: string): boolean {
+  return TIE_BAR_TYPES.has(barType.trim().toLowerCase());
+}
+
+// ============================================================================
+// HOOKS
+// ============================================================================
+
+/**
+ * Hook length per end in mm
+ * 135°: IS 13920 seismic hook, extension 6d but not less than 65mm, plus 4d round the bend
+ *       (10d for bars of 11mm and up)
+ * 90°:  IS 456 / SP 34 link bend with an 8d extension
+ */
+export function getTieHookLength(angle: TieHookAngle, diameter: number): number {
+  if (angle === 135) {
+    return Math.max(6 * diameter, 65) + 4 * diameter;
+  }
+  return 8 * diameter;
+}
+
+// ============================================================================
+// SECTION
+// ============================================================================
+
+interface TieSection {
+  width: number;                   // mm - across the section (diameter for circular sections)
+  depth: number;                   // mm
+  cover: number;                   // mm
+  length: number;                  // mm - member length the ties are spaced along
+}
+
+/**
+ * Section a component's ties wrap: beams are spanY wide by depth deep along spanX,
+ * columns are spanX by spanY over their height (depth), or the section and height
+ * of the entry's floor in a column schedule
+ */
+export function getTieSection(component: ConcreteComponent, entry?: ComponentBarEntry): TieSection {
+  if (component.componentType === 'COLUMN') {
+    // Ties of a column schedule floor go round that floor's section
+    const floor = entry?.columnFloor !== undefined ? component.columnSchedule?.floors[entry.columnFloor] : undefined;
+    return {
+      width: floor?.width ?? component.spanX,
+      depth: floor?.depth ?? component.spanY,
+      cover: component.cover,
+      length: floor?.height ?? (component.depth || 3000),
+    };
+  }
+  return {
+    width: component.spanY || 300,
+    depth: component.depth || 450,
+    cover: component.cover,
+    length: component.spanX,
+  };
+}
+
+// ============================================================================
+// DESIGN
+// ============================================================================
+
+function createPiece(
+  name: string,
+  shapeCode: ShapeCode,
+  measurements: BarMeasurements,
+  hooks: number,
+  bends: number,
+  diameter: number,
+  count: number = 1
+): TiePiece {
+  const { a, b = 0, c = 0, d = 0, e = 0, f = 0 } = measurements;
+  const cutLength = a + b + c + d + e + f - bends * BEND_DEDUCTION_MULTIPLIER * diameter;
+  return { name, shapeCode, count, measurements, hooks, bends, cutLength };
+}
+
+// Closed rectangular (or rhombic) link: four sides then the two hooks
+function closedLink(name: string, width: number, depth: number, hookLength: number, diameter: number): TiePiece {
+  return createPiece(
+    name,
+    'S3',
+    { a: width, b: depth, c: width, d: depth, e: hookLength, f: hookLength },
+    2,
+    6,                             // 4 corners + 2 hooks
+    diameter
+  );
+}
+
+/**
+ * Lay out one tie set for a section
+ *
+ * @param design - Configuration, hook angle and spiral pitch/turns
+ * @param section - Section and member length (see getTieSection)
+ * @param diameter - Tie bar diameter in mm
+ * @param spacing - Entry spacing in mm, the default spiral pitch
+ */
+export function designTies(
+  design: TieDesign,
+  section: TieSection,
+  diameter: number,
+  spacing: number = 0
+): TieLayout {
+  const hookAngle = design.hookAngle ?? DEFAULT_HOOK_ANGLE;
+  const hookLength = getTieHookLength(hookAngle, diameter);
+  const innerWidth = Math.max(0, section.width - 2 * section.cover);
+  const innerDepth = Math.max(0, section.depth - 2 * section.cover);
+
+  let pieces: TiePiece[];
+  let legs: number;
+  let turns: number | undefined;
+
+  switch (design.configuration) {
+    case 'FOUR_LEGGED':
+      // Inner link round the middle two of four equally spaced bars
+      pieces = [
+        closedLink('Outer link', innerWidth, innerDepth, hookLength, diameter),
+        closedLink('Inner link', Math.round(innerWidth / 3), innerDepth, hookLength, diameter),
+      ];
+      legs = 4;
+      break;
+
+    case 'DIAMOND': {
+      const side = Math.round(Math.hypot(innerWidth / 2, innerDepth / 2));
+      pieces = [
+        closedLink('Outer link', innerWidth, innerDepth, hookLength, diameter),
+        closedLink('Diamond', side, side, hookLength, diameter),
+      ];
+      legs = 4;
+      break;
+    }
+
+    case 'SINGLE_LEG':
+      pieces = [
+        createPiece('Link', 'S7', { a: innerDepth, b: hookLength, c: hookLength }, 2, 2, diameter),
+      ];
+      legs = 1;
+      break;
+
+    case 'CIRCULAR_HOOP': {
+      // Centreline circumference of the hoop inside the cover
+      const circumference = Math.round(Math.PI * (innerWidth - diameter));
+      pieces = [
+        createPiece('Hoop', '75', { a: circumference, b: hookLength, c: hookLength }, 2, 2, diameter),
+      ];
+      legs = 2;
+      break;
+    }
+
+    case 'SPIRAL': {
+      const pitch = design.pitch || spacing || 75;
+      turns = design.turns ?? Math.ceil(section.length / pitch) + 2 * SPIRAL_END_TURNS;
+      const perTurn = Math.hypot(Math.PI * (innerWidth - diameter), pitch);
+      pieces = [
+        createPiece('Spiral', '77', { a: Math.round(turns * perTurn) }, 0, 0, diameter),
+      ];
+      legs = 2;
+      break;
+    }
+
+    case 'TWO_LEGGED':
+    default:
+      pieces = [closedLink('Link', innerWidth, innerDepth, hookLength, diameter)];
+      legs = 2;
+      break;
+  }
+
+  return {
+    configuration: design.configuration,
+    hookAngle,
+    hookLength,
+    legs,
+    pieces,
+    piecesPerSet: pieces.reduce((total, piece) => total + piece.count, 0),
+    lengthPerSet: pieces.reduce((total, piece) => total + piece.count * piece.cutLength, 0),
+    ...(turns !== undefined ? { turns } : {}),
+  };
+}
+
+// ============================================================================
+// BAR TOTALS
+// ============================================================================
+
+/**
+ * Replace a stirrup/tie entry's calculated result with its designed tie sets
+ * The calculator's bar count is the number of sets (one spiral per member);
+ * noOfBars counts every piece and totals add up each piece's cut length.
+ * cuttingLength is only the first piece: cut lists, tags and schedules take the
+ * pieces from getTiePieceQuantities.
+ */
+export function applyTieDesign(
+  entry: ComponentBarEntry,
+  component: ConcreteComponent,
+  result: CalculatedBarResult
+): CalculatedBarResult {
+  if (!entry.tieDesign) return result;
+
+  const layout = designTies(entry.tieDesign, getTieSection(component, entry), entry.diameter, entry.spacing);
+  const sets = layout.configuration === 'SPIRAL' && !entry.manualNoOfBars
+    ? (entry.totalMembers || 1) * (entry.barsPerMember || 1)
+    : result.noOfBars;
+
+  const [first] = layout.pieces;
+  const { a, b = 0, c = 0, d = 0, e = 0, f = 0 } = first.measurements;
+  const totalLength = (sets * layout.lengthPerSet) / 1000;
+  const unitWeight = WEIGHT_PER_METER[entry.diameter] || ((entry.diameter * entry.diameter) / 162);
+
+  return {
+    totalMeasurement: a + b + c + d + e + f,
+    noOfDeductions: first.bends,
+    deductionAmount: first.bends * BEND_DEDUCTION_MULTIPLIER * entry.diameter,
+    cuttingLength: first.cutLength,
+    noOfBars: sets * layout.piecesPerSet,
+    totalLength,
+    unitWeight,
+    totalWeight: totalLength * unitWeight,
+    ties: layout,
+  };
+}
+
+/** Tie sets of a designed stirrup/tie entry */
+export function getTieSets(result: CalculatedBarResult): number {
+  return result.ties ? result.noOfBars / result.ties.piecesPerSet : result.noOfBars;
+}
+
+/**
+ * Every piece of a designed tie entry with its own count over all sets
+ */
+export function getTiePieceQuantities(result: CalculatedBarResult): { piece: TiePiece; quantity: number }[] {
+  if (!result.ties) return [];
+  const sets = getTieSets(result);
+  return result.ties.pieces.map(piece => ({ piece, quantity: sets * piece.count }));
+}
@@ -0,0 +1,255 @@
+/**
+ * Wall Calculator
+ * Bars for WALL components: spanX is the wall length, spanY the thickness and depth
+ * the height. The wall type comes from component.wallType and the base or boundary
+ * elements from component.wall.
+ *
+ * Shear walls (IS 13920 10):
+ * - Vertical bars in both curtains, lapped with the starter bars at the base
+ * - Horizontal bars in both curtains, closed at the wall ends by U-bars lapping
+ *   with them
+ * - Link ties across the curtains on a grid at the tie spacing
+ * - Boundary elements at the ends with their own vertical bars and closed hoops
+ *
+ * Cantilever retaining walls:
+ * - Stem main bars on the earth face and nominal bars on the front face, both
+ *   running down into the base with a foot
+ * - Horizontal distribution bars on both faces of the stem
+ * - Heel top bars from the heel end past the stem, Ld into the toe
+ * - Toe bottom bars across the full base, bent up at both ends
+ * - Distribution bars in both layers of the base
+ */
+
+import type { BarMeasurements, ConcreteComponent, WallDetails } from '../types/component-types';
+import { resolveDevelopmentLength, type DevelopmentLengthContext } from './development-length';
+import { DEFAULT_LAP_SPLICE_RULES, getSpliceLapLength } from './lap-splice-planner';
+import { getTieHookLength } from './tie-designer';
+
+const DEFAULT_WALL: Required<WallDetails> = {
+  baseThickness: 450,
+  heel: 1500,
+  toe: 600,
+  boundaryLength: 0,
+};
+
+const MIN_FOOT = 12;                   // × d, minimum foot of a stem bar in the base
+const MIN_BOUNDARY_BARS = 4;           // Per boundary element
+
+export function isRetainingWall(component: ConcreteComponent): boolean {
+  return component.componentType === 'WALL' && component.wallType === 'RETAINING';
+}
+
+export function getWallDetails(component: ConcreteComponent): Required<WallDetails> {
+  return { ...DEFAULT_WALL, ...component.wall };
+}
+
+/**
+ * Full width of a retaining wall base: heel, stem and toe
+ */
+export function getBaseWidth(component: ConcreteComponent): number {
+  const wall = getWallDetails(component);
+  return wall.heel + component.spanY + wall.toe;
+}
+
+const getHeight = (component: ConcreteComponent) => component.depth || 3000;
+
+// Length of the wall between the boundary elements
+function getWebLength(component: ConcreteComponent): number {
+  return Math.max(0, component.spanX - 2 * getWallDetails(component).boundaryLength);
+}
+
+function getLapLength(diameter: number, ld: DevelopmentLengthContext): number {
+  return getSpliceLapLength(
+    diameter,
+    resolveDevelopmentLength(diameter, ld),
+    ld.profile?.lapSplice ?? DEFAULT_LAP_SPLICE_RULES
+  );
+}
+
+// ============================================================================
+// MEASUREMENTS
+// ============================================================================
+
+/**
+ * Measurements of a wall bar, or undefined for other bar types
+ */
+export function calculateWallBarMeasurements(
+  barType: string,
+  component: ConcreteComponent,
+  diameter: number,
+  ld: DevelopmentLengthContext
+): BarMeasurements | undefined {
+  return isRetainingWall(component)
+    ? calculateRetainingWallBar(barType.toLowerCase(), component, diameter, ld)
+    : calculateShearWallBar(barType.toLowerCase(), component, diameter, ld);
+}
+
+function calculateShearWallBar(
+  normalizedType: string,
+  component: ConcreteComponent,
+  diameter: number,
+  ld: DevelopmentLengthContext
+): BarMeasurements | undefined {
+  const cover = component.cover;
+  const clearThickness = Math.max(0, component.spanY - 2 * cover);
+  const wall = getWallDetails(component);
+
+  // Vertical bars: lap with the starters at the base, up the full height
+  if (normalizedType === 'vertical bar' || normalizedType === 'boundary element bar') {
+    return { a: getHeight(component) + getLapLength(diameter, ld) };
+  }
+
+  // Horizontal bars stop at the ends, where the U-bars take over
+  if (normalizedType === 'horizontal bar') {
+    return { a: component.spanX - 2 * cover };
+  }
+
+  // U-bars round the wall end, each leg lapped with a horizontal bar
+  if (normalizedType === 'end u-bar') {
+    const lap = getLapLength(diameter, ld);
+    return { a: clearThickness, b: lap, c: lap };
+  }
+
+  // Single-leg ties across the curtains, 135° hooks at both ends
+  if (normalizedType === 'link tie') {
+    return { a: clearThickness + 2 * getTieHookLength(135, diameter) };
+  }
+
+  if (normalizedType === 'boundary element hoop' && wall.boundaryLength > 0) {
+    const perimeter = 2 * (wall.boundaryLength - 2 * cover) + 2 * clearThickness;
+    return { a: perimeter + 2 * getTieHookLength(135, diameter) };
+  }
+
+  return undefined;
+}
+
+function calculateRetainingWallBar(
+  normalizedType: string,
+  component: ConcreteComponent,
+  diameter: number,
+  ld: DevelopmentLengthContext
+): BarMeasurements | undefined {
+  const cover = component.cover;
+  const wall = getWallDetails(component);
+  const baseWidth = getBaseWidth(component);
+  const embedment = Math.max(0, wall.baseThickness - 2 * cover);
+
+  // Stem bars: top of the stem down to the bottom mesh, foot along the base
+  if (normalizedType === 'stem main bar') {
+    const developmentLength = resolveDevelopmentLength(diameter, ld);
+    return {
+      a: getHeight(component) + wall.baseThickness - 2 * cover,
+      b: Math.ceil(Math.max(developmentLength - embedment, MIN_FOOT * diameter)),
+    };
+  }
+  if (normalizedType === 'stem front bar') {
+    return { a: getHeight(component) + wall.baseThickness - 2 * cover, b: MIN_FOOT * diameter };
+  }
+
+  if (normalizedType === 'stem dist bar' || normalizedType === 'base dist bar') {
+    return { a: component.spanX - 2 * cover };
+  }
+
+  // Heel top bars: from the heel end, past the stem and Ld into the toe
+  if (normalizedType === 'heel top bar') {
+    const developmentLength = resolveDevelopmentLength(diameter, ld);
+    return { a: Math.ceil(Math.min(baseWidth - 2 * cover, wall.heel - cover + component.spanY + developmentLength)) };
+  }
+
+  // Toe bottom bars: full base width, bent up at both ends
+  if (normalizedType === 'toe bottom bar') {
+    return { a: baseWidth - 2 * cover, b: embedment, c: embedment };
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// COUNTS AND BENDS
+// ============================================================================
+
+/**
+ * Number of bars in the wall, or undefined for other bar types
+ */
+export function calculateWallBarCount(
+  barType: string,
+  component: ConcreteComponent,
+  spacing: number
+): number | undefined {
+  const normalizedType = barType.toLowerCase();
+  const height = getHeight(component);
+  const cover = component.cover;
+
+  if (isRetainingWall(component)) {
+    if (normalizedType === 'stem main bar' || normalizedType === 'stem front bar' ||
+        normalizedType === 'heel top bar' || normalizedType === 'toe bottom bar') {
+      return Math.ceil(component.spanX / spacing); // Along the wall
+    }
+    if (normalizedType === 'stem dist bar') {
+      return 2 * Math.ceil(height / spacing); // Both faces, up the stem
+    }
+    if (normalizedType === 'base dist bar') {
+      return 2 * Math.ceil(getBaseWidth(component) / spacing); // Top and bottom, across the base
+    }
+    return undefined;
+  }
+
+  const wall = getWallDetails(component);
+  const webLength = getWebLength(component);
+
+  // Two curtains
+  if (normalizedType === 'vertical bar') {
+    return 2 * Math.ceil(webLength / spacing);
+  }
+  if (normalizedType === 'horizontal bar') {
+    return 2 * Math.ceil(height / spacing);
+  }
+
+  // One at each end per horizontal bar
+  if (normalizedType === 'end u-bar') {
+    return 2 * Math.ceil(height / spacing);
+  }
+
+  // Spacing both ways
+  if (normalizedType === 'link tie') {
+    return Math.ceil(webLength / spacing) * Math.ceil(height / spacing);
+  }
+
+  if (normalizedType === 'boundary element bar') {
+    if (wall.boundaryLength <= 0) return 0;
+    const alongWall = Math.ceil(Math.max(0, wall.boundaryLength - 2 * cover) / spacing) + 1;
+    return 2 * Math.max(MIN_BOUNDARY_BARS, 2 * alongWall); // Both faces, both ends
+  }
+  if (normalizedType === 'boundary element hoop') {
+    return wall.boundaryLength > 0 ? 2 * Math.ceil(height / spacing) : 0;
+  }
+
+  return undefined;
+}
+
+/**
+ * Bends to deduct for a wall bar, or undefined for other bar types
+ */
+export function getWallBarDeductions(barType: string, component: ConcreteComponent): number | undefined {
+  const normalizedType = barType.toLowerCase();
+
+  if (isRetainingWall(component)) {
+    if (normalizedType === 'stem main bar' || normalizedType === 'stem front bar') return 1;
+    if (normalizedType === 'toe bottom bar') return 2;
+    if (normalizedType === 'stem dist bar' || normalizedType === 'base dist bar' || normalizedType === 'heel top bar') {
+      return 0;
+    }
+    return undefined;
+  }
+
+  if (normalizedType === 'vertical bar' || normalizedType === 'horizontal bar' || normalizedType === 'boundary element bar') {
+    return 0;
+  }
+  if (normalizedType === 'end u-bar' || normalizedType === 'link tie') {
+    return 2;
+  }
+  if (normalizedType === 'boundary element hoop') {
+    return 6; // 4 corners + 2 hooks
+  }
+  return undefined;
+}
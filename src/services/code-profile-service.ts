@@ -82,6 +82,15 @@ export class CodeProfileServiceImpl implements CodeProfileService {
       errors.push('135° bend deduction must be between 0 and 5');
     }
     
+    const { mode, formerTable } = profile.bendDeductions;
+    if (mode !== undefined && mode !== 'MULTIPLIER' && mode !== 'GEOMETRIC') {
+      errors.push('Bend deduction mode must be MULTIPLIER or GEOMETRIC');
+    }
+    
+    if (formerTable !== undefined && formerTable !== 'BS 8666' && formerTable !== 'IS 2502') {
+      errors.push('Former diameter table must be BS 8666 or IS 2502');
+    }
+    
     // Validate member defaults
     for (const memberType of ['BEAM', 'COLUMN', 'SLAB'] as const) {
       const memberDefault = profile.memberDefaults[memberType];
@@ -152,6 +161,23 @@ export class CodeProfileServiceImpl implements CodeProfileService {
       }
     }
     
+    // Validate lap splice rules if present
+    if (profile.lapSplice) {
+      const splice = profile.lapSplice;
+      
+      if (splice.lapFactor < 0.5 || splice.lapFactor > 2.0) {
+        errors.push('Lap length factor must be between 0.5 and 2.0');
+      }
+      
+      if (splice.maxBarsSplicedPercent <= 0 || splice.maxBarsSplicedPercent > 100) {
+        errors.push('Bars spliced at one section must be between 1% and 100%');
+      }
+      
+      if (splice.staggerFactor < 1.0) {
+        warnings.push('Lap stagger distance should be at least one lap length');
+      }
+    }
+    
     return {
       valid: errors.length === 0,
       errors,
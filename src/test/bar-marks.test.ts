@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignComponentBarMarks,
+  assignManualBarMarks,
+  formatBarMark,
+  getComponentBarMarkSchedule,
+  getManualBarMarkSchedule,
+  lockComponentBarMarks
+} from '../lib/bar-marks';
+import { calculateAll } from '../lib/calculator';
+import { applyContinuousBeamLayout, removeContinuousSpan } from '../lib/continuous-beam';
+import { applySlabOutline, createSlabOutline } from '../lib/slab-outline';
+import { ExcelExporter } from '../lib/excel-exporter';
+import type { BarEntry, ProjectConfig } from '../types';
+import type { ComponentBarEntry, ConcreteComponent } from '../types/component-types';
+
+const config: ProjectConfig = {
+  id: 'marks-project', name: 'Marks Project', codeStandard: 'IS', defaultCover: 25,
+  defaultHookMultiplier: 9, bendDeductions: { deg45: 1, deg90: 2, deg135: 3 },
+  calculationMode: 'COMPONENT',
+  createdAt: new Date('2024-01-01T10:00:00Z'), updatedAt: new Date('2024-01-02T10:00:00Z'),
+};
+
+const beamBar = (id: string, diameter: number, a: number, b?: number): ComponentBarEntry => ({
+  id, barType: 'Top Bar', direction: 'X', diameter, spacing: 0, barsPerMember: 2, totalMembers: 1,
+  measurements: { a, b }, manualNoOfDeductions: b ? 1 : 0,
+});
+
+const beam = (name: string, bars: ComponentBarEntry[]): ConcreteComponent => ({
+  id: name, name, componentType: 'BEAM', spanX: 4000, spanY: 230, depth: 450, cover: 25, bars,
+});
+
+const marksOf = (components: ConcreteComponent[]) => components.map(c => c.bars.map(bar => bar.barMark));
+
+describe('Bar Marks', () => {
+  it('formats marks from a pattern', () => {
+    const fields = { member: 'B1', type: 'BEAM' as const, sequence: 3, diameter: 16 };
+    expect(formatBarMark('{member}-{nn}', fields)).toBe('B1-03');
+    expect(formatBarMark('{type}{dia}/{nnn}', fields)).toBe('B16/003');
+    expect(formatBarMark('{n}', { ...fields, sequence: 12 })).toBe('12');
+  });
+
+  it('numbers bars per component and gives identical bars the same mark', () => {
+    const components = assignComponentBarMarks([
+      beam('B1', [beamBar('1', 16, 4000, 300), beamBar('2', 12, 4000)]),
+      beam('B2', [beamBar('3', 12, 4000), beamBar('4', 16, 3600, 300)]),
+    ]);
+    expect(marksOf(components)).toEqual([['B1-01', 'B1-02'], ['B1-02', 'B2-01']]);
+
+    // Patterns per member type
+    const slab: ConcreteComponent = { ...beam('S1', [beamBar('5', 10, 3000)]), componentType: 'SLAB' };
+    expect(marksOf(assignComponentBarMarks([slab], { SLAB: '{type}{dia}-{n}' }))).toEqual([['S10-1']]);
+  });
+
+  it('keeps locked marks and never hands them out again', () => {
+    const issued = lockComponentBarMarks(assignComponentBarMarks([
+      beam('B1', [beamBar('1', 16, 4000, 300), beamBar('2', 12, 4000)]),
+    ]), true);
+
+    // The 12mm bar changes and a new bar is added after issue
+    const edited = [beam('B1', [
+      issued[0].bars[0],
+      { ...issued[0].bars[1], measurements: { a: 3800 } },
+      beamBar('3', 20, 4000),
+      beamBar('4', 16, 4000, 300),
+    ])];
+    const reassigned = assignComponentBarMarks(edited);
+    expect(marksOf(reassigned)).toEqual([['B1-01', 'B1-02', 'B1-03', 'B1-01']]);
+
+    const schedule = getComponentBarMarkSchedule(reassigned);
+    expect(schedule.unmarked).toBe(0);
+    expect(schedule.rows.map(row => [row.mark, row.locked, row.conflict, row.quantity])).toEqual([
+      ['B1-01', false, false, 4],
+      ['B1-02', true, false, 2],
+      ['B1-03', false, false, 2],
+    ]);
+  });
+
+  it('flags issued marks whose bars are no longer identical', () => {
+    const issued = lockComponentBarMarks(assignComponentBarMarks([
+      beam('B1', [beamBar('1', 12, 4000)]),
+      beam('B2', [beamBar('2', 12, 4000)]),
+    ]), true);
+    const edited = [issued[0], { ...issued[1], bars: [{ ...issued[1].bars[0], measurements: { a: 4200 } }] }];
+
+    const [row] = getComponentBarMarkSchedule(assignComponentBarMarks(edited)).rows;
+    expect(row).toMatchObject({ mark: 'B1-01', members: ['B1', 'B2'], locked: true, conflict: true });
+  });
+
+  it('keeps marks of regenerated bars and flags issued marks that disappear', () => {
+    const ld = { concreteGrade: 'M30' as const, steelGrade: 'Fe500' as const };
+    const layout = {
+      spans: [4000, 6000], supports: [300, 400, 300],
+      bottomBars: { diameter: 16, count: 3 }, supportTopBars: { diameter: 16, count: 2 },
+    };
+    const issued = lockComponentBarMarks(assignComponentBarMarks([
+      applyContinuousBeamLayout({ ...beam('B1', []), continuousSpans: layout }, ld),
+    ]), true);
+    const marks = (component: ConcreteComponent) => component.bars.map(bar => [bar.barType, bar.barMark]);
+
+    // Regenerated after an edit: same entries, same marks
+    const regenerated = applyContinuousBeamLayout(issued[0], ld);
+    expect(marks(regenerated)).toEqual(marks(issued[0]));
+    expect(regenerated.bars.every(bar => bar.barMarkLocked)).toBe(true);
+
+    // Dropping the second span drops its bottom bar and the third support's top bar
+    const shortened = applyContinuousBeamLayout({ ...regenerated, continuousSpans: removeContinuousSpan(layout, 1) }, ld);
+    const schedule = getComponentBarMarkSchedule([shortened]);
+    expect(schedule.dropped).toEqual(['B1-02', 'B1-06']);
+    expect(getComponentBarMarkSchedule(lockComponentBarMarks([shortened], true)).dropped).toEqual([]);
+  });
+
+  it('gives each strip of a shaped slab its own mark', () => {
+    const ld = { concreteGrade: 'M30' as const, steelGrade: 'Fe500' as const };
+    const slab: ConcreteComponent = {
+      id: 's1', name: 'S1', componentType: 'SLAB', spanX: 4000, spanY: 3000, cover: 20,
+      bars: [{
+        id: 'x', barType: 'Bottom Bar (X-X)', direction: 'X', diameter: 10, spacing: 150,
+        measurements: { a: 4000 }, barMark: 'S1-01', barMarkLocked: true,
+      }],
+    };
+    const shaped = applySlabOutline({ ...slab, outline: createSlabOutline(slab, 'L_SHAPE') }, ld);
+    expect(shaped.bars.map(bar => bar.barMark)).toEqual(['S1-01', undefined]);
+
+    const marked = assignComponentBarMarks([shaped]);
+    const reshaped = applySlabOutline(marked[0], ld);
+    expect(reshaped.bars.map(bar => bar.barMark)).toEqual(['S1-01', 'S1-02']);
+  });
+
+  it('marks manually entered bars and exports the schedule', () => {
+    const bars: BarEntry[] = [
+      { id: '1', memberType: 'BEAM', shapeCode: 'S1', diameter: 12, dimensions: { A: 3000 }, spacing: 0, quantity: 4 },
+      { id: '2', memberType: 'SLAB', shapeCode: 'S1', diameter: 10, dimensions: { A: 3000 }, spacing: 0, quantity: 10 },
+      { id: '3', memberType: 'BEAM', shapeCode: 'S1', diameter: 12, dimensions: { A: 3000 }, spacing: 0, quantity: 2 },
+    ];
+    const marked = assignManualBarMarks(bars);
+    expect(marked.map(bar => bar.barMark)).toEqual(['B-01', 'S-01', 'B-01']);
+
+    const schedule = getManualBarMarkSchedule(calculateAll(marked, { ...config, calculationMode: 'MANUAL' }));
+    expect(schedule.rows.map(row => [row.mark, row.quantity, row.members])).toEqual([
+      ['B-01', 6, ['BEAM']],
+      ['S-01', 10, ['SLAB']],
+    ]);
+
+    const workbook = ExcelExporter.createBarMarkScheduleWorkbook(config, schedule);
+    const worksheet = workbook.getWorksheet('Bar Marks')!;
+    expect(worksheet.getCell('A5').value).toBe('Bar Mark');
+    expect(worksheet.getCell('A6').value).toBe('B-01');
+    expect(worksheet.getCell('G8').value).toBe(16);
+  });
+});
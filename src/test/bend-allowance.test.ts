@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateGeometricBendDeduction,
+  describeBendDeduction,
+  getBendRadius,
+  getProjectBendRadius
+} from '../lib/bend-allowance';
+import { calculateBendDeduction, calculateCutLength } from '../lib/calculator';
+import { formulaDisplayService } from '../lib/formula-display-service';
+import { codeProfileService } from '../services/code-profile-service';
+import { DEFAULT_PROJECT_CONFIG } from '../lib/constants';
+import type { BarEntry, BendDeductions, ProjectConfig } from '../types';
+
+const geometric = (bendDeductions: Partial<BendDeductions> = {}, config: Partial<ProjectConfig> = {}): ProjectConfig => ({
+  ...DEFAULT_PROJECT_CONFIG,
+  ...config,
+  bendDeductions: { ...DEFAULT_PROJECT_CONFIG.bendDeductions, mode: 'GEOMETRIC', ...bendDeductions },
+});
+
+const bar = (shapeCode: BarEntry['shapeCode'], diameter: number, dimensions: BarEntry['dimensions']): BarEntry => ({
+  id: 'b1', memberType: 'BEAM', shapeCode, diameter, dimensions, spacing: 0, quantity: 1,
+});
+
+describe('Bend Allowance', () => {
+  it('reads minimum former diameters by bar size and steel grade', () => {
+    expect(getBendRadius(12, 'BS 8666')).toBe(24);
+    expect(getBendRadius(20, 'BS 8666')).toBe(70);
+    expect(getBendRadius(12, 'IS 2502')).toBe(48);
+    expect(getBendRadius(32, 'IS 2502')).toBe(192);
+    expect(getBendRadius(12, 'IS 2502', 'Fe550')).toBe(60);
+  });
+
+  it('derives deductions from the bend angle and radius', () => {
+    // 90°: 2(r + d) - (π/2)(r + d/2)
+    expect(calculateGeometricBendDeduction(90, 12, 24)).toBeCloseTo(72 - (Math.PI / 2) * 30);
+    // 45°: outside dimensions meet at the tangent point
+    expect(calculateGeometricBendDeduction(45, 12, 24)).toBeCloseTo(72 * Math.tan(Math.PI / 8) - (Math.PI / 4) * 30);
+    // 180°: outside measured square to the legs
+    expect(calculateGeometricBendDeduction(180, 12, 24)).toBeCloseTo(72 - Math.PI * 30);
+    expect(calculateGeometricBendDeduction(0, 12, 24)).toBe(0);
+  });
+
+  it('keeps multiplier mode unless the profile selects geometric', () => {
+    expect(calculateBendDeduction(90, 12, DEFAULT_PROJECT_CONFIG)).toBe(24);
+    expect(calculateBendDeduction(180, 12, DEFAULT_PROJECT_CONFIG)).toBe(24);
+
+    const config = geometric({ formerTable: 'BS 8666' });
+    expect(calculateBendDeduction(90, 12, config)).toBeCloseTo(72 - (Math.PI / 2) * 30);
+    expect(calculateBendDeduction(135, 12, config)).toBeCloseTo(72 - (3 * Math.PI / 4) * 30);
+    expect(getProjectBendRadius(12, config)).toBe(24);
+
+    // Steel grade comes from the BBS metadata
+    const fe550 = geometric({}, { bbsMetadata: { steelGrade: 'Fe550' } as ProjectConfig['bbsMetadata'] });
+    expect(getProjectBendRadius(12, fe550)).toBe(60);
+  });
+
+  it('uses geometric deductions in cut lengths', () => {
+    const config = geometric({ formerTable: 'BS 8666' });
+    const d90 = calculateBendDeduction(90, 12, config);
+    const d180 = calculateBendDeduction(180, 12, config);
+
+    expect(calculateCutLength(bar('S2', 12, { A: 3000, B: 400 }), config)).toBeCloseTo(3800 - 2 * d90);
+    expect(calculateCutLength(bar('S6', 12, { A: 3000 }), config)).toBeCloseTo(3000 + 108 - d180);
+  });
+
+  it('shows the radius-based derivation in the breakdown', () => {
+    const config = geometric({ formerTable: 'IS 2502' });
+    expect(describeBendDeduction(90, 12, config)).toBe(
+      '90° bend: r = 8 × 12/2 = 48mm (IS 2502 former 8d), ' +
+      '2(r + d)tan(θ/2) − θ(r + d/2) = 2(48 + 12) × tan(45°) − 1.571 × 54 = 35.2mm'
+    );
+    expect(describeBendDeduction(90, 12, DEFAULT_PROJECT_CONFIG)).toBe('90° bend: 2d = 2 × 12 = 24mm');
+
+    const breakdown = formulaDisplayService.generateBreakdown(bar('S2', 12, { A: 3000, B: 400 }), config);
+    const deduction = breakdown.steps.find(step => step.operation === 'subtract')!;
+    expect(deduction.description).toContain('r = 8 × 12/2 = 48mm');
+    expect(deduction.formula).toBe('2 × D_{90°} = 2 × 35.2 = 70.4');
+
+    const bs = formulaDisplayService.generateBreakdown(bar('11', 12, { A: 500, B: 300 }), geometric({ formerTable: 'BS 8666' }));
+    expect(bs.steps.some(step => step.description.includes('r = 4 × 12/2 = 24mm (BS 8666 former 4d)'))).toBe(true);
+    expect(bs.codeReference).toContain('r = BS 8666 former radius');
+  });
+
+  it('validates the bend deduction settings of a profile', () => {
+    const profile = codeProfileService.getProfile('BS8110')!;
+    expect(profile.bendDeductions.mode).toBe('GEOMETRIC');
+    expect(codeProfileService.validateProfile(profile).valid).toBe(true);
+
+    const invalid = {
+      ...profile,
+      bendDeductions: { ...profile.bendDeductions, mode: 'ARC' as BendDeductions['mode'] },
+    };
+    expect(codeProfileService.validateProfile(invalid).errors).toContain(
+      'Bend deduction mode must be MULTIPLIER or GEOMETRIC'
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addColumnFloor,
+  applyColumnSchedule,
+  createColumnSchedule,
+  generateColumnScheduleBars,
+  getColumnFloorComponent,
+  getCrankOffset,
+  removeColumnSchedule
+} from '../lib/column-schedule';
+import { calculateBarMeasurementsAuto, calculateBarsPerMember } from '../lib/enhanced-calculator';
+import { getTieSection } from '../lib/tie-designer';
+import { resolveDevelopmentLength } from '../lib/development-length';
+import type { ColumnFloor, ColumnScheduleLayout, ConcreteComponent } from '../types/component-types';
+import { lap, ld } from './helpers';
+
+const floor = (width: number, diameter: number, count: number, label?: string): ColumnFloor => ({
+  label, height: 3000, width, depth: width, diameter, count,
+});
+
+const schedule: ColumnScheduleLayout = {
+  floors: [floor(600, 25, 8, 'GF'), floor(600, 20, 8, '1F'), floor(450, 20, 6, '2F')],
+  roofSlabDepth: 150,
+};
+
+describe('Column Schedule', () => {
+  it('laps each floor into the next using the smaller bar', () => {
+    const { entries, warnings } = generateColumnScheduleBars(schedule, 40, ld);
+    const ground = entries.find(entry => entry.barType === 'Main Bar (GF)')!;
+
+    // Starter lap at the base, lap with the 20mm bars above
+    expect(ground.measurements).toEqual({ a: lap(25) + 3000 + lap(20) });
+    expect(ground.barsPerMember).toBe(8);
+    expect(ground.manualNoOfDeductions).toBe(0);
+    expect(warnings).toEqual([]);
+  });
+
+  it('cranks bars at 1:6 where the section reduces and anchors bars into the slab', () => {
+    const { entries } = generateColumnScheduleBars(schedule, 40, ld);
+    expect(getCrankOffset(schedule.floors[1], schedule.floors[2])).toBe(75);
+
+    const cranked = entries.find(entry => entry.barType === 'Main Bar (1F)')!;
+    expect(cranked.barsPerMember).toBe(6);
+    expect(cranked.measurements).toEqual({ a: 3000 - 450, b: Math.ceil(Math.hypot(450, 75)), c: lap(20) });
+    expect(cranked.manualNoOfDeductions).toBe(2);
+
+    // Two 1F bars have no partner above and stop with an L-bend
+    const leg = Math.ceil(Math.max(resolveDevelopmentLength(20, ld) - 110, 240));
+    const stopped = entries.find(entry => entry.barType === 'Main Bar (1F) - Stopped')!;
+    expect(stopped.barsPerMember).toBe(2);
+    expect(stopped.measurements).toEqual({ a: 2960, b: leg });
+
+    const top = entries.find(entry => entry.barType === 'Main Bar (2F)')!;
+    expect(top.measurements).toEqual({ a: 2960, b: leg });
+    expect(top.manualNoOfDeductions).toBe(1);
+  });
+
+  it('extends added bars into the floor below and flags large offsets', () => {
+    const layout: ColumnScheduleLayout = { floors: [floor(600, 16, 4), floor(300, 16, 6)] };
+    const { entries, warnings } = generateColumnScheduleBars(layout, 40, ld);
+
+    const added = entries.find(entry => entry.barType === 'Main Bar (Floor 2) - Added')!;
+    expect(added.barsPerMember).toBe(2);
+    expect(added.measurements.a).toBe(Math.ceil(resolveDevelopmentLength(16, ld) + 2960));
+    expect(warnings).toEqual([
+      'Floor 1: bar offset of 150mm to Floor 2 exceeds 75mm, provide separate splice bars instead of cranking',
+    ]);
+  });
+
+  it('stacks the schedule onto the column in place of its main bar, with ties per floor', () => {
+    const tie = { id: 't1', barType: 'Tie', direction: 'NONE' as const, diameter: 8, spacing: 150, measurements: { a: 0 } };
+    const main = { id: 'm1', barType: 'Main Bar', direction: 'NONE' as const, diameter: 25, spacing: 0, barsPerMember: 8, measurements: { a: 3000 } };
+    const column: ConcreteComponent = {
+      id: 'c1', name: 'C1', componentType: 'COLUMN', spanX: 600, spanY: 600, depth: 3000, cover: 40, bars: [main, tie],
+    };
+    expect(createColumnSchedule(column).floors[0]).toMatchObject({ diameter: 25, count: 8 });
+
+    const stacked = applyColumnSchedule({ ...column, columnSchedule: addColumnFloor(schedule) }, ld);
+    expect(stacked).toMatchObject({ spanX: 600, spanY: 600, depth: 12000 });
+    expect(stacked.bars.map(bar => bar.barType)).toEqual([
+      'Main Bar (GF)',
+      'Main Bar (1F)',
+      'Main Bar (1F) - Stopped',
+      'Main Bar (2F)',
+      'Main Bar (Floor 4)',
+      'Tie', 'Tie', 'Tie', 'Tie',
+    ]);
+
+    // Each floor's ties go round its own section, over its own height
+    const ties = stacked.bars.filter(bar => bar.barType === 'Tie');
+    expect(ties.map(bar => bar.columnFloor)).toEqual([0, 1, 2, 3]);
+    expect(ties[0].id).toBe('t1');
+    ties.forEach(bar => {
+      const floorColumn = getColumnFloorComponent(stacked, bar.columnFloor!);
+      expect(bar.measurements).toEqual(calculateBarMeasurementsAuto('Tie', 'NONE', floorColumn, 8, ld, undefined, 150));
+      expect(bar.barsPerMember).toBe(calculateBarsPerMember('Tie', 'NONE', floorColumn, 150));
+    });
+    expect(ties[2].measurements.a).toBeLessThan(ties[1].measurements.a);
+
+    // Regenerating keeps one row per floor; removing the schedule folds them back
+    expect(applyColumnSchedule(stacked, ld).bars).toHaveLength(9);
+    const single = removeColumnSchedule(stacked, ld);
+    expect(single.bars).toEqual([expect.objectContaining({ id: 't1', barType: 'Tie', columnFloor: undefined, barsPerMember: undefined })]);
+  });
+
+  it('designs the ties of a floor round its section', () => {
+    const column: ConcreteComponent = {
+      id: 'c1', name: 'C1', componentType: 'COLUMN', spanX: 600, spanY: 600, depth: 9000, cover: 40,
+      bars: [], columnSchedule: schedule,
+    };
+    const tie = { id: 't1', barType: 'Tie', direction: 'NONE' as const, diameter: 8, spacing: 150, measurements: { a: 0 } };
+    expect(getTieSection(column, { ...tie, columnFloor: 2 })).toEqual({ width: 450, depth: 450, cover: 40, length: 3000 });
+    expect(getTieSection(column, tie)).toEqual({ width: 600, depth: 600, cover: 40, length: 9000 });
+  });
+});
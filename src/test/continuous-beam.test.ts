@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addContinuousSpan,
+  applyContinuousBeamLayout,
+  createContinuousBeamLayout,
+  generateContinuousBeamBars,
+  getContinuousBeamLength,
+  removeContinuousSpan
+} from '../lib/continuous-beam';
+import { calculateComponentBarEntryEnhanced, calculateComponentSheetEntry } from '../lib/enhanced-calculator';
+import { getComponentCalculationSettings } from '../lib/component-calculator';
+import { resolveDevelopmentLength, type DevelopmentLengthContext } from '../lib/development-length';
+import { DEFAULT_LAP_SPLICE_RULES, getSpliceLapLength } from '../lib/lap-splice-planner';
+import type { ConcreteComponent, ContinuousBeamLayout } from '../types/component-types';
+
+const ld: DevelopmentLengthContext = { concreteGrade: 'M30', steelGrade: 'Fe500' };
+const ld16 = resolveDevelopmentLength(16, ld);
+const lap16 = getSpliceLapLength(16, ld16, DEFAULT_LAP_SPLICE_RULES);
+
+const layout: ContinuousBeamLayout = {
+  spans: [4000, 6000],
+  supports: [300, 400, 300],
+  bottomBars: { diameter: 16, count: 3 },
+  supportTopBars: { diameter: 16, count: 2 },
+  curtailedBars: { diameter: 12, count: 2 },
+};
+
+const beam: ConcreteComponent = {
+  id: 'b1', name: 'B1', componentType: 'BEAM', spanX: 3000, spanY: 300, depth: 500, cover: 25, bars: [],
+};
+
+describe('Continuous Beam', () => {
+  it('laps bottom bars over interior supports and anchors them into end columns', () => {
+    const bars = generateContinuousBeamBars(layout, 25, ld);
+    const [span1, span2] = bars.filter(bar => bar.barType.startsWith('Bottom Bar'));
+    const leg = Math.ceil(Math.max(ld16 - 275, 12 * 16));
+
+    expect(span1.measurements).toEqual({ a: Math.ceil(275 + 4000 + 200 + lap16 / 2), b: leg });
+    expect(span2.measurements).toEqual({ a: Math.ceil(200 + lap16 / 2 + 6000 + 275), b: leg });
+    expect(span1.manualNoOfDeductions).toBe(1);
+    expect(span1.barsPerMember).toBe(3);
+
+    // The two bars overlap by one lap centred on the interior support
+    const overlap = (span1.measurements.a - 275 - 4000) + (span2.measurements.a - 275 - 6000) - 400;
+    expect(overlap).toBeCloseTo(lap16, -1);
+  });
+
+  it('extends support top bars into the adjacent spans and curtails bottom bars', () => {
+    const bars = generateContinuousBeamBars(layout, 25, ld);
+    const top = bars.filter(bar => bar.barType.startsWith('Support Top Bar'));
+
+    expect(top.map(bar => bar.barType)).toEqual([
+      'Support Top Bar (Support 1)',
+      'Support Top Bar (Support 2)',
+      'Support Top Bar (Support 3)',
+    ]);
+    // Interior: the larger span governs, L/3 each side
+    expect(top[1].measurements).toEqual({ a: 400 + 4000 });
+    expect(top[0].measurements.a).toBe(Math.ceil(275 + 4000 / 3));
+    expect(top[2].measurements.a).toBe(275 + 2000);
+
+    const quarter = generateContinuousBeamBars({ ...layout, topBarExtension: 4 }, 25, ld);
+    expect(quarter.find(bar => bar.barType === 'Support Top Bar (Support 2)')!.measurements.a).toBe(400 + 3000);
+
+    const curtailed = bars.filter(bar => bar.barType.startsWith('Curtailed'));
+    expect(curtailed.map(bar => bar.measurements.a)).toEqual([2800, 4200]);
+  });
+
+  it('runs top bars through every span and anchors them into end columns', () => {
+    const bars = generateContinuousBeamBars({ ...layout, throughTopBars: { diameter: 12, count: 2 } }, 25, ld);
+    const through = bars.filter(bar => bar.barType === 'Top Bar (Through)');
+    const leg = Math.ceil(Math.max(resolveDevelopmentLength(12, ld) - 275, 12 * 12));
+
+    expect(through).toHaveLength(1);
+    expect(through[0].measurements).toEqual({ a: 275 + 4000 + 400 + 6000 + 275, b: leg, c: leg });
+    expect(through[0]).toMatchObject({ diameter: 12, barsPerMember: 2, manualNoOfDeductions: 2 });
+
+    // Longer than a stock bar: the calculator laps it
+    const long = { ...layout, spans: [6000, 6000] };
+    const [longThrough] = generateContinuousBeamBars(long, 25, ld).filter(bar => bar.barType === 'Top Bar (Through)');
+    const { a, b, c } = longThrough.measurements;
+    expect(a).toBeGreaterThan(12000);
+    const settings = getComponentCalculationSettings();
+    expect(calculateComponentSheetEntry(longThrough, { ...beam, spanX: getContinuousBeamLength(long) }, settings).totalMeasurement)
+      .toBeGreaterThan(a + b! + c!);
+
+    // Without a through set, the support top bar size carries on; a zero count leaves them out
+    expect(generateContinuousBeamBars(layout, 25, ld).find(bar => bar.barType === 'Top Bar (Through)'))
+      .toMatchObject({ diameter: 16, barsPerMember: 2 });
+    expect(generateContinuousBeamBars({ ...layout, throughTopBars: { diameter: 12, count: 0 } }, 25, ld)
+      .some(bar => bar.barType === 'Top Bar (Through)')).toBe(false);
+  });
+
+  it('regenerates span bars and keeps other entries', () => {
+    const stirrups = { id: 's1', barType: 'Stirrups', direction: 'NONE' as const, diameter: 8, spacing: 150, measurements: { a: 0 } };
+    const component = applyContinuousBeamLayout({ ...beam, continuousSpans: layout, bars: [stirrups] }, ld);
+
+    expect(component.spanX).toBe(getContinuousBeamLength(layout));
+    expect(component.spanX).toBe(11000);
+    expect(component.bars).toHaveLength(2 + 2 + 1 + 3 + 1);
+    expect(component.bars[component.bars.length - 1]).toBe(stirrups);
+
+    // Reapplying replaces the generated bars rather than adding to them
+    expect(applyContinuousBeamLayout(component, ld).bars).toHaveLength(9);
+
+    const result = calculateComponentBarEntryEnhanced(component.bars[0], component);
+    expect(result.noOfBars).toBe(3);
+    expect(result.cuttingLength).toBe(component.bars[0].measurements.a + component.bars[0].measurements.b! - 2 * 16);
+  });
+
+  it('takes over the single-span top and bottom bars instead of adding to them', () => {
+    const main = (barType: string, diameter: number, count: number) => ({
+      id: barType, barType, direction: 'X' as const, diameter, spacing: 0, barsPerMember: count, measurements: { a: 3000 },
+    });
+    const single = {
+      ...beam,
+      bars: [{ ...main('Top Bar', 12, 2), barMark: 'B1-01' }, main('Bottom Bar', 20, 4), main('Side Face Bar', 10, 2)],
+    };
+
+    const started = createContinuousBeamLayout(single);
+    expect(started.bottomBars).toEqual({ diameter: 20, count: 4 });
+    expect(started.throughTopBars).toEqual({ diameter: 12, count: 2 });
+    expect(started.supportTopBars).toEqual({ diameter: 12, count: 2 });
+
+    const component = applyContinuousBeamLayout({ ...single, continuousSpans: started }, ld);
+    expect(component.bars.map(bar => bar.barType)).toEqual([
+      'Bottom Bar (Span 1)', 'Top Bar (Through)', 'Support Top Bar (Support 1)', 'Support Top Bar (Support 2)', 'Side Face Bar',
+    ]);
+    // The top bars keep running over mid-span, under the single-span Top Bar's mark
+    expect(component.bars[1]).toMatchObject({ diameter: 12, barsPerMember: 2, barMark: 'B1-01' });
+  });
+
+  it('adds and removes spans with their supports', () => {
+    const three = addContinuousSpan(layout);
+    expect(three.spans).toEqual([4000, 6000, 6000]);
+    expect(three.supports).toEqual([300, 400, 300, 300]);
+
+    expect(removeContinuousSpan(three, 1).supports).toEqual([300, 400, 300]);
+    expect(removeContinuousSpan(three, 0)).toMatchObject({ spans: [6000, 6000], supports: [400, 300, 300] });
+    expect(removeContinuousSpan({ ...layout, spans: [4000], supports: [300, 300] }, 0).spans).toEqual([4000]);
+  });
+});
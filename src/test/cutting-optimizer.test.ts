@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  optimizeCutting,
+  cutRequirementsFromBars,
+  cutRequirementsFromComponents,
+  DEFAULT_CUTTING_OPTIONS,
+  type CutRequirement
+} from '../lib/cutting-optimizer';
+import { ExcelExporter } from '../lib/excel-exporter';
+import type { CalculatedBar, ProjectConfig } from '../types';
+import type { ConcreteComponent } from '../types/component-types';
+
+const requirement = (length: number, quantity: number, diameter = 12, label = `L${length}`): CutRequirement => ({
+  label, diameter, length, quantity,
+});
+
+describe('Cutting Optimizer', () => {
+  it('packs pieces into 12 m stock bars without kerf', () => {
+    const plan = optimizeCutting([requirement(4000, 6)], { kerf: 0 });
+    const [dia12] = plan.diameters;
+
+    expect(dia12.stockBars).toBe(2);
+    expect(dia12.patterns).toHaveLength(1);
+    expect(dia12.patterns[0]).toMatchObject({ count: 2, offcut: 0 });
+    expect(dia12.wastagePercent).toBe(0);
+  });
+
+  it('accounts for kerf between cuts', () => {
+    // 3 × 4000 fits exactly without kerf; with a 3 mm kerf the third piece no longer fits
+    const plan = optimizeCutting([requirement(4000, 3)], { kerf: 3 });
+    expect(plan.diameters[0].stockBars).toBe(2);
+    expect(plan.diameters[0].patterns[0].kerfLoss).toBe(6);
+  });
+
+  it('uses best fit decreasing to fill bars', () => {
+    const plan = optimizeCutting([
+      requirement(7000, 2),
+      requirement(5000, 2),
+      requirement(3000, 2),
+    ], { kerf: 0 });
+
+    // 7000+5000 and 3000+3000 (with 6000 offcut) → 3 bars
+    expect(plan.diameters[0].stockBars).toBe(3);
+    const offcuts = plan.diameters[0].patterns.map(pattern => pattern.offcut);
+    expect(offcuts).toContain(6000);
+  });
+
+  it('separates reusable offcuts from wastage', () => {
+    const plan = optimizeCutting([requirement(10500, 1), requirement(11600, 1)], {
+      kerf: 0,
+      reusableOffcutLength: 1000,
+    });
+    const [dia12] = plan.diameters;
+
+    expect(dia12.stockBars).toBe(2);
+    expect(dia12.reusableOffcutLength).toBeCloseTo(1.5, 6);
+    expect(dia12.wastageLength).toBeCloseTo(0.4, 6);
+    expect(dia12.wastagePercent).toBeCloseTo((0.4 / 24) * 100, 6);
+  });
+
+  it('uses full stock bars for pieces longer than the stock length', () => {
+    const plan = optimizeCutting([requirement(14500, 2)], { kerf: 0 });
+    const [dia12] = plan.diameters;
+
+    expect(dia12.fullLengthBars).toBe(2);
+    // Remainders of 2500 share one stock bar
+    expect(dia12.stockBars).toBe(3);
+    expect(dia12.requiredLength).toBeCloseTo(29, 6);
+  });
+
+  it('plans each diameter separately', () => {
+    const plan = optimizeCutting([
+      requirement(5000, 2, 8),
+      requirement(6000, 1, 16),
+    ]);
+
+    expect(plan.diameters.map(item => item.diameter)).toEqual([8, 16]);
+    expect(plan.totalStockBars).toBe(2);
+    expect(plan.options.stockLength).toBe(DEFAULT_CUTTING_OPTIONS.stockLength);
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => optimizeCutting([], { stockLength: 0 })).toThrow('Stock length');
+    expect(() => optimizeCutting([], { kerf: -1 })).toThrow('cannot be negative');
+  });
+
+  it('collects cut lengths from manual bars and components', () => {
+    const bars = [{
+      id: 'b1', memberType: 'BEAM', shapeCode: 'S1', diameter: 16, dimensions: { A: 3000 },
+      spacing: 0, quantity: 4, cutLength: 3000, unitWeight: 1.58, totalLength: 12000, totalWeight: 18.96,
+    }] as CalculatedBar[];
+    expect(cutRequirementsFromBars(bars)).toEqual([{ label: 'BEAM S1', diameter: 16, length: 3000, quantity: 4 }]);
+
+    const component: ConcreteComponent = {
+      id: 'c1', name: 'S1', componentType: 'SLAB', spanX: 3000, spanY: 2000, cover: 25,
+      bars: [{
+        id: 'cb1', barType: 'Bottom Bar (X-X)', direction: 'X', diameter: 8, spacing: 150,
+        measurements: { a: 3000 },
+        calculated: {
+          totalMeasurement: 3000, noOfDeductions: 0, deductionAmount: 0, cuttingLength: 3000,
+          noOfBars: 14, totalLength: 42, unitWeight: 0.395, totalWeight: 16.59,
+        },
+      }],
+    };
+    expect(cutRequirementsFromComponents([component])).toEqual([
+      { label: 'S1 - Bottom Bar (X-X)', diameter: 8, length: 3000, quantity: 14 },
+    ]);
+  });
+
+  it('exports the plan to Excel', () => {
+    const project: ProjectConfig = {
+      id: 'p1', name: 'Cutting Project', codeStandard: 'IS', defaultCover: 25, defaultHookMultiplier: 9,
+      bendDeductions: { deg45: 1, deg90: 2, deg135: 3 }, calculationMode: 'MANUAL',
+      createdAt: new Date(), updatedAt: new Date(),
+    };
+    const plan = optimizeCutting([requirement(4000, 6)], { kerf: 0 });
+    const workbook = ExcelExporter.createCuttingPlanWorkbook(project, plan);
+
+    expect(workbook.worksheets.map(sheet => sheet.name)).toEqual(['Cutting Summary', 'Cutting Plan']);
+    const summary = workbook.getWorksheet('Cutting Summary')!;
+    expect(summary.getCell('A8').value).toBe(12);
+    expect(summary.getCell('B8').value).toBe(2);
+    const patterns = workbook.getWorksheet('Cutting Plan')!;
+    expect(patterns.getCell('C6').value).toBe(2);
+    expect(patterns.getCell('D6').value).toBe('4000 (L4000) + 4000 (L4000) + 4000 (L4000)');
+  });
+});
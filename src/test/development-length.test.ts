@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateDevelopmentLength,
+  resolveDevelopmentLength,
+  getDevelopmentLengthTable,
+  getDevelopmentLengthContext,
+  getDesignCode
+} from '../lib/development-length';
+import { calculateBarMeasurementsAuto } from '../lib/enhanced-calculator';
+import { getComponentCalculationSettings } from '../lib/component-calculator';
+import { CODE_PROFILES } from '../lib/code-profiles';
+import type { BBSMetadata, ConcreteComponent } from '../types/component-types';
+
+const metadata: BBSMetadata = {
+  projectName: 'Ld Project', drawingNumber: 'D-01', itemDescription: 'Beam',
+  concreteGrade: 'M20', steelGrade: 'Fe415',
+};
+
+describe('Development Length', () => {
+  it('calculates IS 456 Ld from the design bond stress', () => {
+    // Ld = φ × 0.87 fy / (4 × 1.6 × τbd) = 12 × 361.05 / 7.68
+    const result = calculateDevelopmentLength(12, 'M20', 'Fe415', CODE_PROFILES.IS456);
+    expect(result.code).toBe('IS456');
+    expect(result.bondStress).toBeCloseTo(1.92, 6);
+    expect(result.length).toBe(565);
+
+    expect(calculateDevelopmentLength(12, 'M30', 'Fe500').length).toBe(544);
+  });
+
+  it('accounts for bar surface, compression, hooks and bundles', () => {
+    expect(calculateDevelopmentLength(12, 'M20', 'Fe415', null, { surface: 'PLAIN' }).length).toBe(903);
+    expect(calculateDevelopmentLength(12, 'M20', 'Fe415', null, { stressType: 'COMPRESSION' }).length).toBe(452);
+    expect(calculateDevelopmentLength(12, 'M30', 'Fe500', null, { hooked: true }).length).toBe(381);
+    expect(calculateDevelopmentLength(12, 'M20', 'Fe415', null, { bundledBars: 2 }).length).toBe(621);
+  });
+
+  it('uses the BS 8110 bond coefficient for the BS profile', () => {
+    expect(getDesignCode(CODE_PROFILES.BS8110)).toBe('BS8110');
+    expect(getDesignCode(CODE_PROFILES.CUSTOM)).toBe('IS456');
+
+    // fbu = 0.5 × √30, l = 12 × 435 / (4 × fbu)
+    const result = calculateDevelopmentLength(12, 'M30', 'Fe500', CODE_PROFILES.BS8110);
+    expect(result.bondStress).toBeCloseTo(0.5 * Math.sqrt(30), 6);
+    expect(result.length).toBe(477);
+  });
+
+  it('prefers the project override table', () => {
+    const context = getDevelopmentLengthContext({ ...metadata, developmentLengthOverrides: { 12: 600 } });
+    expect(resolveDevelopmentLength(12, context)).toBe(600);
+    expect(resolveDevelopmentLength(16, context)).toBe(753);
+
+    const table = getDevelopmentLengthTable(context, [12, 16]);
+    expect(table).toEqual({ 12: 600, 16: 753 });
+  });
+
+  it('gives the Excel lap formula the calculated Ld table with overrides', () => {
+    const settings = getComponentCalculationSettings({ ...metadata, developmentLengthOverrides: { 12: 650 } });
+    expect(settings.developmentLengths[12]).toBe(650);
+    expect(settings.developmentLengths[16]).toBe(753);
+    expect(settings.developmentLengths).toEqual(getDevelopmentLengthTable(
+      getDevelopmentLengthContext({ ...metadata, developmentLengthOverrides: { 12: 650 } })
+    ));
+  });
+
+  it('drives measurements of the enhanced calculator', () => {
+    const column: ConcreteComponent = {
+      id: 'c1', name: 'C1', componentType: 'COLUMN', spanX: 300, spanY: 300, depth: 3000, cover: 40, bars: [],
+    };
+    const context = getDevelopmentLengthContext(metadata, CODE_PROFILES.IS456);
+    const measurements = calculateBarMeasurementsAuto('Main Bar', 'NONE', column, 12, context);
+
+    // Height + 2 laps, lap = max(Ld, 30φ, 200) = 565
+    expect(measurements.a).toBe(3000 + 2 * 565);
+
+    const overridden = calculateBarMeasurementsAuto('Main Bar', 'NONE', column, 12, {
+      ...context, overrides: { 12: 700 },
+    });
+    expect(overridden.a).toBe(3000 + 2 * 700);
+  });
+
+  it('laps column bars by the profile lap factor instead of 1.3 × Ld', () => {
+    const column: ConcreteComponent = {
+      id: 'c1', name: 'C1', componentType: 'COLUMN', spanX: 300, spanY: 300, depth: 3000, cover: 40, bars: [],
+    };
+    const context = getDevelopmentLengthContext(metadata, CODE_PROFILES.IS456);
+
+    // IS 456 lap = 1.0 × Ld = 753 for 16φ, where the old rule gave 1.3 × 753 = 979
+    expect(calculateBarMeasurementsAuto('Main Bar', 'NONE', column, 16, context).a).toBe(3000 + 2 * 753);
+
+    const profile = {
+      ...CODE_PROFILES.IS456,
+      lapSplice: { ...CODE_PROFILES.IS456.lapSplice!, lapFactor: 1.3 },
+    };
+    const raised = calculateBarMeasurementsAuto('Main Bar', 'NONE', column, 16, { ...context, profile });
+    expect(raised.a).toBe(3000 + 2 * Math.ceil(1.3 * 753));
+  });
+});
@@ -1,6 +1,15 @@
 import { describe, it, expect } from 'vitest';
+import * as ExcelJS from 'exceljs';
 import { ExcelExporter } from '../lib/excel-exporter';
+import { importBBSWorkbook } from '../lib/excel-importer';
+import { calculateComponentBarEntry, getComponentCalculationSettings } from '../lib/component-calculator';
+import { calculateComponentSheetEntry } from '../lib/enhanced-calculator';
+import { getTiePieceQuantities } from '../lib/tie-designer';
+import { getDefaultSpacingZones } from '../lib/stirrup-zones';
+import { evaluateCanonicalFormulas } from '../lib/formula-calculator';
+import { DEVELOPMENT_LENGTH_TABLES } from '../lib/constants';
 import type { ProjectConfig, CalculatedBar, DiameterSummary, ShapeSummary, MemberSummary } from '../types';
+import type { BBSMetadata, ComponentBarEntry, ConcreteComponent } from '../types/component-types';
 
 describe('Excel Export', () => {
   const mockConfig: ProjectConfig = {
@@ -111,3 +120,192 @@ describe('Excel Export', () => {
     expect(abstractBlob.size).toBeGreaterThan(1000); // Should have substantial content
   });
 });
+
+describe('Component BBS Export', () => {
+  const project: ProjectConfig = {
+    id: 'component-project',
+    name: 'Provident White Oaks',
+    codeStandard: 'IS',
+    defaultCover: 25,
+    defaultHookMultiplier: 9,
+    bendDeductions: { deg45: 1, deg90: 2, deg135: 3 },
+    calculationMode: 'COMPONENT',
+    createdAt: new Date('2024-01-01T10:00:00Z'),
+    updatedAt: new Date('2024-01-01T10:00:00Z')
+  };
+
+  const metadata: BBSMetadata = {
+    projectName: 'Provident White Oaks - Bangalore',
+    drawingNumber: 'ST-B-220-R0',
+    itemDescription: '20th Floor Slab',
+    concreteGrade: 'M30',
+    steelGrade: 'Fe550',
+  };
+
+  const slab: ConcreteComponent = {
+    id: 'slab-1',
+    name: 'A1 (B1 - BK)',
+    componentType: 'SLAB',
+    spanX: 3160,
+    spanY: 1350,
+    depth: 125,
+    cover: 30,
+    beamWidths: { left: 160, right: 160, top: 160, bottom: 160 },
+    topExtensions: { left: 425, right: 425, top: 250, bottom: 250 },
+    bars: [],
+  };
+
+  /** Bar with the measurements the spreadsheet view would fill in from the canonical formulas */
+  const canonicalBar = (barType: string, direction: 'X' | 'Y', diameter: number, spacing: number): ComponentBarEntry => ({
+    id: barType,
+    barType,
+    direction,
+    diameter,
+    spacing,
+    barsPerMember: 1,
+    measurements: evaluateCanonicalFormulas(barType, slab, diameter)!.measurements,
+  });
+
+  const component: ConcreteComponent = {
+    ...slab,
+    bars: [
+      canonicalBar('Bottom Bar (X-X)', 'X', 8, 275),
+      canonicalBar('Bottom Bar (Y-Y)', 'Y', 10, 200),
+      { id: 'long', barType: 'Top Bar (X-X)', direction: 'X', diameter: 12, spacing: 150, totalMembers: 4, measurements: { a: 14000, b: 100 } },
+    ],
+  };
+
+  const cell = (sheet: ExcelJS.Worksheet, address: string) => sheet.getCell(address).value as ExcelJS.CellFormulaValue;
+
+  const settings = { developmentLengths: DEVELOPMENT_LENGTH_TABLES.M30 as Record<number, number>, standardBarLength: 12000 };
+
+  it('writes the project header and Ld table', () => {
+    const sheet = ExcelExporter.createComponentBBSWorkbook(project, [component], metadata).worksheets[0];
+
+    expect(sheet.name).toBe('20th Floor Slab');
+    expect(sheet.getCell('A1').value).toBe('PROJECT :- Provident White Oaks - Bangalore');
+    expect(sheet.getCell('E3').value).toBe('Ld for M30');
+    expect(sheet.getCell('H3').value).toBe(DEVELOPMENT_LENGTH_TABLES.M30[12]);
+    expect(sheet.getCell('G4').value).toBe(30);
+    expect(cell(sheet, 'W10').formula).toBe('8*8/162');
+  });
+
+  it('writes quantities, measurements and cut lengths as formulas', () => {
+    const sheet = ExcelExporter.createComponentBBSWorkbook(project, [component], metadata).worksheets[0];
+
+    // Bars start below the header row (11) and the two beam width rows
+    expect(sheet.getCell('B15').value).toBe('Bottom Bar (X-X)');
+    expect(cell(sheet, 'H15')).toMatchObject({ formula: 'ROUNDUP(D11/E15,0)', result: 5 });
+    expect(cell(sheet, 'J15')).toMatchObject({ formula: '+C11', result: 3160 });
+    expect(cell(sheet, 'K15')).toMatchObject({ formula: '2*(C13-($G$4))', result: 260 });
+    expect(cell(sheet, 'S15').formula).toBe('+R15*F15*2');
+    expect(cell(sheet, 'T15').formula).toBe('+Q15-S15');
+    expect(cell(sheet, 'W15').formula).toBe('IF(F15=8,U15*W$10,"")');
+
+    // Y-Y bars use the CEILING cut length and span X for the member count
+    expect(cell(sheet, 'H16').formula).toBe('ROUNDUP(C11/E16,0)');
+    expect(cell(sheet, 'T16').formula).toBe('CEILING(J16+K16+L16+M16+N16+S16,5)');
+
+    // Explicit member count stays a value; long bars get a lap formula
+    expect(sheet.getCell('H17').value).toBe(4);
+    expect(cell(sheet, 'P17').formula).toBe('ROUNDUP(J17/12000*$H$3,0)');
+    expect(sheet.getCell('J17').value).toBe(14000);
+  });
+
+  it('matches the component calculator results', () => {
+    const sheet = ExcelExporter.createComponentBBSWorkbook(project, [component], metadata).worksheets[0];
+
+    component.bars.forEach((bar, index) => {
+      const row = 15 + index;
+      const span = bar.direction === 'X' ? slab.spanY : slab.spanX;
+      const expected = calculateComponentBarEntry(bar, span, slab.cover, settings, true);
+      expect(cell(sheet, `T${row}`).result, bar.barType).toBe(expected.cuttingLength);
+      expect(cell(sheet, `I${row}`).result, bar.barType).toBe(expected.noOfBars);
+      expect(cell(sheet, `U${row}`).result as number, bar.barType).toBeCloseTo(expected.totalLength, 6);
+    });
+  });
+
+  it('totals weight per diameter', () => {
+    const sheet = ExcelExporter.createComponentBBSWorkbook(project, [component], metadata).worksheets[0];
+
+    expect(sheet.getCell('V20').value).toBe('Total');
+    expect(cell(sheet, 'W20').formula).toBe('SUM(W11:W18)');
+    const eightMm = cell(sheet, 'U15').result as number * 8 * 8 / 162;
+    expect(cell(sheet, 'W20').result as number).toBeCloseTo(eightMm, 6);
+    expect(sheet.getCell('B23').value).toBe('Total in MT');
+    expect(cell(sheet, 'C23').formula).toBe('W20/1000');
+  });
+
+  it('re-imports with the BBS importer', async () => {
+    const workbook = ExcelExporter.createComponentBBSWorkbook(project, [component], metadata);
+    const result = await importBBSWorkbook(await workbook.xlsx.writeBuffer());
+
+    expect(result.success).toBe(true);
+    expect(result.components).toHaveLength(1);
+    expect(result.components[0]).toMatchObject({
+      name: slab.name,
+      spanX: 3160,
+      beamWidths: slab.beamWidths,
+      topExtensions: slab.topExtensions,
+    });
+    expect(result.components[0].bars.map(bar => bar.measurements.a)).toEqual([3160, 1350, 14000]);
+  });
+
+  it('writes a row per piece of a designed tie set', () => {
+    const beam: ConcreteComponent = {
+      id: 'b1', name: 'B1', componentType: 'BEAM', spanX: 3000, spanY: 300, depth: 450, cover: 25,
+      bars: [{
+        id: 's1', barType: 'Stirrups', direction: 'NONE', diameter: 8, spacing: 150,
+        measurements: { a: 0 }, tieDesign: { configuration: 'FOUR_LEGGED' },
+      }],
+    };
+    const expected = calculateComponentSheetEntry(beam.bars[0], beam, getComponentCalculationSettings(metadata));
+    const pieces = getTiePieceQuantities(expected);
+    const sheet = ExcelExporter.createComponentBBSWorkbook(project, [beam], metadata).worksheets[0];
+
+    expect(pieces).toHaveLength(2);
+    pieces.forEach(({ piece, quantity }, index) => {
+      const row = 12 + index;
+      expect(sheet.getCell(`B${row}`).value).toBe(`Stirrups - ${piece.name}`);
+      expect(cell(sheet, `I${row}`).result).toBe(quantity);
+      expect(cell(sheet, `T${row}`).result).toBe(piece.cutLength);
+    });
+
+    // Both pieces of every set count toward the weight
+    const totalLength = (cell(sheet, 'U12').result as number) + (cell(sheet, 'U13').result as number);
+    expect(totalLength).toBeCloseTo(expected.totalLength, 6);
+    expect(expected.noOfBars).toBe(40);
+  });
+
+  it('exports the calculated count of zoned stirrups and bars cut by openings', () => {
+    const beam: ConcreteComponent = {
+      id: 'b1', name: 'B1', componentType: 'BEAM', spanX: 3000, spanY: 300, depth: 450, cover: 25, bars: [],
+    };
+    beam.bars = [{
+      id: 's1', barType: 'Stirrups', direction: 'NONE', diameter: 8, spacing: 150,
+      measurements: { a: 250, b: 400 }, spacingZones: getDefaultSpacingZones(beam, 150),
+    }];
+    const opened: ConcreteComponent = {
+      ...component, bars: [component.bars[0]],
+      openings: [{ shape: 'RECTANGULAR', x: 1000, y: 400, width: 800, height: 500 }],
+    };
+    const settings = getComponentCalculationSettings(metadata);
+    const sheet = ExcelExporter.createComponentBBSWorkbook(project, [beam, opened], metadata).worksheets[0];
+
+    // Beam block: header 11, stirrups 12; slab block: header 14, beam widths 15-17, bars from 18
+    const stirrups = calculateComponentSheetEntry(beam.bars[0], beam, settings);
+    expect(stirrups.noOfBars).toBeGreaterThan(Math.ceil(3000 / 150));
+    expect(cell(sheet, 'I12').result).toBe(stirrups.noOfBars);
+
+    const slabBar = calculateComponentSheetEntry(opened.bars[0], opened, settings);
+    expect(slabBar.noOfBars).toBeLessThan(Math.ceil(1350 / 275));
+    expect(sheet.getCell('B18').value).toBe('Bottom Bar (X-X)');
+    expect(cell(sheet, 'I18').result).toBe(slabBar.noOfBars);
+  });
+
+  it('exports a blob', async () => {
+    const blob = await ExcelExporter.exportComponentBBS(project, [component], metadata);
+    expect(blob.type).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    expect(blob.size).toBeGreaterThan(0);
+  });
+});
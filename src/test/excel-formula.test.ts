@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateFormula,
+  createSheetEvaluator,
+  mapFormulaReferences,
+  getFormulaReferences,
+  formatCellAddress,
+  type CellResolver,
+  type FormulaSheet
+} from '../lib/excel-formula';
+import {
+  evaluateCanonicalFormulas,
+  calculateWithCanonicalFormulas,
+  relocateCanonicalFormula
+} from '../lib/formula-calculator';
+import type { ConcreteComponent } from '../types/component-types';
+
+const cells = (values: Record<string, number | string | null>): CellResolver => ({
+  getCell: address => values[address],
+});
+
+const evaluate = (formula: string, values: Record<string, number | string | null> = {}) =>
+  evaluateFormula(formula, cells(values));
+
+describe('Excel formula interpreter', () => {
+  it('follows Excel operator precedence', () => {
+    expect(evaluate('=1+2*3').value).toBe(7);
+    expect(evaluate('=(1+2)*3').value).toBe(9);
+    expect(evaluate('=2^3*2').value).toBe(16);
+    expect(evaluate('=-2^2').value).toBe(4);
+    expect(evaluate('=10-4-3').value).toBe(3);
+    expect(evaluate('=1+2=3').value).toBe(true);
+    expect(evaluate('="a"&1+1').value).toBe('a2');
+  });
+
+  it('resolves relative and absolute references to the same cell', () => {
+    const values = { G4: 30, C13: 160 };
+    expect(evaluate('=2*(C13-($G$4))', values).value).toBe(260);
+    expect(evaluate('=+C13-G$4', values).value).toBe(130);
+  });
+
+  it('treats blank cells as zero and unknown cells as #REF!', () => {
+    expect(evaluate('=A1+5', { A1: null }).value).toBe(5);
+    const result = evaluate('=Z99+1');
+    expect(result.error?.code).toBe('#REF!');
+    expect(result.value).toBeNull();
+  });
+
+  it('evaluates ranges in SUM, MAX and MIN, ignoring text in ranges', () => {
+    const values = { J15: 3160, K15: 260, L15: 'n/a', M15: 65, N15: null };
+    expect(evaluate('=SUM(J15:N15)', values).value).toBe(3485);
+    expect(evaluate('=MAX(J15:N15, 5000)', values).value).toBe(5000);
+    expect(evaluate('=MIN(K15:M15)', values).value).toBe(65);
+  });
+
+  it('rounds like Excel', () => {
+    expect(evaluate('=ROUNDUP(1350/150,0)').value).toBe(9);
+    expect(evaluate('=ROUNDUP(1351/150,0)').value).toBe(10);
+    expect(evaluate('=ROUNDUP(-2.1,0)').value).toBe(-3);
+    expect(evaluate('=ROUNDUP(1.1*3,1)').value).toBe(3.3);
+    expect(evaluate('=ROUNDDOWN(2.99,1)').value).toBe(2.9);
+    expect(evaluate('=ROUND(2.5,0)').value).toBe(3);
+    expect(evaluate('=CEILING(4321,5)').value).toBe(4325);
+    expect(evaluate('=CEILING(4320,5)').value).toBe(4320);
+    expect(evaluate('=_xlfn.CEILING.MATH(11,5)').value).toBe(15);
+    expect(evaluate('=CEILING(10,-5)').error?.code).toBe('#NUM!');
+  });
+
+  it('only evaluates the selected IF branch', () => {
+    expect(evaluate('=IF(F15=8,U15*2,"")', { F15: 8, U15: 10 }).value).toBe(20);
+    expect(evaluate('=IF(F15=8,U15*2,"")', { F15: 10 }).value).toBe('');
+    expect(evaluate('=IF(1>2,1/0,ABS(-4))').value).toBe(4);
+  });
+
+  it('reports Excel error codes instead of throwing', () => {
+    expect(evaluate('=1/0').error?.code).toBe('#DIV/0!');
+    expect(evaluate('=FOO(1)').error?.code).toBe('#NAME?');
+    expect(evaluate('=span_x*2').error?.code).toBe('#NAME?');
+    expect(evaluate('="abc"+1').error?.code).toBe('#VALUE!');
+    expect(evaluate('=(1+2').error?.code).toBe('#PARSE!');
+    expect(evaluate('=1+;').error?.code).toBe('#PARSE!');
+  });
+
+  it('never executes formula text as code', () => {
+    const result = evaluate('=constructor.constructor("return 1")()');
+    expect(result.error).toBeDefined();
+    expect(result.value).toBeNull();
+  });
+
+  it('resolves named variables through the resolver', () => {
+    const resolver: CellResolver = {
+      getCell: () => undefined,
+      getName: name => (name === 'cover' ? 30 : undefined),
+    };
+    expect(evaluateFormula('=2*cover', resolver).value).toBe(60);
+  });
+});
+
+describe('Sheet evaluator', () => {
+  it('follows references between formula cells', () => {
+    const sheet: FormulaSheet = {
+      A1: 10,
+      A2: '=A1*2',
+      A3: '=A2+A1',
+    };
+    const { evaluateCell } = createSheetEvaluator(sheet);
+    expect(evaluateCell('A3').value).toBe(30);
+    expect(evaluateCell('$A$2').value).toBe(20);
+  });
+
+  it('detects circular references', () => {
+    const sheet: FormulaSheet = { A1: '=B1+1', B1: '=A1+1', C1: '=5' };
+    const { evaluateCell } = createSheetEvaluator(sheet);
+    expect(evaluateCell('A1').error?.code).toBe('#CIRC!');
+    expect(evaluateCell('C1').value).toBe(5);
+  });
+
+  it('propagates errors from referenced cells', () => {
+    const sheet: FormulaSheet = { A1: '=1/0', A2: '=A1+1' };
+    const { evaluateCell } = createSheetEvaluator(sheet);
+    expect(evaluateCell('A2').error?.code).toBe('#DIV/0!');
+  });
+
+  it('does not resolve object prototype keys as names', () => {
+    const sheet: FormulaSheet = { A1: '=constructor+1', A2: '=toString*2' };
+    const { evaluateCell } = createSheetEvaluator(sheet, { width: 'A3' });
+    expect(evaluateCell('A1').error?.code).toBe('#NAME?');
+    expect(evaluateCell('A2').error?.code).toBe('#NAME?');
+  });
+
+  it('evaluates the reference slab block (Bottom Bar X-X)', () => {
+    const sheet: FormulaSheet = {
+      G4: 30,
+      C11: 3160, D11: 1350, F11: 125, K11: 425, L11: 425,
+      C13: 160, C14: 160,
+      E15: 150, F15: 8, G15: 1,
+      H15: '=ROUNDUP(D11/E15,0)',
+      I15: '=+G15*H15',
+      J15: '=+C11',
+      K15: '=2*(C13-($G$4))',
+      L15: '=2*(C14-($G$4))',
+      M15: '=F11-(2*$G$4)',
+      N15: '=F11-(2*$G$4)',
+      O15: '=K11+L11',
+      P15: null,
+      Q15: '=SUM(J15:P15)',
+      R15: 4,
+      S15: '=+R15*F15*2',
+      T15: '=+Q15-S15',
+      U15: '=+T15*I15/1000',
+    };
+    const { evaluateCell } = createSheetEvaluator(sheet);
+    expect(evaluateCell('H15').value).toBe(9);
+    expect(evaluateCell('Q15').value).toBe(4660);
+    expect(evaluateCell('T15').value).toBe(4596);
+    expect(evaluateCell('U15').value).toBeCloseTo(41.364, 6);
+  });
+});
+
+describe('Reference helpers', () => {
+  it('rewrites references and keeps absolute markers', () => {
+    const rewritten = mapFormulaReferences('=2*(C643-($G$4))', (address, text) =>
+      address.row <= 4 ? text : formatCellAddress({ ...address, row: 13 })
+    );
+    expect(rewritten).toBe('=2*(C13-($G$4))');
+  });
+
+  it('lists references with ranges expanded', () => {
+    expect(getFormulaReferences('=SUM(J15:L15)+$G$4').sort()).toEqual(['G4', 'J15', 'K15', 'L15']);
+  });
+});
+
+describe('Canonical formulas', () => {
+  const slab: ConcreteComponent = {
+    id: 'slab-1',
+    name: 'A1 (B1 - BK)',
+    componentType: 'SLAB',
+    spanX: 3160,
+    spanY: 1350,
+    depth: 125,
+    cover: 30,
+    beamWidths: { left: 160, right: 160, top: 160, bottom: 160 },
+    topExtensions: { left: 425, right: 425, top: 250, bottom: 250 },
+    bars: [],
+  };
+
+  it('relocates a canonical formula onto the standard block', () => {
+    expect(relocateCanonicalFormula('b', '=2*(C645-($G$4))', 643)).toBe('=2*(C13-($G$4))');
+    expect(relocateCanonicalFormula('c', '=F643-($G$4)', 643)).toBe('=F11-($G$4)');
+    expect(relocateCanonicalFormula('a', '=C20', null)).toBe('=C11');
+    expect(relocateCanonicalFormula('a', '=J28', null)).toBeNull();
+    expect(relocateCanonicalFormula('a', '=C30+C23+D29', 23)).toBeNull();
+  });
+
+  it('evaluates Bottom Bar (X-X) against the component', () => {
+    const evaluation = evaluateCanonicalFormulas('Bottom Bar (X-X)', slab, 8);
+    expect(evaluation?.errors).toEqual([]);
+    expect(evaluation?.measurements).toMatchObject({ a: 3160, b: 260, c: 260, d: 65, e: 65, f: 850 });
+  });
+
+  it('reports #REF! when the component lacks the referenced values', () => {
+    const withoutWidths: ConcreteComponent = { ...slab, beamWidths: undefined };
+    const evaluation = evaluateCanonicalFormulas('Bottom Bar (X-X)', withoutWidths, 8);
+    expect(evaluation?.errors.map(error => error.code)).toContain('#REF!');
+    expect(calculateWithCanonicalFormulas('Bottom Bar (X-X)', 'X', withoutWidths, 8)).toBeNull();
+  });
+
+  it('returns null for bar types without a canonical formula', () => {
+    expect(evaluateCanonicalFormulas('Not A Bar Type', slab, 8)).toBeNull();
+  });
+});
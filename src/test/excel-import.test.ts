@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import * as ExcelJS from 'exceljs';
+import {
+  importBBSWorkbook,
+  parseBBSGrid,
+  detectColumnMapping,
+  DEFAULT_BBS_COLUMN_MAPPING,
+  type SheetGrid
+} from '../lib/excel-importer';
+
+const formula = (text: string, result: number) => ({ formula: text, result });
+
+/** Write values across a row starting at the given column (null leaves a cell blank) */
+const setRow = (sheet: ExcelJS.Worksheet, rowNumber: number, firstColumn: number, values: ExcelJS.CellValue[]) => {
+  values.forEach((value, index) => {
+    if (value !== null) sheet.getRow(rowNumber).getCell(firstColumn + index).value = value;
+  });
+};
+
+/**
+ * Workbook laid out like "Sample Slab BBS.xlsx" (project header and first component block)
+ */
+const loadSample = async (): Promise<ArrayBuffer> => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Slab 20th Floor');
+  sheet.getCell('A1').value = 'PROJECT :- Provident White Oaks - Bangalore';
+  setRow(sheet, 2, 1, ['Dwg No :- ST-B-220-R0 & ST-B-320-R0', null, null, null, 'Dia of Bar', 8, 10, 12, 16, 20, 25, 32]);
+  setRow(sheet, 3, 1, ['Item :- 20th Floor Slab Reinforcement', null, null, null, 'Ld for M30', 400, 500, 599, 798, 998, 1247, 1995]);
+  setRow(sheet, 4, 1, ['Concrete', 'M30', 'Grade of Steel - ', '550D', 'Slab', 'Cover', 30, 'mm']);
+
+  const headers = ['S.No', 'Bar Type', 'Span (X)', 'Span (Y)', 'Spacing (MM)', 'Dia. (MM)',
+    'No. of bars Reqd \n per member', 'Total no. of members Reqd', 'Total nos.'];
+  setRow(sheet, 5, 1, [...headers, ...Array(10).fill('Measurements of the Bar (MM)'), 'Cutlength', 'Total length (m)']);
+  setRow(sheet, 6, 1, [...headers, 'a', 'b', 'c', 'd', 'e', 'f', 'Lap', 'Total', 'No of Bends', 'Deduction', 'Cutlength', 'Total length (m)']);
+
+  setRow(sheet, 11, 1, [1, 'A1 (B1 - BK)', 3160, 1350, null, 125, null, null, null, null, 425, 425, 250, 250]);
+  setRow(sheet, 12, 3, ['Left/Right', 'Top/Bottom']);
+  setRow(sheet, 13, 3, [160, 160]);
+  setRow(sheet, 14, 3, [160, 160]);
+  setRow(sheet, 15, 2, ['Bottom Bar (X-X)', null, null, 275, 8, 1, formula('ROUNDUP(D11/E15,0)', 5), formula('+G15*H15', 5),
+    formula('+C11', 3160), formula('2*(C13-($G$4))', 260), formula('2*(C14-($G$4))', 260),
+    formula('F11-(2*$G$4)', 65), formula('F11-(2*$G$4)', 65), formula('K11+L11', 850), null, formula('SUM(J15:P15)', 4660), 4]);
+  setRow(sheet, 16, 2, ['Bottom Bar Dist (X-X)', null, null, 325, 8, 1, 3, 3, 1350, 130, 130, 95, 95, null, null, 1800, 2]);
+  setRow(sheet, 17, 2, ['Bottom Bar (Y-Y)', null, null, 275, 8, 1, 12, 12, 1350, 260, 260, 65, 65, 500, null, 2500, 4]);
+  setRow(sheet, 18, 2, ['Bottom Bar Dist (Y-Y)', null, null, 325, 8, 1, 2, 2, 3160, 130, 130, 95, 95, null, null, 3610, 2]);
+  sheet.getCell('V21').value = 'Total';
+  sheet.getCell('B22').value = 'Total Weight of Re-bars in Dia wise:';
+
+  return workbook.xlsx.writeBuffer();
+};
+
+describe('Excel BBS Import', () => {
+  it('imports the sample slab workbook', async () => {
+    const result = await importBBSWorkbook(await loadSample());
+
+    expect(result.success).toBe(true);
+    expect(result.sheetName).toBe('Slab 20th Floor');
+    expect(result.mapping).toEqual(DEFAULT_BBS_COLUMN_MAPPING);
+    expect(result.ambiguous).toEqual([]);
+    expect(result.components).toHaveLength(1);
+
+    const [component] = result.components;
+    expect(component).toMatchObject({
+      name: 'A1 (B1 - BK)',
+      componentType: 'SLAB',
+      spanX: 3160,
+      spanY: 1350,
+      depth: 125,
+      cover: 30,
+      beamWidths: { left: 160, right: 160, top: 160, bottom: 160 },
+      topExtensions: { left: 425, right: 425, top: 250, bottom: 250 },
+    });
+
+    expect(component.bars.map(bar => bar.barType)).toEqual([
+      'Bottom Bar (X-X)',
+      'Bottom Bar Dist (X-X)',
+      'Bottom Bar (Y-Y)',
+      'Bottom Bar Dist (Y-Y)',
+    ]);
+    expect(component.bars[0]).toMatchObject({
+      direction: 'X',
+      diameter: 8,
+      spacing: 275,
+      barsPerMember: 1,
+      totalMembers: 5,
+      manualNoOfDeductions: 4,
+      measurements: { a: 3160, b: 260, c: 260, d: 65, e: 65, f: 850 },
+    });
+    expect(component.bars[2].direction).toBe('Y');
+    expect(component.bars[1].measurements.f).toBeUndefined();
+  });
+
+  it('reads project metadata and the Ld table', async () => {
+    const { metadata } = await importBBSWorkbook(await loadSample());
+
+    expect(metadata).toMatchObject({
+      projectName: 'Provident White Oaks - Bangalore',
+      drawingNumber: 'ST-B-220-R0 & ST-B-320-R0',
+      itemDescription: '20th Floor Slab Reinforcement',
+      concreteGrade: 'M30',
+      steelGrade: 'Fe550',
+    });
+    expect(metadata.developmentLengthOverrides).toEqual({
+      8: 400, 10: 500, 12: 599, 16: 798, 20: 998, 25: 1247, 32: 1995,
+    });
+  });
+
+  it('reports ambiguous and missing columns, and accepts a mapping override', () => {
+    const grid: SheetGrid = {
+      name: 'Shifted',
+      rows: [
+        ['Bar Type', 'Span (X)', 'Span (Y)', 'Spacing', 'Spacing', 'Dia', 'a', 'b'],
+        ['S1', 3000, 2000, null, null, 150],
+        ['Main Bar (X-X)', null, null, 200, 150, 10, 2940, 100],
+      ],
+    };
+
+    const detected = detectColumnMapping(grid);
+    expect(detected.headerRows).toEqual([1]);
+    expect(detected.ambiguous).toContainEqual({ field: 'spacing', candidates: ['D', 'E'], reason: 'multiple-matches' });
+    expect(detected.ambiguous.map(item => item.field)).toContain('lap');
+
+    const result = parseBBSGrid(grid, { spacing: 'E', a: 'G', b: 'H', c: null, d: null, e: null, f: null, lap: null, bends: null, barsPerMember: null, totalMembers: null });
+    expect(result.ambiguous.map(item => item.field)).not.toContain('spacing');
+    expect(result.components).toHaveLength(1);
+    expect(result.components[0].depth).toBe(150);
+    expect(result.components[0].bars[0]).toMatchObject({ spacing: 150, diameter: 10, measurements: { a: 2940, b: 100 } });
+  });
+
+  it('fails cleanly when no header row exists', () => {
+    const result = parseBBSGrid({ name: 'Notes', rows: [['hello'], ['world']] });
+    expect(result.success).toBe(false);
+    expect(result.errors[0].message).toContain('No BBS header row');
+  });
+
+  it('flags bar rows that appear before a component', () => {
+    const result = parseBBSGrid({
+      name: 'Orphans',
+      rows: [
+        [null, 'Bar Type', 'Span (X)', 'Span (Y)', 'Spacing (MM)', 'Dia. (MM)'],
+        [null, 'Bottom Bar (X-X)', null, null, 150, 8],
+      ],
+    });
+    expect(result.success).toBe(false);
+    expect(result.errors.some(error => error.message.includes('before any component'))).toBe(true);
+  });
+});
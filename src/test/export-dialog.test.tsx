@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { ExportDialog } from '@/components/ExportDialog';
 import type { ProjectConfig, CalculatedBar } from '@/types';
+import type { ConcreteComponent } from '@/types/component-types';
 import { ExcelExporter } from '@/lib/excel-exporter';
 
 // Mock the ExcelExporter
@@ -9,6 +10,7 @@ vi.mock('@/lib/excel-exporter', () => ({
   ExcelExporter: {
     exportBBS: vi.fn(),
     exportAbstract: vi.fn(),
+    exportComponentBBS: vi.fn(),
     downloadExcel: vi.fn(),
   },
 }));
@@ -178,4 +180,39 @@ describe('ExportDialog', () => {
       expect(ExcelExporter.exportBBS).toHaveBeenCalledWith(mockProject, mockBars);
     });
   });
+
+  it('exports the component BBS when components are provided', async () => {
+    const mockBlob = new Blob(['test'], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+    vi.mocked(ExcelExporter.exportComponentBBS).mockResolvedValue(mockBlob);
+    const components: ConcreteComponent[] = [{
+      id: 'slab-1',
+      name: 'S1',
+      componentType: 'SLAB',
+      spanX: 3000,
+      spanY: 2000,
+      cover: 25,
+      bars: [{ id: 'b1', barType: 'Bottom Bar (X-X)', direction: 'X', diameter: 8, spacing: 150, measurements: { a: 3000 } }],
+    }];
+
+    render(
+      <ExportDialog
+        project={mockProject}
+        bars={[]}
+        summaries={mockSummaries}
+        components={components}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /export/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('• 1 components')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: /Export BBS/i }));
+
+    await waitFor(() => {
+      expect(ExcelExporter.exportComponentBBS).toHaveBeenCalledWith(mockProject, components, undefined);
+    });
+  });
 });
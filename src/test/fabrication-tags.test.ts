@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCalculatedBarTags,
+  getComponentBarShape,
+  getComponentBarTags,
+  getTagPayload,
+  splitIntoBundles
+} from '../lib/fabrication-tags';
+import { calculateComponentBarEntryEnhanced } from '../lib/enhanced-calculator';
+import { encodeQrCode } from '../lib/qr-code';
+import type { CalculatedBar, ProjectConfig } from '../types';
+import type { ComponentBarEntry, ConcreteComponent } from '../types/component-types';
+
+const project: ProjectConfig = {
+  id: 'tags-project', name: 'Tower A', codeStandard: 'IS', defaultCover: 25,
+  defaultHookMultiplier: 9, bendDeductions: { deg45: 1, deg90: 2, deg135: 3 },
+  calculationMode: 'COMPONENT',
+  createdAt: new Date('2024-01-01T10:00:00Z'), updatedAt: new Date('2024-01-02T10:00:00Z'),
+};
+
+const beamBar = (id: string, barType: string, measurements: ComponentBarEntry['measurements']): ComponentBarEntry => ({
+  id, barType, direction: 'X', diameter: 16, spacing: 0, barsPerMember: 4, totalMembers: 10, measurements,
+});
+
+const beam: ConcreteComponent = {
+  id: 'b1', name: 'B1', componentType: 'BEAM', spanX: 4000, spanY: 230, depth: 450, cover: 25,
+  bars: [
+    { ...beamBar('top', 'Top Bar', { a: 4000 }), barMark: 'B1-01', manualNoOfDeductions: 0 },
+    { ...beamBar('bottom', 'Bottom Bar', { a: 4000, b: 300 }), manualNoOfDeductions: 1 },
+  ],
+};
+
+describe('Fabrication Tags', () => {
+  it('splits a bar into the fewest bundles of near-equal quantity', () => {
+    expect(splitIntoBundles(40, 6.3, 100)).toEqual([14, 13, 13]);
+    expect(splitIntoBundles(10, 6.3, 2000)).toEqual([10]);
+    expect(splitIntoBundles(3, 150, 100)).toEqual([1, 1, 1]);
+    expect(splitIntoBundles(0, 6.3, 100)).toEqual([]);
+  });
+
+  it('tags component bars by bundle with their calculated cut length and weight', () => {
+    const tags = getComponentBarTags([beam], project, { maxBundleWeight: 100 });
+    const top = calculateComponentBarEntryEnhanced(beam.bars[0], beam, { concreteGrade: 'M25', steelGrade: 'Fe500' });
+
+    const topTags = tags.filter(tag => tag.barType === 'Top Bar');
+    expect(topTags.map(tag => tag.quantity)).toEqual([14, 13, 13]);
+    expect(topTags[0]).toMatchObject({
+      id: 'top-1', project: 'Tower A', member: 'B1', barMark: 'B1-01', diameter: 16,
+      shapeCode: 'S1', dimensions: { A: 4000 }, cutLength: top.cuttingLength, bundle: 1, bundles: 3,
+    });
+    expect(topTags.reduce((sum, tag) => sum + tag.weight, 0)).toBeCloseTo(top.totalWeight);
+
+    expect(tags.find(tag => tag.barType === 'Bottom Bar')).toMatchObject({ shapeCode: 'S5', dimensions: { A: 4000, B: 300 } });
+  });
+
+  it('draws stirrups and links with their own shapes', () => {
+    const result = calculateComponentBarEntryEnhanced(beam.bars[0], beam, { concreteGrade: 'M25', steelGrade: 'Fe500' });
+    expect(getComponentBarShape(beamBar('s', 'Stirrups', { a: 180, b: 400 }), result))
+      .toEqual({ shapeCode: 'S3', dimensions: { A: 180, B: 400 } });
+    expect(getComponentBarShape(beamBar('l', 'Link Tie', { a: 250, b: 100 }), result))
+      .toEqual({ shapeCode: 'S7', dimensions: { A: 250 } });
+  });
+
+  it('tags manually entered bars', () => {
+    const bar: CalculatedBar = {
+      id: 'm1', memberType: 'SLAB', shapeCode: 'S2', diameter: 10, dimensions: { A: 3000, B: 150 },
+      spacing: 150, quantity: 20, barMark: 'S-01', cutLength: 3260, unitWeight: 2.01, totalLength: 65200, totalWeight: 40.2,
+    };
+    const tags = getCalculatedBarTags([bar], { ...project, bbsMetadata: { drawingNumber: 'S-101' } as ProjectConfig['bbsMetadata'] });
+    expect(tags).toEqual([expect.objectContaining({
+      member: 'SLAB', barType: 'U-Bar', barMark: 'S-01', drawingNumber: 'S-101', quantity: 20, bundles: 1,
+    })]);
+  });
+
+  it('encodes the tag data in a QR payload', () => {
+    const [tag] = getComponentBarTags([beam], { ...project, name: 'Tower A; Phase=2' });
+    expect(getTagPayload(tag)).toBe(
+      `P=Tower A, Phase,2;M=B1;BM=B1-01;T=Top Bar;DIA=16;S=S1;A=4000;L=${Math.round(tag.cutLength)};N=40;W=${tag.weight.toFixed(1)};BN=1/1`
+    );
+
+    // Long names are cut so every tag fits in a QR code
+    const long = { ...tag, project: 'P'.repeat(100), member: 'M'.repeat(100), barType: 'T'.repeat(100), drawingNumber: 'D'.repeat(100) };
+    expect(() => encodeQrCode(getTagPayload(long))).not.toThrow();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateFootingGeometryCount,
+  calculateFootingGeometryMeasurements,
+  getDowelDiameter,
+  hasFootingGeometry
+} from '../lib/footing-calculator';
+import {
+  calculateBarMeasurementsAuto,
+  calculateBarsPerMember,
+  calculateComponentBarEntryEnhanced
+} from '../lib/enhanced-calculator';
+import { resolveDevelopmentLength } from '../lib/development-length';
+import { getTieHookLength } from '../lib/tie-designer';
+import type { ConcreteComponent } from '../types/component-types';
+import { barEntry, lap, ld } from './helpers';
+
+// Two 400mm columns 2000mm apart: 1600mm clear between their faces
+const combined: ConcreteComponent = {
+  id: 'cf1', name: 'CF1', componentType: 'FOOTING', footingType: 'COMBINED',
+  spanX: 4000, spanY: 1500, depth: 600, cover: 50, bars: [],
+  footing: {
+    columns: [
+      { position: 3000, width: 400, depth: 400, barDiameter: 20, barCount: 8 },
+      { position: 1000, width: 400, depth: 400, barDiameter: 16, barCount: 6 },
+    ],
+    strapBeam: { width: 300, depth: 600 },
+  },
+};
+
+const sloped: ConcreteComponent = {
+  id: 'f1', name: 'F1', componentType: 'FOOTING', footingType: 'ISOLATED',
+  spanX: 2000, spanY: 2000, depth: 600, cover: 50, bars: [],
+  footing: { columns: [{ position: 1000, width: 400, depth: 400 }], profile: 'SLOPED', edgeDepth: 300 },
+};
+
+describe('Footing Calculator', () => {
+  it('keeps the isolated footing formulas without geometry', () => {
+    const isolated = { ...sloped, footing: undefined };
+    expect(hasFootingGeometry(isolated)).toBe(false);
+    expect(calculateBarMeasurementsAuto('Bottom Main (L)', 'X', isolated, 12, ld).a)
+      .toBe(2000 + 2 * resolveDevelopmentLength(12, ld));
+  });
+
+  it('runs top bars between the columns of a combined footing', () => {
+    const ld12 = resolveDevelopmentLength(12, ld);
+    expect(calculateFootingGeometryMeasurements('Top Main (L)', combined, 12, ld))
+      .toEqual({ a: Math.ceil(Math.min(3900, 1600 + 2 * ld12)) });
+    expect(calculateFootingGeometryMeasurements('Top Dist (B)', combined, 10, ld)).toEqual({ a: 1400 });
+    expect(calculateFootingGeometryCount('Top Dist (B)', combined, 150)).toBe(11);
+    expect(calculateFootingGeometryMeasurements('Bottom Main (L)', combined, 16, ld)).toEqual({ a: 3900, b: 500, c: 500 });
+  });
+
+  it('sizes and counts dowels from the column bars', () => {
+    expect(getDowelDiameter(combined)).toBe(20);
+    expect(calculateFootingGeometryCount('Dowel Bars', combined, 150)).toBe(14);
+    expect(calculateFootingGeometryMeasurements('Dowel Bars', combined, 20, ld)).toEqual({ a: lap(20) + 550, b: 240 });
+  });
+
+  it('adds strap beam bars and stirrups between the outer columns', () => {
+    expect(calculateFootingGeometryMeasurements('Strap Beam Bar', combined, 16, ld))
+      .toEqual({ a: Math.ceil(1600 + 2 * resolveDevelopmentLength(16, ld)) });
+    expect(calculateFootingGeometryCount('Strap Beam Bar', combined, 100)).toBe(6);
+    expect(calculateFootingGeometryMeasurements('Strap Beam Stirrups', combined, 8, ld))
+      .toEqual({ a: 1400 + 2 * getTieHookLength(135, 8) });
+    expect(calculateFootingGeometryCount('Strap Beam Stirrups', combined, 150)).toBe(11);
+  });
+
+  it('follows the sloped faces and sits top bars on the upper step', () => {
+    // 550mm flat top; slopes run 675mm across and drop 300mm
+    expect(calculateFootingGeometryMeasurements('Bottom Main (L)', sloped, 12, ld)).toEqual({ a: 1900, b: 200, c: 200 });
+    expect(calculateFootingGeometryMeasurements('Top Main (L)', sloped, 10, ld))
+      .toEqual({ a: Math.ceil(550 + 2 * Math.hypot(675, 300)) });
+
+    const stepped: ConcreteComponent = { ...sloped, footing: { ...sloped.footing, profile: 'STEPPED' } };
+    expect(calculateFootingGeometryMeasurements('Top Main (L)', stepped, 10, ld)).toEqual({ a: 450 });
+    expect(calculateFootingGeometryCount('Top Main (L)', stepped, 150)).toBe(4);
+  });
+
+  it('treats a combined footing with a single column as an isolated footing', () => {
+    const single: ConcreteComponent = { ...combined, footing: { columns: combined.footing!.columns!.slice(0, 1) } };
+    const isolated: ConcreteComponent = { ...single, footingType: 'ISOLATED' };
+
+    // No hogging between columns: top bars and their counts fall back to the isolated formulas
+    expect(calculateFootingGeometryMeasurements('Top Main (L)', single, 12, ld)).toBeUndefined();
+    expect(calculateFootingGeometryCount('Top Dist (B)', single, 150)).toBeUndefined();
+    for (const barType of ['Top Main (L)', 'Top Dist (B)', 'Bottom Main (L)']) {
+      expect(calculateComponentBarEntryEnhanced(barEntry(barType, 12, 150), single, ld))
+        .toEqual(calculateComponentBarEntryEnhanced(barEntry(barType, 12, 150), isolated, ld));
+    }
+
+    // Dowels still follow the one column's bars
+    expect(calculateBarsPerMember('Dowel Bars', 'NONE', single, 150)).toBe(8);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FORMULA_BINDINGS,
+  BINDING_NAMES,
+  toNamedFormula,
+  fromNamedFormula,
+  buildBindingSheet,
+  auditNamedFormula
+} from '../lib/formula-bindings';
+import { buildNamedFormulas, evaluateCanonicalFormulas } from '../lib/formula-calculator';
+import { resolveDevelopmentLength } from '../lib/development-length';
+import canonicalFormulas from '../../bar_type_canonical_formulas.json';
+import type { ConcreteComponent } from '../types/component-types';
+
+const slab: ConcreteComponent = {
+  id: 'slab-1',
+  name: 'A1 (B1 - BK)',
+  componentType: 'SLAB',
+  spanX: 3160,
+  spanY: 1350,
+  depth: 125,
+  cover: 30,
+  beamWidths: { left: 160, right: 200, top: 230, bottom: 300 },
+  topExtensions: { left: 425, right: 400, top: 250, bottom: 275 },
+  bars: [],
+};
+
+describe('Formula bindings', () => {
+  it('binds every cell and name only once', () => {
+    const cells = FORMULA_BINDINGS.map(binding => binding.cell);
+    const names = FORMULA_BINDINGS.map(binding => binding.name);
+    expect(new Set(cells).size).toBe(cells.length);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('converts standard block references to variable names', () => {
+    expect(toNamedFormula('=+C11-$G$4')).toBe('=+spanX-cover');
+    expect(toNamedFormula('=2*(C14-($G$4))')).toBe('=2*(beamWidthRight-(cover))');
+    expect(toNamedFormula('=D13+D14+K11')).toBe('=beamWidthTop+beamWidthBottom+topExtLeft');
+    expect(toNamedFormula('=J15+$H$3')).toBe('=a+ldDia12');
+    expect(toNamedFormula('=C9999')).toBe('=C9999');
+  });
+
+  it('converts variable names back to cells of a written block', () => {
+    const cells = { spanX: 'C20', cover: '$G$4', a: 'J24' };
+    expect(fromNamedFormula('=+spanX-cover', cells)).toBe('=+C20-$G$4');
+    expect(fromNamedFormula('=ROUNDUP(a/2,0)', cells)).toBe('=ROUNDUP(J24/2,0)');
+    expect(fromNamedFormula('=spanY+1', cells)).toBeNull();
+    expect(fromNamedFormula('=C9999', cells)).toBeNull();
+  });
+
+  it('resolves cells from the component and metadata', () => {
+    const sheet = buildBindingSheet({
+      component: slab,
+      diameter: 10,
+      metadata: {
+        projectName: 'P',
+        drawingNumber: 'D',
+        itemDescription: '',
+        concreteGrade: 'M25',
+        steelGrade: 'Fe500',
+        developmentLengthOverrides: { 12: 650 },
+      },
+    });
+    expect(sheet.C13).toBe(160);
+    expect(sheet.D14).toBe(300);
+    expect(sheet.N11).toBe(275);
+    expect(sheet.F15).toBe(10);
+    expect(sheet.H3).toBe(650);               // project override
+    expect(sheet.F3).toBe(resolveDevelopmentLength(8, { concreteGrade: 'M25', steelGrade: 'Fe500' }));
+  });
+
+  it('leaves undefined component values out of the sheet', () => {
+    const sheet = buildBindingSheet({ component: { ...slab, beamWidths: undefined }, diameter: 8 });
+    expect('C13' in sheet).toBe(false);
+    expect(sheet.C11).toBe(3160);
+  });
+
+  it('audits unknown names and unbound references', () => {
+    expect(auditNamedFormula('=+spanX-cover')).toMatchObject({
+      variables: ['spanX', 'cover'],
+      unboundReferences: [],
+      unknownNames: [],
+    });
+    const audit = auditNamedFormula('=spanZ+C9999');
+    expect(audit.unknownNames).toEqual(['spanZ']);
+    expect(audit.unboundReferences).toEqual(['C9999']);
+    expect(auditNamedFormula('=(spanX').parseError).toBeDefined();
+    expect(auditNamedFormula('=constructor+toString').unknownNames).toEqual(['constructor', 'toString']);
+  });
+});
+
+describe('Canonical named formulas', () => {
+  const bars = (canonicalFormulas as unknown as {
+    canonical_bars: { bar_type: string; formulas: Record<string, string | null>; named_formulas: Record<string, string | null> | null }[]
+  }).canonical_bars;
+
+  it('stored named formulas match the binding table', () => {
+    bars.forEach(bar => {
+      expect(bar.named_formulas, bar.bar_type).toEqual(buildNamedFormulas(bar.formulas));
+    });
+  });
+
+  it('named formulas only use known variable names and cells of their own row', () => {
+    bars.forEach(bar => {
+      Object.entries(bar.named_formulas ?? {}).forEach(([field, formula]) => {
+        if (!formula) return;
+        const audit = auditNamedFormula(formula);
+        expect(audit.parseError, `${bar.bar_type}: ${formula}`).toBeUndefined();
+        expect(audit.unknownNames, `${bar.bar_type}: ${formula}`).toEqual([]);
+        expect(audit.unboundReferences, `${bar.bar_type}: ${formula}`).toEqual([]);
+        expect(audit.variables, `${bar.bar_type}: ${formula}`).not.toContain(field);
+        audit.variables.forEach(name => expect(BINDING_NAMES).toHaveProperty(name));
+      });
+    });
+  });
+
+  it('leaves out bars whose formulas reference other components', () => {
+    const unplaced = bars.filter(bar => bar.named_formulas === null).map(bar => bar.bar_type);
+    expect(unplaced).toContain('Top Bar (X-X) Full Span');            // =J1060: another bar's length
+    expect(unplaced).toContain('Top MainBar (X-X) - A2 to B1');       // =C30+C23+D29: widths of other rows
+    expect(evaluateCanonicalFormulas('Top Bar (X-X) Full Span', slab, 8)).toBeNull();
+  });
+
+  it('uses beam widths rather than spans for the width fields', () => {
+    const evaluation = evaluateCanonicalFormulas('Bottom Bar (X-X)', slab, 8);
+    expect(evaluation?.errors).toEqual([]);
+    expect(evaluation?.measurements).toMatchObject({ a: 3160, b: 260, c: 340, f: 825 });
+  });
+});
@@ -1,4 +1,7 @@
 import * as fc from 'fast-check'
+import { resolveDevelopmentLength, type DevelopmentLengthContext } from '../lib/development-length'
+import { DEFAULT_LAP_SPLICE_RULES, getSpliceLapLength } from '../lib/lap-splice-planner'
+import type { ComponentBarEntry } from '../types/component-types'
 
 /**
  * Common arbitraries for property-based testing
@@ -61,3 +64,19 @@ export function runProperty<T>(
     verbose: true,
   })
 }
+
+/**
+ * Component calculator fixtures
+ */
+
+// Fe500 bars in M30 concrete
+export const ld: DevelopmentLengthContext = { concreteGrade: 'M30', steelGrade: 'Fe500' }
+
+// Lap length of a bar under the default splice rules
+export const lap = (diameter: number) =>
+  getSpliceLapLength(diameter, resolveDevelopmentLength(diameter, ld), DEFAULT_LAP_SPLICE_RULES)
+
+// Bar entry left for the calculators to measure and count
+export const barEntry = (barType: string, diameter: number, spacing: number): ComponentBarEntry => ({
+  id: barType, barType, direction: 'NONE', diameter, spacing, measurements: { a: 0 },
+})
@@ -86,4 +86,19 @@ describe('JSON Serializer', () => {
     expect(reSerialized.config.name).toBe(serialized.config.name);
     expect(reSerialized.bars).toEqual(serialized.bars);
   });
+
+  it('moves a legacy Ld table into the development length overrides', () => {
+    const serialized = serializeProject({
+      ...mockConfig,
+      bbsMetadata: {
+        projectName: 'P', drawingNumber: 'D', itemDescription: '', concreteGrade: 'M30', steelGrade: 'Fe550',
+        developmentLengths: { 8: 400, 12: 599 },
+        developmentLengthOverrides: { 12: 650 },
+      },
+    }, mockBars);
+    const { config } = deserializeProject(JSON.parse(JSON.stringify(serialized)));
+
+    expect(config.bbsMetadata?.developmentLengthOverrides).toEqual({ 8: 400, 12: 650 });
+    expect(config.bbsMetadata).not.toHaveProperty('developmentLengths');
+  });
 });
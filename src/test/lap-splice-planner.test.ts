@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  planLapSplices,
+  getSpliceZones,
+  getBarLayer,
+  getSpliceLapLength,
+  getSplicePieces,
+  DEFAULT_LAP_SPLICE_RULES
+} from '../lib/lap-splice-planner';
+import { calculateComponentBarEntry, getComponentCalculationSettings } from '../lib/component-calculator';
+import { cutRequirementsFromComponents } from '../lib/cutting-optimizer';
+import { codeProfileService } from '../services/code-profile-service';
+import { CODE_PROFILES } from '../lib/code-profiles';
+import type { BBSMetadata, ComponentBarEntry, ConcreteComponent } from '../types/component-types';
+
+const metadata: BBSMetadata = {
+  projectName: 'Splice Project', drawingNumber: 'D-01', itemDescription: 'Beam',
+  concreteGrade: 'M30', steelGrade: 'Fe500', developmentLengthOverrides: { 12: 600 }, standardBarLength: 12000,
+};
+
+const options = {
+  stockLength: 12000,
+  developmentLength: 600,
+  memberType: 'SLAB' as const,
+};
+
+describe('Lap Splice Planner', () => {
+  it('takes the greatest of the lap rules', () => {
+    expect(getSpliceLapLength(12, 600, DEFAULT_LAP_SPLICE_RULES)).toBe(600);
+    // 30φ governs over a short Ld
+    expect(getSpliceLapLength(16, 300, DEFAULT_LAP_SPLICE_RULES)).toBe(480);
+    // Minimum lap governs for small bars
+    expect(getSpliceLapLength(6, 100, DEFAULT_LAP_SPLICE_RULES)).toBe(200);
+  });
+
+  it('places laps away from the maximum-moment zones', () => {
+    expect(getBarLayer('Top Bar (X-X)')).toBe('TOP');
+    expect(getBarLayer('Bottom Bar (X-X)')).toBe('BOTTOM');
+    expect(getSpliceZones('BEAM', 'BOTTOM')).toEqual([{ start: 0, end: 0.25 }, { start: 0.75, end: 1 }]);
+    expect(getSpliceZones('BEAM', 'TOP')).toEqual([{ start: 0.25, end: 0.75 }]);
+    expect(getSpliceZones('COLUMN', 'BOTTOM')).toEqual([{ start: 0.25, end: 0.75 }]);
+  });
+
+  it('leaves bars within the stock length unspliced', () => {
+    const plan = planLapSplices(9000, 12, 4, 'Bottom Bar (X-X)', options);
+    expect(plan.laps).toBe(0);
+    expect(plan.totalLapLength).toBe(0);
+    expect(getSplicePieces(plan)).toEqual([{ length: 9000, quantity: 4 }]);
+  });
+
+  it('splits a long bottom bar with the lap near the support', () => {
+    const plan = planLapSplices(14000, 12, 1, 'Bottom Bar (X-X)', options);
+
+    expect(plan.lapLength).toBe(600);
+    expect(plan.laps).toBe(1);
+    expect(plan.groups[0].pieces).toEqual([12000, 2600]);
+    // Lap 11400–12000 lies in the last quarter (≥ 10500)
+    expect(plan.groups[0].lapCentres).toEqual([11700]);
+    expect(plan.warnings).toEqual([]);
+  });
+
+  it('laps column bars in the middle half', () => {
+    const plan = planLapSplices(14000, 12, 1, 'Main Bar', { ...options, memberType: 'COLUMN' });
+    expect(plan.groups[0].pieces).toEqual([10500, 4100]);
+    expect(plan.groups[0].inRestrictedZone).toBe(false);
+  });
+
+  it('staggers laps of adjacent bars', () => {
+    const plan = planLapSplices(14000, 12, 5, 'Bottom Bar (X-X)', options);
+
+    // 50 % spliced at a section → two groups, the second offset by 1.3 × lap
+    expect(plan.staggerDistance).toBe(780);
+    expect(plan.groups.map(group => group.quantity)).toEqual([3, 2]);
+    expect(plan.groups[1].pieces).toEqual([11220, 3380]);
+    expect(plan.groups[0].lapCentres[0] - plan.groups[1].lapCentres[0]).toBe(780);
+
+    const pieces = getSplicePieces(plan);
+    expect(pieces.reduce((sum, piece) => sum + piece.length * piece.quantity, 0)).toBe(5 * 14600);
+  });
+
+  it('warns when no lap position avoids the maximum-moment zone', () => {
+    const plan = planLapSplices(30000, 12, 1, 'Bottom Bar (X-X)', options);
+    expect(plan.laps).toBe(2);
+    expect(plan.warnings[0]).toContain('maximum-moment zone');
+  });
+
+  it('leaves the bar unspliced with a warning when the stock is too short for the lap', () => {
+    const plan = planLapSplices(14000, 12, 1, 'Main Bar', { ...options, stockLength: 1000 });
+    expect(plan.laps).toBe(0);
+    expect(plan.groups[0].pieces).toEqual([14000]);
+    expect(plan.warnings[0]).toContain('too short');
+
+    const settings = getComponentCalculationSettings(
+      { ...metadata, splicePlanning: true, standardBarLength: 1000 },
+      CODE_PROFILES.IS456
+    );
+    const bar: ComponentBarEntry = {
+      id: 'long', barType: 'Main Bar', direction: 'X', diameter: 12, spacing: 0,
+      totalMembers: 1, measurements: { a: 14000 },
+    };
+    expect(calculateComponentBarEntry(bar, 0, 25, settings, false, 'BEAM').splices?.warnings[0]).toContain('too short');
+  });
+
+  it('feeds the planned lap into the BBS cut length and the cutting plan', () => {
+    const bar: ComponentBarEntry = {
+      id: 'long', barType: 'Main Bar', direction: 'X', diameter: 12, spacing: 0,
+      totalMembers: 4, measurements: { a: 14000 },
+    };
+    const settings = getComponentCalculationSettings(
+      { ...metadata, splicePlanning: true },
+      CODE_PROFILES.IS456
+    );
+    const result = calculateComponentBarEntry(bar, 0, 25, settings, false, 'BEAM');
+
+    expect(result.splices?.laps).toBe(1);
+    expect(result.cuttingLength).toBe(14600 - result.deductionAmount);
+    expect(result.totalWeight).toBeCloseTo((result.cuttingLength * 4 / 1000) * result.unitWeight, 6);
+
+    const component: ConcreteComponent = {
+      id: 'b1', name: 'B1', componentType: 'BEAM', spanX: 14000, spanY: 300, cover: 25,
+      bars: [{ ...bar, calculated: result }],
+    };
+    const requirements = cutRequirementsFromComponents([component]);
+    expect(requirements.every(req => req.length <= 12000)).toBe(true);
+    expect(requirements.reduce((sum, req) => sum + req.length * req.quantity, 0))
+      .toBeCloseTo(result.cuttingLength * 4, 6);
+  });
+
+  it('keeps the Excel lap when splice planning is off', () => {
+    const settings = getComponentCalculationSettings(metadata, CODE_PROFILES.IS456);
+    expect(settings.lapSplice).toBeUndefined();
+  });
+
+  it('validates lap splice rules of a profile', () => {
+    const validation = codeProfileService.validateProfile({
+      ...CODE_PROFILES.CUSTOM,
+      lapSplice: { ...DEFAULT_LAP_SPLICE_RULES, lapFactor: 3, maxBarsSplicedPercent: 0 },
+    });
+    expect(validation.valid).toBe(false);
+    expect(validation.errors.length).toBeGreaterThanOrEqual(2);
+  });
+});
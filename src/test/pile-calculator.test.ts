@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePileBarCount,
+  calculatePileBarMeasurements,
+  isPileFooting
+} from '../lib/pile-calculator';
+import {
+  calculateBarMeasurementsAuto,
+  calculateBarsPerMember,
+  calculateComponentBarEntryEnhanced
+} from '../lib/enhanced-calculator';
+import { resolveDevelopmentLength } from '../lib/development-length';
+import type { ConcreteComponent } from '../types/component-types';
+import { barEntry, ld } from './helpers';
+
+const cap: ConcreteComponent = {
+  id: 'pc1', name: 'PC1', componentType: 'FOOTING', footingType: 'PILE_CYLINDER',
+  spanX: 2400, spanY: 1200, depth: 900, cover: 50, bars: [],
+  pile: { diameter: 600, length: 12000, count: 2, embedment: 75 },
+};
+
+describe('Pile Calculator', () => {
+  it('only applies to pile footings', () => {
+    expect(isPileFooting(cap)).toBe(true);
+    expect(isPileFooting({ ...cap, footingType: 'ISOLATED' })).toBe(false);
+    expect(calculateBarMeasurementsAuto('Bottom Main (L)', 'X', { ...cap, footingType: 'ISOLATED' }, 12, ld).a)
+      .toBe(2400 + 2 * resolveDevelopmentLength(12, ld));
+  });
+
+  it('anchors main bars into the cap and counts them for every pile', () => {
+    // 900 - 75 - 50 = 775mm above the pile head
+    const ld16 = resolveDevelopmentLength(16, ld);
+    expect(calculatePileBarMeasurements('Pile Main Bar', cap, 16, 150, ld)).toEqual(
+      ld16 <= 775
+        ? { a: Math.ceil(12000 - 50 + 75 + ld16) }
+        : { a: 12000 - 50 + 75 + 775, b: Math.ceil(Math.max(ld16 - 775, 192)) }
+    );
+
+    const ld25 = resolveDevelopmentLength(25, ld);
+    expect(ld25).toBeGreaterThan(775);
+    expect(calculatePileBarMeasurements('Pile Main Bar', cap, 25, 150, ld)).toEqual({
+      a: 12000 - 50 + 75 + 775,
+      b: Math.ceil(ld25 - 775),
+    });
+
+    // π × 500 / 150 = 10.5 → 11 bars per pile
+    expect(calculatePileBarCount('Pile Main Bar', cap, 150)).toBe(22);
+    expect(calculatePileBarCount('Pile Main Bar', cap, 400)).toBe(12);
+    expect(calculatePileBarCount('Pile Main Bar', { ...cap, footingType: 'PILE_CUBOID' }, 150)).toBe(2 * 4 * 4);
+  });
+
+  it('lays out helical links, hoops and stiffener rings along the pile', () => {
+    // Helix: 12000 / 150 + 3 turns round a 500 - 8 centreline
+    const helix = calculatePileBarMeasurements('Pile Helical Link', cap, 8, 150, ld)!;
+    expect(helix.a).toBe(Math.round(83 * Math.hypot(Math.PI * 492, 150)));
+    expect(calculatePileBarCount('Pile Helical Link', cap, 150)).toBe(2);
+
+    expect(calculatePileBarCount('Pile Link', cap, 150)).toBe(2 * 80);
+    expect(calculatePileBarMeasurements('Pile Stiffener Ring', cap, 16, 2000, ld)).toEqual({
+      a: Math.round(Math.PI * 468),
+      lap: 160,
+    });
+    expect(calculatePileBarCount('Pile Stiffener Ring', cap, 2000)).toBe(12);
+  });
+
+  it('bends the cap bottom mesh up and wraps the sides', () => {
+    expect(calculatePileBarMeasurements('Cap Bottom Main (L)', cap, 16, 150, ld)).toEqual({ a: 2300, b: 800, c: 800 });
+    expect(calculatePileBarMeasurements('Cap Bottom Main (B)', cap, 16, 150, ld)).toMatchObject({ a: 1100 });
+    expect(calculatePileBarMeasurements('Cap Side Face Bar', cap, 12, 200, ld)!.a).toBe(2 * 2300 + 2 * 1100);
+    expect(calculatePileBarCount('Cap Side Face Bar', cap, 200)).toBe(4);
+  });
+
+  it('bends the whole anchorage over when the cap is too shallow above the pile head', () => {
+    // 100 - 75 embedment - 50 cover: no room for a straight anchorage
+    const shallow = { ...cap, depth: 100 };
+    const ld16 = resolveDevelopmentLength(16, ld);
+    expect(calculatePileBarMeasurements('Pile Main Bar', shallow, 16, 150, ld))
+      .toEqual({ a: 12000 - 50 + 75, b: Math.ceil(ld16) });
+
+    const main = calculateComponentBarEntryEnhanced(barEntry('Pile Main Bar', 16, 150), shallow, ld);
+    expect(main.noOfDeductions).toBe(1);
+    expect(main.cuttingLength).toBe(12025 + Math.ceil(ld16) - 32);
+    expect(main.noOfBars).toBe(22);
+
+    // Bottom mesh legs and side face bars have no depth left to take up
+    expect(calculatePileBarMeasurements('Cap Bottom Main (L)', shallow, 16, 150, ld)).toEqual({ a: 2300, b: 0, c: 0 });
+    expect(calculateBarsPerMember('Cap Side Face Bar', 'NONE', shallow, 200)).toBe(0);
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  recordCommand,
+  undo,
+  redo,
+  jumpTo,
+  trimHistory,
+  describeBarChange,
+  describeComponentChange,
+  EMPTY_HISTORY,
+  type ProjectHistory,
+  type ProjectState
+} from '../lib/project-history';
+import { saveHistoryToLocalStorage, loadHistoryFromLocalStorage } from '../lib/local-storage';
+import type { BarEntry, ProjectConfig } from '../types';
+import type { ConcreteComponent } from '../types/component-types';
+
+const config: ProjectConfig = {
+  id: 'history-project', name: 'History Project', codeStandard: 'IS', defaultCover: 25,
+  defaultHookMultiplier: 9, bendDeductions: { deg45: 1, deg90: 2, deg135: 3 },
+  calculationMode: 'COMPONENT', createdAt: new Date('2024-01-01T10:00:00Z'), updatedAt: new Date('2024-01-02T10:00:00Z'),
+};
+
+const bar = (id: string, diameter = 12): BarEntry => ({
+  id, memberType: 'BEAM', shapeCode: 'S1', diameter, dimensions: { A: 1000 }, spacing: 150, quantity: 4,
+});
+
+const component = (id: string, name: string, barCount: number): ConcreteComponent => ({
+  id, name, componentType: 'SLAB', spanX: 3000, spanY: 3000, cover: 20,
+  bars: Array.from({ length: barCount }, (_, index) => ({
+    id: `${id}-bar-${index}`, barType: 'Bottom Bar (X-X)', direction: 'X' as const, diameter: 8, spacing: 150,
+    measurements: { a: 3000 },
+  })),
+});
+
+/** Apply an edit the way the hook does and record it */
+function edit(
+  history: ProjectHistory,
+  state: ProjectState,
+  changes: Partial<ProjectState>,
+  timestamp: number
+): { history: ProjectHistory; state: ProjectState } {
+  const after = { ...state, ...changes };
+  const change = changes.bars
+    ? describeBarChange(state.bars, after.bars)
+    : describeComponentChange(state.config.components || [], after.config.components || []);
+  const before: Partial<ProjectState> = {};
+  if (changes.bars) before.bars = state.bars;
+  if (changes.config) before.config = state.config;
+  return { history: recordCommand(history, change, before, changes, timestamp), state: after };
+}
+
+describe('Project History', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('describes bar and component edits', () => {
+    expect(describeBarChange([], [bar('b1')])).toMatchObject({ type: 'ADD', label: 'Add beam bar S1 Ø12' });
+    const [b1, b2] = [bar('b1'), bar('b2')];
+    expect(describeBarChange([b1, b2], [b2]).type).toBe('DELETE');
+    expect(describeBarChange([b1, b2], [b2, b1]).type).toBe('REORDER');
+    expect(describeBarChange([bar('b1')], [bar('b1', 16)])).toMatchObject({ type: 'UPDATE', mergeKey: 'bar:b1' });
+
+    const slab = component('c3', 'C3', 40);
+    expect(describeComponentChange([slab], [])).toMatchObject({
+      type: 'DELETE',
+      label: 'Delete component C3 (40 bars)',
+    });
+    expect(describeComponentChange([slab], [{ ...slab, bars: slab.bars.slice(1) }]).label)
+      .toBe('Delete Bottom Bar (X-X) from C3');
+    expect(describeComponentChange([slab], [{ ...slab, spanX: 3500 }]).mergeKey).toBe('component:c3');
+  });
+
+  it('undoes and redoes a deleted component', () => {
+    const slab = component('c3', 'C3', 40);
+    let state: ProjectState = { config: { ...config, components: [slab] }, bars: [] };
+    let history = EMPTY_HISTORY;
+    ({ history, state } = edit(history, state, { config: { ...state.config, components: [] } }, 1000));
+
+    const undone = undo(history, state)!;
+    expect(undone.state.config.components).toEqual([slab]);
+    expect(undone.history.future).toHaveLength(1);
+
+    const redone = redo(undone.history, undone.state)!;
+    expect(redone.state.config.components).toEqual([]);
+    expect(redo(redone.history, redone.state)).toBeNull();
+  });
+
+  it('merges quick edits of the same item into one step', () => {
+    let state: ProjectState = { config, bars: [bar('b1')] };
+    let history = EMPTY_HISTORY;
+    ({ history, state } = edit(history, state, { bars: [bar('b1', 16)] }, 1000));
+    ({ history, state } = edit(history, state, { bars: [bar('b1', 20)] }, 1500));
+    expect(history.past).toHaveLength(1);
+
+    // A later edit is a new step
+    ({ history, state } = edit(history, state, { bars: [bar('b1', 25)] }, 5000));
+    expect(history.past).toHaveLength(2);
+
+    const first = undo(history, state)!;
+    const second = undo(first.history, first.state)!;
+    expect(second.state.bars[0].diameter).toBe(12);
+  });
+
+  it('drops redo steps after a new edit and keeps the last N steps', () => {
+    let state: ProjectState = { config, bars: [] };
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 5; i++) {
+      ({ history, state } = edit(history, state, { bars: [...state.bars, bar(`b${i}`)] }, i * 10000));
+    }
+    const undone = undo(history, state)!;
+    const next = edit(undone.history, undone.state, { bars: [] }, 100000);
+    expect(next.history.future).toEqual([]);
+
+    const limited = recordCommand(history, { type: 'ADD', label: 'Add' }, { bars: [] }, { bars: [] }, 200000, 3);
+    expect(limited.past).toHaveLength(3);
+    expect(trimHistory({ past: history.past, future: [] }, 2).past).toEqual(history.past.slice(-2));
+  });
+
+  it('trims saved history to the storage size, oldest steps first', () => {
+    let state: ProjectState = { config, bars: [] };
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 6; i++) {
+      ({ history, state } = edit(history, state, { bars: [...state.bars, bar(`b${i}`)] }, i * 10000));
+    }
+    history = undo(history, state)!.history;
+
+    const size = (h: ProjectHistory) => [...h.past, ...h.future].reduce((total, c) => total + JSON.stringify(c).length + 1, 0);
+    const trimmed = trimHistory(history, 50, size(history) - 1);
+    expect(trimmed.past).toEqual(history.past.slice(1));
+    expect(trimmed.future).toEqual(history.future);
+
+    // Redo steps go once no undo step is left
+    expect(trimHistory(history, 50, size({ past: [], future: history.future }) - 1)).toEqual(EMPTY_HISTORY);
+  });
+
+  it('reports and clears the saved history when storage is full', () => {
+    const key = `bbs_history_${config.id}`;
+    localStorage.setItem(key, JSON.stringify(EMPTY_HISTORY));
+    const setItem = Storage.prototype.setItem;
+    const spy = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, name, value) {
+      if (name === key) throw new Error('QuotaExceededError');
+      setItem.call(this, name, value);
+    });
+    try {
+      const result = saveHistoryToLocalStorage(config.id, EMPTY_HISTORY);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('QuotaExceededError');
+    } finally {
+      spy.mockRestore();
+    }
+    expect(localStorage.getItem(key)).toBeNull();
+  });
+
+  it('jumps to a step in the history panel', () => {
+    let state: ProjectState = { config, bars: [] };
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 3; i++) {
+      ({ history, state } = edit(history, state, { bars: [...state.bars, bar(`b${i}`)] }, i * 10000));
+    }
+
+    const start = jumpTo(history, state, null);
+    expect(start.state.bars).toEqual([]);
+    expect(start.history.future).toHaveLength(3);
+
+    const middle = jumpTo(start.history, start.state, history.past[1].id);
+    expect(middle.state.bars.map(item => item.id)).toEqual(['b0', 'b1']);
+  });
+
+  it('persists history with the project', () => {
+    let state: ProjectState = { config: { ...config, components: [component('c1', 'C1', 2)] }, bars: [] };
+    let history = EMPTY_HISTORY;
+    ({ history, state } = edit(history, state, { config: { ...state.config, components: [] } }, 1000));
+
+    expect(saveHistoryToLocalStorage(config.id, history).success).toBe(true);
+    const loaded = loadHistoryFromLocalStorage(config.id);
+    expect(loaded.success).toBe(true);
+    expect(loaded.data!.past[0].label).toBe('Delete component C1 (2 bars)');
+    expect(loaded.data!.past[0].before.config!.createdAt).toBeInstanceOf(Date);
+
+    const undone = undo(loaded.data!, state)!;
+    expect(undone.state.config.components).toHaveLength(1);
+
+    localStorage.setItem(`bbs_history_${config.id}`, '{"past": 1}');
+    expect(loadHistoryFromLocalStorage(config.id).data).toEqual(EMPTY_HISTORY);
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createRevisionSnapshot,
+  diffRevisions,
+  getNextRevisionName,
+  getRevisionGroups
+} from '../lib/project-revisions';
+import { saveRevisionsToLocalStorage, loadRevisionsFromLocalStorage } from '../lib/local-storage';
+import { ExcelExporter } from '../lib/excel-exporter';
+import type { BarEntry, ProjectConfig } from '../types';
+import type { BBSMetadata, ComponentBarEntry, ConcreteComponent } from '../types/component-types';
+
+const metadata: BBSMetadata = {
+  projectName: 'Revision Project', drawingNumber: 'S-101', itemDescription: 'Slabs',
+  concreteGrade: 'M30', steelGrade: 'Fe500',
+};
+
+const config: ProjectConfig = {
+  id: 'revision-project', name: 'Revision Project', codeStandard: 'IS', defaultCover: 25,
+  defaultHookMultiplier: 9, bendDeductions: { deg45: 1, deg90: 2, deg135: 3 },
+  calculationMode: 'COMPONENT', bbsMetadata: metadata,
+  createdAt: new Date('2024-01-01T10:00:00Z'), updatedAt: new Date('2024-01-02T10:00:00Z'),
+};
+
+const slabBar = (id: string, barType: string, diameter = 10, spacing = 150): ComponentBarEntry => ({
+  id, barType, direction: 'X', diameter, spacing, measurements: { a: 3000 },
+});
+
+const slab = (id: string, name: string, bars: ComponentBarEntry[]): ConcreteComponent => ({
+  id, name, componentType: 'SLAB', spanX: 3000, spanY: 3000, cover: 20, bars,
+});
+
+const manualBar = (id: string, diameter = 12, quantity = 4): BarEntry => ({
+  id, memberType: 'BEAM', shapeCode: 'S1', diameter, dimensions: { A: 3000 }, spacing: 0, quantity,
+});
+
+const revision = (name: string, components: ConcreteComponent[]) =>
+  createRevisionSnapshot({ ...config, components }, [], name);
+
+describe('Project Revisions', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('names revisions R0, R1, R2', () => {
+    expect(getNextRevisionName([])).toBe('R0');
+    const r0 = revision('R0', []);
+    expect(getNextRevisionName([r0])).toBe('R1');
+    expect(getNextRevisionName([r0, revision('R4', [])])).toBe('R5');
+    expect(getNextRevisionName([revision('Tender', [])])).toBe('R1');
+  });
+
+  it('snapshots are not affected by later edits', () => {
+    const components = [slab('c1', 'S1', [slabBar('b1', 'Bottom Bar (X-X)')])];
+    const snapshot = createRevisionSnapshot({ ...config, components }, [], ' R0 ', '  Issued for construction ');
+    components[0].bars[0].diameter = 16;
+
+    expect(snapshot.name).toBe('R0');
+    expect(snapshot.note).toBe('Issued for construction');
+    expect(snapshot.config.components![0].bars[0].diameter).toBe(10);
+    expect(snapshot.config.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('diffs components and bars as added, removed and changed', () => {
+    const r0 = revision('R0', [
+      slab('c1', 'S1', [slabBar('b1', 'Bottom Bar (X-X)'), slabBar('b2', 'Top Bar')]),
+      slab('c2', 'S2', [slabBar('b3', 'Bottom Bar (X-X)')]),
+    ]);
+    const r1 = revision('R1', [
+      slab('c1', 'S1', [slabBar('b1', 'Bottom Bar (X-X)', 12), slabBar('b4', 'Distribution Bar', 8)]),
+      slab('c3', 'S3', [slabBar('b5', 'Bottom Bar (X-X)')]),
+    ]);
+
+    const diff = diffRevisions(r0, r1);
+    const byName = Object.fromEntries(diff.components.map(component => [component.name, component]));
+    expect(byName.S1.type).toBe('CHANGED');
+    expect(byName.S2.type).toBe('REMOVED');
+    expect(byName.S3.type).toBe('ADDED');
+
+    const bars = Object.fromEntries(byName.S1.bars.map(bar => [bar.label, bar]));
+    expect(bars['Bottom Bar (X-X)'].type).toBe('CHANGED');
+    expect(bars['Bottom Bar (X-X)'].changes).toContain('diameter');
+    expect(bars['Top Bar'].type).toBe('REMOVED');
+    expect(bars['Distribution Bar'].type).toBe('ADDED');
+  });
+
+  it('matches components by name and bars by type when ids differ', () => {
+    const r0 = revision('R0', [slab('c1', 'S1', [slabBar('b1', 'Bottom Bar (X-X)', 10, 150)])]);
+    const r1 = revision('R1', [slab('c9', 'S1', [slabBar('b9', 'Bottom Bar (X-X)', 10, 100)])]);
+
+    const [component] = diffRevisions(r0, r1).components;
+    expect(component.type).toBe('CHANGED');
+    expect(component.bars).toHaveLength(1);
+    expect(component.bars[0].changes).toEqual(['quantity']);
+    expect(component.bars[0].weightDelta).toBeGreaterThan(0);
+  });
+
+  it('nets the weight change per diameter', () => {
+    const r0 = revision('R0', [slab('c1', 'S1', [slabBar('b1', 'Bottom Bar (X-X)', 10)])]);
+    const r1 = revision('R1', [slab('c1', 'S1', [slabBar('b1', 'Bottom Bar (X-X)', 12)])]);
+    const [before] = getRevisionGroups(r0);
+    const [after] = getRevisionGroups(r1);
+
+    const diff = diffRevisions(r0, r1);
+    expect(diff.diameters.map(item => item.diameter)).toEqual([10, 12]);
+    expect(diff.diameters[0].delta).toBeCloseTo(-before.bars[0].weight, 6);
+    expect(diff.diameters[1].delta).toBeCloseTo(after.bars[0].weight, 6);
+    expect(diff.totalDelta).toBeCloseTo(after.bars[0].weight - before.bars[0].weight, 6);
+    expect(diffRevisions(r0, r0).totalDelta).toBe(0);
+  });
+
+  it('diffs manual-mode bars grouped by member type', () => {
+    const manual = { ...config, calculationMode: 'MANUAL' as const };
+    const r0 = createRevisionSnapshot(manual, [manualBar('m1'), manualBar('m2')], 'R0');
+    const r1 = createRevisionSnapshot(manual, [manualBar('m1', 12, 6)], 'R1');
+
+    const [beams] = diffRevisions(r0, r1).components;
+    expect(beams.name).toBe('Beams');
+    expect(beams.bars.map(bar => bar.type)).toEqual(['CHANGED', 'REMOVED']);
+    expect(beams.bars[0].changes).toEqual(['quantity']);
+  });
+
+  it('persists revisions with the project', () => {
+    const r0 = revision('R0', [slab('c1', 'S1', [slabBar('b1', 'Bottom Bar (X-X)')])]);
+    expect(saveRevisionsToLocalStorage(config.id, [r0]).success).toBe(true);
+
+    const loaded = loadRevisionsFromLocalStorage(config.id);
+    expect(loaded.success).toBe(true);
+    expect(loaded.data![0].name).toBe('R0');
+    expect(loaded.data![0].config.updatedAt).toBeInstanceOf(Date);
+    expect(loadRevisionsFromLocalStorage('other-project').data).toEqual([]);
+
+    localStorage.setItem(`bbs_revisions_${config.id}`, '{"not": "a list"}');
+    expect(loadRevisionsFromLocalStorage(config.id).success).toBe(false);
+  });
+
+  it('exports the revision sheet', () => {
+    const r0 = revision('R0', [slab('c1', 'S1', [slabBar('b1', 'Bottom Bar (X-X)')])]);
+    const r1 = revision('R1', [slab('c1', 'S1', [slabBar('b1', 'Bottom Bar (X-X)', 12)])]);
+    const workbook = ExcelExporter.createRevisionDiffWorkbook(config, diffRevisions(r0, r1));
+
+    const worksheet = workbook.getWorksheet('Revision R0 to R1')!;
+    expect(worksheet).toBeDefined();
+    const values = worksheet.getSheetValues().flat().filter(value => value !== undefined && value !== null);
+    expect(values.some(value => typeof value === 'string' && /^Changed .*diameter/.test(value))).toBe(true);
+    expect(values).toContain('TOTAL');
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { mergeSyncState, planSync, resolveConflict, syncProjects, EMPTY_SYNC_STATE, type SyncState } from '../lib/project-sync';
+import { createSupabaseProjectStorage, localProjectStorage } from '../lib/project-storage';
+import {
+  deleteFromLocalStorage,
+  loadFromLocalStorage,
+  loadHistoryFromLocalStorage,
+  loadSyncState,
+  saveHistoryToLocalStorage,
+  saveSyncState,
+  saveToLocalStorage
+} from '../lib/local-storage';
+import { EMPTY_HISTORY, recordCommand } from '../lib/project-history';
+import { serializeProject, type SerializedProject } from '../lib/json-serializer';
+import type { BarEntry, ProjectConfig } from '../types';
+
+interface Row {
+  id: string;
+  name: string;
+  updated_at: string;
+  data: SerializedProject;
+}
+
+/** In-memory stand-in for the Supabase query builder calls the storage makes */
+function createFakeClient(options: { offline?: boolean } = {}) {
+  const rows = new Map<string, Row>();
+  const failure = { data: null, error: { message: 'Failed to fetch' } };
+
+  const client = {
+    from: () => ({
+      select: () => ({
+        then: (resolve: (value: unknown) => void) => resolve(options.offline ? failure : {
+          data: [...rows.values()].map(({ id, name, updated_at }) => ({ id, name, updated_at })),
+          error: null,
+        }),
+        eq: (_column: string, id: string) => ({
+          maybeSingle: async () => options.offline ? failure : {
+            data: rows.has(id) ? { data: rows.get(id)!.data } : null,
+            error: null,
+          },
+        }),
+      }),
+      upsert: async (row: Row) => {
+        if (options.offline) return failure;
+        rows.set(row.id, JSON.parse(JSON.stringify(row)));
+        return { error: null };
+      },
+      delete: () => ({
+        eq: async (_column: string, id: string) => {
+          if (options.offline) return failure;
+          rows.delete(id);
+          return { error: null };
+        },
+      }),
+    }),
+  };
+
+  return { client: client as unknown as SupabaseClient, rows };
+}
+
+const config = (id: string, updatedAt: string, name = `Project ${id}`): ProjectConfig => ({
+  id, name, codeStandard: 'IS', defaultCover: 25, defaultHookMultiplier: 9,
+  bendDeductions: { deg45: 1, deg90: 2, deg135: 3 }, calculationMode: 'MANUAL',
+  createdAt: new Date('2024-01-01T00:00:00Z'), updatedAt: new Date(updatedAt),
+});
+
+const bars = (quantity: number): BarEntry[] => [{
+  id: 'b1', memberType: 'BEAM', shapeCode: 'S1', diameter: 12, dimensions: { A: 3000 }, spacing: 0, quantity,
+}];
+
+const remoteRow = (project: ProjectConfig, projectBars: BarEntry[]): Row => ({
+  id: project.id,
+  name: project.name,
+  updated_at: project.updatedAt.toISOString(),
+  data: serializeProject(project, projectBars),
+});
+
+const T1 = '2024-03-01T10:00:00.000Z';
+const T2 = '2024-03-02T10:00:00.000Z';
+const T3 = '2024-03-03T10:00:00.000Z';
+
+describe('Project Sync', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('plans pushes, pulls and conflicts from updatedAt', () => {
+    const state: SyncState = {
+      projects: { a: { syncedAt: T1 }, b: { syncedAt: T1 }, c: { syncedAt: T1 }, d: { syncedAt: T1 } },
+      pendingDeletes: [],
+    };
+    const local = [
+      { id: 'a', name: 'A', updatedAt: T2 },   // edited here
+      { id: 'b', name: 'B', updatedAt: T1 },   // edited in the cloud
+      { id: 'c', name: 'C', updatedAt: T2 },   // edited on both
+      { id: 'd', name: 'D', updatedAt: T1 },   // unchanged
+      { id: 'e', name: 'E', updatedAt: T1 },   // new here
+    ];
+    const remote = [
+      { id: 'a', name: 'A', updatedAt: T1 },
+      { id: 'b', name: 'B', updatedAt: '2024-03-02T10:00:00+00:00' },
+      { id: 'c', name: 'C', updatedAt: T3 },
+      { id: 'd', name: 'D', updatedAt: T1 },
+      { id: 'f', name: 'F', updatedAt: T1 },   // new in the cloud
+    ];
+
+    const actions = Object.fromEntries(planSync(local, remote, state).map(action => [
+      action.type === 'CONFLICT' ? action.conflict.projectId : action.projectId,
+      action.type,
+    ]));
+    expect(actions).toEqual({ a: 'PUSH', b: 'PULL', c: 'CONFLICT', d: 'IN_SYNC', e: 'PUSH', f: 'PULL' });
+
+    // Never synced and different on each side
+    expect(planSync([{ id: 'x', name: 'X', updatedAt: T1 }], [{ id: 'x', name: 'X', updatedAt: T2 }], EMPTY_SYNC_STATE)[0].type)
+      .toBe('CONFLICT');
+  });
+
+  it('pushes local projects and pulls cloud projects', async () => {
+    const { client, rows } = createFakeClient();
+    const remote = createSupabaseProjectStorage(client);
+    saveToLocalStorage(config('local', T1), bars(4));
+    rows.set('cloud', remoteRow(config('cloud', T2), bars(6)));
+
+    const result = await syncProjects(localProjectStorage, remote, EMPTY_SYNC_STATE);
+    expect(result.success).toBe(true);
+    expect(result.data!.pushed).toEqual(['local']);
+    expect(result.data!.pulled).toEqual(['cloud']);
+    expect(rows.get('local')!.updated_at).toBe(T1);
+
+    const pulled = loadFromLocalStorage('cloud');
+    expect(pulled.data!.bars[0].quantity).toBe(6);
+    expect(pulled.data!.config.updatedAt.toISOString()).toBe(T2);
+
+    // A second sync finds nothing to do
+    const again = await syncProjects(localProjectStorage, remote, result.data!.state);
+    expect(again.data!.pushed).toEqual([]);
+    expect(again.data!.pulled).toEqual([]);
+  });
+
+  it('reports a conflict and resolves it by keeping one side', async () => {
+    const { client, rows } = createFakeClient();
+    const remote = createSupabaseProjectStorage(client);
+    saveToLocalStorage(config('p1', T2), bars(8));
+    rows.set('p1', remoteRow(config('p1', T3), bars(10)));
+    const state: SyncState = { projects: { p1: { syncedAt: T1 } }, pendingDeletes: [] };
+
+    const result = await syncProjects(localProjectStorage, remote, state);
+    expect(result.data!.conflicts).toEqual([
+      { projectId: 'p1', name: 'Project p1', localUpdatedAt: T2, remoteUpdatedAt: T3 },
+    ]);
+    // Neither side is touched until the user decides
+    expect(loadFromLocalStorage('p1').data!.bars[0].quantity).toBe(8);
+    expect(rows.get('p1')!.data.bars[0].quantity).toBe(10);
+
+    const keptCloud = await resolveConflict(result.data!.conflicts[0], 'remote', localProjectStorage, remote, state);
+    expect(keptCloud.data!.projects.p1.syncedAt).toBe(T3);
+    expect(loadFromLocalStorage('p1').data!.bars[0].quantity).toBe(10);
+
+    saveToLocalStorage(config('p1', T2), bars(8));
+    const keptLocal = await resolveConflict(result.data!.conflicts[0], 'local', localProjectStorage, remote, state);
+    expect(keptLocal.success).toBe(true);
+    expect(rows.get('p1')!.data.bars[0].quantity).toBe(8);
+  });
+
+  it('drops the undo history of projects replaced by the cloud copy', async () => {
+    const { client, rows } = createFakeClient();
+    const remote = createSupabaseProjectStorage(client);
+    const history = recordCommand(EMPTY_HISTORY, { type: 'UPDATE', label: 'Edit bar' }, { bars: bars(4) }, { bars: bars(5) });
+
+    // Pulled: the cloud copy is newer than the last sync
+    saveToLocalStorage(config('pulled', T1), bars(5));
+    saveHistoryToLocalStorage('pulled', history);
+    rows.set('pulled', remoteRow(config('pulled', T2), bars(6)));
+
+    // Conflict settled by keeping the cloud copy
+    saveToLocalStorage(config('conflict', T2), bars(5));
+    saveHistoryToLocalStorage('conflict', history);
+    rows.set('conflict', remoteRow(config('conflict', T3), bars(7)));
+
+    const state: SyncState = { projects: { pulled: { syncedAt: T1 }, conflict: { syncedAt: T1 } }, pendingDeletes: [] };
+    const result = await syncProjects(localProjectStorage, remote, state);
+    expect(result.data!.pulled).toEqual(['pulled']);
+    expect(loadHistoryFromLocalStorage('pulled').data).toEqual(EMPTY_HISTORY);
+    expect(loadHistoryFromLocalStorage('conflict').data!.past).toHaveLength(1);
+
+    await resolveConflict(result.data!.conflicts[0], 'remote', localProjectStorage, remote, state);
+    expect(loadHistoryFromLocalStorage('conflict').data).toEqual(EMPTY_HISTORY);
+  });
+
+  it('syncs deletes made on either side', async () => {
+    const { client, rows } = createFakeClient();
+    const remote = createSupabaseProjectStorage(client);
+    saveToLocalStorage(config('p1', T1), bars(4));
+    saveToLocalStorage(config('p2', T1), bars(4));
+
+    const first = await syncProjects(localProjectStorage, remote, EMPTY_SYNC_STATE);
+    saveSyncState(first.data!.state);
+
+    // Deleted here: queued, then deleted in the cloud
+    deleteFromLocalStorage('p1');
+    expect(loadSyncState().data!.pendingDeletes).toEqual(['p1']);
+    // Deleted in the cloud while unchanged here
+    rows.delete('p2');
+
+    const second = await syncProjects(localProjectStorage, remote, loadSyncState().data!);
+    expect(second.data!.deleted.sort()).toEqual(['p1', 'p2']);
+    expect(rows.has('p1')).toBe(false);
+    expect(loadFromLocalStorage('p2').success).toBe(false);
+    expect(second.data!.state).toEqual(EMPTY_SYNC_STATE);
+  });
+
+  it('keeps deletes queued while a sync was running', async () => {
+    const { client, rows } = createFakeClient();
+    const remote = createSupabaseProjectStorage(client);
+    saveToLocalStorage(config('p1', T1), bars(4));
+    saveToLocalStorage(config('p2', T1), bars(4));
+    saveSyncState((await syncProjects(localProjectStorage, remote, EMPTY_SYNC_STATE)).data!.state);
+
+    const started = loadSyncState().data!;
+    const running = syncProjects(localProjectStorage, remote, started);
+    deleteFromLocalStorage('p1');
+    const synced = (await running).data!.state;
+
+    const merged = mergeSyncState(started, synced, loadSyncState().data!);
+    expect(merged.pendingDeletes).toEqual(['p1']);
+    expect(merged.projects.p1).toBeUndefined();
+    expect(merged.projects.p2).toEqual({ syncedAt: T1 });
+
+    saveSyncState(merged);
+    await syncProjects(localProjectStorage, remote, loadSyncState().data!);
+    expect(rows.has('p1')).toBe(false);
+  });
+
+  it('keeps working locally when the cloud is unreachable', async () => {
+    const { client } = createFakeClient({ offline: true });
+    saveToLocalStorage(config('p1', T1), bars(4));
+
+    const result = await syncProjects(localProjectStorage, createSupabaseProjectStorage(client), EMPTY_SYNC_STATE);
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Failed to fetch');
+    expect(loadFromLocalStorage('p1').success).toBe(true);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { encodeQrCode, getErrorCorrectionCodewords, getFormatBits, getQrCodePath } from '../lib/qr-code';
+
+describe('QR Code', () => {
+  it('computes Reed-Solomon error correction codewords', () => {
+    // "HELLO WORLD" at 1-M
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+    expect(getErrorCorrectionCodewords(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+
+  it('encodes the format information of level M', () => {
+    expect(getFormatBits(0).toString(2).padStart(15, '0')).toBe('101010000010010');
+    expect(getFormatBits(5).toString(2).padStart(15, '0')).toBe('100000011001110');
+  });
+
+  it('picks the smallest version that holds the text', () => {
+    expect(encodeQrCode('A1').version).toBe(1);
+    expect(encodeQrCode('x'.repeat(60)).version).toBe(4);
+    expect(encodeQrCode('x'.repeat(213))).toMatchObject({ version: 10, size: 57 });
+    expect(() => encodeQrCode('x'.repeat(214))).toThrow('Text too long for a QR code');
+  });
+
+  it('draws the finder, timing and version patterns', () => {
+    const qr = encodeQrCode('P=Tower A;M=B1;BM=B1-01;DIA=16;S=S1;A=4000;N=4');
+    const { size, modules } = qr;
+
+    // Finder patterns: dark ring, light ring, 3 × 3 dark centre
+    [[0, 0], [size - 7, 0], [0, size - 7]].forEach(([left, top]) => {
+      expect(modules[top][left + 3]).toBe(true);
+      expect(modules[top + 1][left + 1]).toBe(false);
+      expect(modules[top + 3][left + 3]).toBe(true);
+    });
+    expect(modules[6].slice(8, size - 8)).toEqual(modules[6].slice(8, size - 8).map((_, i) => i % 2 === 0));
+    expect(modules[size - 8][8]).toBe(true);
+
+    // Version 7 and up carry the version number next to the top-right finder
+    const v7 = encodeQrCode('x'.repeat(120));
+    expect(v7.version).toBe(7);
+    const versionBits = Array.from({ length: 18 }, (_, i) => v7.modules[Math.floor(i / 3)][v7.size - 11 + (i % 3)] ? 1 : 0);
+    expect(parseInt(versionBits.reverse().join(''), 2)).toBe(0x07c94);
+  });
+
+  it('draws the dark modules as an SVG path inside the quiet zone', () => {
+    const qr = encodeQrCode('A1');
+    const path = getQrCodePath(qr);
+    const dark = qr.modules.flat().filter(Boolean).length;
+    expect(path.match(/M/g)).toHaveLength(dark);
+    expect(path.startsWith('M4 4h1v1h-1z')).toBe(true);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SHAPE_REGISTRY,
+  calculateShapeCutLength,
+  toFormulaNotation
+} from '../lib/shape-registry';
+import { getStandardBendRadius } from '../lib/bend-allowance';
+import { calculateCutLength } from '../lib/calculator';
+import { splitFormulaTerms } from '../lib/excel-formula';
+import { formulaDisplayService } from '../lib/formula-display-service';
+import { DEFAULT_PROJECT_CONFIG } from '../lib/constants';
+import type { BarEntry, ShapeCode } from '../types';
+
+const config = DEFAULT_PROJECT_CONFIG;
+
+const bar = (shapeCode: ShapeCode, diameter: number, dimensions: BarEntry['dimensions']): BarEntry => ({
+  id: 'b1', memberType: 'BEAM', shapeCode, diameter, dimensions, spacing: 0, quantity: 1,
+});
+
+describe('Shape registry', () => {
+  it('keeps the original six shapes on their formulas', () => {
+    const dimensions = { A: 3000, B: 400, C: 300 };
+    // 12mm, deductions 1d / 2d / 3d, hook 9d
+    expect(calculateShapeCutLength('S1', dimensions, config, 12)).toBe(3000);
+    expect(calculateShapeCutLength('S2', dimensions, config, 12)).toBe(3000 + 800 - 48);
+    expect(calculateShapeCutLength('S3', dimensions, config, 12)).toBe(6800 + 216 - 96 - 72);
+    expect(calculateShapeCutLength('S4', dimensions, config, 12)).toBe(3000 + 500 + 300 - 24);
+    expect(calculateShapeCutLength('S5', dimensions, config, 12)).toBe(3400 - 24);
+    expect(calculateShapeCutLength('S6', dimensions, config, 12)).toBe(3000 + 108 - 24);
+  });
+
+  it('uses the BS 8666 standard bend radius', () => {
+    expect(getStandardBendRadius(12)).toBe(24);
+    expect(getStandardBendRadius(16)).toBe(32);
+    expect(getStandardBendRadius(20)).toBe(70);
+
+    expect(calculateCutLength(bar('11', 12, { A: 500, B: 300 }), config)).toBe(800 - 12 - 12);
+    expect(calculateCutLength(bar('21', 20, { A: 300, B: 1000, C: 300 }), config)).toBe(1600 - 70 - 40);
+    expect(calculateCutLength(bar('51', 10, { A: 300, B: 500, C: 100 }), config)).toBe(1800 - 50 - 50);
+    expect(calculateCutLength(bar('33', 16, { A: 800, B: 200, C: 150 }), config)).toBeCloseTo(1600 + 340 + 2 * (150 - 64));
+  });
+
+  it('switches the helix length formula on pitch', () => {
+    const turn = Math.PI * (500 - 10);
+    expect(calculateShapeCutLength('77', { A: 500, B: 50, C: 10 }, config, 10)).toBeCloseTo(10 * turn);
+    expect(calculateShapeCutLength('77', { A: 500, B: 150, C: 10 }, config, 10))
+      .toBeCloseTo(10 * Math.sqrt(turn * turn + 150 * 150));
+    expect(calculateShapeCutLength('75', { A: 600, B: 300 }, config, 12)).toBeCloseTo(Math.PI * 588 + 300);
+  });
+
+  it('gives every shape a finite length from its required dimensions', () => {
+    for (const shape of Object.values(SHAPE_REGISTRY)) {
+      const dimensions = { A: 1000, ...Object.fromEntries(shape.requiredDimensions.map(key => [key, 1000])) };
+      const length = calculateShapeCutLength(shape.code, dimensions, config, 12);
+      expect(Number.isFinite(length), shape.code).toBe(true);
+      expect(length, shape.code).toBeGreaterThan(0);
+      expect(shape.hasHook).toBe(shape.hookCount > 0);
+      expect(Object.keys(shape.dimensionLabels).sort()).toEqual([...shape.requiredDimensions].sort());
+    }
+  });
+
+  it('writes formulas in display notation', () => {
+    expect(toFormulaNotation('2*(A + B + C) - 2.5*R - 5*DIA')).toBe('2(A + B + C) - 2.5r - 5d');
+    expect(toFormulaNotation('PI()*(A - DIA) + B')).toBe('π(A - d) + B');
+    expect(splitFormulaTerms('A + 2*(B - C) - R').map(term => [term.sign, term.text])).toEqual([
+      [1, 'A'], [1, '2*(B - C)'], [-1, 'R'],
+    ]);
+  });
+
+  it('breaks down BS 8666 shapes term by term', () => {
+    const entry = bar('21', 20, { A: 300, B: 1000, C: 300 });
+    const breakdown = formulaDisplayService.generateBreakdown(entry, config);
+
+    expect(breakdown.shapeName).toBe('U-Bar');
+    expect(breakdown.formula).toBe('L = 300 + 1000 + 300 - 70 - 2 × 20');
+    expect(breakdown.codeReference).toContain('BS 8666');
+    expect(breakdown.steps.map(step => step.operation)).toEqual(['add', 'add', 'add', 'subtract', 'subtract']);
+
+    const total = breakdown.steps.reduce(
+      (sum, step) => sum + (step.operation === 'subtract' ? -step.value : step.value), 0
+    );
+    expect(total).toBe(breakdown.finalResult);
+    expect(formulaDisplayService.getFormulaTooltip('21')).toBe('21 - U-Bar: L = A + B + C - r - 2d');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySlabGrid,
+  createSlabGrid,
+  generateSlabPanels,
+  getPanelCase,
+  getTopExtension,
+  validateSlabGrid
+} from '../lib/slab-grid';
+import { applySlabOpenings, isSlabOpeningBarType } from '../lib/slab-openings';
+import type { DevelopmentLengthContext } from '../lib/development-length';
+
+const ld: DevelopmentLengthContext = { concreteGrade: 'M25', steelGrade: 'Fe500' };
+
+// Gridlines 1-3 at 4000 and A-C at 3500, 230 beams: four 3770 × 3270 panels
+const grid = createSlabGrid();
+
+describe('Slab Grid', () => {
+  it('generates a panel for every bay with its clear spans and beam widths', () => {
+    const panels = generateSlabPanels(grid, ld);
+
+    expect(panels.map(panel => panel.name)).toEqual(['A1', 'A2', 'B1', 'B2']);
+    expect(panels[0]).toMatchObject({
+      componentType: 'SLAB',
+      spanX: 3770,
+      spanY: 3270,
+      depth: 125,
+      beamWidths: { left: 230, right: 230, top: 230, bottom: 230 },
+      panelEdges: { left: false, right: true, top: true, bottom: false },
+      description: 'Two-way: Two adjacent edges discontinuous',
+    });
+  });
+
+  it('extends the top bars Lx/3 past continuous edges and Lx/4 past discontinuous ones', () => {
+    expect(getTopExtension(3270, true)).toBe(1090);
+    expect(getTopExtension(3270, false)).toBe(820);
+
+    const [a1, , , b2] = generateSlabPanels(grid, ld);
+    expect(a1.topExtensions).toEqual({ left: 820, right: 1090, top: 1090, bottom: 820 });
+    expect(b2.topExtensions).toEqual({ left: 1090, right: 820, top: 820, bottom: 1090 });
+
+    // Main bars measured from the panel: beam penetrations and both extensions
+    expect(a1.bars[0]).toMatchObject({ barType: 'Bottom Bar (X-X)', diameter: 10, spacing: 150 });
+    expect(a1.bars[0].measurements).toMatchObject({ a: 3770, b: 420, f: 1910 });
+  });
+
+  it('classifies two-way panels by their discontinuous edges', () => {
+    const edges = { left: true, right: true, top: true, bottom: true };
+    expect(getPanelCase(edges, 3000, 4000)).toBe('Interior panel');
+    expect(getPanelCase({ ...edges, left: false }, 3000, 4000)).toBe('One long edge discontinuous');
+    expect(getPanelCase({ ...edges, top: false }, 3000, 4000)).toBe('One short edge discontinuous');
+    expect(getPanelCase({ ...edges, left: false, right: false }, 3000, 4000)).toBe('Two long edges discontinuous');
+    expect(getPanelCase({ left: true, right: false, top: false, bottom: false }, 3000, 4000))
+      .toBe('Three edges discontinuous (one long edge continuous)');
+
+    const long = { ...grid, yLines: [{ position: 0, beamWidth: 230 }, { position: 9000, beamWidth: 230 }] };
+    expect(generateSlabPanels(long, ld)[0].description).toBe('One-way');
+  });
+
+  it('reports bays with no slab between the beams', () => {
+    expect(validateSlabGrid(grid)).toEqual([]);
+    const clashing = { ...grid, xLines: [{ position: 0, beamWidth: 300 }, { position: 200, beamWidth: 300 }] };
+    expect(validateSlabGrid(clashing)).toEqual(['No slab between gridlines 1 and 2']);
+  });
+
+  it('updates panels generated before and keeps their bars', () => {
+    const [a1, a2] = generateSlabPanels(grid, ld);
+    const edited = { ...a1, cover: 25, bars: [{ ...a1.bars[0], spacing: 125 }] };
+    const wider = { ...grid, xLines: grid.xLines.map(line => ({ ...line, beamWidth: 300 })) };
+
+    const components = applySlabGrid([edited, a2], wider, ld);
+
+    expect(components.map(c => c.name)).toEqual(['A1', 'A2', 'B1', 'B2']);
+    expect(components[0]).toMatchObject({ id: a1.id, cover: 25, spanX: 3700 });
+    expect(components[0].bars).toHaveLength(1);
+    expect(components[0].bars[0]).toMatchObject({ spacing: 125, measurements: { a: 3700, b: 2 * (300 - 25) } });
+  });
+
+  it('keeps the openings of a regenerated panel and lays out its opening bars again', () => {
+    const [a1] = generateSlabPanels(grid, ld);
+    const opening = { shape: 'RECTANGULAR' as const, x: 1000, y: 1000, width: 800, height: 600 };
+    const withOpening = applySlabOpenings({ ...a1, openings: [opening] }, ld);
+    const pieceLengths = (component: typeof a1) => component.bars
+      .filter(bar => bar.barType.includes('Piece'))
+      .map(bar => bar.measurements.a);
+    expect(pieceLengths(withOpening).length).toBeGreaterThan(0);
+
+    const wider = { ...grid, xLines: grid.xLines.map(line => ({ ...line, beamWidth: 300 })) };
+    const [regenerated] = applySlabGrid([withOpening], wider, ld);
+
+    expect(regenerated.openings).toEqual([opening]);
+    expect(regenerated.spanX).toBe(3700);
+    expect(regenerated.bars.filter(bar => isSlabOpeningBarType(bar.barType)).length)
+      .toBe(withOpening.bars.filter(bar => isSlabOpeningBarType(bar.barType)).length);
+    pieceLengths(regenerated).forEach(length => expect(length).toBeLessThan(3700));
+  });
+});
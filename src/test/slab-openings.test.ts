@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySlabOpenings,
+  generateSlabOpeningBars,
+  getInterruptedBarCount,
+  isSlabOpeningBarType
+} from '../lib/slab-openings';
+import { calculateBarsPerMember } from '../lib/enhanced-calculator';
+import { resolveDevelopmentLength, type DevelopmentLengthContext } from '../lib/development-length';
+import type { ComponentBarEntry, ConcreteComponent } from '../types/component-types';
+
+const ld: DevelopmentLengthContext = { concreteGrade: 'M25', steelGrade: 'Fe500' };
+
+const bar = (barType: string, direction: 'X' | 'Y', diameter: number, spacing: number, a: number): ComponentBarEntry => ({
+  id: barType, barType, direction, diameter, spacing, measurements: { a, b: 100, c: 100 },
+});
+
+// 1000 × 600 opening; X bars at 20 + 150i, Y bars at 20 + 200i
+const slab: ConcreteComponent = {
+  id: 's1', name: 'S1', componentType: 'SLAB', spanX: 4000, spanY: 3000, cover: 20,
+  bars: [bar('Bottom Bar (X-X)', 'X', 10, 150, 4000), bar('Bottom Bar (Y-Y)', 'Y', 8, 200, 3000)],
+  openings: [{ shape: 'RECTANGULAR', x: 1500, y: 1000, width: 1000, height: 600 }],
+};
+
+describe('Slab Openings', () => {
+  it('takes the bars through an opening out of the count', () => {
+    expect(getInterruptedBarCount('Bottom Bar (X-X)', 'X', slab, 150)).toBe(4);
+    expect(getInterruptedBarCount('Bottom Bar (Y-Y)', 'Y', slab, 200)).toBe(5);
+    expect(getInterruptedBarCount('Trimmer Bar (X-X) - O1', 'X', slab, 150)).toBe(0);
+
+    const solid = { ...slab, openings: undefined };
+    expect(calculateBarsPerMember('Bottom Bar (X-X)', 'X', slab, 150))
+      .toBe(calculateBarsPerMember('Bottom Bar (X-X)', 'X', solid, 150) - 4);
+  });
+
+  it('counts only the bars crossing a circular opening', () => {
+    const round: ConcreteComponent = { ...slab, openings: [{ shape: 'CIRCULAR', x: 1700, y: 1200, width: 600 }] };
+    expect(getInterruptedBarCount('Bottom Bar (X-X)', 'X', round, 150)).toBe(4);
+  });
+
+  it('cuts the bars into pieces and adds trimmer and corner bars', () => {
+    const entries = generateSlabOpeningBars(slab, ld);
+    const byType = (barType: string) => entries.find(entry => entry.barType === barType)!;
+
+    // Each piece keeps the 100mm end allowance of the full bar
+    expect(byType('Bottom Bar (X-X) - O1 Piece 1')).toMatchObject({ barsPerMember: 4, totalMembers: 1, measurements: { a: 1580 } });
+    expect(byType('Bottom Bar (X-X) - O1 Piece 2').measurements).toEqual({ a: 1580 });
+    expect(byType('Bottom Bar (Y-Y) - O1 Piece 1').measurements).toEqual({ a: 1080 });
+
+    // Half the cut steel each side: 4 × 10² / 2 → 2 bars, 5 × 8² / 2 → 3 bars
+    expect(byType('Trimmer Bar (X-X) - O1')).toMatchObject({
+      diameter: 10,
+      barsPerMember: 4,
+      measurements: { a: Math.ceil(1000 + 2 * resolveDevelopmentLength(10, ld)) },
+    });
+    expect(byType('Trimmer Bar (Y-Y) - O1').barsPerMember).toBe(6);
+    expect(byType('Corner Bar - O1')).toMatchObject({ direction: 'NONE', diameter: 10, barsPerMember: 4 });
+    expect(entries.every(entry => isSlabOpeningBarType(entry.barType))).toBe(true);
+  });
+
+  it('regenerates the opening bars and keeps the span bars', () => {
+    const once = applySlabOpenings(slab, ld);
+    const twice = applySlabOpenings(once, ld);
+    expect(twice.bars.map(entry => entry.barType)).toEqual(once.bars.map(entry => entry.barType));
+    expect(twice.bars.slice(0, 2)).toEqual(slab.bars);
+    expect(applySlabOpenings({ ...twice, openings: undefined }, ld).bars).toEqual(slab.bars);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySlabOutline,
+  createSlabOutline,
+  getOutlineArea,
+  getOutlineBounds,
+  getSlabStrips,
+  validateSlabOutline
+} from '../lib/slab-outline';
+import { applySlabOpenings } from '../lib/slab-openings';
+import { calculateBarMeasurementsAuto } from '../lib/enhanced-calculator';
+import type { DevelopmentLengthContext } from '../lib/development-length';
+import type { ComponentBarEntry, ConcreteComponent } from '../types/component-types';
+
+const ld: DevelopmentLengthContext = { concreteGrade: 'M25', steelGrade: 'Fe500' };
+
+const bar = (barType: string, direction: 'X' | 'Y', diameter: number, spacing: number, a: number): ComponentBarEntry => ({
+  id: barType, barType, direction, diameter, spacing, measurements: { a, b: 100, c: 100 },
+});
+
+const slab: ConcreteComponent = {
+  id: 's1', name: 'S1', componentType: 'SLAB', spanX: 4000, spanY: 3000, cover: 20,
+  bars: [bar('Bottom Bar (X-X)', 'X', 10, 150, 4000), bar('Bottom Bar (Y-Y)', 'Y', 8, 200, 3000)],
+};
+
+// 4000 × 3000 with the top right 2000 × 1500 cut away
+const lShape = createSlabOutline(slab, 'L_SHAPE');
+
+describe('Slab Outline', () => {
+  it('cuts an L-shaped outline into strips for each direction', () => {
+    expect(getSlabStrips(lShape, 'X')).toEqual([
+      { start: 0, length: 4000, offset: 0, width: 1500 },
+      { start: 0, length: 2000, offset: 1500, width: 1500 },
+    ]);
+    expect(getSlabStrips(lShape, 'Y')).toEqual([
+      { start: 0, length: 3000, offset: 0, width: 2000 },
+      { start: 0, length: 1500, offset: 2000, width: 2000 },
+    ]);
+
+    // A rectangle is one strip, however many corners lie along its edges
+    const rectangle = [{ x: 0, y: 0 }, { x: 2000, y: 0 }, { x: 4000, y: 0 }, { x: 4000, y: 3000 }, { x: 0, y: 3000 }];
+    expect(getSlabStrips(rectangle, 'X')).toEqual([{ start: 0, length: 4000, offset: 0, width: 3000 }]);
+  });
+
+  it('measures and checks the outline', () => {
+    expect(getOutlineBounds(lShape)).toEqual({ spanX: 4000, spanY: 3000 });
+    expect(getOutlineArea(lShape)).toBe(9_000_000);
+    expect(validateSlabOutline(lShape)).toEqual([]);
+
+    expect(validateSlabOutline(lShape.slice(0, 3))).toHaveLength(1);
+    expect(validateSlabOutline([{ x: 0, y: 0 }, { x: 4000, y: 0 }, { x: 3000, y: 3000 }, { x: 0, y: 3000 }]))
+      .toEqual(['Edge from corner 2 to 3 is not along X or Y']);
+  });
+
+  it('repeats the span bars once per strip with their own length and count', () => {
+    const shaped = applySlabOutline({ ...slab, outline: lShape }, ld);
+    const xBars = shaped.bars.filter(entry => entry.barType === 'Bottom Bar (X-X)');
+
+    expect(xBars).toHaveLength(2);
+    expect(xBars[0]).toMatchObject({
+      id: 'Bottom Bar (X-X)',
+      outlineStrip: { index: 1, start: 0, offset: 0 },
+      section_span_1: 4000,
+      section_span_2: 1500,
+      measurements: { a: 4000, b: 100, c: 100 },
+      barsPerMember: 1,
+      totalMembers: 10,
+    });
+    expect(xBars[1]).toMatchObject({
+      outlineStrip: { index: 2, start: 0, offset: 1500 },
+      measurements: { a: 2000 },
+      totalMembers: 10,
+    });
+
+    // Applying again regenerates the strips from the first rather than adding more
+    expect(applySlabOutline(shaped, ld).bars).toHaveLength(4);
+  });
+
+  it('goes back to whole-slab bars without an outline and ignores an invalid one', () => {
+    const shaped = applySlabOutline({ ...slab, outline: lShape }, ld);
+    const plain = applySlabOutline({ ...shaped, outline: undefined }, ld);
+
+    expect(plain.bars).toHaveLength(2);
+    expect(plain.bars[0]).toMatchObject({ measurements: { a: 4000 }, outlineStrip: undefined, totalMembers: undefined });
+    expect(plain.bars[1].measurements.a).toBe(3000);
+
+    const invalid = { ...slab, outline: lShape.slice(0, 3) };
+    expect(applySlabOutline(invalid, ld)).toBe(invalid);
+  });
+
+  it('cuts only the strip an opening falls in', () => {
+    const shaped = applySlabOutline({
+      ...slab,
+      outline: lShape,
+      openings: [{ shape: 'RECTANGULAR', x: 500, y: 2000, width: 600, height: 400 }],
+    }, ld);
+    const counts = shaped.bars.map(entry => [entry.barType, entry.outlineStrip?.index, entry.totalMembers]);
+
+    // X bars at 1520 + 150i in strip 2 → 2120 and 2270 cut; Y bars at 20 + 200i in strip 1 → 620, 820, 1020
+    expect(counts).toEqual([
+      ['Bottom Bar (X-X)', 1, 10],
+      ['Bottom Bar (X-X)', 2, 8],
+      ['Bottom Bar (Y-Y)', 1, 7],
+      ['Bottom Bar (Y-Y)', 2, 10],
+    ]);
+
+    const pieces = applySlabOpenings(shaped, ld).bars.filter(entry => entry.barType.includes('Piece'));
+    expect(pieces.map(entry => [entry.barType, entry.barsPerMember, entry.measurements.a])).toEqual([
+      ['Bottom Bar (X-X) - O1 Strip 2 Piece 1', 2, 580],
+      ['Bottom Bar (X-X) - O1 Strip 2 Piece 2', 2, 980],
+      ['Bottom Bar (Y-Y) - O1 Strip 1 Piece 1', 3, 2080],
+      ['Bottom Bar (Y-Y) - O1 Strip 1 Piece 2', 3, 680],
+    ]);
+  });
+
+  it('measures U-bar slabs over the strip run and keeps the entry\'s bars per member', () => {
+    const beamWidths = { left: 230, right: 230, top: 230, bottom: 230 };
+    const topExtensions = { left: 1000, right: 1000, top: 1000, bottom: 1000 };
+    const uSlab = { ...slab, beamWidths, topExtensions, bars: [{ ...slab.bars[0], barsPerMember: 2 }] };
+
+    const shaped = applySlabOutline({ ...uSlab, outline: lShape }, ld);
+    expect(shaped.bars[1].measurements).toEqual(
+      calculateBarMeasurementsAuto('Bottom Bar (X-X)', 'X', { ...uSlab, spanX: 2000 }, 10, ld, 2000)
+    );
+    expect(shaped.bars[1].measurements.a).toBeLessThan(shaped.bars[0].measurements.a);
+    expect(shaped.bars.map(entry => [entry.barsPerMember, entry.totalMembers])).toEqual([[2, 10], [2, 10]]);
+
+    const plain = applySlabOutline({ ...shaped, outline: undefined }, ld);
+    expect(plain.bars).toEqual([expect.objectContaining({ barsPerMember: 2, totalMembers: undefined })]);
+
+    // Entries counted from their spacing go back to being counted over the whole slab
+    const counted = applySlabOutline({ ...applySlabOutline({ ...slab, outline: lShape }, ld), outline: undefined }, ld);
+    expect(counted.bars.map(entry => entry.barsPerMember)).toEqual([undefined, undefined]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateStaircaseBarCount,
+  calculateStaircaseBarMeasurements,
+  getInclinedLength,
+  getStaircaseDetails,
+  getStaircasePlanLength
+} from '../lib/staircase-calculator';
+import { calculateBarsPerMember, calculateComponentBarEntryEnhanced } from '../lib/enhanced-calculator';
+import { resolveDevelopmentLength } from '../lib/development-length';
+import type { ConcreteComponent } from '../types/component-types';
+import { barEntry, ld } from './helpers';
+
+// 10 risers of 160 over 9 treads of 300: 2700 going, 1600 rise
+const stair: ConcreteComponent = {
+  id: 's1', name: 'ST1', componentType: 'STAIRCASE',
+  spanX: 0, spanY: 1200, depth: 150, cover: 20, bars: [],
+  staircase: { riser: 160, tread: 300, steps: 10, bottomLanding: 0, topLanding: 1250 },
+};
+
+describe('Staircase Calculator', () => {
+  it('works out the flight geometry', () => {
+    const details = getStaircaseDetails(stair);
+    expect(details.flights).toBe(2);
+    expect(getStaircaseDetails({ ...stair, staircase: { ...stair.staircase!, type: 'OPEN_WELL' } }).flights).toBe(3);
+    expect(getInclinedLength(details)).toBe(Math.ceil(Math.hypot(2700, 1600)));
+    expect(getStaircasePlanLength(details)).toBe(3950);
+  });
+
+  it('cranks main bars into the landing and anchors them into the floor', () => {
+    expect(calculateStaircaseBarMeasurements('Stair Main Bar', stair, 12, ld)).toEqual({
+      a: 3139,
+      b: Math.ceil(resolveDevelopmentLength(12, ld)),
+      c: 1230,
+    });
+    expect(calculateStaircaseBarCount('Stair Main Bar', stair, 150)).toBe(2 * 8);
+  });
+
+  it('spaces distribution bars along the flight and puts a nosing bar on every tread', () => {
+    expect(calculateStaircaseBarMeasurements('Stair Dist Bar', stair, 8, ld)).toEqual({ a: 1160 });
+    // (3139 + 1250) / 200 = 21.9 → 22 per flight
+    expect(calculateStaircaseBarCount('Stair Dist Bar', stair, 200)).toBe(44);
+    expect(calculateStaircaseBarCount('Nosing Bar', stair, 0)).toBe(18);
+  });
+
+  it('anchors both ends into the floors of a flight without landings', () => {
+    const flight = { ...stair, staircase: { ...stair.staircase!, topLanding: 0 } };
+    const ld12 = Math.ceil(resolveDevelopmentLength(12, ld));
+
+    expect(getStaircasePlanLength(getStaircaseDetails(flight))).toBe(2700);
+    expect(calculateStaircaseBarMeasurements('Stair Main Bar', flight, 12, ld)).toEqual({ a: 3139, b: ld12, c: ld12 });
+
+    const main = calculateComponentBarEntryEnhanced(barEntry('Stair Main Bar', 12, 150), flight, ld);
+    expect(main.noOfDeductions).toBe(2);
+    expect(main.cuttingLength).toBe(3139 + 2 * ld12 - 48);
+
+    // Distribution bars along the waist only: 3139 / 200 → 16 per flight
+    expect(calculateBarsPerMember('Stair Dist Bar', 'NONE', flight, 200)).toBe(32);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateZoneCounts,
+  describeZoneBreakdown,
+  getDefaultSpacingZones
+} from '../lib/stirrup-zones';
+import { calculateBarsPerMember, calculateComponentBarEntryEnhanced } from '../lib/enhanced-calculator';
+import type { ComponentBarEntry, ConcreteComponent } from '../types/component-types';
+
+const beam: ConcreteComponent = {
+  id: 'b1', name: 'B1', componentType: 'BEAM', spanX: 5000, spanY: 300, depth: 500, cover: 25, bars: [],
+};
+
+const column: ConcreteComponent = {
+  id: 'c1', name: 'C1', componentType: 'COLUMN', spanX: 400, spanY: 600, depth: 3300, cover: 40, bars: [],
+};
+
+describe('Stirrup Zones', () => {
+  it('counts bars zone by zone with shared boundaries', () => {
+    const breakdown = calculateZoneCounts(5000, [
+      { label: 'End', length: 950, spacing: 100 },
+      { label: 'Middle', spacing: 200 },
+      { label: 'End', length: 950, spacing: 100 },
+    ]);
+
+    // 1 + ceil(950/100) + ceil(3100/200) + ceil(950/100)
+    expect(breakdown.zones.map(zone => zone.count)).toEqual([11, 16, 10]);
+    expect(breakdown.total).toBe(37);
+    expect(breakdown.zones[1]).toMatchObject({ start: 950, end: 4050, length: 3100 });
+    expect(describeZoneBreakdown(breakdown)[0]).toBe('End: 0-950mm @ 100mm = 11 nos');
+
+    // One zone over the whole member counts as a single spacing plus the start bar
+    expect(calculateZoneCounts(3000, [{ spacing: 150 }]).total).toBe(21);
+  });
+
+  it('sets IS 13920 confinement zones for beams and columns', () => {
+    // d = 475: 2d = 950 at min(d/4, 100), middle at d/2
+    expect(getDefaultSpacingZones(beam, 300)).toEqual([
+      { label: 'End', length: 950, spacing: 100 },
+      { label: 'Middle', spacing: 235 },
+      { label: 'End', length: 950, spacing: 100 },
+    ]);
+
+    // lo = max(600, 3300/6, 450), B/4 = 100
+    const zones = getDefaultSpacingZones(column, 200);
+    expect(zones[0]).toEqual({ label: 'End', length: 600, spacing: 100 });
+    expect(zones[1].spacing).toBe(200);
+
+    // Short members are confined throughout
+    const short = getDefaultSpacingZones({ ...beam, spanX: 1200 }, 150);
+    expect(short[0].length).toBe(600);
+    expect(calculateZoneCounts(1200, short).zones[1].length).toBe(0);
+  });
+
+  it('uses zones in the stirrup and tie counts', () => {
+    const zones = getDefaultSpacingZones(beam, 200);
+    expect(calculateBarsPerMember('Stirrups', 'NONE', beam, 200)).toBe(25);
+    expect(calculateBarsPerMember('Stirrups', 'NONE', beam, 200, undefined, undefined, zones)).toBe(37);
+
+    const ties = getDefaultSpacingZones(column, 200);
+    // 1 + 6 + ceil(2100/200) + 6
+    expect(calculateBarsPerMember('Tie', 'NONE', column, 200, undefined, undefined, ties)).toBe(24);
+
+    const entry: ComponentBarEntry = {
+      id: 's1', barType: 'Stirrups', direction: 'NONE', diameter: 8, spacing: 200,
+      measurements: { a: 250 }, spacingZones: zones,
+    };
+    expect(calculateComponentBarEntryEnhanced(entry, beam).noOfBars).toBe(37);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyTieDesign,
+  designTies,
+  getTieHookLength,
+  getTieSection
+} from '../lib/tie-designer';
+import { calculateComponentBarEntryEnhanced } from '../lib/enhanced-calculator';
+import { generateBBSTable } from '../lib/bbs-table-formatter';
+import { cutRequirementsFromComponents } from '../lib/cutting-optimizer';
+import { getComponentBarTags } from '../lib/fabrication-tags';
+import { getComponentBarMarkSchedule } from '../lib/bar-marks';
+import type { ProjectConfig } from '../types';
+import type { BBSMetadata, ComponentBarEntry, ConcreteComponent } from '../types/component-types';
+
+const beam: ConcreteComponent = {
+  id: 'b1', name: 'B1', componentType: 'BEAM', spanX: 3000, spanY: 300, depth: 450, cover: 25, bars: [],
+};
+
+const column: ConcreteComponent = {
+  id: 'c1', name: 'C1', componentType: 'COLUMN', spanX: 450, spanY: 450, depth: 3000, cover: 40, bars: [],
+};
+
+const project: ProjectConfig = {
+  id: 'p1', name: 'P', codeStandard: 'IS', defaultCover: 25, defaultHookMultiplier: 9,
+  bendDeductions: { deg45: 1, deg90: 2, deg135: 3 }, calculationMode: 'COMPONENT',
+  createdAt: new Date('2024-01-01T10:00:00Z'), updatedAt: new Date('2024-01-01T10:00:00Z'),
+};
+
+const stirrups = (tieDesign: ComponentBarEntry['tieDesign'], diameter = 8): ComponentBarEntry => ({
+  id: 's1', barType: 'Stirrups', direction: 'NONE', diameter, spacing: 150, measurements: { a: 0 }, tieDesign,
+});
+
+describe('Tie Designer', () => {
+  it('uses IS 13920 135° hooks with a 65mm minimum extension', () => {
+    expect(getTieHookLength(135, 8)).toBe(65 + 32);
+    expect(getTieHookLength(135, 12)).toBe(120);
+    expect(getTieHookLength(90, 10)).toBe(80);
+  });
+
+  it('lays out closed links for 2-legged, 4-legged and diamond ties', () => {
+    const section = getTieSection(beam);
+    expect(section).toEqual({ width: 300, depth: 450, cover: 25, length: 3000 });
+
+    // 250 × 400 inside cover, two 97mm hooks, 6 bends at 2d
+    const two = designTies({ configuration: 'TWO_LEGGED' }, section, 8);
+    expect(two.legs).toBe(2);
+    expect(two.pieces).toHaveLength(1);
+    expect(two.pieces[0].shapeCode).toBe('S3');
+    expect(two.pieces[0].cutLength).toBe(1300 + 194 - 96);
+
+    const four = designTies({ configuration: 'FOUR_LEGGED' }, section, 8);
+    expect(four.legs).toBe(4);
+    expect(four.pieces.map(piece => piece.measurements.a)).toEqual([250, 83]);
+    expect(four.pieces[1].cutLength).toBe(2 * (83 + 400) + 194 - 96);
+    expect(four.lengthPerSet).toBe(1398 + 1064);
+
+    const diamond = designTies({ configuration: 'DIAMOND', hookAngle: 90 }, getTieSection(column), 8);
+    expect(diamond.hookLength).toBe(64);
+    expect(diamond.pieces[1].measurements).toMatchObject({ a: 262, b: 262, c: 262, d: 262 });
+  });
+
+  it('designs single-leg links, hoops and spirals', () => {
+    const link = designTies({ configuration: 'SINGLE_LEG' }, getTieSection(beam), 10);
+    expect(link.legs).toBe(1);
+    expect(link.pieces[0].shapeCode).toBe('S7');
+    expect(link.pieces[0].cutLength).toBe(400 + 2 * 105 - 2 * 20);
+
+    const hoop = designTies({ configuration: 'CIRCULAR_HOOP' }, getTieSection(column), 10);
+    expect(hoop.pieces[0].shapeCode).toBe('75');
+    expect(hoop.pieces[0].cutLength).toBe(Math.round(Math.PI * 360) + 210 - 40);
+
+    const spiral = designTies({ configuration: 'SPIRAL', pitch: 50 }, getTieSection(column), 10);
+    expect(spiral.turns).toBe(60 + 3);
+    expect(spiral.pieces[0].shapeCode).toBe('77');
+    expect(spiral.pieces[0].cutLength).toBe(Math.round(63 * Math.hypot(Math.PI * 360, 50)));
+
+    const fixed = designTies({ configuration: 'SPIRAL', pitch: 50, turns: 10 }, getTieSection(column), 10);
+    expect(fixed.turns).toBe(10);
+  });
+
+  it('counts every piece of each set in the bar totals', () => {
+    const result = calculateComponentBarEntryEnhanced(stirrups({ configuration: 'FOUR_LEGGED' }), beam);
+    // 3000 / 150 = 20 sets of 2 links
+    expect(result.noOfBars).toBe(40);
+    expect(result.cuttingLength).toBe(1398);
+    expect(result.totalLength).toBeCloseTo((20 * 2462) / 1000);
+    expect(result.ties!.legs).toBe(4);
+
+    // One spiral per member
+    const spiral = applyTieDesign(
+      { ...stirrups({ configuration: 'SPIRAL', pitch: 50 }, 10), barType: 'Tie', totalMembers: 2 },
+      column,
+      { totalMeasurement: 0, noOfDeductions: 0, deductionAmount: 0, cuttingLength: 0, noOfBars: 60, totalLength: 0, unitWeight: 0, totalWeight: 0 }
+    );
+    expect(spiral.noOfBars).toBe(2);
+
+    // Without a design the entry keeps its single closed link
+    expect(calculateComponentBarEntryEnhanced(stirrups(undefined), beam).ties).toBeUndefined();
+  });
+
+  it('lists each piece as its own BBS row', () => {
+    const metadata: BBSMetadata = {
+      projectName: 'P', drawingNumber: 'D', itemDescription: 'Beams', concreteGrade: 'M30', steelGrade: 'Fe500',
+    };
+    const table = generateBBSTable({ ...beam, bars: [stirrups({ configuration: 'FOUR_LEGGED' })] }, metadata);
+
+    expect(table.rows.map(row => row.barType)).toEqual([
+      'Stirrups - Outer link (S3)',
+      'Stirrups - Inner link (S3)',
+    ]);
+    expect(table.rows.map(row => row.cuttingLength)).toEqual([1398, 1064]);
+    expect(table.rows.map(row => row.totalNoOfBars)).toEqual([20, 20]);
+  });
+
+  it('cuts, tags and schedules each piece at its own length', () => {
+    const entry = { ...stirrups({ configuration: 'FOUR_LEGGED' }), barMark: 'B1-05' };
+    const withTies = { ...beam, bars: [entry] };
+
+    expect(cutRequirementsFromComponents([withTies])).toEqual([
+      { label: 'B1 - Stirrups - Outer link', diameter: 8, length: 1398, quantity: 20 },
+      { label: 'B1 - Stirrups - Inner link', diameter: 8, length: 1064, quantity: 20 },
+    ]);
+
+    const tags = getComponentBarTags([withTies], project);
+    expect(tags.map(tag => [tag.barType, tag.cutLength, tag.quantity])).toEqual([
+      ['Stirrups - Outer link', 1398, 20],
+      ['Stirrups - Inner link', 1064, 20],
+    ]);
+
+    const result = calculateComponentBarEntryEnhanced(entry, beam);
+    expect(tags.reduce((sum, tag) => sum + tag.weight, 0)).toBeCloseTo(result.totalWeight);
+    expect(getComponentBarMarkSchedule([withTies]).rows[0]).toMatchObject({
+      mark: 'B1-05', cutLength: 2462, quantity: 20, totalLength: result.totalLength,
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateWallBarCount,
+  calculateWallBarMeasurements,
+  getBaseWidth
+} from '../lib/wall-calculator';
+import {
+  calculateBarMeasurementsAuto,
+  calculateBarsPerMember,
+  calculateComponentBarEntryEnhanced
+} from '../lib/enhanced-calculator';
+import { resolveDevelopmentLength } from '../lib/development-length';
+import { getTieHookLength } from '../lib/tie-designer';
+import type { ConcreteComponent } from '../types/component-types';
+import { barEntry, lap, ld } from './helpers';
+
+const shearWall: ConcreteComponent = {
+  id: 'sw1', name: 'SW1', componentType: 'WALL', wallType: 'SHEAR',
+  spanX: 3000, spanY: 200, depth: 3000, cover: 25, bars: [],
+  wall: { boundaryLength: 450 },
+};
+
+const retainingWall: ConcreteComponent = {
+  id: 'rw1', name: 'RW1', componentType: 'WALL', wallType: 'RETAINING',
+  spanX: 6000, spanY: 300, depth: 3500, cover: 50, bars: [],
+  wall: { baseThickness: 500, heel: 1800, toe: 700 },
+};
+
+describe('Wall Calculator', () => {
+  it('laps shear wall verticals with the starters and closes the ends with U-bars', () => {
+    expect(calculateWallBarMeasurements('Vertical Bar', shearWall, 12, ld)).toEqual({ a: 3000 + lap(12) });
+    expect(calculateWallBarMeasurements('Horizontal Bar', shearWall, 10, ld)).toEqual({ a: 2950 });
+    expect(calculateWallBarMeasurements('End U-Bar', shearWall, 10, ld)).toEqual({ a: 150, b: lap(10), c: lap(10) });
+    expect(calculateWallBarMeasurements('Link Tie', shearWall, 8, ld)).toEqual({ a: 150 + 2 * getTieHookLength(135, 8) });
+
+    // 2100mm web between the boundary elements, two curtains
+    expect(calculateWallBarCount('Vertical Bar', shearWall, 200)).toBe(2 * 11);
+    expect(calculateWallBarCount('Horizontal Bar', shearWall, 200)).toBe(2 * 15);
+    expect(calculateWallBarCount('End U-Bar', shearWall, 200)).toBe(2 * 15);
+    expect(calculateWallBarCount('Link Tie', shearWall, 600)).toBe(4 * 5);
+  });
+
+  it('adds boundary element bars and hoops at both ends', () => {
+    // (450 - 50) / 150 → 3 + 1 bars along each face
+    expect(calculateWallBarCount('Boundary Element Bar', shearWall, 150)).toBe(2 * 8);
+    expect(calculateWallBarMeasurements('Boundary Element Hoop', shearWall, 8, ld))
+      .toEqual({ a: 2 * 400 + 2 * 150 + 2 * getTieHookLength(135, 8) });
+    expect(calculateWallBarCount('Boundary Element Hoop', shearWall, 100)).toBe(60);
+  });
+
+  it('anchors the retaining wall stem into the base and reinforces heel and toe', () => {
+    expect(getBaseWidth(retainingWall)).toBe(2800);
+    const ld16 = resolveDevelopmentLength(16, ld);
+    expect(calculateWallBarMeasurements('Stem Main Bar', retainingWall, 16, ld)).toEqual({
+      a: 3900,
+      b: Math.ceil(Math.max(ld16 - 400, 192)),
+    });
+    expect(calculateWallBarMeasurements('Heel Top Bar', retainingWall, 12, ld)).toEqual({
+      a: Math.ceil(Math.min(2700, 1750 + 300 + resolveDevelopmentLength(12, ld))),
+    });
+    expect(calculateWallBarMeasurements('Toe Bottom Bar', retainingWall, 12, ld)).toEqual({ a: 2700, b: 400, c: 400 });
+
+    expect(calculateWallBarCount('Stem Main Bar', retainingWall, 150)).toBe(40);
+    expect(calculateWallBarCount('Stem Dist Bar', retainingWall, 200)).toBe(2 * 18);
+    expect(calculateWallBarCount('Base Dist Bar', retainingWall, 200)).toBe(2 * 14);
+  });
+
+  it('spreads the web over the full length of a wall without boundary elements', () => {
+    const plain: ConcreteComponent = { ...shearWall, wall: undefined };
+
+    // 3000mm web, two curtains; ties on the grid over the full length
+    expect(calculateBarsPerMember('Vertical Bar', 'NONE', plain, 200)).toBe(2 * 15);
+    expect(calculateWallBarCount('Link Tie', plain, 600)).toBe(5 * 5);
+    expect(calculateBarMeasurementsAuto('Horizontal Bar', 'X', plain, 10, ld)).toEqual({ a: 2950 });
+
+    // No boundary bars or hoops to schedule
+    expect(calculateWallBarMeasurements('Boundary Element Hoop', plain, 8, ld)).toBeUndefined();
+    for (const [barType, diameter] of [['Boundary Element Bar', 16], ['Boundary Element Hoop', 8]] as const) {
+      expect(calculateComponentBarEntryEnhanced(barEntry(barType, diameter, 150), plain, ld).noOfBars).toBe(0);
+    }
+  });
+});
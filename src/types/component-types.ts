@@ -1,11 +1,94 @@
 // Concrete component types matching BBS spreadsheet format
+import type { ShapeCode } from './index';
+
 export const COMPONENT_TYPES_VERSION = '1.0.0'; // Runtime export to ensure module resolution
 
-export type ConcreteComponentType = 'BEAM' | 'COLUMN' | 'SLAB' | 'FOOTING';
+export type ConcreteComponentType = 'BEAM' | 'COLUMN' | 'SLAB' | 'FOOTING' | 'STAIRCASE' | 'WALL';
 
 // Footing subtypes (pile variants)
 export type FootingType = 'ISOLATED' | 'COMBINED' | 'PILE_CYLINDER' | 'PILE_CUBOID';
 
+// Piles under a pile cap (PILE_CYLINDER: circular piles, PILE_CUBOID: square piles)
+export interface PileDetails {
+  diameter: number;                // mm - diameter, or side of a square pile
+  length: number;                  // mm - below the cap soffit
+  count?: number;                  // Piles under the cap (default 1)
+  embedment?: number;              // mm - pile head cast into the cap (default 75)
+}
+
+// Combined, stepped and sloped footings
+export type FootingProfile = 'FLAT' | 'STEPPED' | 'SLOPED';
+
+export interface FootingColumn {
+  position: number;                // mm - column centre from the left edge of the footing (along X)
+  width: number;                   // mm - along X
+  depth: number;                   // mm - along Y
+  barDiameter?: number;            // mm - column main bars the dowels lap with
+  barCount?: number;
+}
+
+export interface FootingGeometry {
+  columns?: FootingColumn[];       // Combined footings carry two or more columns along X
+  strapBeam?: { width: number; depth: number };  // mm - strap beam between the first and last columns
+  profile?: FootingProfile;        // Top of an isolated footing (default FLAT)
+  edgeDepth?: number;              // mm - depth at the edge (sloped) or of the lower step (stepped)
+  topLength?: number;              // mm - flat top or upper step along X (default column + 150)
+  topWidth?: number;               // mm - flat top or upper step along Y (default column + 150)
+}
+
+// Staircases: one flight with the landings at its foot and head (spanY is the flight
+// width, depth the waist slab thickness); identical flights are counted with flights
+export type StaircaseType = 'DOG_LEGGED' | 'OPEN_WELL';
+
+export interface StaircaseDetails {
+  type?: StaircaseType;            // Default DOG_LEGGED
+  riser: number;                   // mm
+  tread: number;                   // mm - going of one step
+  steps: number;                   // Risers in the flight
+  bottomLanding?: number;          // mm - landing at the foot (0: flight starts from the floor)
+  topLanding?: number;             // mm - landing at the head (0: flight ends at the floor above)
+  flights?: number;                // Identical flights (default 2 dog-legged, 3 open-well)
+}
+
+// Walls: spanX is the wall length, spanY the thickness and depth the height (stem
+// height above the base for retaining walls)
+export type WallType = 'RETAINING' | 'SHEAR';
+
+export interface WallDetails {
+  baseThickness?: number;          // mm - retaining wall base slab (default 450)
+  heel?: number;                   // mm - base behind the stem, under the retained earth (default 1500)
+  toe?: number;                    // mm - base in front of the stem (default 600)
+  boundaryLength?: number;         // mm - shear wall boundary element at each end (default 0: none)
+}
+
+// Slab openings: x and y locate the corner of the opening (or of the square round a
+// circular opening) from the left and bottom edges of the slab
+export type OpeningShape = 'RECTANGULAR' | 'CIRCULAR';
+
+export interface SlabOpening {
+  label?: string;                  // "O1", ... (default "O<n>")
+  shape: OpeningShape;
+  x: number;                       // mm - from the left edge of the slab
+  y: number;                       // mm - from the bottom edge of the slab
+  width: number;                   // mm - along X; diameter of a circular opening
+  height?: number;                 // mm - along Y (rectangular only)
+}
+
+// Plan outlines of L-shaped and composite slabs: orthogonal polygons, corners in order,
+// in mm from the slab origin (as openings)
+export interface PlanPoint {
+  x: number;
+  y: number;
+}
+
+// Strip of a slab outline covered by one bar entry
+export interface OutlineStrip {
+  index: number;                   // 1-based, per bar type and direction
+  start: number;                   // mm - where the bars start, along their direction
+  offset: number;                  // mm - edge of the strip, across the bars
+  ownCount?: boolean;              // Entry had no bars per member of its own: 1 per strip, cleared without the outline
+}
+
 // Grade of steel and concrete
 export type ConcreteGrade = 'M20' | 'M25' | 'M30' | 'M35' | 'M40';
 export type SteelGrade = 'Fe415' | 'Fe500' | 'Fe550';
@@ -23,8 +106,10 @@ export interface BBSMetadata {
   itemDescription: string;         // e.g., "20th Floor Slab Reinforcement"
   concreteGrade: ConcreteGrade;
   steelGrade: SteelGrade;
-  developmentLengths?: any;        // Development length tables
+  developmentLengths?: any;        // Legacy Ld table, moved into developmentLengthOverrides on load
+  developmentLengthOverrides?: Record<number, number>; // Ld per diameter, replaces the calculated value
   standardBarLength?: number;      // Standard bar length in mm
+  splicePlanning?: boolean;        // Plan lap splices per code profile instead of the Excel lap formula
 }
 
 // Component definition (like "A1 (B1 - 3H)" in the image)
@@ -34,6 +119,11 @@ export interface ConcreteComponent {
   description?: string;            // e.g., "(B1 - 3H)"
   componentType: ConcreteComponentType;
   footingType?: FootingType;       // Only for FOOTING
+  pile?: PileDetails;              // Only for pile footings; the component is the pile cap
+  footing?: FootingGeometry;       // Only for combined, stepped and sloped footings
+  staircase?: StaircaseDetails;    // Only for STAIRCASE
+  wallType?: WallType;             // Only for WALL (default SHEAR)
+  wall?: WallDetails;              // Only for WALL
   
   // Span dimensions
   spanX: number;                   // mm - Span in X direction
@@ -58,8 +148,80 @@ export interface ConcreteComponent {
     bottom: number;
   };
   
+  // Edges running on into the next panel, for slab panels generated from a beam grid
+  panelEdges?: PanelEdges;
+  
+  // Orthogonal plan outline with re-entrant corners (only for SLAB; spans are its bounding box)
+  outline?: PlanPoint[];
+  
+  // Openings and cut-outs (only for SLAB)
+  openings?: SlabOpening[];
+  
+  // Continuous beam over several supports (only for BEAM)
+  continuousSpans?: ContinuousBeamLayout;
+  
+  // Floor-by-floor column schedule (only for COLUMN)
+  columnSchedule?: ColumnScheduleLayout;
+  
   // Reinforcement bars (child entries)
   bars: ComponentBarEntry[];
+
+  // Issued (locked) bar marks whose bars were regenerated away, flagged until the next issue
+  droppedBarMarks?: string[];
+}
+
+// Beam grids: slab panels between the beams of a floor
+export interface GridLine {
+  label?: string;                  // Default "1", "2"... across X and "A", "B"... across Y
+  position: number;                // mm - beam centreline from the first gridline
+  beamWidth: number;               // mm - beam along the gridline
+}
+
+export interface SlabGridLayout {
+  xLines: GridLine[];              // Gridlines crossing X, left to right
+  yLines: GridLine[];              // Gridlines crossing Y, bottom to top
+  depth: number;                   // mm - slab thickness
+  diameter?: number;               // mm - panel main bars (default 10)
+  spacing?: number;                // mm (default 150)
+}
+
+// true where the slab is continuous over the beam into the next panel
+export interface PanelEdges {
+  left: boolean;
+  right: boolean;
+  top: boolean;
+  bottom: boolean;
+}
+
+// Continuous multi-span beams
+export interface ContinuousBeamBarSet {
+  diameter: number;                // mm
+  count: number;                   // Bars in the section
+}
+
+export interface ContinuousBeamLayout {
+  spans: number[];                 // mm - clear spans, left to right
+  supports: number[];              // mm - support widths, one more than spans (end columns first and last)
+  topBarExtension?: 3 | 4;         // Support top bars run L/3 or L/4 into each adjacent span (default L/3)
+  bottomBars: ContinuousBeamBarSet;      // Through every span, lapped at interior supports
+  throughTopBars?: ContinuousBeamBarSet; // End to end, lapped past the stock length (default: as supportTopBars)
+  supportTopBars: ContinuousBeamBarSet;  // Over each support
+  curtailedBars?: ContinuousBeamBarSet;  // Extra bottom bars stopped short of the supports
+}
+
+// Column schedules: one column mark stacked over several floors
+export interface ColumnFloor {
+  label?: string;                  // "GF", "1F", ... (default "Floor n")
+  height: number;                  // mm - floor to floor
+  width: number;                   // mm - section along X
+  depth: number;                   // mm - section along Y
+  diameter: number;                // mm - main bars
+  count: number;                   // Main bars in the section
+}
+
+export interface ColumnScheduleLayout {
+  floors: ColumnFloor[];           // Bottom to top
+  roofSlabDepth?: number;          // mm - slab the top floor bars anchor into (default 150)
 }
 
 // Direction of bars
@@ -76,6 +238,74 @@ export interface BarMeasurements {
   lap?: number;                    // mm - lap length
 }
 
+// Lap splices of a bar longer than the stock length
+/** Bars of one stagger group: same pieces, same lap positions */
+export interface SpliceGroup {
+  quantity: number;
+  pieces: number[];                // mm - piece lengths along the bar, first to last
+  lapCentres: number[];            // mm from the start of the bar
+  inRestrictedZone: boolean;       // A lap could not be kept out of a maximum-moment zone
+}
+
+export interface BarSplicePlan {
+  barLength: number;               // mm - length of the bar without laps
+  diameter: number;
+  lapLength: number;               // mm - length of one lap
+  laps: number;                    // Laps per bar
+  staggerDistance: number;         // mm - offset between the laps of adjacent groups
+  groups: SpliceGroup[];
+  totalLapLength: number;          // mm per bar (laps × lap length)
+  warnings: string[];
+}
+
+// Stirrup and tie designs
+export type TieConfiguration =
+  | 'TWO_LEGGED'                   // Single closed rectangular link
+  | 'FOUR_LEGGED'                  // Outer link + inner link round the middle bars
+  | 'DIAMOND'                      // Outer link + diamond through the mid-side bars
+  | 'SINGLE_LEG'                   // Straight link hooked at both ends
+  | 'CIRCULAR_HOOP'                // Closed hoop in a circular section
+  | 'SPIRAL';                      // Continuous helix at a pitch
+
+export type TieHookAngle = 90 | 135;
+
+/** Tie layout chosen for a stirrup/tie bar entry */
+export interface TieDesign {
+  configuration: TieConfiguration;
+  hookAngle?: TieHookAngle;        // Default 135° (seismic hooks per IS 13920)
+  pitch?: number;                  // mm - spiral pitch, defaults to the entry spacing
+  turns?: number;                  // Spiral turns, defaults to the member length / pitch + 1.5 turns each end
+}
+
+/** One piece of a tie set, e.g. the outer or inner link of a 4-legged stirrup */
+export interface TiePiece {
+  name: string;                    // "Outer link", "Diamond", ...
+  shapeCode: ShapeCode;
+  count: number;                   // Pieces per tie set
+  measurements: BarMeasurements;   // Sides in a..d, hooks after the sides
+  hooks: number;
+  bends: number;                   // Deducted at 2d each, like other component bars
+  cutLength: number;               // mm
+}
+
+export interface TieLayout {
+  configuration: TieConfiguration;
+  hookAngle: TieHookAngle;
+  hookLength: number;              // mm per hook
+  legs: number;                    // Legs crossing the section per tie set
+  pieces: TiePiece[];
+  piecesPerSet: number;
+  lengthPerSet: number;            // mm - total cut length of one tie set
+  turns?: number;                  // Spirals only
+}
+
+/** Stirrup/tie spacing zone along the member, e.g. a confinement zone at a beam end */
+export interface StirrupZone {
+  label?: string;                  // "End", "Middle", ...
+  length?: number;                 // mm - omitted: takes what the other zones leave of the member
+  spacing: number;                 // mm (c/c) within the zone
+}
+
 // Calculated result for each bar entry
 export interface CalculatedBarResult {
   totalMeasurement: number;        // Sum of a+b+c+d+e+f+lap
@@ -86,6 +316,8 @@ export interface CalculatedBarResult {
   totalLength: number;             // m - cutting length × quantity
   unitWeight: number;              // kg per meter (based on diameter)
   totalWeight: number;             // kg - total weight for this entry
+  splices?: BarSplicePlan;         // Lap splice plan when the bar exceeds the stock length
+  ties?: TieLayout;                // Pieces of a designed stirrup/tie set; cuttingLength is the first piece
 }
 
 // Bar entry within a component (like "Bottom Bar X-X" in image)
@@ -105,6 +337,8 @@ export interface ComponentBarEntry {
   // Section-specific dimensions (for composite/L-shaped slabs)
   section_span_1?: number;         // mm - Section-specific override or base dimension
   section_span_2?: number;         // mm - Extension or alternate section dimension
+  outlineStrip?: OutlineStrip;     // Strip of the slab outline: section_span_1 is the bar run, section_span_2 the strip width
+  columnFloor?: number;            // 0-based floor of the column schedule the entry is measured and counted for
   
   // Measurements (a, b, c, d, e, f, Lap as per BBS format)
   measurements: BarMeasurements;
@@ -115,6 +349,16 @@ export interface ComponentBarEntry {
   // Quantity override (optional, if user wants to override auto-calc)
   manualNoOfBars?: number;
   
+  // Stirrup/tie layout (optional, stirrup and tie bar types only)
+  tieDesign?: TieDesign;
+  
+  // Zone-wise stirrup/tie spacing (optional, replaces the single spacing in the count)
+  spacingZones?: StirrupZone[];
+  
+  // Bar mark (e.g. "B1-01"), shared by identical bars; locked once issued
+  barMark?: string;
+  barMarkLocked?: boolean;
+  
   // Calculated results (populated by calculator)
   calculated?: CalculatedBarResult;
 }
@@ -1,12 +1,21 @@
 // Core type definitions for RebarCalc BBS Calculator
 export * from './component-types';
-import type { ConcreteComponent, BBSMetadata } from './component-types';
+import type { ConcreteComponent, ConcreteComponentType, BBSMetadata } from './component-types';
+
+// How bend deductions are worked out: flat multipliers per angle, or from the
+// bend geometry (actual angle and the minimum former diameter for the bar)
+export type BendDeductionMode = 'MULTIPLIER' | 'GEOMETRIC';
+
+// Table of minimum former (mandrel) diameters used in GEOMETRIC mode
+export type FormerDiameterTable = 'BS 8666' | 'IS 2502';
 
 // Bend deductions configuration
 export interface BendDeductions {
   deg45: number;  // multiplier × diameter (default: 1)
   deg90: number;  // multiplier × diameter (default: 2)
   deg135: number; // multiplier × diameter (default: 3)
+  mode?: BendDeductionMode;           // Default MULTIPLIER
+  formerTable?: FormerDiameterTable;  // GEOMETRIC mode only, default IS 2502
 }
 
 // Project configuration
@@ -22,6 +31,9 @@ export interface ProjectConfig {
   // Methodology settings
   calculationMode: 'MANUAL' | 'COMPONENT';
   
+  // Bar mark patterns per member type, e.g. "{member}-{nn}"
+  barMarkPatterns?: Partial<Record<ConcreteComponentType, string>>;
+  
   // Component-based data
   components?: ConcreteComponent[];
   bbsMetadata?: BBSMetadata;
@@ -30,18 +42,38 @@ export interface ProjectConfig {
   updatedAt: Date;
 }
 
-// Shape codes
-export type ShapeCode = 'S1' | 'S2' | 'S3' | 'S4' | 'S5' | 'S6';
+// Shape codes: the original six (S1-S6) and the BS 8666:2020 shape codes
+export type LegacyShapeCode = 'S1' | 'S2' | 'S3' | 'S4' | 'S5' | 'S6' | 'S7';
+export type BS8666ShapeCode =
+  | '00' | '11' | '13' | '15'
+  | '21' | '22' | '23' | '24' | '25' | '26' | '27' | '28' | '29'
+  | '31' | '32' | '33' | '34' | '35' | '36'
+  | '41' | '44' | '46' | '47'
+  | '51' | '52' | '56'
+  | '63' | '64' | '67'
+  | '75' | '77' | '98';
+export type ShapeCode = LegacyShapeCode | BS8666ShapeCode;
+
+// Shape dimension letters (as on the BBS and in the shape code diagrams)
+export type ShapeDimension = 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+
+// Standard a shape code is taken from
+export type ShapeStandard = 'IS 2502' | 'BS 8666';
 
 // Shape definition
 export interface ShapeDefinition {
   code: ShapeCode;
+  standard: ShapeStandard;
   name: string;
   description: string;
-  requiredDimensions: ('A' | 'B' | 'C' | 'D')[];
+  requiredDimensions: ShapeDimension[];
   bendAngles: number[];  // angles in degrees for deduction calculation
   hasHook: boolean;
-  diagramSvg: string;    // SVG path for visual representation
+  hookCount: number;     // hooks added as HOOK in the cut-length formula
+  cutLengthFormula: string;  // Excel-style expression, see shape-registry.ts for the names
+  formulaNotation: string;   // Formula as shown to the user
+  diagramSvg: string;    // SVG path for visual representation (200 × 100 view box)
+  dimensionLabels: Partial<Record<ShapeDimension, [number, number]>>;  // Label positions on the diagram
 }
 
 // Bar dimensions
@@ -50,6 +82,8 @@ export interface BarDimensions {
   B?: number;  // secondary dimension (mm)
   C?: number;  // tertiary dimension (mm)
   D?: number;  // quaternary dimension (mm)
+  E?: number;  // BS 8666 shapes with five or more dimensions (mm)
+  F?: number;
 }
 
 // Member type
@@ -66,6 +100,8 @@ export interface BarEntry {
   spacing: number;         // mm (0 for individual bars)
   quantity: number;
   remarks?: string;
+  barMark?: string;        // e.g. "B-01", shared by identical bars
+  barMarkLocked?: boolean; // Kept as issued when marks are reassigned
 }
 
 // Calculated result
@@ -106,6 +142,15 @@ export interface MemberDefaults {
   commonDiameters: number[];
 }
 
+// Lap splice rules for bars longer than the stock length
+export interface LapSpliceRules {
+  lapFactor: number;             // Lap length = lapFactor × Ld
+  minLapDiameters: number;       // Lap length ≥ minLapDiameters × diameter
+  minLapLength: number;          // mm - absolute minimum lap length
+  maxBarsSplicedPercent: number; // Max % of bars lapped at one section
+  staggerFactor: number;         // Centre-to-centre distance between staggered laps, × lap length
+}
+
 // Code profile definitions
 export interface CodeProfile {
   id: string;
@@ -133,12 +178,15 @@ export interface CodeProfile {
     [K in MemberType]: number;
   };
   
-  // Development length factors (for future use)
+  // Development length factors: multipliers on the tension Ld from bond stress
   developmentLengthFactors?: {
     straight: number;
     hooked: number;
     compression: number;
   };
+
+  // Lap splicing and staggering of long bars
+  lapSplice?: LapSpliceRules;
 }
 
 // Code profile service interface